@@ -1,50 +1,149 @@
 /**
  * wnb bagit command
- * Create and verify BagIt packages (RFC 8493)
+ * Create, verify, complete and update BagIt packages (RFC 8493), as directories or archives
  */
 
 import { Command } from 'commander';
 import * as path from 'node:path';
-import { createBag, verifyBag } from '../../services/bagit/index.js';
+import { createInterface } from 'node:readline';
+import {
+  createBag,
+  verifyBag,
+  completeBag,
+  addToBag,
+  removeFromBag,
+  regenerateBag,
+  loadBagItProfile,
+  missingBagInfoTags
+} from '../../services/bagit/index.js';
 import { formatError, formatSize, formatDuration } from '../output.js';
-import type { BagItAlgorithm } from '../../services/bagit/schemas.js';
+import {
+  BagItAlgorithmSchema,
+  type BagItAlgorithm,
+  type BagItCompleteResult,
+  type BagItProfile,
+  type BagItSerialization,
+  type BagItUpdateResult
+} from '../../services/bagit/schemas.js';
 
 /**
- * wnb bagit - Create or verify BagIt packages
+ * wnb bagit complete - Fetch the files of a holey bag
+ */
+const completeCommand = new Command('complete')
+  .description('Fetch the files listed in fetch.txt, verify them and mark the bag complete')
+  .argument('<bag>', 'Holey bag to complete')
+  .action(async (bag: string, _options, command: Command) => {
+    // Options shared with `wnb bagit` are parsed by it, wherever they appear
+    const options = command.optsWithGlobals();
+    try {
+      const result = await completeBag(path.resolve(bag), {
+        onProgress: options.quiet || options.format === 'json' ? undefined : (current, total, file) => {
+          process.stderr.write(`\rFetching ${current}/${total}: ${path.basename(file)}`.padEnd(80));
+        }
+      });
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        printCompleteResult(result, options.quiet);
+      }
+      process.exit(result.complete ? 0 : 1);
+    } catch (err) {
+      console.error(formatError(String(err)));
+      process.exit(1);
+    }
+  });
+
+/**
+ * wnb bagit add - Add payload to an existing bag
+ */
+const addCommand = new Command('add')
+  .description('Add files or directories to a bag\'s payload and update its manifests')
+  .argument('<bag>', 'Bag directory')
+  .argument('<sources...>', 'Files or directories to add (files already under data/ are added in place)')
+  .option('--to <dir>', 'Directory in data/ to add them to (default: data/)')
+  .option('--move', 'Move the sources into the bag instead of copying them')
+  .action(async (bag: string, sources: string[], localOptions, command: Command) => {
+    await runUpdate(command, onProgress => addToBag(bag, sources, {
+      destination: localOptions.to,
+      move: localOptions.move,
+      includeHiddenFiles: command.optsWithGlobals().includeHidden,
+      onProgress
+    }));
+  });
+
+/**
+ * wnb bagit remove - Remove payload from an existing bag
+ */
+const removeCommand = new Command('remove')
+  .description('Remove payload files or directories from a bag and update its manifests')
+  .argument('<bag>', 'Bag directory')
+  .argument('<paths...>', 'Payload paths, relative to the bag (data/...) or to data/')
+  .action(async (bag: string, paths: string[], _options, command: Command) => {
+    await runUpdate(command, onProgress => removeFromBag(bag, paths, { onProgress }));
+  });
+
+/**
+ * wnb bagit regenerate - Rewrite a bag's manifests from its payload
+ */
+const regenerateCommand = new Command('regenerate')
+  .description('Rehash the payload in data/ and rewrite the manifests (-a changes their algorithms)')
+  .argument('<bag>', 'Bag directory')
+  .action(async (bag: string, _options, command: Command) => {
+    const options = command.optsWithGlobals();
+    await runUpdate(command, onProgress => regenerateBag(bag, {
+      algorithms: parseAlgorithms(options.algorithm),
+      includeHiddenFiles: options.includeHidden,
+      onProgress
+    }));
+  });
+
+/**
+ * wnb bagit - Create, verify, complete or update BagIt packages
  */
 export const bagitCommand = new Command('bagit')
-  .description('Create or verify BagIt packages (RFC 8493)')
-  .argument('<dir>', 'Directory to bag or existing bag to verify')
+  .description('Create, verify, complete or update BagIt packages (RFC 8493)')
+  .argument('<dir>', 'Directory to bag, or bag (directory or .tar/.tar.gz/.zip) to verify')
   .option('-o, --output <path>', 'Output bag directory (default: modify in-place)')
-  .option('-a, --algorithm <alg>', 'Hash algorithm: sha256 (default), sha512', 'sha256')
+  .option('-a, --algorithm <algs>', 'Manifest algorithms, comma-separated: sha256 (default, or as the profile asks), sha512, sha1, md5')
   .option('--verify', 'Verify existing bag instead of creating')
   .option('--no-move', 'Copy files instead of moving to data/ (when creating)')
   .option('--include-hidden', 'Include hidden files (starting with .)')
   .option('--exclude <pattern...>', 'Patterns to exclude')
+  .option('--fetch <pattern...>', 'Leave matching payload files out of data/ and list them in fetch.txt (needs -o)')
+  .option('--serialize <format>', 'Also write the bag as one archive beside it: tar, tgz, zip (with a checksum file)')
+  .option('--fetch-url <url>', 'Base URL the --fetch files are served from (default: file: URLs of the sources)')
   .option('--source-org <org>', 'Source-Organization for bag-info.txt')
   .option('--contact-name <name>', 'Contact-Name for bag-info.txt')
   .option('--contact-email <email>', 'Contact-Email for bag-info.txt')
   .option('--description <desc>', 'External-Description for bag-info.txt')
   .option('--identifier <id>', 'External-Identifier for bag-info.txt')
+  .option('--info <field...>', 'Other bag-info.txt fields as Label=value')
+  .option('--profile <file|url>', 'BagIt profile JSON to create to (prompts for missing tags) or verify against')
   .option('-f, --format <fmt>', 'Output format: text (default), json', 'text')
   .option('-q, --quiet', 'Minimal output')
+  .addCommand(completeCommand)
+  .addCommand(addCommand)
+  .addCommand(removeCommand)
+  .addCommand(regenerateCommand)
   .action(async (dir: string, options) => {
     try {
       const resolvedDir = path.resolve(dir);
       const format = options.format as 'text' | 'json';
 
-      // Validate algorithm
-      const validAlgorithms = ['sha256', 'sha512'];
-      if (!validAlgorithms.includes(options.algorithm)) {
-        console.error(`Error: --algorithm must be one of: ${validAlgorithms.join(', ')}`);
+      const algorithms = parseAlgorithms(options.algorithm);
+      const validSerializations = ['tar', 'tgz', 'zip'];
+      if (options.serialize && !validSerializations.includes(options.serialize)) {
+        console.error(`Error: --serialize must be one of: ${validSerializations.join(', ')}`);
         process.exit(1);
       }
-      const algorithm = options.algorithm as BagItAlgorithm;
+      const profile = options.profile ? await loadBagItProfile(options.profile) : undefined;
 
       if (options.verify) {
         // Verify existing bag
         const result = await verifyBag(resolvedDir, {
           verbose: !options.quiet,
+          profile,
           onProgress: options.quiet ? undefined : (current, total, file) => {
             process.stderr.write(`\rVerifying ${current}/${total}: ${path.basename(file)}`);
           }
@@ -61,7 +160,7 @@ export const bagitCommand = new Command('bagit')
         }
 
         // Exit with appropriate code
-        if (!result.valid) {
+        if (!result.valid || result.profile?.valid === false) {
           process.exit(1);
         }
 
@@ -73,14 +172,29 @@ export const bagitCommand = new Command('bagit')
         if (options.contactEmail) bagInfo['Contact-Email'] = options.contactEmail;
         if (options.description) bagInfo['External-Description'] = options.description;
         if (options.identifier) bagInfo['External-Identifier'] = options.identifier;
+        for (const field of (options.info ?? []) as string[]) {
+          const separator = field.indexOf('=');
+          if (separator < 1) {
+            console.error(`Error: --info expects Label=value, got: ${field}`);
+            process.exit(1);
+          }
+          bagInfo[field.slice(0, separator).trim()] = field.slice(separator + 1).trim();
+        }
+        if (profile && process.stdin.isTTY && !options.quiet && format !== 'json') {
+          await promptForBagInfo(profile, bagInfo);
+        }
 
         let lastProgress = 0;
         const result = await createBag(resolvedDir, {
-          algorithm,
+          algorithms,
           outputPath: options.output,
           inPlace: options.move !== false,
           includeHiddenFiles: options.includeHidden,
           excludePatterns: options.exclude,
+          fetchPatterns: options.fetch,
+          fetchUrl: options.fetchUrl,
+          profile,
+          serialize: options.serialize as BagItSerialization | undefined,
           bagInfo: Object.keys(bagInfo).length > 0 ? bagInfo : undefined,
           onProgress: options.quiet ? undefined : (current, total, file) => {
             const now = Date.now();
@@ -108,22 +222,100 @@ export const bagitCommand = new Command('bagit')
     }
   });
 
+/**
+ * Parse and validate the comma-separated --algorithm list
+ */
+function parseAlgorithms(value: string | undefined): BagItAlgorithm[] | undefined {
+  if (!value) return undefined;
+  const algorithms = value.split(',').map(alg => alg.trim().toLowerCase()).filter(Boolean);
+  const invalid = algorithms.filter(alg => !BagItAlgorithmSchema.safeParse(alg).success);
+  if (invalid.length > 0 || algorithms.length === 0) {
+    console.error(`Error: --algorithm must be one or more of: ${BagItAlgorithmSchema.options.join(', ')}`);
+    process.exit(1);
+  }
+  return algorithms as BagItAlgorithm[];
+}
+
+/**
+ * Run add, remove or regenerate with progress, print the result and exit
+ */
+async function runUpdate(
+  command: Command,
+  update: (onProgress?: (current: number, total: number, file: string) => void) => Promise<BagItUpdateResult>
+): Promise<void> {
+  // Options shared with `wnb bagit` are parsed by it, wherever they appear
+  const options = command.optsWithGlobals();
+  try {
+    const result = await update(options.quiet || options.format === 'json' ? undefined : (current, total, file) => {
+      process.stderr.write(`\rHashing ${current}/${total}: ${path.basename(file)}`.padEnd(80));
+    });
+    if (!options.quiet && options.format !== 'json') {
+      process.stderr.write('\r' + ' '.repeat(80) + '\r'); // Clear progress line
+    }
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      printUpdateResult(result, options.quiet);
+    }
+  } catch (err) {
+    console.error(formatError(String(err)));
+    process.exit(1);
+  }
+}
+
+/**
+ * Ask for the bag-info tags the profile requires and the options did not give
+ */
+async function promptForBagInfo(profile: BagItProfile, bagInfo: Record<string, string>): Promise<void> {
+  const missing = missingBagInfoTags(profile, bagInfo);
+  if (missing.length === 0) return;
+
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  // The line iterator buffers, so answers typed ahead (or pasted) are not lost
+  const lines = rl[Symbol.asyncIterator]();
+  try {
+    for (const label of missing) {
+      const rule = profile['Bag-Info'][label];
+      const hint = rule.values ? ` (${rule.values.join(' | ')})` : rule.description ? ` (${rule.description})` : '';
+      let value = '';
+      while (!value || (rule.values && !rule.values.includes(value))) {
+        rl.setPrompt(`${label}${hint}: `);
+        rl.prompt();
+        const line = await lines.next();
+        if (line.done) throw new Error(`No value given for ${label}`);
+        value = String(line.value).trim();
+      }
+      bagInfo[label] = value;
+    }
+  } finally {
+    rl.close();
+  }
+}
+
 /**
  * Print bag creation result
  */
 function printCreateResult(result: Awaited<ReturnType<typeof createBag>>, quiet: boolean): void {
   if (quiet) {
-    console.log(result.bagPath);
+    console.log(result.serialized?.archivePath ?? result.bagPath);
     return;
   }
 
   console.log('BagIt package created successfully');
   console.log('');
   console.log(`  Bag path:      ${result.bagPath}`);
-  console.log(`  Algorithm:     ${result.algorithm}`);
+  console.log(`  Algorithm:     ${result.algorithms.join(', ')}`);
   console.log(`  Files:         ${result.fileCount}`);
   console.log(`  Size:          ${formatSize(result.totalBytes)}`);
   console.log(`  Payload-Oxum:  ${result.payloadOxum}`);
+  if (result.fetchFiles > 0) {
+    console.log(`  To fetch:      ${result.fetchFiles} files (fetch.txt; run wnb bagit complete)`);
+  }
+  if (result.serialized) {
+    console.log(`  Archive:       ${result.serialized.archivePath}`);
+    console.log(`  Checksum:      ${result.serialized.checksumPath}`);
+  }
   console.log(`  Duration:      ${formatDuration(result.durationMs)}`);
   console.log('');
   console.log('Tag files:');
@@ -134,22 +326,33 @@ function printCreateResult(result: Awaited<ReturnType<typeof createBag>>, quiet:
  * Print bag verification result
  */
 function printVerifyResult(result: Awaited<ReturnType<typeof verifyBag>>, quiet: boolean): void {
+  // A holey bag whose present files all verify is incomplete, not invalid
+  const intact = result.payloadValid && result.tagFilesValid && result.errors.length === 0;
+  const status = result.valid ? 'VALID' : !result.complete && intact ? 'INCOMPLETE' : 'INVALID';
+  const profileStatus = result.profile && `profile ${result.profile.valid ? 'PASS' : 'FAIL'}`;
   if (quiet) {
-    console.log(result.valid ? 'VALID' : 'INVALID');
+    console.log(profileStatus ? `${status}, ${profileStatus}` : status);
     return;
   }
 
-  console.log(`BagIt Verification: ${result.valid ? 'VALID' : 'INVALID'}`);
+  console.log(`BagIt Verification: ${status}`);
   console.log('');
   console.log(`  Bag path:        ${result.bagPath}`);
-  console.log(`  Algorithm:       ${result.algorithm}`);
+  if (result.serialization) {
+    console.log(`  Serialization:   ${result.serialization}`);
+  }
+  console.log(`  Algorithm:       ${result.algorithms.join(', ') || result.algorithm}`);
   console.log(`  Total files:     ${result.totalFiles}`);
   console.log(`  Verified files:  ${result.verifiedFiles}`);
   console.log(`  Duration:        ${formatDuration(result.durationMs)}`);
   console.log('');
+  console.log(`  Complete:        ${result.complete ? 'Yes' : 'No'}`);
   console.log(`  Payload valid:   ${result.payloadValid ? 'Yes' : 'No'}`);
   console.log(`  Tag files valid: ${result.tagFilesValid ? 'Yes' : 'No'}`);
   console.log(`  Oxum matches:    ${result.payloadOxumMatch ? 'Yes' : 'No'}`);
+  if (result.archiveChecksumMatch !== undefined) {
+    console.log(`  Archive digest:  ${result.archiveChecksumMatch ? 'Yes' : 'No'}`);
+  }
 
   if (result.missingFiles.length > 0) {
     console.log('');
@@ -160,11 +363,20 @@ function printVerifyResult(result: Awaited<ReturnType<typeof verifyBag>>, quiet:
     }
   }
 
+  if (result.fetchPending.length > 0) {
+    console.log('');
+    console.log(`Files to fetch (${result.fetchPending.length}, run wnb bagit complete):`);
+    result.fetchPending.slice(0, 10).forEach(f => console.log(`  - ${f}`));
+    if (result.fetchPending.length > 10) {
+      console.log(`  ... and ${result.fetchPending.length - 10} more`);
+    }
+  }
+
   if (result.invalidFiles.length > 0) {
     console.log('');
     console.log(`Invalid files (${result.invalidFiles.length}):`);
     result.invalidFiles.slice(0, 10).forEach(f => {
-      console.log(`  - ${f.path}`);
+      console.log(`  - ${f.path} (${f.algorithm})`);
       console.log(`    expected: ${f.expected}`);
       console.log(`    actual:   ${f.actual}`);
     });
@@ -188,6 +400,58 @@ function printVerifyResult(result: Awaited<ReturnType<typeof verifyBag>>, quiet:
     result.errors.forEach(e => console.log(`  - ${e}`));
   }
 
+  if (result.profile) {
+    console.log('');
+    console.log(`Profile ${result.profile.identifier}: ${result.profile.valid ? 'PASS' : 'FAIL'}`);
+    result.profile.rules.forEach(r => console.log(`  ${r.passed ? 'PASS' : 'FAIL'}  ${r.rule}: ${r.message}`));
+  }
+
   console.log('');
-  console.log(`Result: ${result.valid ? 'PASS' : 'FAIL'}`);
+  console.log(`Result: ${result.valid && result.profile?.valid !== false ? 'PASS' : 'FAIL'}`);
+}
+
+/**
+ * Print bag completion result
+ */
+function printCompleteResult(result: BagItCompleteResult, quiet: boolean): void {
+  if (!quiet) {
+    process.stderr.write('\r' + ' '.repeat(80) + '\r');
+  }
+
+  for (const failure of result.failed) {
+    console.log(`FAILED ${failure.path} (${failure.url}): ${failure.error}`);
+  }
+  if (quiet) return;
+
+  console.log(`Fetched ${result.fetched.length} files, ${formatSize(result.bytesFetched)}; ${result.alreadyPresent} already present`);
+  console.log(result.complete
+    ? 'Bag complete: every fetched file matches the manifest, fetch.txt removed'
+    : `Bag incomplete: ${result.failed.length} files could not be fetched, fetch.txt kept`);
+}
+
+/**
+ * Print the result of add, remove or regenerate
+ */
+function printUpdateResult(result: BagItUpdateResult, quiet: boolean): void {
+  if (quiet) {
+    console.log(result.bagPath);
+    return;
+  }
+
+  const sections: Array<[string, string[]]> = [['Added', result.added], ['Removed', result.removed], ['Changed', result.changed]];
+  for (const [label, files] of sections.filter(([, files]) => files.length > 0)) {
+    console.log(`${label} (${files.length}):`);
+    files.slice(0, 10).forEach(f => console.log(`  - ${f}`));
+    if (files.length > 10) {
+      console.log(`  ... and ${files.length - 10} more`);
+    }
+    console.log('');
+  }
+
+  console.log('Bag updated');
+  console.log('');
+  console.log(`  Bag path:      ${result.bagPath}`);
+  console.log(`  Manifests:     ${result.algorithms.join(', ')}`);
+  console.log(`  Payload-Oxum:  ${result.payloadOxum}`);
+  console.log(`  Duration:      ${formatDuration(result.durationMs)}`);
 }
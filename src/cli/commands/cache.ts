@@ -0,0 +1,189 @@
+/**
+ * wnb cache command
+ * Inspect and maintain the persistent hash cache
+ */
+
+import { Command } from 'commander';
+import { hashFile } from '../../core/hasher.js';
+import { fastHash } from '../../core/fast-hasher.js';
+import { loadConfig } from '../../core/config.js';
+import { HashCache, configureHashCache, getFileIdentity } from '../../core/hash-cache.js';
+import { AlgorithmSchema } from '../../schemas/index.js';
+import { formatError, formatSize, formatDuration } from '../output.js';
+
+export const cacheCommand = new Command('cache')
+  .description('Inspect and maintain the persistent hash cache');
+
+/**
+ * Stats subcommand - entry counts and cache file size
+ */
+const statsCmd = new Command('stats')
+  .description('Show hash cache statistics')
+  .option('-f, --format <fmt>', 'Output format: text, json', 'text')
+  .action(async (options, command: Command) => {
+    try {
+      const cache = await openCache(command);
+      const stats = await cache.stats();
+
+      const byAlgorithm: Record<string, number> = {};
+      let oldest: string | null = null;
+      let newest: string | null = null;
+      for (const entry of cache.list()) {
+        byAlgorithm[entry.algorithm] = (byAlgorithm[entry.algorithm] ?? 0) + 1;
+        if (!oldest || entry.cachedAt < oldest) oldest = entry.cachedAt;
+        if (!newest || entry.cachedAt > newest) newest = entry.cachedAt;
+      }
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify({
+          file: stats.file,
+          fileBytes: stats.fileBytes,
+          entries: stats.entries,
+          byAlgorithm,
+          oldest,
+          newest
+        }, null, 2));
+        return;
+      }
+
+      console.log(`Cache file: ${stats.file}`);
+      console.log(`Size:       ${formatSize(stats.fileBytes)}`);
+      console.log(`Entries:    ${stats.entries}`);
+      for (const [algorithm, count] of Object.entries(byAlgorithm)) {
+        console.log(`  ${algorithm}: ${count}`);
+      }
+      if (oldest && newest) {
+        console.log(`Oldest:     ${oldest}`);
+        console.log(`Newest:     ${newest}`);
+      }
+    } catch (err) {
+      console.error(formatError(String(err)));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Prune subcommand - drop entries for missing or changed files
+ */
+const pruneCmd = new Command('prune')
+  .description('Remove entries for files that were deleted or changed')
+  .option('-q, --quiet', 'Suppress output')
+  .action(async (options, command: Command) => {
+    try {
+      const cache = await openCache(command);
+      const result = await cache.prune();
+      await cache.save();
+
+      if (!options.quiet) {
+        console.log(`Removed ${result.removed} entries, kept ${result.kept}`);
+      }
+    } catch (err) {
+      console.error(formatError(String(err)));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Verify subcommand - re-hash unchanged files and compare with cached hashes
+ * A mismatch means the content changed without size or mtime changing
+ */
+const verifyCmd = new Command('verify')
+  .description('Re-hash cached files and report entries that no longer match')
+  .option('-v, --verbose', 'Show each verified file')
+  .option('-q, --quiet', 'Only set exit code')
+  .action(async (options, command: Command) => {
+    try {
+      const cache = await openCache(command);
+      const startTime = performance.now();
+      let verified = 0;
+      let skipped = 0;
+      const mismatched: string[] = [];
+
+      for (const entry of [...cache.list()]) {
+        let identity;
+        try {
+          identity = await getFileIdentity(entry.path);
+        } catch {
+          skipped++;
+          continue;
+        }
+
+        // Changed files are stale rather than corrupt - prune handles them
+        if (identity.size !== entry.size || identity.mtimeNs !== entry.mtimeNs) {
+          skipped++;
+          continue;
+        }
+
+        const actual = await rehash(entry.path, entry.algorithm);
+        if (actual === null) {
+          skipped++;
+          continue;
+        }
+
+        verified++;
+        if (actual !== entry.hash) {
+          mismatched.push(entry.path);
+          cache.delete(identity, entry.algorithm);
+          if (!options.quiet) console.error(`MISMATCH: ${entry.path} (${entry.algorithm})`);
+        } else if (options.verbose) {
+          console.error(`OK: ${entry.path} (${entry.algorithm})`);
+        }
+      }
+
+      await cache.save();
+
+      if (!options.quiet) {
+        const duration = performance.now() - startTime;
+        console.log(`Verified ${verified} entries in ${formatDuration(duration)}`);
+        console.log(`  Mismatched: ${mismatched.length}`);
+        console.log(`  Skipped:    ${skipped} (missing or changed)`);
+      }
+
+      process.exit(mismatched.length > 0 ? 1 : 0);
+    } catch (err) {
+      console.error(formatError(String(err)));
+      process.exit(3);
+    }
+  });
+
+cacheCommand.addCommand(statsCmd);
+cacheCommand.addCommand(pruneCmd);
+cacheCommand.addCommand(verifyCmd);
+
+/**
+ * Open the configured cache directly, independent of --no-cache / --trust-cache
+ * The shared cache is switched off so maintenance hashing always reads the bytes
+ */
+async function openCache(command: Command): Promise<HashCache> {
+  const globals = command.optsWithGlobals<{ cacheDir?: string }>();
+  const config = await loadConfig();
+  configureHashCache({ mode: 'off' });
+
+  const cache = new HashCache(globals.cacheDir ?? config.hashCacheDir);
+  await cache.load();
+  return cache;
+}
+
+/**
+ * Re-hash a file with the algorithm recorded in a cache entry
+ * Returns null for algorithms this version does not know
+ */
+async function rehash(filePath: string, algorithm: string): Promise<string | null> {
+  const parsed = AlgorithmSchema.safeParse(algorithm);
+  if (parsed.success) {
+    return (await hashFile(filePath, parsed.data)).hash;
+  }
+
+  // Sampled fast hashes: fast-<sampleSize>[-full]
+  const fast = /^fast-(\d+)(-full)?$/.exec(algorithm);
+  if (fast) {
+    const result = await fastHash(filePath, {
+      sampleSize: parseInt(fast[1], 10),
+      threshold: 0,
+      full: fast[2] !== undefined
+    });
+    return result.hash;
+  }
+
+  return null;
+}
@@ -0,0 +1,64 @@
+/**
+ * wnb convert command
+ * Translate fixity data between wnb manifests, MHL, BagIt manifests and checksum lists
+ */
+
+import { Command } from 'commander';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { convertFixityList, FIXITY_FORMATS, type FixityFormat } from '../../services/convert.js';
+import { formatError } from '../output.js';
+
+/**
+ * wnb convert - Convert between checksum formats
+ */
+export const convertCommand = new Command('convert')
+  .description('Convert manifests, MHL, BagIt manifests and checksum lists between formats')
+  .argument('<input>', 'Manifest, MHL, BagIt manifest, CSV or checksum file')
+  .requiredOption('--to <format>', `Target format: ${FIXITY_FORMATS.join(', ')}`)
+  .option('--from <format>', 'Source format (default: detected)')
+  .option('-o, --output <path>', 'Output file (default: stdout)')
+  .option('-a, --algorithms <list>', 'Algorithms to write for json, ndjson, csv, mhl, bagit-manifest and sfv (e.g. blake3-full,sha256)')
+  .option('--root <dir>', 'Directory to hash files from when the target needs digests or sizes the source lacks, or to tell ambiguous checksum digests apart')
+  .option('-q, --quiet', 'No warnings or summary')
+  .action(async (input: string, options) => {
+    try {
+      for (const value of [options.to, options.from]) {
+        if (value !== undefined && !FIXITY_FORMATS.includes(value)) {
+          throw new Error(`Invalid format: ${value} (expected ${FIXITY_FORMATS.join(', ')})`);
+        }
+      }
+
+      const to = options.to as FixityFormat;
+      const result = await convertFixityList(path.resolve(input), to, {
+        from: options.from as FixityFormat | undefined,
+        algorithms: options.algorithms,
+        root: options.root ? path.resolve(options.root) : undefined,
+        onProgress: options.quiet ? undefined : (current, total, file) => {
+          process.stderr.write(`\rHashing ${current}/${total}: ${path.basename(file)}`);
+        }
+      });
+
+      if (!options.quiet) {
+        if (result.filesRead > 0) {
+          process.stderr.write('\r' + ' '.repeat(80) + '\r');
+        }
+        for (const warning of result.warnings) {
+          console.error(`Warning: ${warning}`);
+        }
+      }
+
+      if (options.output) {
+        await fs.writeFile(path.resolve(options.output), result.output);
+        if (!options.quiet) {
+          const read = result.filesRead > 0 ? `, ${result.filesRead} files read` : '';
+          console.error(`Converted ${result.records} entries to ${to}: ${options.output}${read}`);
+        }
+      } else {
+        process.stdout.write(result.output);
+      }
+    } catch (err) {
+      console.error(formatError(String(err)));
+      process.exit(1);
+    }
+  });
@@ -6,46 +6,102 @@
 import { Command } from 'commander';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import { copyWithHash, moveWithHash, copyBatch } from '../../core/copier.js';
+import {
+  copyWithHash,
+  copyStreamWithHash,
+  copyToMany,
+  moveWithHash,
+  copyBatch,
+  parseReflinkMode,
+  type CopyResult,
+  type MultiCopyResult
+} from '../../core/copier.js';
+import { parsePreserveList, type MetadataPreservation } from '../../core/file-metadata.js';
+import { configureRateLimits, parseRate } from '../../core/throttle.js';
 import { formatError, formatSize, formatDuration } from '../output.js';
 import type { Algorithm } from '../../schemas/index.js';
 
 export const copyCommand = new Command('copy')
   .description('Copy files with inline BLAKE3 hashing and verification')
-  .argument('<source>', 'Source file or directory')
-  .argument('<destination>', 'Destination path')
+  .argument('<source>', 'Source file or directory, - for stdin')
+  .argument('<destination...>', 'Destination path (several to write each in one read)')
   .option('-a, --algorithm <alg>', 'Hash algorithm: blake3 (default), sha256, sha512', 'blake3')
   .option('--no-verify', 'Skip verification after copy')
   .option('--overwrite', 'Overwrite existing files')
   .option('--move', 'Move instead of copy (delete source after verified copy)')
   .option('-r, --recursive', 'Copy directories recursively')
+  .option('--resume', 'Resume interrupted copies from their .partial files')
+  .option('--reflink [when]', 'Clone on btrfs/XFS/APFS: auto, always (bare flag), never', 'never')
+  .option('--preserve [attrs]', 'Preserve metadata: mode,owner,xattr,acl (bare flag: all)')
+  .option('--limit-rate <rate>', 'Cap the total transfer rate, e.g. 50M (bytes/s, K/M/G suffixes)')
   .option('-f, --format <fmt>', 'Output format: text, json', 'text')
   .option('-q, --quiet', 'Minimal output')
-  .action(async (source: string, destination: string, options) => {
+  .action(async (source: string, destinations: string[], options) => {
     try {
-      const resolvedSource = path.resolve(source);
-      const resolvedDest = path.resolve(destination);
-      const stats = await fs.stat(resolvedSource);
+      if (options.limitRate !== undefined) {
+        configureRateLimits({ copy: parseRate(options.limitRate) });
+      }
+    } catch (err) {
+      console.error(formatError(String(err)));
+      process.exit(2);
+    }
+
+    if (destinations.length > 1) {
+      process.exit(await copyToDestinations(source, destinations, options));
+    }
+
+    try {
+      const resolvedDest = path.resolve(destinations[0]);
       const algorithm = options.algorithm as Algorithm;
       const format = options.format as 'text' | 'json';
+      const reflink = parseReflinkMode(options.reflink);
+      const preserve = parsePreserveList(options.preserve);
       const startTime = performance.now();
 
-      if (stats.isFile()) {
+      // Standard input: stream straight to the destination file
+      const fromStdin = source === '-';
+      if (fromStdin) {
+        const unsupported = [
+          options.move && '--move',
+          options.resume && '--resume',
+          reflink !== 'never' && '--reflink',
+          preserve.length > 0 && '--preserve'
+        ].filter(Boolean);
+        if (unsupported.length > 0) {
+          console.error(formatError(`${unsupported.join(', ')} cannot be used with stdin`));
+          process.exit(2);
+        }
+      }
+
+      const resolvedSource = fromStdin ? '-' : path.resolve(source);
+      const stats = fromStdin ? null : await fs.stat(resolvedSource);
+
+      if (!stats || stats.isFile()) {
         // Single file copy
-        const copyFn = options.move ? moveWithHash : copyWithHash;
-        const result = await copyFn(resolvedSource, resolvedDest, {
+        const copyOptions = {
           algorithm,
           verify: options.verify,
           overwrite: options.overwrite,
-          onProgress: options.quiet ? undefined : (bytes, total) => {
+          resume: options.resume,
+          reflink,
+          preserve,
+          onProgress: options.quiet ? undefined : (bytes: number, total: number) => {
+            if (fromStdin) {
+              process.stderr.write(`\r${formatSize(bytes)}`);
+              return;
+            }
             const percent = Math.round((bytes / total) * 100);
             process.stderr.write(`\r${percent}% (${formatSize(bytes)}/${formatSize(total)})`);
           }
-        });
+        };
+        const result = fromStdin
+          ? await copyStreamWithHash(process.stdin, resolvedDest, copyOptions)
+          : await (options.move ? moveWithHash : copyWithHash)(resolvedSource, resolvedDest, copyOptions);
 
         if (!options.quiet) {
           process.stderr.write('\r' + ' '.repeat(50) + '\r'); // Clear progress
         }
+        warnUnpreserved(result.destination, result.preservation);
 
         if (format === 'json') {
           console.log(JSON.stringify(result, null, 2));
@@ -56,12 +112,18 @@ export const copyCommand = new Command('copy')
           console.log(`  Hash: ${result.hash} (${result.algorithm})`);
           console.log(`  Size: ${formatSize(result.size)}`);
           console.log(`  Time: ${formatDuration(result.durationMs)}`);
+          if (result.method !== 'stream') {
+            console.log(`Method: ${result.method}`);
+          }
           if (result.verified) {
             console.log(`Status: VERIFIED`);
           }
           if (result.retries > 0) {
             console.log(`Retries: ${result.retries}`);
           }
+          if (result.resumedBytes) {
+            console.log(`Resumed: ${formatSize(result.resumedBytes)} already copied`);
+          }
         } else {
           console.log(`${result.hash}  ${result.destination}`);
         }
@@ -80,8 +142,12 @@ export const copyCommand = new Command('copy')
         const results = await copyBatch(files, {
           algorithm,
           verify: options.verify,
-          overwrite: options.overwrite
+          overwrite: options.overwrite,
+          resume: options.resume,
+          reflink,
+          preserve
         });
+        results.forEach((r: CopyResult) => warnUnpreserved(r.destination, r.preservation));
 
         const totalSize = results.reduce((sum, r) => sum + r.size, 0);
         const totalDuration = performance.now() - startTime;
@@ -116,6 +182,158 @@ export const copyCommand = new Command('copy')
     }
   });
 
+/**
+ * Copy a file or directory to several destinations, reading each source file once
+ * Returns the exit code: 0 when every destination succeeded, 1 otherwise
+ */
+async function copyToDestinations(
+  source: string,
+  destinations: string[],
+  options: {
+    algorithm: string;
+    verify: boolean;
+    overwrite?: boolean;
+    resume?: boolean;
+    reflink?: string | boolean;
+    move?: boolean;
+    recursive?: boolean;
+    format: string;
+    quiet?: boolean;
+    preserve?: string | boolean;
+  }
+): Promise<number> {
+  try {
+    if (source === '-') {
+      console.error(formatError('stdin can only be copied to a single destination'));
+      return 2;
+    }
+
+    // One streamed read feeds every destination, so nothing is cloned
+    const reflink = parseReflinkMode(options.reflink);
+    if (reflink === 'always') {
+      console.error(formatError('--reflink always needs a single destination'));
+      return 2;
+    }
+    if (reflink === 'auto' && !options.quiet) {
+      console.error('Warning: --reflink auto does not apply to several destinations; files are streamed');
+    }
+
+    const preserve = parsePreserveList(options.preserve);
+    const resolvedSource = path.resolve(source);
+    const resolvedDests = destinations.map(d => path.resolve(d));
+    const stats = await fs.stat(resolvedSource);
+    const startTime = performance.now();
+
+    // Map each source file to its path under every destination
+    let files: Array<{ source: string; destinations: string[] }>;
+    if (stats.isFile()) {
+      files = [{ source: resolvedSource, destinations: resolvedDests }];
+    } else if (stats.isDirectory()) {
+      if (!options.recursive) {
+        console.error(formatError('Use -r to copy directories recursively'));
+        return 2;
+      }
+      const relative = await collectFilesForCopy(resolvedSource, resolvedSource);
+      files = relative.map(f => ({
+        source: f.source,
+        destinations: resolvedDests.map(root => path.join(root, path.relative(resolvedSource, f.source)))
+      }));
+      if (!options.quiet) console.error(`Found ${files.length} files to copy to ${resolvedDests.length} destinations...`);
+    } else {
+      console.error(formatError('Source must be a file or directory'));
+      return 2;
+    }
+
+    const results: MultiCopyResult[] = [];
+    let failedTargets = 0;
+    let sourceErrors = 0;
+
+    for (const file of files) {
+      try {
+        const result = await copyToMany(file.source, file.destinations, {
+          algorithm: options.algorithm as Algorithm,
+          // Moves always verify before the source is deleted
+          verify: options.verify || options.move,
+          overwrite: options.overwrite,
+          resume: options.resume,
+          preserve,
+          onProgress: options.quiet ? undefined : (bytes, total) => {
+            const percent = total > 0 ? Math.round((bytes / total) * 100) : 100;
+            process.stderr.write(`\r${percent}% (${formatSize(bytes)}/${formatSize(total)})`);
+          }
+        });
+        results.push(result);
+
+        if (!options.quiet) {
+          process.stderr.write('\r' + ' '.repeat(50) + '\r');
+        }
+
+        const failed = result.targets.filter(t => t.error);
+        failedTargets += failed.length;
+
+        // Only delete the source once every destination holds a verified copy
+        if (options.move && failed.length === 0) {
+          await fs.unlink(file.source);
+        }
+
+        if (options.format !== 'json') {
+          if (!options.quiet) console.log(`${options.move && failed.length === 0 ? 'Moved' : 'Copied'}: ${result.source} [${result.hash}]`);
+          for (const target of result.targets) {
+            if (target.error) {
+              console.error(`  FAILED ${target.destination}: ${target.error}`);
+            } else if (!options.quiet) {
+              console.log(`  ${target.verified ? 'VERIFIED' : 'COPIED  '} ${target.destination}`);
+              if (target.resumedBytes) console.log(`    Resumed: ${formatSize(target.resumedBytes)} already copied`);
+            }
+            warnUnpreserved(target.destination, target.preservation);
+          }
+        }
+      } catch (err) {
+        sourceErrors++;
+        console.error(formatError(`Failed to read ${file.source}: ${err}`));
+      }
+    }
+
+    const totalSize = results.reduce((sum, r) => sum + r.size, 0);
+    const totalDuration = performance.now() - startTime;
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify(files.length === 1 && results.length === 1 ? results[0] : {
+        files: results,
+        summary: {
+          total: files.length,
+          destinations: resolvedDests.length,
+          failedTargets,
+          failedSources: sourceErrors,
+          totalSize,
+          durationMs: totalDuration
+        }
+      }, null, 2));
+    } else if (files.length > 1) {
+      console.log(`\nSummary:`);
+      console.log(`  Files:        ${results.length}/${files.length}`);
+      console.log(`  Destinations: ${resolvedDests.length}`);
+      console.log(`  Failed:       ${failedTargets} destination copies`);
+      console.log(`  Size:         ${formatSize(totalSize)} (read once)`);
+      console.log(`  Time:         ${formatDuration(totalDuration)}`);
+    }
+
+    return failedTargets > 0 || sourceErrors > 0 ? 1 : 0;
+  } catch (err) {
+    console.error(formatError(String(err)));
+    return 1;
+  }
+}
+
+/**
+ * Report metadata that could not be carried over to a copy
+ */
+function warnUnpreserved(destination: string, preservation?: MetadataPreservation): void {
+  for (const failure of preservation?.failed ?? []) {
+    console.error(`Warning: ${failure.attribute} not preserved on ${destination}: ${failure.error}`);
+  }
+}
+
 /**
  * Collect files for directory copy
  */
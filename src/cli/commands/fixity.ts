@@ -0,0 +1,156 @@
+/**
+ * wnb fixity command
+ * Rolling fixity checks that cover an archive once per cycle
+ */
+
+import { Command } from 'commander';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { loadManifest } from '../../core/manifest.js';
+import { resolveRecordedKeyOptions } from '../../core/keys.js';
+import { configureRateLimits, parseRate } from '../../core/throttle.js';
+import {
+  runFixityCheck,
+  fixityCoverage,
+  loadFixityLedger,
+  parseFixityBudget,
+  defaultLedgerPath,
+  DEFAULT_FIXITY_CYCLE_DAYS,
+  type FixityCoverage,
+  type FixityRunResult
+} from '../../services/fixity.js';
+import { formatError, formatSize } from '../output.js';
+
+/**
+ * wnb fixity - Verify the stalest files and report coverage
+ */
+export const fixityCommand = new Command('fixity')
+  .description('Verify the least recently checked files within a budget and report fixity coverage')
+  .argument('<root>', 'Directory the manifest describes')
+  .option('-m, --manifest <path>', 'Manifest to check against (default: <root>/manifest.json or manifest.ndjson)')
+  .option('--ledger <path>', 'Verification ledger (default: fixity-ledger.json next to the manifest)')
+  .option('--bytes <size>', 'Verify at most this much data, e.g. 500G (K/M/G/T suffixes)')
+  .option('--files <n>', 'Verify at most this many files')
+  .option('--duration <time>', 'Stop starting new files after this long, e.g. 90s, 30m, 2h')
+  .option('--cycle <days>', 'Days within which every file should be verified', String(DEFAULT_FIXITY_CYCLE_DAYS))
+  .option('--report', 'Only report coverage, verify nothing')
+  .option('--no-sidecars', 'Do not append fixity_check events to XMP sidecars')
+  .option('-f, --format <fmt>', 'Output format: text, json', 'text')
+  .option('--key-file <path>', 'Key file for keyed manifests (default: $WNB_HASH_KEY_FILE or $WNB_HASH_KEY)')
+  .option('--max-read-rate <rate>', 'Cap the total read rate, e.g. 100M (bytes/s, K/M/G suffixes)')
+  .option('-q, --quiet', 'Only print failures')
+  .action(async (root: string, options) => {
+    try {
+      if (options.maxReadRate !== undefined) {
+        configureRateLimits({ read: parseRate(options.maxReadRate) });
+      }
+      const cycleDays = Number(options.cycle);
+      if (!Number.isFinite(cycleDays) || cycleDays <= 0) {
+        throw new Error(`Invalid cycle: ${options.cycle} (expected a number of days)`);
+      }
+      const budget = parseFixityBudget(options);
+
+      const rootPath = path.resolve(root);
+      const manifestPath = options.manifest ? path.resolve(options.manifest) : await findManifest(rootPath);
+      const ledgerPath = options.ledger ? path.resolve(options.ledger) : defaultLedgerPath(manifestPath);
+      const manifest = await loadManifest(manifestPath);
+
+      if (options.report) {
+        const ledger = await loadFixityLedger(ledgerPath, manifestPath);
+        const coverage = fixityCoverage(manifest.files, ledger, cycleDays);
+        if (options.format === 'json') {
+          console.log(JSON.stringify(coverage, null, 2));
+        } else {
+          printCoverage(coverage, options.quiet);
+        }
+        process.exit(coverage.failures.length > 0 ? 1 : 0);
+      }
+
+      const keyOptions = await resolveRecordedKeyOptions(manifest, options.keyFile);
+      const result = await runFixityCheck(rootPath, manifest, manifestPath, {
+        ledgerPath,
+        budget,
+        cycleDays,
+        sidecars: options.sidecars,
+        keyOptions,
+        onProgress: options.quiet || options.format === 'json' ? undefined : (current, total, file) => {
+          process.stderr.write(`\rVerifying ${current}/${total}: ${path.basename(file)}`.padEnd(80));
+        }
+      });
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        printRun(result, options.quiet);
+      }
+      process.exit(result.coverage.failures.length > 0 ? 1 : 0);
+    } catch (err) {
+      console.error(formatError(String(err)));
+      process.exit(3);
+    }
+  });
+
+/**
+ * manifest.json in root, else manifest.ndjson
+ */
+async function findManifest(rootPath: string): Promise<string> {
+  for (const name of ['manifest.json', 'manifest.ndjson']) {
+    const candidate = path.join(rootPath, name);
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      // Try the next name
+    }
+  }
+  throw new Error(`No manifest.json or manifest.ndjson in ${rootPath}; give --manifest`);
+}
+
+function printRun(result: FixityRunResult, quiet: boolean): void {
+  if (!quiet && result.checked.length > 0) {
+    process.stderr.write('\r' + ' '.repeat(80) + '\r');
+  }
+
+  for (const error of result.sidecarErrors) {
+    console.error(`Warning: sidecar not updated: ${error}`);
+  }
+  if (quiet) {
+    printCoverage(result.coverage, true);
+    return;
+  }
+
+  const failed = result.checked.filter(c => c.outcome !== 'success').length;
+  const stopped = result.stoppedBy === 'duration' ? ' (duration budget reached)' : '';
+  console.log(`Verified ${result.checked.length} files, ${formatSize(result.bytesChecked)}, ${failed} failed${stopped}`);
+  if (result.sidecarEvents > 0) {
+    console.log(`Custody events added to ${result.sidecarEvents} sidecars`);
+  }
+  printCoverage(result.coverage, false);
+}
+
+function printCoverage(coverage: FixityCoverage, quiet: boolean): void {
+  if (quiet) {
+    for (const failure of coverage.failures) {
+      console.log(`${failure.outcome === 'missing' ? 'MISSING' : 'FAILED'} ${failure.path}`);
+    }
+    return;
+  }
+
+  const percent = coverage.files > 0 ? (coverage.verifiedFiles / coverage.files) * 100 : 100;
+  const parts = [
+    `${percent.toFixed(1)}% verified within ${coverage.cycleDays} days (${coverage.verifiedFiles} of ${coverage.files} files)`,
+    `${coverage.failures.length} ${coverage.failures.length === 1 ? 'failure' : 'failures'}`
+  ];
+  if (coverage.neverChecked > 0) parts.push(`${coverage.neverChecked} never checked`);
+  console.log(parts.join(', '));
+
+  if (coverage.oldestVerified) {
+    console.log(`Oldest verification: ${coverage.oldestVerified}`);
+  }
+  console.log(`To cover ${formatSize(coverage.totalBytes)} every ${coverage.cycleDays} days, verify ${formatSize(coverage.bytesPerDay)} per day`);
+
+  for (const failure of coverage.failures) {
+    const detail = failure.detail ? `: ${failure.detail}` : '';
+    console.log(`  ${failure.outcome === 'missing' ? 'MISSING' : 'FAILED'} ${failure.path} (checked ${failure.lastChecked})${detail}`);
+  }
+}
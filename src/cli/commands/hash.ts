@@ -6,17 +6,25 @@
 import { Command } from 'commander';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import { hashFile, hashFileAll, setHasherMode } from '../../core/hasher.js';
+import { hashFile, hashFileAll, hashStream, hashStreamAll, setHasherMode } from '../../core/hasher.js';
 import { formatHashResult, formatHashResults, formatAllHashes, formatError } from '../output.js';
 import { WorkerPool } from '../../services/worker-pool.js';
 import { isNetworkPath } from '../../utils/network.js';
 import { getEffectiveConcurrency } from '../../core/config.js';
+import { resolveKeyOptions, getBlake3Mode } from '../../core/keys.js';
+import { configureRateLimits, parseRate } from '../../core/throttle.js';
+import {
+  parseChecksumList,
+  verifyChecksumEntry,
+  type ChecksumCheckResult,
+  type ChecksumEntry
+} from '../../core/checksum-list.js';
 import type { Algorithm, HashResult } from '../../schemas/index.js';
 
 export const hashCommand = new Command('hash')
   .description('Compute BLAKE3 hash of files (default) or use other algorithms')
-  .argument('<path>', 'File or directory to hash')
-  .option('-a, --algorithm <alg>', 'Algorithm: blake3 (default), sha256, sha512, md5, xxhash64, all', 'blake3')
+  .argument('<path...>', 'File or directory to hash, - for stdin (checksum files with --check)')
+  .option('-a, --algorithm <alg>', 'Algorithm: blake3 (default), sha256, sha512, md5, xxhash64, xxh3, xxh128, sha1, crc32, c4, all', 'blake3')
   .option('--all', 'Compute all algorithms (shorthand for -a all)')
   .option('-r, --recursive', 'Hash directories recursively')
   .option('--full', 'Full 256-bit output (64 hex chars) for BLAKE3')
@@ -26,9 +34,41 @@ export const hashCommand = new Command('hash')
   .option('--hdd', 'Sequential mode for mechanical drives')
   .option('--native', 'Force native b3sum (fail if unavailable)')
   .option('--wasm', 'Force WASM (skip native detection)')
-  .action(async (targetPath: string, options) => {
+  .option('--keyed', 'Keyed BLAKE3 (MAC) with the key from $WNB_HASH_KEY_FILE or $WNB_HASH_KEY')
+  .option('--key-file <path>', 'Keyed BLAKE3 (MAC) with a 32-byte key file')
+  .option('--context <ctx>', 'BLAKE3 derive_key context (per-project digests)')
+  .option('-c, --check', 'Verify checksum files (GNU, b3sum, BSD tag, SFV)')
+  .option('--ignore-missing', 'With --check: skip files that do not exist')
+  .option('--status', 'With --check: no output, exit code only')
+  .option('--strict', 'With --check: fail on improperly formatted lines')
+  .option('--max-read-rate <rate>', 'Cap the total read rate, e.g. 100M (bytes/s, K/M/G suffixes)')
+  .action(async (targetPaths: string[], options, command: Command) => {
     try {
-      const resolvedPath = path.resolve(targetPath);
+      if (options.maxReadRate !== undefined) {
+        configureRateLimits({ read: parseRate(options.maxReadRate) });
+      }
+    } catch (err) {
+      console.error(formatError(String(err)));
+      process.exit(2);
+    }
+
+    if (options.check) {
+      const forced = command.getOptionValueSource('algorithm') === 'cli' ? options.algorithm as Algorithm : undefined;
+      process.exit(await checkLists(targetPaths, { ...options, algorithm: forced }));
+    }
+
+    try {
+      if (targetPaths.length > 1) {
+        console.error(formatError('Multiple paths are only supported with --check (use -r for directories)'));
+        process.exit(1);
+      }
+
+      if (targetPaths[0] === '-') {
+        await hashStdin(options);
+        return;
+      }
+
+      const resolvedPath = path.resolve(targetPaths[0]);
       const stats = await fs.stat(resolvedPath);
 
       // Set hasher mode (native vs wasm)
@@ -48,13 +88,21 @@ export const hashCommand = new Command('hash')
 
       const format = options.format as 'text' | 'json' | 'csv' | 'bsd' | 'sfv';
 
+      // Keyed / derive-key modes (BLAKE3 only)
+      const keyOptions = await resolveKeyOptions(options);
+      const keyed = getBlake3Mode(keyOptions) !== 'plain';
+      if (keyed && algorithm !== 'blake3' && algorithm !== 'blake3-full') {
+        console.error(formatError('--keyed, --key-file and --context require the blake3 algorithm'));
+        process.exit(1);
+      }
+
       if (stats.isFile()) {
         // Single file
         if (algorithm === 'all') {
           const result = await hashFileAll(resolvedPath);
           console.log(formatAllHashes(result, resolvedPath, format));
         } else {
-          const result = await hashFile(resolvedPath, algorithm);
+          const result = await hashFile(resolvedPath, { algorithm, ...keyOptions });
           if (options.quiet) {
             console.log(result.hash);
           } else {
@@ -81,8 +129,8 @@ export const hashCommand = new Command('hash')
             console.log(formatAllHashes(result, file, format));
             if (format !== 'json') console.log();
           }
-        } else if (concurrency > 1 && files.length > 1) {
-          // Use worker pool for parallel hashing
+        } else if (concurrency > 1 && files.length > 1 && !keyed) {
+          // Use worker pool for parallel hashing (plain digests only - keys stay in the main thread)
           const pool = new WorkerPool({
             concurrency,
             forceSequential: options.hdd
@@ -134,7 +182,7 @@ export const hashCommand = new Command('hash')
 
           for (const file of files) {
             try {
-              const result = await hashFile(file, algorithm);
+              const result = await hashFile(file, { algorithm, ...keyOptions });
               results.push(result);
 
               if (format === 'text' && !options.quiet) {
@@ -161,6 +209,159 @@ export const hashCommand = new Command('hash')
     }
   });
 
+/**
+ * Hash standard input in a single pass (all algorithms with --all)
+ */
+async function hashStdin(options: {
+  algorithm: string;
+  all?: boolean;
+  full?: boolean;
+  format: string;
+  quiet?: boolean;
+  keyed?: boolean;
+  keyFile?: string;
+  context?: string;
+}): Promise<void> {
+  const format = options.format as 'text' | 'json' | 'csv' | 'bsd' | 'sfv';
+  const keyOptions = await resolveKeyOptions(options);
+
+  if (options.all || options.algorithm === 'all') {
+    if (getBlake3Mode(keyOptions) !== 'plain') {
+      throw new Error('--keyed, --key-file and --context require the blake3 algorithm');
+    }
+    console.log(formatAllHashes(await hashStreamAll(process.stdin), '-', format));
+    return;
+  }
+
+  let algorithm = options.algorithm as Algorithm;
+  if (options.full && algorithm === 'blake3') {
+    algorithm = 'blake3-full';
+  }
+
+  const { hashes, size, durationMs } = await hashStream(process.stdin, [algorithm], keyOptions);
+  const result: HashResult = { path: '-', hash: hashes[algorithm]!, algorithm, size, durationMs };
+  console.log(options.quiet ? result.hash : formatHashResult(result, format));
+}
+
+/**
+ * Verify checksum files, coreutils style
+ * Prints "<path>: OK|FAILED" per line and returns 0 only when every listed file matched.
+ */
+async function checkLists(
+  listPaths: string[],
+  options: {
+    algorithm?: Algorithm;
+    quiet?: boolean;
+    status?: boolean;
+    strict?: boolean;
+    ignoreMissing?: boolean;
+    format?: string;
+    parallel?: string;
+    hdd?: boolean;
+  }
+): Promise<number> {
+  const parallel = options.parallel ? parseInt(options.parallel, 10) : undefined;
+  const concurrency = await getEffectiveConcurrency({ parallel, hdd: options.hdd });
+  const pool = concurrency > 1 ? new WorkerPool({ concurrency, forceSequential: options.hdd }) : null;
+  await pool?.initialize();
+
+  const hash = async (filePath: string, algorithm: Algorithm): Promise<string> => pool
+    ? (await pool.hashFile(filePath, algorithm, { fresh: true })).hash
+    : (await hashFile(filePath, { algorithm, fresh: true })).hash;
+
+  const json = options.format === 'json';
+  const allResults: ChecksumCheckResult[] = [];
+  let exitCode = 0;
+
+  try {
+    for (const listPath of listPaths) {
+      let content: string;
+      try {
+        content = listPath === '-' ? await readStdin() : await fs.readFile(listPath, 'utf-8');
+      } catch (err) {
+        console.error(formatError(`${listPath}: ${(err as Error).message}`));
+        exitCode = 1;
+        continue;
+      }
+
+      const list = parseChecksumList(content, listPath);
+      const entries: ChecksumEntry[] = options.algorithm
+        ? list.entries.map(e => ({ ...e, algorithms: [options.algorithm!] }))
+        : list.entries;
+
+      if (entries.length === 0) {
+        console.error(formatError(`${listPath}: no properly formatted checksum lines found`));
+        exitCode = 1;
+        continue;
+      }
+
+      // Verify in batches so output stays in list order
+      const results: ChecksumCheckResult[] = [];
+      const batchSize = pool ? concurrency * 4 : 1;
+      for (let i = 0; i < entries.length; i += batchSize) {
+        const batch = await Promise.all(entries.slice(i, i + batchSize).map(e => verifyChecksumEntry(e, hash)));
+
+        for (const result of batch) {
+          if (result.status === 'missing' && options.ignoreMissing) continue;
+          results.push(result);
+          if (json || options.status) continue;
+          if (result.status === 'ok') {
+            if (!options.quiet) console.log(`${result.path}: OK`);
+          } else if (result.status === 'failed') {
+            console.log(`${result.path}: FAILED`);
+          } else {
+            console.error(`wnb: ${result.path}: ${result.error}`);
+            console.log(`${result.path}: FAILED open or read`);
+          }
+        }
+      }
+      allResults.push(...results);
+
+      const failed = results.filter(r => r.status === 'failed').length;
+      const unreadable = results.filter(r => r.status !== 'ok' && r.status !== 'failed').length;
+
+      if (!options.status && !json) {
+        const plural = (n: number, one: string, many: string): string => `${n} ${n === 1 ? one : many}`;
+        if (list.malformed.length > 0) {
+          console.error(`wnb: WARNING: ${plural(list.malformed.length, 'line is', 'lines are')} improperly formatted`);
+        }
+        if (unreadable > 0) {
+          console.error(`wnb: WARNING: ${plural(unreadable, 'listed file', 'listed files')} could not be read`);
+        }
+        if (failed > 0) {
+          console.error(`wnb: WARNING: ${plural(failed, 'computed checksum', 'computed checksums')} did NOT match`);
+        }
+        if (results.length === 0) {
+          console.error(`wnb: ${listPath}: no file was verified`);
+        }
+      }
+
+      if (failed > 0 || unreadable > 0 || results.length === 0 || (options.strict && list.malformed.length > 0)) {
+        exitCode = 1;
+      }
+    }
+  } finally {
+    await pool?.shutdown();
+  }
+
+  if (json && !options.status) {
+    console.log(JSON.stringify(allResults, null, 2));
+  }
+
+  return exitCode;
+}
+
+/**
+ * Read all of standard input as text
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
 /**
  * Collect all files in a directory
  */
@@ -5,7 +5,8 @@
 
 import { Command } from 'commander';
 import { generateBlake3Id, generateBlake3Ids, generateBlake3IdFrom } from '../../core/id-generator.js';
-import { formatId, formatIds } from '../output.js';
+import { resolveKeyOptions } from '../../core/keys.js';
+import { formatId, formatIds, formatError } from '../output.js';
 
 export const idCommand = new Command('id')
   .description('Generate BLAKE3-based unique identifier (16 hex chars)')
@@ -13,15 +14,24 @@ export const idCommand = new Command('id')
   .option('-n, --count <number>', 'Generate multiple IDs', '1')
   .option('-f, --format <fmt>', 'Output format: text, json', 'text')
   .option('--from <input>', 'Generate deterministic ID from input string')
-  .action((options) => {
+  .option('--keyed', 'Key --from IDs with the key from $WNB_HASH_KEY_FILE or $WNB_HASH_KEY')
+  .option('--key-file <path>', 'Key --from IDs with a 32-byte key file')
+  .option('--context <ctx>', 'BLAKE3 derive_key context for --from IDs (e.g. a project name)')
+  .action(async (options) => {
     const count = parseInt(options.count, 10);
     const format = options.format as 'text' | 'json';
     const full = options.full ?? false;
 
     if (options.from) {
-      // Deterministic ID from input
-      const id = generateBlake3IdFrom(options.from, { full });
-      console.log(formatId(id, format));
+      // Deterministic ID from input (optionally keyed / per context)
+      try {
+        const keyOptions = await resolveKeyOptions(options);
+        const id = generateBlake3IdFrom(options.from, { full, ...keyOptions });
+        console.log(formatId(id, format));
+      } catch (err) {
+        console.error(formatError(String(err)));
+        process.exit(1);
+      }
     } else if (count === 1) {
       // Single random ID
       const id = generateBlake3Id({ full });
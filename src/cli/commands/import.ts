@@ -5,12 +5,16 @@
 
 import { Command } from 'commander';
 import { runImport, getImportStatus } from '../../services/importer.js';
+import { validateChunkSize } from '../../core/chunk-map.js';
+import { parseReflinkMode } from '../../core/copier.js';
+import { parsePreserveList } from '../../core/file-metadata.js';
+import { configureRateLimits, parseRate } from '../../core/throttle.js';
 import { formatError, formatSize, formatDuration } from '../output.js';
 
 export const importCommand = new Command('import')
   .description('Import files with hashing, deduplication, and verification')
   .argument('<source>', 'Source directory')
-  .argument('<destination>', 'Destination directory')
+  .argument('<destination...>', 'Destination directory (several to offload to each in one read)')
   .option('--dry-run', 'Show what would happen without copying')
   .option('--resume', 'Resume from last checkpoint')
   .option('--dedup', 'Skip files that already exist by hash')
@@ -36,16 +40,20 @@ export const importCommand = new Command('import')
   .option('--3d-analyze', 'Analyze 3D model files')
   .option('--calendar-extract', 'Extract calendar/contact data')
   .option('--all-extractors', 'Enable all available extractors')
+  .option('--reflink [when]', 'Clone files on btrfs/XFS/APFS: auto, always (bare flag), never', 'never')
+  .option('--preserve [attrs]', 'Preserve metadata: mode,owner,xattr,acl (bare flag: all)')
+  .option('--chunk-map [mib]', 'Record a BLAKE3 chunk map per file (block size in MiB, default: 16)')
+  .option('--limit-rate <rate>', 'Cap the total transfer rate, e.g. 50M (bytes/s, K/M/G suffixes)')
   .option('-f, --format <fmt>', 'Output format: text, json', 'text')
   .option('-q, --quiet', 'Minimal output')
-  .action(async (source: string, destination: string, options) => {
+  .action(async (source: string, destinations: string[], options) => {
     try {
       const format = options.format as 'text' | 'json';
       const startTime = performance.now();
 
       // Check for existing session
       if (options.resume) {
-        const existing = await getImportStatus(destination);
+        const existing = await getImportStatus(destinations[0]);
         if (existing) {
           console.error(`Resuming session ${existing.id}`);
           console.error(`  Progress: ${existing.processedFiles}/${existing.totalFiles} files`);
@@ -56,9 +64,25 @@ export const importCommand = new Command('import')
         console.error('Starting import...');
       }
 
+      const chunkSize = options.chunkMap
+        ? (options.chunkMap === true ? 16 : parseInt(options.chunkMap, 10)) * 1024 * 1024
+        : undefined;
+      if (chunkSize !== undefined) validateChunkSize(chunkSize);
+      const reflink = parseReflinkMode(options.reflink);
+      if (reflink === 'auto' && destinations.length > 1 && !options.quiet) {
+        console.error('Warning: --reflink auto does not apply to several destinations; files are streamed');
+      }
+      const preserve = parsePreserveList(options.preserve);
+
+      // Hashing and validation reads share the limit with the copies
+      if (options.limitRate !== undefined) {
+        const rate = parseRate(options.limitRate);
+        configureRateLimits({ copy: rate, read: rate });
+      }
+
       let lastStatus = '';
 
-      const session = await runImport(source, destination, {
+      const session = await runImport(source, destinations, {
         dedup: options.dedup,
         manifest: options.manifest,
         resume: options.resume,
@@ -84,6 +108,9 @@ export const importCommand = new Command('import')
         model3dAnalyze: options['3dAnalyze'],
         calendarExtract: options.calendarExtract,
         allExtractors: options.allExtractors,
+        chunkSize,
+        reflink,
+        preserve,
         onProgress: (s) => {
           if (!options.quiet && s.status !== lastStatus) {
             lastStatus = s.status;
@@ -128,6 +155,11 @@ export const importCommand = new Command('import')
             case 'validated':
               // Silent on success
               break;
+            case 'destination-failed':
+              for (const dest of file.destinations ?? []) {
+                if (dest.error) console.error(`ERROR: ${file.relativePath} → ${dest.root}: ${dest.error}`);
+              }
+              break;
             case 'validation-failed':
             case 'error':
               console.error(`ERROR: ${file.relativePath}: ${file.error}`);
@@ -137,6 +169,8 @@ export const importCommand = new Command('import')
       });
 
       const duration = performance.now() - startTime;
+      const destinationFailures = session.files.reduce(
+        (sum, f) => sum + (f.destinations?.filter(d => d.status === 'error').length ?? 0), 0);
 
       if (!options.quiet) {
         process.stderr.write('\r' + ' '.repeat(60) + '\r');
@@ -153,7 +187,14 @@ export const importCommand = new Command('import')
         console.log('\n========== Import Summary ==========');
         console.log(`Session ID:    ${session.id}`);
         console.log(`Source:        ${session.source}`);
-        console.log(`Destination:   ${session.destination}`);
+        if (session.destinations) {
+          session.destinations.forEach((d, i) => {
+            const failed = session.files.filter(f => f.destinations?.[i]?.status === 'error').length;
+            console.log(`Destination ${i + 1}: ${d}${failed > 0 ? ` (${failed} failed)` : ''}`);
+          });
+        } else {
+          console.log(`Destination:   ${session.destination}`);
+        }
         console.log(`Status:        ${session.status.toUpperCase()}`);
         console.log('');
         console.log(`Total files:   ${session.totalFiles}`);
@@ -183,13 +224,16 @@ export const importCommand = new Command('import')
         if (session.errorFiles > 0) {
           console.log(`\nWarning: ${session.errorFiles} files had errors`);
         }
+        if (destinationFailures > 0) {
+          console.log(`Warning: ${destinationFailures} destination copies failed`);
+        }
       }
 
       // Exit code based on result
       if (session.status === 'failed') {
         process.exit(1);
       }
-      if (session.errorFiles > 0) {
+      if (session.errorFiles > 0 || destinationFailures > 0) {
         process.exit(4);
       }
 
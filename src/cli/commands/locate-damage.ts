@@ -0,0 +1,127 @@
+/**
+ * wnb locate-damage command
+ * Report the byte ranges of a file that no longer match its chunk map
+ */
+
+import { Command } from 'commander';
+import * as path from 'node:path';
+import { locateDamage, parseByteRange } from '../../core/chunk-map.js';
+import { readSidecar } from '../../services/xmp/reader.js';
+import { resolveRecordedKeyOptions, type Blake3KeyOptions } from '../../core/keys.js';
+import { loadManifest, type AnyManifestEntry } from '../../core/manifest.js';
+import { formatError, formatSize, formatByteRange } from '../output.js';
+import type { ByteRange, ChunkMap } from '../../schemas/index.js';
+
+export const locateDamageCommand = new Command('locate-damage')
+  .description('Report byte ranges that changed, using a manifest or XMP chunk map')
+  .argument('<file>', 'File to inspect')
+  .argument('<manifest>', 'Manifest (manifest.json) or XMP sidecar with a chunk map')
+  .option('--range <range...>', 'Only re-verify these byte ranges (start-end, e.g. 0-512M)')
+  .option('-f, --format <fmt>', 'Output format: text, json', 'text')
+  .option('-q, --quiet', 'Exit code only, no output')
+  .option('--key-file <path>', 'Key file for keyed manifests (default: $WNB_HASH_KEY_FILE or $WNB_HASH_KEY)')
+  .action(async (filePath: string, manifestPath: string, options) => {
+    try {
+      const resolvedPath = path.resolve(filePath);
+      const ranges: ByteRange[] | undefined = options.range?.map((r: string) => parseByteRange(r));
+
+      const recorded = manifestPath.toLowerCase().endsWith('.xmp')
+        ? await loadFromSidecar(manifestPath)
+        : await loadFromManifest(resolvedPath, manifestPath, options.keyFile);
+
+      if (!recorded) {
+        if (!options.quiet) {
+          console.error(formatError(`No chunk map recorded for ${filePath} in ${manifestPath}`));
+          console.error('Create one with: wnb manifest <dir> --chunks');
+        }
+        process.exit(2);
+      }
+
+      const result = await locateDamage(resolvedPath, recorded.chunkMap, recorded.size, {
+        ranges,
+        ...recorded.keyOptions
+      });
+
+      if (options.quiet) {
+        process.exit(result.intact ? 0 : 1);
+      }
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        console.log(`File:       ${resolvedPath}`);
+        console.log(`Chunk size: ${formatSize(result.chunkSize)}`);
+        console.log(`Checked:    ${result.checkedChunks} chunks (${formatSize(result.bytesRead)} read)`);
+        if (result.actualSize !== result.expectedSize) {
+          console.log(`Size:       ${result.actualSize} (expected ${result.expectedSize})`);
+        }
+
+        if (result.intact) {
+          console.log('\nNo damage found');
+        } else {
+          console.log(`\nDamaged ranges (${result.damaged.length}):`);
+          result.damaged.forEach(r => console.log(`  ${formatByteRange(r)}`));
+        }
+      }
+
+      process.exit(result.intact ? 0 : 1);
+    } catch (err: unknown) {
+      const errObj = err as NodeJS.ErrnoException;
+      if (errObj.code === 'ENOENT') {
+        if (!options.quiet) {
+          console.error(formatError(`File not found: ${errObj.path ?? filePath}`));
+        }
+        process.exit(2);
+      }
+
+      console.error(formatError(String(err)));
+      process.exit(3);
+    }
+  });
+
+/**
+ * Find the manifest entry for a file
+ * Matches against the manifest root, then the manifest's directory, then a unique basename
+ */
+async function loadFromManifest(
+  resolvedPath: string,
+  manifestPath: string,
+  keyFile?: string
+): Promise<{ chunkMap: ChunkMap; size: number; keyOptions?: Blake3KeyOptions } | null> {
+  const manifest = await loadManifest(manifestPath);
+  const manifestDir = path.dirname(path.resolve(manifestPath));
+
+  const candidates = [
+    path.relative(manifest.root, resolvedPath),
+    path.relative(manifestDir, resolvedPath)
+  ];
+
+  const files: AnyManifestEntry[] = manifest.files;
+  let entry = files.find(f => candidates.includes(f.path));
+  if (!entry) {
+    const byName = files.filter(f => path.basename(f.path) === path.basename(resolvedPath));
+    if (byName.length === 1) entry = byName[0];
+  }
+
+  if (!entry?.chunks) return null;
+  return {
+    chunkMap: entry.chunks,
+    size: entry.size,
+    keyOptions: await resolveRecordedKeyOptions(manifest, keyFile)
+  };
+}
+
+/**
+ * Read the chunk map stored in an XMP sidecar
+ */
+async function loadFromSidecar(
+  sidecarPath: string
+): Promise<{ chunkMap: ChunkMap; size: number; keyOptions?: Blake3KeyOptions } | null> {
+  const { data } = await readSidecar(sidecarPath);
+  if (!data.chunkSize || !data.chunkHashes?.length) return null;
+
+  return {
+    chunkMap: { chunkSize: data.chunkSize, chunks: data.chunkHashes },
+    size: data.fileSize
+  };
+}
@@ -5,10 +5,114 @@
 
 import { Command } from 'commander';
 import * as fs from 'node:fs/promises';
+import type { Stats } from 'node:fs';
 import * as path from 'node:path';
 import { hashFile } from '../../core/hasher.js';
-import { formatError, formatSize, formatDuration } from '../output.js';
-import type { Manifest, ManifestEntry, AuditResult } from '../../schemas/index.js';
+import { hashFileWithChunks, locateDamage, validateChunkSize } from '../../core/chunk-map.js';
+import { parsePreserveList, readFileMetadata, metadataAttributes, findMetadataDrift } from '../../core/file-metadata.js';
+import { resolveKeyOptions, resolveRecordedKeyOptions, computeKeyId, getBlake3Mode, type Blake3KeyOptions } from '../../core/keys.js';
+import { configureRateLimits, parseRate } from '../../core/throttle.js';
+import {
+  loadManifest,
+  writeManifest,
+  isManifestV2,
+  manifestAlgorithms,
+  manifestHashLength,
+  entryHashes,
+  primaryHash,
+  parseManifestAlgorithms,
+  validateHashLength,
+  validateKeyedAlgorithms,
+  hashForManifest,
+  findHashMismatches,
+  assignHardlinkGroups,
+  findCommonAlgorithm,
+  upgradeManifest,
+  openManifestSource,
+  entryMatchesStats,
+  manifestHistoryEvent,
+  parseSampleSize,
+  selectVerificationSample,
+  DEFAULT_V2_HASH_LENGTH,
+  type AnyManifest,
+  type AnyManifestEntry,
+  type ManifestHeader
+} from '../../core/manifest.js';
+import {
+  ManifestStreamWriter,
+  isStreamedManifest,
+  compareManifestPaths,
+  type ManifestSource,
+  type ManifestStreamSummary
+} from '../../core/manifest-stream.js';
+import { computeMerkleTree, identicalSubtrees } from '../../core/merkle.js';
+import { detectMoves, type HashedPath, type MoveDetection } from '../../core/moves.js';
+import { verifyFileSignature, resolveTrustedKeys, signatureFilePath } from '../../core/signing.js';
+import { SIGNATURE_EXIT_CODES, describeVerification } from './sign.js';
+import { formatError, formatSize, formatDuration, formatByteRange } from '../output.js';
+import type { ManifestEntry, ManifestV2Entry, ManifestAlgorithm, AuditResult, FileMove } from '../../schemas/index.js';
+
+/**
+ * wnb manifest upgrade - Convert a v1 manifest to v2
+ */
+const upgradeCommand = new Command('upgrade')
+  .description('Convert a v1 manifest to v2 (re-hashes when algorithms or length change)')
+  .argument('<manifest>', 'v1 manifest to upgrade')
+  .option('-o, --output <path>', 'Output file (default: replace the input)')
+  .option('--dir <dir>', 'Directory holding the files when re-hashing (default: manifest root)')
+  .option('--algorithms <list>', 'Algorithms, first is primary: blake3, blake3-full, sha256, sha512, md5, xxhash64, xxh3, xxh128, sha1, crc32, c4')
+  .option('--hash-length <chars>', 'BLAKE3 length in hex characters, 16-64 (default: 64 when re-hashing)')
+  .option('--key-file <path>', 'Key file for keyed manifests (default: $WNB_HASH_KEY_FILE or $WNB_HASH_KEY)')
+  .option('--max-read-rate <rate>', 'Cap the total read rate, e.g. 100M (bytes/s, K/M/G suffixes)')
+  .action(async (manifestPath: string, _options, command: Command) => {
+    // Options shared with `wnb manifest` are parsed by it, wherever they appear
+    const options = command.optsWithGlobals();
+    try {
+      if (options.maxReadRate !== undefined) {
+        configureRateLimits({ read: parseRate(options.maxReadRate) });
+      }
+      if (await isStreamedManifest(manifestPath)) {
+        throw new Error(`${manifestPath} is an NDJSON manifest; regenerate it with --algorithms instead`);
+      }
+      const manifest = await loadManifest(manifestPath);
+      if (isManifestV2(manifest)) {
+        throw new Error(`${manifestPath} is already a v2 manifest`);
+      }
+
+      // Without layout options the v1 digests carry over as 16-character BLAKE3
+      const layout = options.algorithms !== undefined || options.hashLength !== undefined
+        ? resolveV2Layout(options)
+        : { algorithms: ['blake3'] as ManifestAlgorithm[], hashLength: 16 };
+      const rehash = layout.hashLength !== 16 || layout.algorithms.join() !== 'blake3';
+      const keyOptions = rehash ? await resolveRecordedKeyOptions(manifest, options.keyFile) : {};
+
+      const result = await upgradeManifest(manifest, {
+        ...layout,
+        ...keyOptions,
+        dir: options.dir ? path.resolve(options.dir) : undefined,
+        onProgress: (current, total) => {
+          if (current % 100 === 0) console.error(`Processed ${current}/${total} files...`);
+        }
+      });
+
+      if (result.failed.length > 0) {
+        for (const failure of result.failed) {
+          console.error(`FAILED ${failure.path}: ${failure.error}`);
+        }
+        throw new Error(`${result.failed.length} files could not be upgraded; manifest not written`);
+      }
+
+      const outputPath = options.output ?? manifestPath;
+      const { files, history, ...header } = result.manifest;
+      await writeManifest(outputPath, { ...header, merkle: computeMerkleTree(files), ...(history && { history }), files });
+      console.error(`Manifest upgraded: ${outputPath}`);
+      console.error(`Version 2.0, ${layout.algorithms.join(', ')}, BLAKE3 ${layout.hashLength} characters${result.rehashed ? ' (re-hashed and verified)' : ''}`);
+
+    } catch (err) {
+      console.error(formatError(String(err)));
+      process.exit(1);
+    }
+  });
 
 /**
  * wnb manifest - Generate manifest for directory
@@ -17,60 +121,252 @@ export const manifestCommand = new Command('manifest')
   .description('Generate file manifest for directory')
   .argument('<dir>', 'Directory to manifest')
   .option('-o, --output <path>', 'Output file (default: <dir>/manifest.json)')
-  .option('--update', 'Update existing manifest (add new files only)')
+  .option('--update', 'Update existing manifest (re-hash changed files, drop missing ones)')
+  .option('--keep-missing', 'With --update: keep entries of missing files (e.g. an offline volume)')
+  .option('--reverify <n>', 'With --update: also re-hash a sample of unchanged files, count or percentage (e.g. 50, 5%)')
   .option('--exclude <pattern...>', 'Glob patterns to exclude')
-  .option('-f, --format <fmt>', 'Output format: json, csv', 'json')
+  .option('-f, --format <fmt>', 'Output format: json, ndjson (streamed, for very large trees), csv', 'json')
+  .option('--format-version <n>', 'Manifest version: 1 or 2 (default: 1; 2 with --algorithms or --hash-length)')
+  .option('--algorithms <list>', 'v2 algorithms, first is primary: blake3, blake3-full, sha256, sha512, md5, xxhash64, xxh3, xxh128, sha1, crc32, c4')
+  .option('--hash-length <chars>', 'v2 BLAKE3 length in hex characters, 16-64 (default: 64)')
+  .option('--chunks', 'Record a BLAKE3 chunk map per file (localizes damage)')
+  .option('--chunk-size <mib>', 'Chunk map block size in MiB, 1-64 (default: 16)', '16')
+  .option('--keyed', 'Keyed BLAKE3 (MAC) with the key from $WNB_HASH_KEY_FILE or $WNB_HASH_KEY')
+  .option('--key-file <path>', 'Keyed BLAKE3 (MAC) with a 32-byte key file')
+  .option('--context <ctx>', 'BLAKE3 derive_key context (per-project digests)')
+  .option('--metadata [attrs]', 'Record metadata for drift checks: mode,owner,xattr,acl (bare flag: all)')
+  .option('--max-read-rate <rate>', 'Cap the total read rate, e.g. 100M (bytes/s, K/M/G suffixes)')
+  .addCommand(upgradeCommand)
   .action(async (dir: string, options) => {
     try {
       const resolvedDir = path.resolve(dir);
+      if (options.maxReadRate !== undefined) {
+        configureRateLimits({ read: parseRate(options.maxReadRate) });
+      }
       const startTime = performance.now();
+      const chunkSize = parseInt(options.chunkSize, 10) * 1024 * 1024;
+      if (options.chunks) validateChunkSize(chunkSize);
+      const metadataAttrs = parsePreserveList(options.metadata);
+      const unreadable = new Set<string>();
 
-      // Collect files
-      const files = await collectFiles(resolvedDir, options.exclude);
-      console.error(`Found ${files.length} files...`);
+      const keyOptions = await resolveKeyOptions(options);
+      const hashMode = getBlake3Mode(keyOptions);
+      const keyId = keyOptions.key ? computeKeyId(keyOptions.key) : undefined;
+
+      const streamed = options.format === 'ndjson';
+      if (!['json', 'ndjson', 'csv'].includes(options.format)) {
+        throw new Error(`Invalid format: ${options.format} (expected json, ndjson or csv)`);
+      }
 
       // Load existing manifest if updating
-      let existingEntries: Map<string, ManifestEntry> = new Map();
-      const outputPath = options.output ?? path.join(resolvedDir, 'manifest.json');
+      let existing: AnyManifest | null = null;
+      let existingEntries: Map<string, AnyManifestEntry> = new Map();
+      const outputPath = options.output ?? path.join(resolvedDir, streamed ? 'manifest.ndjson' : 'manifest.json');
 
       if (options.update) {
+        if (streamed || await isStreamedManifest(outputPath).catch(() => false)) {
+          throw new Error('--update does not support NDJSON manifests (regenerate them with -f ndjson)');
+        }
         try {
-          const existing = await loadManifest(outputPath);
-          existingEntries = new Map(existing.files.map(f => [f.path, f]));
-          console.error(`Loaded existing manifest with ${existingEntries.size} entries`);
+          existing = await loadManifest(outputPath);
         } catch {
           // No existing manifest
         }
+
+        if (existing) {
+          // Mixing keys or contexts would make the manifest unverifiable
+          if ((existing.hashMode ?? 'plain') !== hashMode || existing.keyId !== keyId || existing.context !== keyOptions.context) {
+            throw new Error('Existing manifest was created with a different key or context');
+          }
+          existingEntries = new Map((existing.files as AnyManifestEntry[]).map(f => [f.path, f]));
+          console.error(`Loaded existing manifest with ${existingEntries.size} entries`);
+        }
       }
 
-      // Hash files
-      const entries: ManifestEntry[] = [];
+      // An updated manifest keeps its version and algorithms unless told otherwise
+      const layoutGiven = options.formatVersion !== undefined || options.algorithms !== undefined || options.hashLength !== undefined;
+      let v2: { algorithms: ManifestAlgorithm[]; hashLength: number } | null;
+      if (existing && !layoutGiven) {
+        v2 = isManifestV2(existing) ? { algorithms: existing.algorithms, hashLength: existing.hashLength } : null;
+      } else {
+        const formatVersion = options.formatVersion ?? (options.algorithms !== undefined || options.hashLength !== undefined ? '2' : '1');
+        if (formatVersion !== '1' && formatVersion !== '2') {
+          throw new Error(`Invalid format version: ${formatVersion} (expected 1 or 2)`);
+        }
+        if (formatVersion === '1' && (options.algorithms !== undefined || options.hashLength !== undefined)) {
+          throw new Error('--algorithms and --hash-length need --format-version 2');
+        }
+        v2 = formatVersion === '2' ? resolveV2Layout(options) : null;
+      }
+      if (v2) {
+        validateKeyedAlgorithms(v2.algorithms, hashMode);
+      }
+      if (existing && (isManifestV2(existing) !== (v2 !== null) ||
+          (v2 && manifestAlgorithms(existing).join() !== v2.algorithms.join()) ||
+          (v2 && manifestHashLength(existing) !== v2.hashLength))) {
+        throw new Error('Existing manifest has a different version or algorithms (use wnb manifest upgrade, or regenerate)');
+      }
+
+      // Unchanged files to re-hash anyway, least recently verified first
+      const sample = new Set<string>();
+      if (options.reverify !== undefined) {
+        if (!existing) throw new Error('--reverify needs --update and an existing manifest');
+        const known = existing.files as AnyManifestEntry[];
+        for (const entry of selectVerificationSample(known, parseSampleSize(options.reverify, known.length))) {
+          sample.add(entry.path);
+        }
+      }
+
+      const generated = new Date().toISOString();
+      const entries: AnyManifestEntry[] = [];
+      const inodes = new Map<string, string>();
+      const changes = { added: 0, modified: 0, removed: 0, unchanged: 0 };
+      const history = [...(existing?.history ?? [])];
+      const suspect: string[] = [];
       let totalBytes = 0;
       let processed = 0;
 
-      for (const file of files) {
-        const relativePath = path.relative(resolvedDir, file);
+      const hashEntry = async (file: string, relativePath: string, stats: Stats): Promise<AnyManifestEntry> => {
+        // Metadata that cannot be read is left out (and reported once per attribute)
+        let metadata: ManifestEntry['metadata'];
+        if (metadataAttrs.length > 0) {
+          const read = await readFileMetadata(file, metadataAttrs);
+          for (const failure of read.failed) {
+            if (!unreadable.has(failure.attribute)) {
+              unreadable.add(failure.attribute);
+              console.error(`Warning: cannot record ${failure.attribute}: ${failure.error}`);
+            }
+          }
+          metadata = read.metadata;
+        }
 
-        // Skip if already in manifest (update mode)
-        if (options.update && existingEntries.has(relativePath)) {
-          entries.push(existingEntries.get(relativePath)!);
-          totalBytes += existingEntries.get(relativePath)!.size;
-          processed++;
-          continue;
+        // Known files bypass the hash cache, so a re-verified file is really read
+        const fresh = existingEntries.has(relativePath);
+        if (v2) {
+          const { hashes, size } = await hashForManifest(file, v2.algorithms, v2.hashLength, keyOptions, fresh);
+          // The chunk map is a second read: it is always 16-character BLAKE3 per block
+          const chunks = options.chunks
+            ? (await hashFileWithChunks(file, { chunkSize, ...keyOptions })).chunkMap
+            : undefined;
+          if (stats.nlink > 1) inodes.set(relativePath, `${stats.dev}:${stats.ino}`);
+          return {
+            path: relativePath,
+            size,
+            mtime: stats.mtime.toISOString(),
+            hashes,
+            ...(chunks && { chunks }),
+            ...(metadata && { metadata }),
+            mode: stats.mode & 0o7777,
+            lastVerified: new Date().toISOString()
+          };
+        }
+        const result = options.chunks
+          ? await hashFileWithChunks(file, { chunkSize, ...keyOptions })
+          : await hashFile(file, { algorithm: 'blake3', fresh, ...keyOptions });
+        return {
+          path: relativePath,
+          hash: result.hash,
+          size: result.size,
+          mtime: stats.mtime.toISOString(),
+          ...('chunkMap' in result && { chunks: result.chunkMap }),
+          ...(metadata && { metadata })
+        };
+      };
+
+      // Entries carried over keep their digests; hardlink groups are renumbered for the whole tree
+      const keepEntry = async (file: string, entry: AnyManifestEntry): Promise<AnyManifestEntry> => {
+        const kept = { ...entry };
+        if (v2) {
+          delete (kept as ManifestV2Entry).hardlinkGroup;
+          await recordInode(file, kept.path, inodes);
+        }
+        return kept;
+      };
+
+      const keyFields = hashMode !== 'plain' ? { hashMode, keyId, context: keyOptions.context } : {};
+      const header: ManifestHeader = v2
+        ? { version: '2.0', generated, algorithms: v2.algorithms, hashLength: v2.hashLength, root: resolvedDir, ...keyFields }
+        : { version: '1.0', generated, algorithm: 'blake3', hashLength: 16, root: resolvedDir, ...keyFields };
+
+      // NDJSON manifests are written entry by entry in path order, so memory stays bounded
+      if (streamed) {
+        const writer = await ManifestStreamWriter.open(outputPath, header);
+        const own = new Set([path.resolve(outputPath), path.resolve(writer.tempPath)]);
+        // Without the whole tree up front, every file with several links gets a group
+        const hardlinkGroups = new Map<string, number>();
+        let summary: ManifestStreamSummary;
+
+        try {
+          for await (const file of walkFiles(resolvedDir, options.exclude)) {
+            if (own.has(file)) continue;
+            const relativePath = path.relative(resolvedDir, file);
+
+            let entry: AnyManifestEntry;
+            try {
+              entry = await hashEntry(file, relativePath, await fs.stat(file));
+            } catch (err) {
+              console.error(`Warning: Failed to hash ${file}: ${err}`);
+              continue;
+            }
+            const inode = inodes.get(relativePath);
+            if (inode) {
+              inodes.delete(relativePath);
+              if (!hardlinkGroups.has(inode)) hardlinkGroups.set(inode, hardlinkGroups.size + 1);
+              (entry as ManifestV2Entry).hardlinkGroup = hardlinkGroups.get(inode);
+            }
+            await writer.write(entry);
+
+            processed++;
+            if (processed % 100 === 0) {
+              console.error(`Processed ${processed} files...`);
+            }
+          }
+          summary = await writer.close();
+        } catch (err) {
+          await writer.abort();
+          throw err;
         }
 
+        const duration = performance.now() - startTime;
+        console.error(`\nManifest created: ${outputPath}`);
+        console.error(`Files: ${summary.fileCount}, Size: ${formatSize(summary.totalBytes)}, Time: ${formatDuration(duration)}`);
+        return;
+      }
+
+      // Collect files
+      const files = await collectFiles(resolvedDir, options.exclude);
+      console.error(`Found ${files.length} files...`);
+
+      // Hash files
+      for (const file of files) {
+        const relativePath = path.relative(resolvedDir, file);
+        const previous = existingEntries.get(relativePath);
+
         try {
-          const result = await hashFile(file, 'blake3');
           const stats = await fs.stat(file);
 
-          entries.push({
-            path: relativePath,
-            hash: result.hash,
-            size: result.size,
-            mtime: stats.mtime.toISOString()
-          });
+          let entry: AnyManifestEntry;
+          if (previous && entryMatchesStats(previous, stats) && !sample.has(relativePath)) {
+            entry = await keepEntry(file, previous);
+            changes.unchanged++;
+          } else {
+            entry = await hashEntry(file, relativePath, stats);
+            if (!previous) {
+              changes.added++;
+            } else if (previous.size === entry.size && findHashMismatches(entryHashes(previous), entryHashes(entry)).length === 0) {
+              changes.unchanged++;
+            } else if (entryMatchesStats(previous, stats)) {
+              // Same size and mtime but different content: keep the recorded digests so check still flags it
+              suspect.push(relativePath);
+              entry = await keepEntry(file, previous);
+            } else {
+              changes.modified++;
+              history.push(manifestHistoryEvent(previous, 'modified', generated));
+            }
+          }
 
-          totalBytes += result.size;
+          entries.push(entry);
+          totalBytes += entry.size;
           processed++;
 
           // Progress
@@ -82,22 +378,65 @@ export const manifestCommand = new Command('manifest')
         }
       }
 
-      const manifest: Manifest = {
-        version: '1.0',
-        generated: new Date().toISOString(),
-        algorithm: 'blake3',
-        hashLength: 16,
-        root: resolvedDir,
-        fileCount: entries.length,
-        totalBytes,
-        files: entries.sort((a, b) => a.path.localeCompare(b.path))
-      };
+      // Entries whose files are gone are dropped and tombstoned in the history
+      const seen = new Set(files.map(file => path.relative(resolvedDir, file)));
+      for (const [relativePath, previous] of existingEntries) {
+        if (seen.has(relativePath)) continue;
+        if (options.keepMissing) {
+          const kept = { ...previous };
+          if (v2) delete (kept as ManifestV2Entry).hardlinkGroup;
+          entries.push(kept);
+          totalBytes += kept.size;
+        } else {
+          changes.removed++;
+          history.push(manifestHistoryEvent(previous, 'removed', generated));
+        }
+      }
+
+      entries.sort((a, b) => a.path.localeCompare(b.path));
+      const merkle = computeMerkleTree(entries);
+
+      let manifest: AnyManifest;
+      if (v2) {
+        assignHardlinkGroups(entries as ManifestV2Entry[], inodes);
+        manifest = {
+          version: '2.0',
+          generated,
+          algorithms: v2.algorithms,
+          hashLength: v2.hashLength,
+          root: resolvedDir,
+          fileCount: entries.length,
+          totalBytes,
+          ...keyFields,
+          merkle,
+          ...(history.length > 0 && { history }),
+          files: entries as ManifestV2Entry[]
+        };
+      } else {
+        manifest = {
+          version: '1.0',
+          generated,
+          algorithm: 'blake3',
+          hashLength: 16,
+          root: resolvedDir,
+          fileCount: entries.length,
+          totalBytes,
+          ...keyFields,
+          merkle,
+          ...(history.length > 0 && { history }),
+          files: entries as ManifestEntry[]
+        };
+      }
 
       // Write manifest
       if (options.format === 'csv') {
+        const algorithms = manifestAlgorithms(manifest);
         const csv = [
-          'path,hash,size,mtime',
-          ...manifest.files.map(f => `"${f.path}",${f.hash},${f.size},${f.mtime ?? ''}`)
+          `path,${isManifestV2(manifest) ? algorithms.join(',') : 'hash'},size,mtime`,
+          ...(manifest.files as AnyManifestEntry[]).map(f => {
+            const hashes = entryHashes(f);
+            return `"${f.path}",${algorithms.map(a => hashes[a]).join(',')},${f.size},${f.mtime ?? ''}`;
+          })
         ].join('\n');
         await fs.writeFile(outputPath.replace(/\.json$/, '.csv'), csv);
       } else {
@@ -107,6 +446,17 @@ export const manifestCommand = new Command('manifest')
       const duration = performance.now() - startTime;
       console.error(`\nManifest created: ${outputPath}`);
       console.error(`Files: ${manifest.fileCount}, Size: ${formatSize(totalBytes)}, Time: ${formatDuration(duration)}`);
+      if (existing) {
+        console.error(`Changes: ${changes.added} added, ${changes.modified} modified, ${changes.removed} removed, ${changes.unchanged} unchanged`);
+      }
+
+      if (suspect.length > 0) {
+        for (const relativePath of suspect) {
+          console.error(`SUSPECT ${relativePath} (content changed, size and mtime did not)`);
+        }
+        console.error(`${suspect.length} files changed without a new mtime; their recorded digests were kept`);
+        process.exit(1);
+      }
 
     } catch (err) {
       console.error(formatError(String(err)));
@@ -124,12 +474,34 @@ export const checkCommand = new Command('check')
   .option('-q, --quiet', 'Summary only')
   .option('-v, --verbose', 'Show all files, not just mismatches')
   .option('-f, --format <fmt>', 'Output format: text, json', 'text')
+  .option('--key-file <path>', 'Key file for keyed manifests (default: $WNB_HASH_KEY_FILE or $WNB_HASH_KEY)')
+  .option('--max-read-rate <rate>', 'Cap the total read rate, e.g. 100M (bytes/s, K/M/G suffixes)')
+  .option('--record-verified', 'Update lastVerified of matching files in the manifest (v2 only)')
+  .option('--require-signature', 'Refuse a manifest without a valid signature from a trusted key')
+  .option('--trusted-key <file...>', 'Also trust these public keys (besides trustedKeys / $WNB_TRUSTED_KEYS)')
   .action(async (dir: string, manifestPath: string, options) => {
     try {
       const resolvedDir = path.resolve(dir);
-      const manifest = await loadManifest(manifestPath);
+      if (options.maxReadRate !== undefined) {
+        configureRateLimits({ read: parseRate(options.maxReadRate) });
+      }
+      if (options.requireSignature) {
+        // Rewriting lastVerified would break the signature just checked
+        if (options.recordVerified) {
+          throw new Error('--record-verified cannot be combined with --require-signature');
+        }
+        const signature = await verifyFileSignature(manifestPath, await resolveTrustedKeys(options.trustedKey));
+        if (signature.status !== 'valid') {
+          console.error(formatError(`Manifest signature: ${describeVerification(signature)}`));
+          process.exit(SIGNATURE_EXIT_CODES[signature.status]);
+        }
+      }
+      const source = await openManifestSource(manifestPath);
+      checkRecordVerified(source, options.recordVerified);
+      const keyOptions = await resolveRecordedKeyOptions(source.header, options.keyFile);
 
-      const result = await verifyManifest(resolvedDir, manifest, options.verbose);
+      const result = await verifyManifest(resolvedDir, source, options.verbose, false, keyOptions, options.recordVerified);
+      if (options.recordVerified) await recordVerified(manifestPath, source.manifest!);
 
       if (options.format === 'json') {
         console.log(JSON.stringify(result, null, 2));
@@ -142,6 +514,7 @@ export const checkCommand = new Command('check')
         if (result.missing.length > 0) process.exit(2);
         if (result.mismatched.length > 0) process.exit(1);
       }
+      if (result.metadataDrift) process.exit(14);
 
     } catch (err) {
       console.error(formatError(String(err)));
@@ -159,17 +532,26 @@ export const auditCommand = new Command('audit')
   .option('-v, --verbose', 'Verbosity level (repeat for more)', (_, prev) => prev + 1, 0)
   .option('--strict', 'Fail on extra files not in manifest')
   .option('-f, --format <fmt>', 'Output format: text, json', 'text')
+  .option('--key-file <path>', 'Key file for keyed manifests (default: $WNB_HASH_KEY_FILE or $WNB_HASH_KEY)')
+  .option('--max-read-rate <rate>', 'Cap the total read rate, e.g. 100M (bytes/s, K/M/G suffixes)')
+  .option('--record-verified', 'Update lastVerified of matching files in the manifest (v2 only)')
   .action(async (dir: string, manifestPath: string, options) => {
     try {
       const resolvedDir = path.resolve(dir);
-      const manifest = await loadManifest(manifestPath);
+      if (options.maxReadRate !== undefined) {
+        configureRateLimits({ read: parseRate(options.maxReadRate) });
+      }
+      const source = await openManifestSource(manifestPath);
+      checkRecordVerified(source, options.recordVerified);
+      const keyOptions = await resolveRecordedKeyOptions(source.header, options.keyFile);
 
-      const result = await verifyManifest(resolvedDir, manifest, true, options.strict);
+      const result = await verifyManifest(resolvedDir, source, true, options.strict, keyOptions, options.recordVerified, true);
+      if (options.recordVerified) await recordVerified(manifestPath, source.manifest!);
 
       if (options.format === 'json') {
         console.log(JSON.stringify(result, null, 2));
       } else {
-        printAuditResult(result, options.verbose, options.strict);
+        printAuditResult(result, source.header, options.verbose, options.strict);
       }
 
       // Exit codes
@@ -177,6 +559,8 @@ export const auditCommand = new Command('audit')
       if (result.missing.length > 0) process.exit(11);
       if (options.strict && result.extra.length > 0) process.exit(12);
       if (result.duplicates.length > 0) process.exit(13);
+      if (result.metadataDrift) process.exit(14);
+      if (result.moved || result.renamed || result.copied) process.exit(15);
 
     } catch (err) {
       console.error(formatError(String(err)));
@@ -194,53 +578,92 @@ export const diffCommand = new Command('diff')
   .option('-f, --format <fmt>', 'Output format: text, json', 'text')
   .action(async (manifest1Path: string, manifest2Path: string, options) => {
     try {
-      const m1 = await loadManifest(manifest1Path);
-      const m2 = await loadManifest(manifest2Path);
+      const s1 = await openManifestSource(manifest1Path);
+      const s2 = await openManifestSource(manifest2Path);
 
-      const m1Map = new Map(m1.files.map(f => [f.path, f]));
-      const m2Map = new Map(m2.files.map(f => [f.path, f]));
+      // v1 and v2 manifests compare on an algorithm both recorded
+      const { algorithm, hashLength } = findCommonAlgorithm(s1.header, s2.header);
+      const digest = (entry: AnyManifestEntry): string =>
+        (entryHashes(entry)[algorithm] ?? '').slice(0, hashLength);
+      const hashed = (entry: AnyManifestEntry): HashedPath => ({ path: entry.path, hash: digest(entry), size: entry.size });
 
-      const added: ManifestEntry[] = [];
-      const removed: ManifestEntry[] = [];
+      // Subtrees with equal Merkle roots are identical and need no entry comparison.
+      // Trees come from the entries: a stored root may be stale in an edited or converted manifest.
+      const skipped = s1.manifest && s2.manifest
+        ? identicalSubtrees(computeMerkleTree(s1.manifest.files), computeMerkleTree(s2.manifest.files))
+        : [];
+      const isSkipped = (p: string): boolean =>
+        skipped.some(dir => dir === '' || p.startsWith(dir + '/'));
+
+      const added: AnyManifestEntry[] = [];
+      const removed: AnyManifestEntry[] = [];
       const modified: Array<{ path: string; oldHash: string; newHash: string }> = [];
-      const unchanged: string[] = [];
-
-      // Find added and modified
-      for (const [p, entry] of m2Map) {
-        if (!m1Map.has(p)) {
-          added.push(entry);
-        } else if (m1Map.get(p)!.hash !== entry.hash) {
-          modified.push({ path: p, oldHash: m1Map.get(p)!.hash, newHash: entry.hash });
+      // Copy sources need every kept digest; only kept when both manifests are in memory anyway
+      const kept: HashedPath[] | undefined = s1.manifest && s2.manifest ? [] : undefined;
+      let unchanged = 0;
+
+      // Sorted merge: both sources yield entries in path order
+      const it1 = s1.entries[Symbol.asyncIterator]();
+      const it2 = s2.entries[Symbol.asyncIterator]();
+      let e1 = await it1.next();
+      let e2 = await it2.next();
+      while (!e1.done || !e2.done) {
+        const order = e1.done ? 1 : e2.done ? -1 : compareManifestPaths(e1.value.path, e2.value.path);
+        if (order < 0) {
+          removed.push(e1.value as AnyManifestEntry);
+          e1 = await it1.next();
+        } else if (order > 0) {
+          added.push(e2.value as AnyManifestEntry);
+          e2 = await it2.next();
         } else {
-          unchanged.push(p);
+          const before = e1.value as AnyManifestEntry;
+          const after = e2.value as AnyManifestEntry;
+          if (!isSkipped(after.path) && digest(before) !== digest(after)) {
+            modified.push({ path: after.path, oldHash: digest(before), newHash: digest(after) });
+          } else {
+            unchanged++;
+          }
+          kept?.push(hashed(after));
+          e1 = await it1.next();
+          e2 = await it2.next();
         }
       }
 
-      // Find removed
-      for (const [p, entry] of m1Map) {
-        if (!m2Map.has(p)) {
-          removed.push(entry);
-        }
-      }
+      // Removed and added paths with the same content are moves, renames or copies
+      const moves = detectMoves(removed.map(hashed), added.map(hashed), kept);
+      const stillRemoved = new Set(moves.removed);
+      const stillAdded = new Set(moves.added);
 
-      const result = { added, removed, modified, unchanged: unchanged.length };
+      const result = {
+        algorithm,
+        added: added.filter(f => stillAdded.has(f.path)),
+        removed: removed.filter(f => stillRemoved.has(f.path)),
+        modified,
+        moved: moves.moved,
+        renamed: moves.renamed,
+        copied: moves.copied,
+        movedDirectories: moves.movedDirectories,
+        unchanged
+      };
 
       if (options.format === 'json') {
         console.log(JSON.stringify(result, null, 2));
       } else {
-        if (added.length > 0) {
-          console.log(`ADDED (${added.length}):`);
-          added.forEach(f => console.log(`  + ${f.path}`));
+        if (result.added.length > 0) {
+          console.log(`ADDED (${result.added.length}):`);
+          result.added.forEach(f => console.log(`  + ${f.path}`));
         }
-        if (removed.length > 0) {
-          console.log(`REMOVED (${removed.length}):`);
-          removed.forEach(f => console.log(`  - ${f.path}`));
+        if (result.removed.length > 0) {
+          console.log(`REMOVED (${result.removed.length}):`);
+          result.removed.forEach(f => console.log(`  - ${f.path}`));
         }
         if (modified.length > 0) {
           console.log(`MODIFIED (${modified.length}):`);
           modified.forEach(f => console.log(`  ~ ${f.path} (${f.oldHash} → ${f.newHash})`));
         }
-        console.log(`\nSummary: ${added.length} added, ${removed.length} removed, ${modified.length} modified, ${unchanged.length} unchanged`);
+        printMoves(result);
+        console.log(`\nSummary: ${result.added.length} added, ${result.removed.length} removed, ${modified.length} modified, ` +
+          `${result.moved.length} moved, ${result.renamed.length} renamed, ${result.copied.length} copied, ${result.unchanged} unchanged`);
       }
 
     } catch (err) {
@@ -253,7 +676,18 @@ export const diffCommand = new Command('diff')
 
 async function collectFiles(dir: string, exclude?: string[]): Promise<string[]> {
   const files: string[] = [];
+  for await (const file of walkFiles(dir, exclude)) {
+    files.push(file);
+  }
+  return files;
+}
+
+/**
+ * Files under dir in manifest path order (names sorted by code unit, depth first)
+ */
+async function* walkFiles(dir: string, exclude?: string[]): AsyncGenerator<string> {
   const entries = await fs.readdir(dir, { withFileTypes: true });
+  entries.sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
 
   for (const entry of entries) {
     const fullPath = path.join(dir, entry.name);
@@ -265,14 +699,13 @@ async function collectFiles(dir: string, exclude?: string[]): Promise<string[]>
     }
 
     if (entry.isFile()) {
-      files.push(fullPath);
+      yield fullPath;
     } else if (entry.isDirectory()) {
-      const subFiles = await collectFiles(fullPath, exclude);
-      files.push(...subFiles);
+      // Per-volume hash cache lives in .wnb and changes on every run
+      if (entry.name === '.wnb') continue;
+      yield* walkFiles(fullPath, exclude);
     }
   }
-
-  return files;
 }
 
 function matchGlob(filePath: string, pattern: string): boolean {
@@ -284,41 +717,128 @@ function matchGlob(filePath: string, pattern: string): boolean {
   return new RegExp(`^${regex}$`).test(filePath);
 }
 
-async function loadManifest(manifestPath: string): Promise<Manifest> {
-  const content = await fs.readFile(manifestPath, 'utf-8');
-  return JSON.parse(content) as Manifest;
+/**
+ * Algorithms and BLAKE3 length from --algorithms / --hash-length (v2 manifests)
+ */
+function resolveV2Layout(options: { algorithms?: string; hashLength?: string }): { algorithms: ManifestAlgorithm[]; hashLength: number } {
+  const parsed = parseManifestAlgorithms(options.algorithms ?? 'blake3');
+  const hashLength = options.hashLength !== undefined
+    ? parseInt(options.hashLength, 10)
+    : parsed.hashLength ?? DEFAULT_V2_HASH_LENGTH;
+  if (parsed.hashLength !== undefined && hashLength !== parsed.hashLength) {
+    throw new Error(`blake3-full is ${parsed.hashLength} characters and cannot be combined with --hash-length ${options.hashLength}`);
+  }
+  validateHashLength(hashLength);
+  return { algorithms: parsed.algorithms, hashLength };
+}
+
+function checkRecordVerified(source: ManifestSource, recordVerified?: boolean): void {
+  if (recordVerified && !source.manifest) {
+    throw new Error('--record-verified cannot rewrite NDJSON manifests');
+  }
+  if (recordVerified && !isManifestV2(source.header)) {
+    throw new Error('--record-verified needs a v2 manifest (wnb manifest upgrade)');
+  }
 }
 
+async function recordVerified(manifestPath: string, manifest: AnyManifest): Promise<void> {
+  await writeManifest(manifestPath, manifest);
+  const signaturePath = signatureFilePath(manifestPath);
+  if (await fs.access(signaturePath).then(() => true, () => false)) {
+    console.error(`Warning: ${signaturePath} no longer matches the manifest; sign it again (wnb sign)`);
+  }
+}
+
+async function recordInode(file: string, relativePath: string, inodes: Map<string, string>): Promise<void> {
+  const stats = await fs.stat(file);
+  if (stats.nlink > 1) inodes.set(relativePath, `${stats.dev}:${stats.ino}`);
+}
+
+/**
+ * Verify a tree against a manifest, walking both in path order
+ * Duplicates and copies need every digest in memory, so they are only reported
+ * for manifests that were loaded whole (JSON).
+ */
 async function verifyManifest(
   dir: string,
-  manifest: Manifest,
+  source: ManifestSource,
   verbose: boolean = false,
-  checkExtra: boolean = false
+  checkExtra: boolean = false,
+  keyOptions: Blake3KeyOptions = {},
+  recordVerified: boolean = false,
+  findMoves: boolean = false
 ): Promise<AuditResult> {
-  const mismatched: ManifestEntry[] = [];
-  const missing: ManifestEntry[] = [];
+  const { header, manifest } = source;
+  const algorithms = manifestAlgorithms(header);
+  const hashLength = manifestHashLength(header);
+  const mismatched: AnyManifestEntry[] = [];
+  const missing: AnyManifestEntry[] = [];
   const extra: string[] = [];
-  const hashToPath: Map<string, string[]> = new Map();
+  const damaged: NonNullable<AuditResult['damaged']> = [];
+  const metadataDrift: NonNullable<AuditResult['metadataDrift']> = [];
+  const hashToPath: Map<string, string[]> | undefined = manifest ? new Map() : undefined;
+  const hashed = (entry: AnyManifestEntry): HashedPath => ({ path: entry.path, hash: entryHashes(entry)[algorithms[0]]!, size: entry.size });
+  const present: HashedPath[] = [];
   let matched = 0;
+  let total = 0;
+
+  // Files not in the manifest, found by walking the tree alongside the entries
+  const unlisted: string[] = [];
+  const walker = checkExtra || findMoves ? walkFiles(dir)[Symbol.asyncIterator]() : undefined;
+  let walked = walker ? await walker.next() : undefined;
+  const walkUpTo = async (entryPath?: string): Promise<void> => {
+    while (walker && walked && !walked.done) {
+      const relativePath = path.relative(dir, walked.value);
+      const order = entryPath === undefined ? -1 : compareManifestPaths(relativePath, entryPath);
+      if (order > 0) return;
+      if (order < 0) unlisted.push(relativePath);
+      walked = await walker.next();
+      if (order === 0) return;
+    }
+  };
 
-  for (const entry of manifest.files) {
+  for await (const entry of source.entries) {
     const fullPath = path.join(dir, entry.path);
+    total++;
+    await walkUpTo(entry.path);
 
     try {
-      const result = await hashFile(fullPath, 'blake3');
+      const { hashes } = await hashForManifest(fullPath, algorithms, hashLength, keyOptions, true);
+      const failed = findHashMismatches(entryHashes(entry), hashes);
 
-      if (result.hash !== entry.hash) {
+      if (failed.length > 0) {
         mismatched.push(entry);
-        if (verbose) console.error(`MISMATCH: ${entry.path}`);
+        if (verbose) console.error(`MISMATCH: ${entry.path}${algorithms.length > 1 ? ` (${failed.join(', ')})` : ''}`);
+
+        // Narrow the mismatch down to byte ranges when a chunk map was recorded
+        if (entry.chunks) {
+          const damage = await locateDamage(fullPath, entry.chunks, entry.size, keyOptions);
+          damaged.push({ path: entry.path, ranges: damage.damaged });
+        }
       } else {
         matched++;
         if (verbose) console.error(`OK: ${entry.path}`);
+        if (recordVerified && 'hashes' in entry) entry.lastVerified = new Date().toISOString();
+      }
+
+      // Metadata drift is reported separately from content drift
+      if (entry.metadata) {
+        const { metadata } = await readFileMetadata(fullPath, metadataAttributes(entry.metadata));
+        const attributes = findMetadataDrift(entry.metadata, metadata);
+        if (attributes.length > 0) {
+          metadataDrift.push({ path: entry.path, attributes });
+          if (verbose) console.error(`METADATA: ${entry.path} (${attributes.join(', ')})`);
+        }
       }
 
       // Track duplicates
-      const paths = hashToPath.get(result.hash) ?? [];
-      paths.push(entry.path);
-      hashToPath.set(result.hash, paths);
+      if (hashToPath) {
+        const hash = hashes[algorithms[0]]!;
+        const paths = hashToPath.get(hash) ?? [];
+        paths.push(entry.path);
+        hashToPath.set(hash, paths);
+        present.push(hashed(entry));
+      }
 
     } catch (err: unknown) {
       const errObj = err as NodeJS.ErrnoException;
@@ -331,23 +851,50 @@ async function verifyManifest(
     }
   }
 
-  // Check for extra files
-  if (checkExtra) {
-    const manifestPaths = new Set(manifest.files.map(f => f.path));
-    const actualFiles = await collectFiles(dir);
-
-    for (const file of actualFiles) {
-      const relativePath = path.relative(dir, file);
-      if (!manifestPaths.has(relativePath)) {
-        extra.push(relativePath);
-        if (verbose) console.error(`EXTRA: ${relativePath}`);
+  await walkUpTo();
+
+  // Missing entries found at an unlisted path are moves; with --strict, unlisted
+  // copies of present entries are copies. Only files of a plausible size are read.
+  let moves: MoveDetection | undefined;
+  if (findMoves && unlisted.length > 0 && (missing.length > 0 || checkExtra)) {
+    const sizes = new Set((checkExtra && manifest ? manifest.files : missing).map(entry => entry.size));
+
+    const candidates: HashedPath[] = [];
+    for (const relativePath of unlisted) {
+      try {
+        const { size } = await fs.stat(path.join(dir, relativePath));
+        if (size === 0 || !sizes.has(size)) continue;
+        const { hashes } = await hashForManifest(path.join(dir, relativePath), [algorithms[0]], hashLength, keyOptions, true);
+        candidates.push({ path: relativePath, hash: hashes[algorithms[0]]!, size });
+      } catch {
+        // Vanished or unreadable: stays an extra file
       }
     }
+
+    moves = detectMoves(missing.map(hashed), candidates, present.map(hashed));
+    if (!checkExtra) {
+      moves.copied = [];
+    }
+    const found = new Set(moves.removed);
+    const placed = new Set([...moves.moved, ...moves.renamed, ...moves.copied].map(m => m.to));
+    missing.splice(0, missing.length, ...missing.filter(entry => found.has(entry.path)));
+    unlisted.splice(0, unlisted.length, ...unlisted.filter(p => !placed.has(p)));
+
+    if (verbose) {
+      for (const move of moves.moved) console.error(`MOVED: ${move.from} → ${move.to}`);
+      for (const move of moves.renamed) console.error(`RENAMED: ${move.from} → ${move.to}`);
+      for (const copy of moves.copied) console.error(`COPIED: ${copy.from} → ${copy.to}`);
+    }
+  }
+
+  if (checkExtra) {
+    extra.push(...unlisted);
+    if (verbose) unlisted.forEach(p => console.error(`EXTRA: ${p}`));
   }
 
   // Find duplicates
   const duplicates: Array<{ hash: string; paths: string[] }> = [];
-  for (const [hash, paths] of hashToPath) {
+  for (const [hash, paths] of hashToPath ?? []) {
     if (paths.length > 1) {
       duplicates.push({ hash, paths });
     }
@@ -355,12 +902,18 @@ async function verifyManifest(
 
   return {
     valid: mismatched.length === 0 && missing.length === 0,
-    total: manifest.files.length,
+    total,
     matched,
     mismatched,
     missing,
     extra,
-    duplicates
+    duplicates,
+    ...(damaged.length > 0 ? { damaged } : {}),
+    ...(metadataDrift.length > 0 ? { metadataDrift } : {}),
+    ...(moves && moves.moved.length > 0 ? { moved: moves.moved } : {}),
+    ...(moves && moves.renamed.length > 0 ? { renamed: moves.renamed } : {}),
+    ...(moves && moves.copied.length > 0 ? { copied: moves.copied } : {}),
+    ...(moves && moves.movedDirectories.length > 0 ? { movedDirectories: moves.movedDirectories } : {})
   };
 }
 
@@ -374,16 +927,23 @@ function printCheckResult(result: AuditResult, quiet: boolean): void {
   console.log(`Matched: ${result.matched}`);
   if (result.mismatched.length > 0) {
     console.log(`Mismatched: ${result.mismatched.length}`);
-    result.mismatched.forEach(f => console.log(`  ${f.path}`));
+    result.mismatched.forEach(f => {
+      console.log(`  ${f.path}`);
+      printDamagedRanges(result, f.path, '    ');
+    });
   }
   if (result.missing.length > 0) {
     console.log(`Missing: ${result.missing.length}`);
     result.missing.forEach(f => console.log(`  ${f.path}`));
   }
+  if (result.metadataDrift) {
+    console.log(`Metadata drift: ${result.metadataDrift.length}`);
+    result.metadataDrift.forEach(d => console.log(`  ${d.path} (${d.attributes.join(', ')})`));
+  }
   console.log(`\nResult: ${result.valid ? 'PASS' : 'FAIL'}`);
 }
 
-function printAuditResult(result: AuditResult, verbosity: number, strict: boolean): void {
+function printAuditResult(result: AuditResult, header: ManifestHeader, verbosity: number, strict: boolean): void {
   if (verbosity >= 1) {
     console.log('=== Audit Summary ===');
     console.log(`Total: ${result.total}`);
@@ -392,12 +952,19 @@ function printAuditResult(result: AuditResult, verbosity: number, strict: boolea
     console.log(`Missing: ${result.missing.length}`);
     console.log(`Extra: ${result.extra.length}`);
     console.log(`Duplicates: ${result.duplicates.length}`);
+    if (result.metadataDrift) console.log(`Metadata drift: ${result.metadataDrift.length}`);
+    if (result.moved) console.log(`Moved: ${result.moved.length}`);
+    if (result.renamed) console.log(`Renamed: ${result.renamed.length}`);
+    if (result.copied) console.log(`Copied: ${result.copied.length}`);
   }
 
   if (verbosity >= 2) {
     if (result.mismatched.length > 0) {
       console.log('\n=== Mismatched Files ===');
-      result.mismatched.forEach(f => console.log(`  ${f.path}: expected ${f.hash}`));
+      result.mismatched.forEach(f => {
+        console.log(`  ${f.path}: expected ${primaryHash(header, f)}`);
+        printDamagedRanges(result, f.path, '    ');
+      });
     }
     if (result.missing.length > 0) {
       console.log('\n=== Missing Files ===');
@@ -414,6 +981,14 @@ function printAuditResult(result: AuditResult, verbosity: number, strict: boolea
         d.paths.forEach(p => console.log(`    ${p}`));
       });
     }
+    if (result.metadataDrift) {
+      console.log('\n=== Metadata Drift ===');
+      result.metadataDrift.forEach(d => console.log(`  ${d.path}: ${d.attributes.join(', ')}`));
+    }
+    if (result.moved || result.renamed || result.copied) {
+      console.log('\n=== Moved Files ===');
+      printMoves(result);
+    }
   }
 
   const pass = result.mismatched.length === 0 &&
@@ -422,3 +997,30 @@ function printAuditResult(result: AuditResult, verbosity: number, strict: boolea
 
   console.log(`\nAudit: ${pass ? 'PASS' : 'FAIL'}`);
 }
+
+function printMoves(moves: Pick<AuditResult, 'moved' | 'renamed' | 'copied' | 'movedDirectories'>): void {
+  const sections: Array<[string, string, FileMove[] | undefined]> = [
+    ['MOVED', '>', moves.moved],
+    ['RENAMED', '>', moves.renamed],
+    ['COPIED', '+', moves.copied]
+  ];
+  for (const [title, marker, list] of sections) {
+    if (!list || list.length === 0) continue;
+    console.log(`${title} (${list.length}):`);
+    list.forEach(m => console.log(`  ${marker} ${m.from} → ${m.to}`));
+  }
+  if (moves.movedDirectories && moves.movedDirectories.length > 0) {
+    console.log(`DIRECTORIES MOVED (${moves.movedDirectories.length}):`);
+    moves.movedDirectories.forEach(d =>
+      console.log(`  > ${d.from || '.'}/ → ${d.to || '.'}/ (${d.files} files, ${Math.round(d.similarity * 100)}%)`));
+  }
+}
+
+function printDamagedRanges(result: AuditResult, filePath: string, indent: string): void {
+  const entry = result.damaged?.find(d => d.path === filePath);
+  if (!entry) return;
+
+  for (const range of entry.ranges) {
+    console.log(`${indent}damaged: ${formatByteRange(range)}`);
+  }
+}
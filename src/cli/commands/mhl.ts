@@ -1,6 +1,7 @@
 /**
  * wnb mhl command
- * Generate and verify MHL (Media Hash List) files for professional post-production
+ * Generate and verify MHL (Media Hash List) files for professional post-production:
+ * flat MHL 1.1 files, and ASC MHL v2 histories (wnb mhl create / verify)
  */
 
 import { Command } from 'commander';
@@ -11,15 +12,106 @@ import {
   verifyMhl,
   generateMhlFilename,
   mhlToXml,
-  type MhlAlgorithm
+  createMhlGeneration,
+  verifyMhlHistory,
+  MHL_HASH_FORMATS,
+  type MhlAlgorithm,
+  type MhlHashFormat,
+  type MhlGenerationResult,
+  type MhlHistoryVerifyResult
 } from '../../services/mhl/index.js';
 import { formatError, formatSize, formatDuration } from '../output.js';
 
+/**
+ * wnb mhl create - Add a generation to an ASC MHL history
+ */
+const createHistoryCommand = new Command('create')
+  .description('Add an ASC MHL v2 generation to <root>/ascmhl (and to nested histories)')
+  .argument('<root>', 'Folder whose history to extend')
+  .option('-H, --hash-format <fmt>', `Format for new files: ${MHL_HASH_FORMATS.join(', ')}`, 'xxh64')
+  .option('--exclude <pattern...>', 'Patterns to exclude, kept for later generations')
+  .option('-f, --format <fmt>', 'Output format: text (default), json', 'text')
+  .option('-q, --quiet', 'Only list failed and missing files')
+  .action(async (root: string, _options, command: Command) => {
+    // Options shared with `wnb mhl` are parsed by it, wherever they appear
+    const options = command.optsWithGlobals();
+    try {
+      if (!MHL_HASH_FORMATS.includes(options.hashFormat)) {
+        throw new Error(`Invalid hash format: ${options.hashFormat} (expected ${MHL_HASH_FORMATS.join(', ')})`);
+      }
+      const showProgress = !options.quiet && options.format !== 'json';
+      const result = await createMhlGeneration(path.resolve(root), {
+        hashFormat: options.hashFormat as MhlHashFormat,
+        excludePatterns: options.exclude,
+        onProgress: showProgress ? (current, total, file) => {
+          process.stderr.write(`\rHashing ${current}/${total}: ${path.basename(file)}`.padEnd(80));
+        } : undefined
+      });
+      if (showProgress) {
+        process.stderr.write('\r' + ' '.repeat(80) + '\r');
+      }
+
+      const generations = flattenGenerations(result);
+      if (options.format === 'json') {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        for (const generation of generations) {
+          printGeneration(generation, path.resolve(root), options.quiet);
+        }
+      }
+
+      if (generations.some(g => g.failed.length > 0 || g.missing.length > 0)) {
+        process.exit(1);
+      }
+    } catch (err) {
+      console.error(formatError(String(err)));
+      process.exit(1);
+    }
+  });
+
+/**
+ * wnb mhl verify - Verify files and the chain of an ASC MHL history
+ */
+const verifyHistoryCommand = new Command('verify')
+  .description('Verify an ASC MHL v2 history: its chain, nested histories and every file')
+  .argument('<root>', 'Folder holding the ascmhl/ history')
+  .option('--exclude <pattern...>', 'Patterns to exclude in addition to the recorded ones')
+  .option('-f, --format <fmt>', 'Output format: text (default), json', 'text')
+  .option('-q, --quiet', 'Only list problems')
+  .action(async (root: string, _options, command: Command) => {
+    const options = command.optsWithGlobals();
+    try {
+      const showProgress = !options.quiet && options.format !== 'json';
+      const result = await verifyMhlHistory(path.resolve(root), {
+        excludePatterns: options.exclude,
+        onProgress: showProgress ? (current, total, file) => {
+          process.stderr.write(`\rVerifying ${current}/${total}: ${path.basename(file)}`.padEnd(80));
+        } : undefined
+      });
+      if (showProgress) {
+        process.stderr.write('\r' + ' '.repeat(80) + '\r');
+      }
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        printHistoryResult(result, path.resolve(root), options.quiet);
+      }
+
+      if (!result.valid) {
+        process.exit(1);
+      }
+    } catch (err) {
+      console.error(formatError(String(err)));
+      process.exit(1);
+    }
+  });
+
 /**
  * wnb mhl - Generate or verify MHL files
  */
 export const mhlCommand = new Command('mhl')
-  .description('Generate or verify MHL (Media Hash List) files for post-production')
+  .description('Generate or verify flat MHL 1.1 files; `create` and `verify` manage ASC MHL v2 histories')
   .argument('<path>', 'Directory to hash or MHL file to verify')
   .option('-o, --output <path>', 'Output MHL file path')
   .option('-a, --algorithm <alg>', 'Hash algorithm: xxhash64 (default), md5, both', 'xxhash64')
@@ -28,6 +120,8 @@ export const mhlCommand = new Command('mhl')
   .option('--exclude <pattern...>', 'Patterns to exclude from hashing')
   .option('-f, --format <fmt>', 'Output format: text (default), json, xml', 'text')
   .option('-q, --quiet', 'Minimal output')
+  .addCommand(createHistoryCommand)
+  .addCommand(verifyHistoryCommand)
   .action(async (inputPath: string, options) => {
     try {
       const resolvedPath = path.resolve(inputPath);
@@ -180,3 +274,56 @@ function printVerifyResult(
   console.log('');
   console.log(`Result: ${result.valid ? 'PASS' : 'FAIL'}`);
 }
+
+/**
+ * A generation and those of its nested histories, innermost first
+ */
+function flattenGenerations(result: MhlGenerationResult): MhlGenerationResult[] {
+  return [...result.children.flatMap(flattenGenerations), result];
+}
+
+/**
+ * Print one new ASC MHL generation
+ */
+function printGeneration(result: MhlGenerationResult, root: string, quiet: boolean): void {
+  const prefix = path.relative(root, result.root);
+  const show = (file: string): string => (prefix ? `${prefix}/${file}` : file);
+
+  for (const file of result.failed) console.log(`FAILED ${show(file)}`);
+  for (const file of result.missing) console.log(`MISSING ${show(file)}`);
+  if (quiet) return;
+
+  for (const rename of result.renamed) console.log(`RENAMED ${show(rename.from)} -> ${show(rename.to)}`);
+  console.log(`Generation ${result.sequenceNumber}: ${path.relative(process.cwd(), result.generationPath)}`);
+  console.log(`  New: ${result.original.length}, verified: ${result.verified.length}, renamed: ${result.renamed.length}, failed: ${result.failed.length}, missing: ${result.missing.length}`);
+}
+
+/**
+ * Print an ASC MHL history verification, nested histories included
+ */
+function printHistoryResult(result: MhlHistoryVerifyResult, root: string, quiet: boolean): void {
+  const prefix = path.relative(root, result.root);
+  const show = (file: string): string => (prefix ? `${prefix}/${file}` : file);
+  const label = prefix || '.';
+
+  for (const error of result.chainErrors) console.log(`CHAIN ${label}: ${error}`);
+  for (const file of result.failed) console.log(`FAILED ${show(file)}`);
+  for (const file of result.missing) console.log(`MISSING ${show(file)}`);
+  for (const file of result.newFiles) console.log(`NEW ${show(file)}`);
+  for (const child of result.children) printHistoryResult(child, root, quiet);
+  if (quiet || prefix) return;
+
+  const all = flattenHistoryResults(result);
+  const count = (pick: (r: MhlHistoryVerifyResult) => unknown[]): number => all.reduce((sum, r) => sum + pick(r).length, 0);
+  console.log(`ASC MHL history: ${result.valid ? 'VALID' : 'INVALID'}`);
+  console.log(`  Histories:   ${all.length} (${result.generations} generations at the root)`);
+  console.log(`  Verified:    ${count(r => r.verified)}`);
+  console.log(`  Failed:      ${count(r => r.failed)}`);
+  console.log(`  Missing:     ${count(r => r.missing)}`);
+  console.log(`  New:         ${count(r => r.newFiles)}`);
+  console.log(`  Chain:       ${count(r => r.chainErrors) === 0 ? 'OK' : `${count(r => r.chainErrors)} problems`}`);
+}
+
+function flattenHistoryResults(result: MhlHistoryVerifyResult): MhlHistoryVerifyResult[] {
+  return [result, ...result.children.flatMap(flattenHistoryResults)];
+}
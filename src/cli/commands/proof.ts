@@ -0,0 +1,115 @@
+/**
+ * wnb proof command
+ * Merkle inclusion proofs: show one file belongs to an archive with a known root
+ */
+
+import { Command } from 'commander';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { createMerkleProof, merkleProofRoot } from '../../core/merkle.js';
+import { loadManifest, hashForManifest, findHashMismatches, type ManifestHashes } from '../../core/manifest.js';
+import { formatError } from '../output.js';
+import { MerkleProofSchema, type ManifestAlgorithm, type MerkleProof } from '../../schemas/index.js';
+
+/**
+ * wnb proof verify - Check a proof against a published root
+ */
+const verifyProofCommand = new Command('verify')
+  .description('Check an inclusion proof against a published Merkle root')
+  .argument('<proof>', 'Proof file from wnb proof')
+  .requiredOption('--root <hash>', 'Published Merkle root (64 hex characters)')
+  .option('--file <path>', 'Also check that this file matches the proven entry')
+  .option('-q, --quiet', 'Exit code only')
+  .action(async (proofPath: string, options) => {
+    try {
+      const root = String(options.root).toLowerCase();
+      if (!/^[a-f0-9]{64}$/.test(root)) {
+        throw new Error('--root must be 64 hex characters');
+      }
+      const proof = await loadProof(proofPath);
+
+      const provenRoot = merkleProofRoot(proof);
+      const included = provenRoot === root;
+      if (!options.quiet) {
+        console.log(included
+          ? `VALID: ${proof.entry.path} is in the archive with root ${root}`
+          : `INVALID: ${proof.entry.path} does not lead to root ${root}`);
+      }
+
+      let fileMatches = true;
+      if (options.file && included) {
+        const mismatched = await checkFile(options.file, proof.entry);
+        fileMatches = mismatched.length === 0;
+        if (!options.quiet) {
+          console.log(fileMatches
+            ? `File ${options.file} matches the entry`
+            : `File ${options.file} does not match the entry (${mismatched.join(', ')})`);
+        }
+      }
+
+      process.exit(included && fileMatches ? 0 : 1);
+    } catch (err) {
+      console.error(formatError(String(err)));
+      process.exit(3);
+    }
+  });
+
+/**
+ * wnb proof - Emit an inclusion proof for one manifest entry
+ */
+export const proofCommand = new Command('proof')
+  .description('Emit a Merkle inclusion proof for one file of a manifest')
+  .argument('<manifest>', 'Manifest containing the file')
+  .argument('<path>', 'File path as recorded in the manifest (or absolute)')
+  .option('-o, --output <file>', 'Write the proof to a file (default: stdout)')
+  .addCommand(verifyProofCommand)
+  .action(async (manifestPath: string, entryPath: string, options) => {
+    try {
+      const manifest = await loadManifest(manifestPath);
+      const relativePath = path.isAbsolute(entryPath) ? path.relative(manifest.root, entryPath) : entryPath;
+
+      const proof = createMerkleProof(manifest, relativePath);
+      const json = JSON.stringify(proof, null, 2);
+
+      if (options.output) {
+        await fs.writeFile(options.output, json + '\n');
+        console.error(`Proof for ${proof.entry.path} written to ${options.output}`);
+        console.error(`Root: ${proof.root}`);
+      } else {
+        console.log(json);
+      }
+    } catch (err) {
+      console.error(formatError(String(err)));
+      process.exit(1);
+    }
+  });
+
+async function loadProof(proofPath: string): Promise<MerkleProof> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(proofPath, 'utf-8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') throw err;
+    throw new Error(`${proofPath} is not a wnb proof`);
+  }
+
+  const parsed = MerkleProofSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(`${proofPath} is not a wnb proof`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Algorithms whose digest of the file differs from the proven entry ('size' for a size change)
+ * BLAKE3 is compared at the recorded length.
+ */
+async function checkFile(file: string, entry: MerkleProof['entry']): Promise<string[]> {
+  const algorithms = Object.keys(entry.hashes) as ManifestAlgorithm[];
+  const expected: ManifestHashes = entry.hashes;
+  const { hashes, size } = await hashForManifest(file, algorithms, expected.blake3?.length ?? 64, {}, true);
+
+  const mismatched: string[] = findHashMismatches(expected, hashes);
+  if (size !== entry.size) mismatched.unshift('size');
+  return mismatched;
+}
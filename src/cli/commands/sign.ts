@@ -0,0 +1,135 @@
+/**
+ * wnb sign / verify-signature commands
+ * Detached Ed25519 signatures for manifests, MHL files and BagIt tag manifests
+ */
+
+import { Command } from 'commander';
+import {
+  generateSigningKeyPair,
+  resolveSigningKey,
+  resolveTrustedKeys,
+  signFile,
+  verifyFileSignature,
+  findSignableFiles,
+  type SignatureStatus,
+  type SignatureVerification
+} from '../../core/signing.js';
+import { formatError } from '../output.js';
+
+/** Exit codes for signature failures (shared with check --require-signature) */
+export const SIGNATURE_EXIT_CODES: Record<Exclude<SignatureStatus, 'valid'>, number> = {
+  invalid: 40,
+  unsigned: 41,
+  untrusted: 42
+};
+
+/**
+ * wnb sign keygen - Generate an Ed25519 key pair
+ */
+const keygenCommand = new Command('keygen')
+  .description('Generate an Ed25519 signing key pair (<name>.key and <name>.pub)')
+  .argument('<name>', 'Path prefix for the key files')
+  .option('--force', 'Overwrite existing key files')
+  .action(async (name: string, options) => {
+    try {
+      const pair = await generateSigningKeyPair(name, options.force);
+      console.log(`Private key: ${pair.privateKeyPath} (keep secret)`);
+      console.log(`Public key:  ${pair.publicKeyPath} (give to recipients)`);
+      console.log(`Key ID:      ${pair.keyId}`);
+    } catch (err) {
+      const errObj = err as NodeJS.ErrnoException;
+      console.error(formatError(errObj.code === 'EEXIST' ? `${errObj.path} exists (use --force to replace it)` : String(err)));
+      process.exit(1);
+    }
+  });
+
+/**
+ * wnb sign - Write detached signatures
+ */
+export const signCommand = new Command('sign')
+  .description('Sign manifests, MHL files or BagIt tag manifests (detached <file>.sig)')
+  .argument('<path...>', 'Files, directories with manifest.json, or BagIt bags')
+  .option('-k, --key <file>', 'Ed25519 private key (default: signingKey / $WNB_SIGNING_KEY)')
+  .option('-q, --quiet', 'No output')
+  .addCommand(keygenCommand)
+  .action(async (targets: string[], options) => {
+    try {
+      const privateKey = await resolveSigningKey(options.key);
+
+      for (const target of targets) {
+        for (const file of await findSignableFiles(target)) {
+          const { signaturePath, signature } = await signFile(file, privateKey);
+          if (!options.quiet) {
+            console.log(`Signed ${file} → ${signaturePath} (key ${signature.keyId})`);
+          }
+        }
+      }
+    } catch (err) {
+      console.error(formatError(String(err)));
+      process.exit(1);
+    }
+  });
+
+/**
+ * wnb verify-signature - Check detached signatures
+ */
+export const verifySignatureCommand = new Command('verify-signature')
+  .description('Verify detached signatures against trusted keys')
+  .argument('<path...>', 'Signed files, directories with manifest.json, or BagIt bags')
+  .option('--trusted-key <file...>', 'Also trust these public keys (besides trustedKeys / $WNB_TRUSTED_KEYS)')
+  .option('--signature <file>', 'Signature file (single file only; default: <file>.sig)')
+  .option('-f, --format <fmt>', 'Output format: text, json', 'text')
+  .option('-q, --quiet', 'Exit code only')
+  .action(async (targets: string[], options) => {
+    try {
+      const trustedKeys = await resolveTrustedKeys(options.trustedKey);
+
+      const files: string[] = [];
+      for (const target of targets) {
+        files.push(...await findSignableFiles(target));
+      }
+      if (options.signature && files.length !== 1) {
+        throw new Error('--signature needs exactly one signed file');
+      }
+
+      const results: SignatureVerification[] = [];
+      for (const file of files) {
+        results.push(await verifyFileSignature(file, trustedKeys, options.signature));
+      }
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(results, null, 2));
+      } else if (!options.quiet) {
+        for (const result of results) {
+          console.log(describeVerification(result));
+        }
+        if (trustedKeys.length === 0) {
+          console.error('Warning: no trusted keys configured (trustedKeys, $WNB_TRUSTED_KEYS or --trusted-key)');
+        }
+      }
+
+      // The most serious failure decides the exit code
+      for (const status of ['invalid', 'unsigned', 'untrusted'] as const) {
+        if (results.some(r => r.status === status)) process.exit(SIGNATURE_EXIT_CODES[status]);
+      }
+    } catch (err) {
+      console.error(formatError(String(err)));
+      process.exit(3);
+    }
+  });
+
+/**
+ * One-line summary of a signature check
+ */
+export function describeVerification(result: SignatureVerification): string {
+  switch (result.status) {
+    case 'valid':
+      return `OK        ${result.file} (key ${result.keyId}, signed ${result.signed})`;
+    case 'unsigned':
+      return `UNSIGNED  ${result.file} (no ${result.signaturePath})`;
+    case 'untrusted':
+      return `UNTRUSTED ${result.file} (${result.reason})`;
+    case 'invalid':
+      return `INVALID   ${result.file} (${result.reason})`;
+  }
+}
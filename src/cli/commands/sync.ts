@@ -0,0 +1,127 @@
+/**
+ * wnb sync command
+ * One-way mirror with verified copies, in-place moves and deletion policies
+ */
+
+import { Command } from 'commander';
+import {
+  planSync,
+  runSync,
+  resolveDeletePolicy,
+  type SyncOperation,
+  type SyncPlan,
+  type SyncOptions
+} from '../../services/sync.js';
+import { configureRateLimits, parseRate } from '../../core/throttle.js';
+import { formatError, formatSize, formatDuration } from '../output.js';
+
+const CHANGE_MARKS: Record<SyncOperation['change'], string> = {
+  new: '+',
+  modified: '~',
+  moved: '>',
+  deleted: '-'
+};
+
+export const syncCommand = new Command('sync')
+  .description('Mirror a directory onto another: copy new/changed files, rename moved ones')
+  .argument('<source>', 'Source directory')
+  .argument('<destination>', 'Destination directory (created if missing)')
+  .option('-n, --dry-run', 'Show the plan without changing anything')
+  .option('--delete', 'Delete destination files that are not in the source')
+  .option('--trash <dir>', 'Move destination files that are not in the source to <dir>/<timestamp>/')
+  .option('--source-manifest <path>', 'Source manifest (default: <source>/manifest.json)')
+  .option('--dest-manifest <path>', 'Destination manifest (default: <destination>/manifest.json)')
+  .option('--rehash', 'Hash every file instead of trusting manifest entries with unchanged size and mtime')
+  .option('--exclude <pattern...>', 'Patterns to exclude')
+  .option('--limit-rate <rate>', 'Cap the total transfer rate, e.g. 50M (bytes/s, K/M/G suffixes)')
+  .option('-f, --format <fmt>', 'Output format: text, json', 'text')
+  .option('-q, --quiet', 'Summary only')
+  .action(async (source: string, destination: string, options) => {
+    let syncOptions: SyncOptions;
+    try {
+      syncOptions = {
+        deletePolicy: resolveDeletePolicy(options),
+        trashDir: options.trash,
+        sourceManifest: options.sourceManifest,
+        destinationManifest: options.destManifest,
+        rehash: options.rehash,
+        excludePatterns: options.exclude,
+        onProgress: options.quiet || options.format === 'json' ? undefined : (phase, current, total) => {
+          const label = phase === 'scanning-source' ? 'Scanning source' : phase === 'scanning-destination' ? 'Scanning destination' : 'Syncing';
+          process.stderr.write(`\r${label}: ${current}/${total}`.padEnd(60));
+        }
+      };
+      if (options.limitRate !== undefined) {
+        configureRateLimits({ copy: parseRate(options.limitRate) });
+      }
+    } catch (err) {
+      console.error(formatError(String(err)));
+      process.exit(2);
+    }
+
+    try {
+      if (options.dryRun) {
+        const plan = await planSync(source, destination, syncOptions);
+        clearProgress(options);
+
+        if (options.format === 'json') {
+          console.log(JSON.stringify(plan, null, 2));
+        } else {
+          printPlan(plan, options.quiet);
+        }
+        process.exit(plan.errors.length > 0 ? 1 : 0);
+      }
+
+      const result = await runSync(source, destination, syncOptions);
+      clearProgress(options);
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        printPlan(result.plan, options.quiet, new Set(result.failed.map(f => f.operation)));
+        for (const { operation, error } of result.failed) {
+          console.error(`FAILED ${operation.path}: ${error}`);
+        }
+        if (result.trashDir) {
+          console.log(`Trash:    ${result.trashDir}`);
+        }
+        console.log(`Copied:   ${formatSize(result.bytesCopied)} in ${formatDuration(result.durationMs)}`);
+        console.log(`Manifests: ${result.sourceManifest}, ${result.destinationManifest}`);
+      }
+
+      process.exit(result.failed.length > 0 || result.plan.errors.length > 0 ? 1 : 0);
+    } catch (err) {
+      clearProgress(options);
+      console.error(formatError(String(err)));
+      process.exit(1);
+    }
+  });
+
+function clearProgress(options: { quiet?: boolean; format?: string }): void {
+  if (!options.quiet && options.format !== 'json') {
+    process.stderr.write('\r' + ' '.repeat(60) + '\r');
+  }
+}
+
+function printPlan(plan: SyncPlan, quiet: boolean, failed: Set<SyncOperation> = new Set()): void {
+  const count = (change: SyncOperation['change']): number =>
+    plan.operations.filter(op => op.change === change).length;
+
+  if (!quiet) {
+    for (const op of plan.operations) {
+      const mark = failed.has(op) ? '!' : CHANGE_MARKS[op.change];
+      const detail = op.change === 'moved' ? `${op.from} → ${op.path}` : op.path;
+      console.log(`${mark} ${detail}`);
+    }
+  }
+
+  for (const error of plan.errors) {
+    console.error(`ERROR: ${error.path}: ${error.error}`);
+  }
+
+  const deleted = count('deleted');
+  const deleteNote = deleted > 0 && plan.deletePolicy === 'report' ? ' (kept; use --delete or --trash)' : '';
+  console.log(`\nSync: ${count('new')} new, ${count('modified')} modified, ${count('moved')} moved, ` +
+    `${deleted} deleted${deleteNote}, ${plan.unchanged} unchanged`);
+  console.log(`To copy:  ${formatSize(plan.bytesToCopy)}`);
+}
@@ -7,28 +7,25 @@ import { Command } from 'commander';
 import * as path from 'node:path';
 import { verifyFile } from '../../core/hasher.js';
 import { formatVerifyResult, formatError } from '../output.js';
-import { detectAlgorithm, type Algorithm } from '../../schemas/index.js';
+import { detectAlgorithms, type Algorithm } from '../../schemas/index.js';
 
 export const verifyCommand = new Command('verify')
   .description('Verify file against expected hash')
   .argument('<file>', 'File to verify')
-  .argument('<hash>', 'Expected hash (auto-detects algorithm by length)')
-  .option('-a, --algorithm <alg>', 'Force algorithm: blake3, blake3-full, sha256, sha512')
+  .argument('<hash>', 'Expected hash (auto-detects algorithm by length; same-length candidates are all tried)')
+  .option('-a, --algorithm <alg>', 'Force algorithm: blake3, blake3-full, sha256, sha512, md5, xxhash64, xxh3, xxh128, sha1, crc32, c4')
   .option('-q, --quiet', 'Exit code only, no output')
   .action(async (filePath: string, expectedHash: string, options) => {
     try {
       const resolvedPath = path.resolve(filePath);
 
-      // Determine algorithm
-      let algorithm: Algorithm | undefined = options.algorithm as Algorithm | undefined;
+      // Without -a, verifyFile tries every algorithm the digest could come from
+      const algorithm = options.algorithm as Algorithm | undefined;
 
-      if (!algorithm) {
-        algorithm = detectAlgorithm(expectedHash) ?? undefined;
-        if (!algorithm) {
-          console.error(formatError(`Cannot detect algorithm for hash length ${expectedHash.length}`));
-          console.error('Use -a to specify: blake3 (16), sha256 (64), sha512 (128)');
-          process.exit(3);
-        }
+      if (!algorithm && detectAlgorithms(expectedHash.startsWith('c4') ? expectedHash : expectedHash.toLowerCase()).length === 0) {
+        console.error(formatError(`Cannot detect algorithm for hash length ${expectedHash.length}`));
+        console.error('Use -a to specify: crc32 (8), blake3/xxhash64/xxh3 (16), md5/xxh128 (32), sha1 (40), sha256 (64), sha512 (128), c4 (90)');
+        process.exit(3);
       }
 
       const result = await verifyFile(resolvedPath, expectedHash, algorithm);
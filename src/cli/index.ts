@@ -13,6 +13,7 @@ import { diagnoseCommand } from './commands/diagnose.js';
 import { manifestCommand, checkCommand, auditCommand, diffCommand } from './commands/manifest.js';
 import { copyCommand } from './commands/copy.js';
 import { importCommand } from './commands/import.js';
+import { syncCommand } from './commands/sync.js';
 import { dedupCommand } from './commands/dedup.js';
 import { renameCommand } from './commands/rename.js';
 import { fastCommand } from './commands/fast.js';
@@ -23,7 +24,16 @@ import { bagitCommand } from './commands/bagit.js';
 import { gpsCommand } from './commands/gps.js';
 import { phashCommand } from './commands/phash.js';
 import { mhlCommand } from './commands/mhl.js';
+import { convertCommand } from './commands/convert.js';
+import { fixityCommand } from './commands/fixity.js';
 import { analyzeCommand } from './commands/analyze.js';
+import { cacheCommand } from './commands/cache.js';
+import { locateDamageCommand } from './commands/locate-damage.js';
+import { proofCommand } from './commands/proof.js';
+import { signCommand, verifySignatureCommand } from './commands/sign.js';
+import { loadConfig } from '../core/config.js';
+import { configureHashCache, getHashCache, flushHashCache, type HashCacheMode } from '../core/hash-cache.js';
+import { configureRateLimits, enterBackgroundMode } from '../core/throttle.js';
 
 const VERSION = '0.1.1';
 
@@ -33,13 +43,25 @@ export function createCli(): Command {
   program
     .name('wnb')
     .description('Wake-n-Blake: Universal BLAKE3 hashing, verification, and ID generation')
-    .version(VERSION);
+    .version(VERSION)
+    .option('--no-cache', 'Disable the persistent hash cache')
+    .option('--trust-cache', 'Trust cached hashes even when verifying')
+    .option('--cache-dir <dir>', 'Hash cache directory (e.g. a per-volume .wnb folder)')
+    .option('--background', 'Run at low CPU and I/O priority (nice/ionice)')
+    .hook('preAction', async () => {
+      await setupHashCache(program.opts());
+      await setupThrottling(program.opts());
+    })
+    .hook('postAction', async () => {
+      await flushHashCache();
+    });
 
   // Core commands
   program.addCommand(hashCommand);
   program.addCommand(verifyCommand);
   program.addCommand(copyCommand);
   program.addCommand(importCommand);
+  program.addCommand(syncCommand);
   program.addCommand(fastCommand);
 
   // ID generation
@@ -52,6 +74,13 @@ export function createCli(): Command {
   program.addCommand(checkCommand);
   program.addCommand(auditCommand);
   program.addCommand(diffCommand);
+  program.addCommand(locateDamageCommand);
+  program.addCommand(proofCommand);
+  program.addCommand(fixityCommand);
+
+  // Signatures
+  program.addCommand(signCommand);
+  program.addCommand(verifySignatureCommand);
 
   // Utilities
   program.addCommand(dedupCommand);
@@ -66,6 +95,7 @@ export function createCli(): Command {
   // Archival & Post-production
   program.addCommand(bagitCommand);
   program.addCommand(mhlCommand);
+  program.addCommand(convertCommand);
 
   // GPS utilities
   program.addCommand(gpsCommand);
@@ -76,9 +106,50 @@ export function createCli(): Command {
   // File analysis
   program.addCommand(analyzeCommand);
 
+  // Hash cache maintenance
+  program.addCommand(cacheCommand);
+
   return program;
 }
 
+/**
+ * Configure the hash cache from config, env and global options
+ * Many commands exit via process.exit(), so the cache is also flushed on exit
+ */
+async function setupHashCache(options: { cache?: boolean; trustCache?: boolean; cacheDir?: string }): Promise<void> {
+  const config = await loadConfig();
+
+  let mode: HashCacheMode = config.hashCache ?? 'on';
+  if (options.trustCache) mode = 'trust';
+  if (options.cache === false) mode = 'off';
+
+  configureHashCache({ mode, dir: options.cacheDir ?? config.hashCacheDir });
+
+  process.once('exit', () => {
+    try {
+      getHashCache()?.saveSync();
+    } catch {
+      // Never fail the command because the cache could not be written
+    }
+  });
+}
+
+/**
+ * Apply configured rate limits and background priority
+ * Command options (--limit-rate, --max-read-rate) override the configured limits.
+ */
+async function setupThrottling(options: { background?: boolean }): Promise<void> {
+  const config = await loadConfig();
+
+  configureRateLimits({ copy: config.limitRate ?? 0, read: config.maxReadRate ?? 0 });
+
+  if (options.background || config.background) {
+    for (const failure of await enterBackgroundMode()) {
+      console.error(`Warning: background mode: ${failure}`);
+    }
+  }
+}
+
 export async function run(): Promise<void> {
   const program = createCli();
   await program.parseAsync(process.argv);
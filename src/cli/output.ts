@@ -71,6 +71,16 @@ function algorithmLabel(algorithm: Algorithm): string {
       return 'MD5';
     case 'xxhash64':
       return 'XXHASH64';
+    case 'xxh3':
+      return 'XXH3';
+    case 'xxh128':
+      return 'XXH128';
+    case 'sha1':
+      return 'SHA1';
+    case 'crc32':
+      return 'CRC32';
+    case 'c4':
+      return 'C4';
   }
 }
 
@@ -123,6 +133,11 @@ export function formatAllHashes(
     sha512: string;
     md5: string;
     xxhash64: string;
+    xxh3: string;
+    xxh128: string;
+    sha1: string;
+    crc32: string;
+    c4: string;
     size: number;
     durationMs: number;
   },
@@ -139,7 +154,12 @@ export function formatAllHashes(
     `SHA256     ${result.sha256}  ${path}`,
     `SHA512     ${result.sha512}  ${path}`,
     `MD5        ${result.md5}  ${path}`,
-    `XXHASH64   ${result.xxhash64}  ${path}`
+    `XXHASH64   ${result.xxhash64}  ${path}`,
+    `XXH3       ${result.xxh3}  ${path}`,
+    `XXH128     ${result.xxh128}  ${path}`,
+    `SHA1       ${result.sha1}  ${path}`,
+    `CRC32      ${result.crc32}  ${path}`,
+    `C4         ${result.c4}  ${path}`
   ].join('\n');
 }
 
@@ -225,6 +245,13 @@ export function formatSize(bytes: number): string {
   return `${size.toFixed(unitIndex === 0 ? 0 : 1)}${units[unitIndex]}`;
 }
 
+/**
+ * Format a byte range (end exclusive) for display
+ */
+export function formatByteRange(range: { start: number; end: number }): string {
+  return `bytes ${range.start}-${range.end - 1} (${formatSize(range.end - range.start)})`;
+}
+
 /**
  * Format duration for display
  *
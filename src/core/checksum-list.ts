@@ -0,0 +1,230 @@
+/**
+ * Checksum list parsing and verification
+ * Reads GNU coreutils, b3sum, xxhsum, BSD-tag and SFV checksum files
+ */
+
+import * as path from 'node:path';
+import type { Algorithm } from '../schemas/index.js';
+
+/**
+ * Checksum line formats
+ * - 'gnu': "<hash>  <path>" or "<hash> *<path>" (sha256sum, md5sum, b3sum, xxhsum, wnb text)
+ * - 'bsd': "<ALG> (<path>) = <hash>" (shasum --tag, xxhsum --tag, openssl, wnb bsd)
+ * - 'sfv': "<path> <hash>" (CRC32 SFV files, wnb sfv)
+ */
+export type ChecksumLineFormat = 'gnu' | 'bsd' | 'sfv';
+
+/**
+ * One parsed checksum line
+ */
+export interface ChecksumEntry {
+  path: string;
+  hash: string;
+  /** Candidate algorithms, most likely first (hash lengths can be ambiguous) */
+  algorithms: Algorithm[];
+  format: ChecksumLineFormat;
+  line: number;
+}
+
+/**
+ * Parsed checksum list
+ */
+export interface ChecksumList {
+  entries: ChecksumEntry[];
+  /** Line numbers that could not be parsed */
+  malformed: number[];
+}
+
+/**
+ * Verification status of one entry (coreutils semantics)
+ */
+export type ChecksumStatus = 'ok' | 'failed' | 'missing' | 'unreadable';
+
+/**
+ * Result of verifying one entry
+ */
+export interface ChecksumCheckResult {
+  path: string;
+  status: ChecksumStatus;
+  expected: string;
+  actual?: string;
+  algorithm?: Algorithm;
+  error?: string;
+}
+
+// Algorithms by hex length
+const ALGORITHMS_BY_LENGTH: Record<number, Algorithm[]> = {
+  8: ['crc32'],
+  16: ['blake3', 'xxhash64', 'xxh3'],
+  32: ['md5', 'xxh128'],
+  40: ['sha1'],
+  64: ['sha256', 'blake3-full'],
+  128: ['sha512']
+};
+
+// BSD tag labels (wnb, shasum --tag, openssl and b3sum spellings)
+const BSD_LABELS: Record<string, Algorithm[]> = {
+  'BLAKE3': ['blake3', 'blake3-full'],
+  'BLAKE3-256': ['blake3-full'],
+  'SHA256': ['sha256'],
+  'SHA2-256': ['sha256'],
+  'SHA512': ['sha512'],
+  'SHA2-512': ['sha512'],
+  'SHA1': ['sha1'],
+  'SHA-1': ['sha1'],
+  'MD5': ['md5'],
+  'XXHASH64': ['xxhash64'],
+  'XXH64': ['xxhash64'],
+  'XXH3': ['xxh3'],
+  'XXH128': ['xxh128'],
+  'CRC32': ['crc32']
+};
+
+const BSD_LINE = /^([A-Za-z0-9-]+) ?\((.*)\) ?= ?([a-fA-F0-9]+)$/;
+const GNU_LINE = /^([a-fA-F0-9]+) ([ *])(.+)$/;
+const SFV_LINE = /^(.+?)\s+([a-fA-F0-9]+)$/;
+
+/**
+ * Guess the algorithm from a checksum file name (SHA256SUMS, files.md5, b3sums, release.sfv, ...)
+ */
+export function algorithmHintFromName(listPath: string): Algorithm | null {
+  const name = path.basename(listPath).toLowerCase();
+
+  if (name.includes('sha512')) return 'sha512';
+  if (name.includes('sha256')) return 'sha256';
+  if (name.includes('sha1')) return 'sha1';
+  if (name.includes('md5')) return 'md5';
+  if (name.includes('xxh128')) return 'xxh128';
+  if (name.includes('xxh3')) return 'xxh3';
+  if (name.includes('xxh')) return 'xxhash64';
+  if (name.endsWith('.sfv') || name.includes('crc')) return 'crc32';
+  if (name.includes('b3') || name.includes('blake3')) return 'blake3-full';
+  return null;
+}
+
+/**
+ * Candidate algorithms for a hash, ordered by an optional hint
+ */
+function candidatesFor(hash: string, allowed: Algorithm[] | undefined, hint: Algorithm | null): Algorithm[] {
+  const byLength = ALGORITHMS_BY_LENGTH[hash.length] ?? [];
+  let candidates = allowed ? byLength.filter(a => allowed.includes(a)) : byLength;
+
+  if (hint) {
+    // A blake3 hint covers both output lengths
+    const family = hint === 'blake3-full' || hint === 'blake3' ? ['blake3', 'blake3-full'] : [hint];
+    candidates = [
+      ...candidates.filter(a => family.includes(a)),
+      ...candidates.filter(a => !family.includes(a))
+    ];
+  }
+
+  return candidates;
+}
+
+/**
+ * Undo coreutils filename escaping (lines starting with a backslash)
+ */
+function unescapePath(value: string): string {
+  return value.replace(/\\(\\|n|r)/g, (_, c: string) => (c === 'n' ? '\n' : c === 'r' ? '\r' : '\\'));
+}
+
+/**
+ * Parse a single checksum line
+ * Returns null when the line is not a supported checksum line.
+ */
+export function parseChecksumLine(
+  text: string,
+  line: number = 1,
+  hint: Algorithm | null = null
+): ChecksumEntry | null {
+  let value = text.replace(/\r$/, '');
+  const escaped = value.startsWith('\\');
+  if (escaped) value = value.slice(1);
+
+  const decode = (p: string): string => (escaped ? unescapePath(p) : p);
+
+  const bsd = BSD_LINE.exec(value);
+  if (bsd) {
+    const allowed = BSD_LABELS[bsd[1].toUpperCase()];
+    if (!allowed) return null;
+    const hash = bsd[3].toLowerCase();
+    const algorithms = candidatesFor(hash, allowed, hint);
+    return algorithms.length > 0
+      ? { path: decode(bsd[2]), hash, algorithms, format: 'bsd', line }
+      : null;
+  }
+
+  const gnu = GNU_LINE.exec(value);
+  if (gnu && ALGORITHMS_BY_LENGTH[gnu[1].length]) {
+    const hash = gnu[1].toLowerCase();
+    return { path: decode(gnu[3]), hash, algorithms: candidatesFor(hash, undefined, hint), format: 'gnu', line };
+  }
+
+  const sfv = SFV_LINE.exec(value);
+  if (sfv && ALGORITHMS_BY_LENGTH[sfv[2].length]) {
+    const hash = sfv[2].toLowerCase();
+    return { path: decode(sfv[1]), hash, algorithms: candidatesFor(hash, undefined, hint), format: 'sfv', line };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a checksum file
+ * Blank lines and comments (';' SFV headers, '#') are skipped.
+ * The list path is only used for an algorithm hint from its name.
+ */
+export function parseChecksumList(content: string, listPath?: string): ChecksumList {
+  const hint = listPath ? algorithmHintFromName(listPath) : null;
+  const entries: ChecksumEntry[] = [];
+  const malformed: number[] = [];
+
+  content.split('\n').forEach((text, index) => {
+    const trimmed = text.trim();
+    if (!trimmed || trimmed.startsWith(';') || trimmed.startsWith('#')) return;
+
+    const entry = parseChecksumLine(text, index + 1, hint);
+    if (entry) {
+      entries.push(entry);
+    } else {
+      malformed.push(index + 1);
+    }
+  });
+
+  return { entries, malformed };
+}
+
+/**
+ * Verify one entry with the given hash function
+ * Ambiguous lengths (e.g. SHA-256 vs full BLAKE3) fall back to the next candidate on mismatch.
+ * Relative paths resolve against baseDir (default: the working directory, as coreutils does).
+ */
+export async function verifyChecksumEntry(
+  entry: ChecksumEntry,
+  hash: (filePath: string, algorithm: Algorithm) => Promise<string>,
+  baseDir: string = process.cwd()
+): Promise<ChecksumCheckResult> {
+  const filePath = path.resolve(baseDir, entry.path);
+  let first: { actual: string; algorithm: Algorithm } | undefined;
+
+  try {
+    for (const algorithm of entry.algorithms) {
+      const actual = (await hash(filePath, algorithm)).toLowerCase();
+      if (actual === entry.hash) {
+        return { path: entry.path, status: 'ok', expected: entry.hash, actual, algorithm };
+      }
+      first ??= { actual, algorithm };
+    }
+  } catch (err: unknown) {
+    const errObj = err as NodeJS.ErrnoException;
+    const missing = errObj.code === 'ENOENT' || /ENOENT/.test(errObj.message ?? '');
+    return {
+      path: entry.path,
+      status: missing ? 'missing' : 'unreadable',
+      expected: entry.hash,
+      error: errObj.message ?? String(err)
+    };
+  }
+
+  return { path: entry.path, status: 'failed', expected: entry.hash, ...first };
+}
@@ -0,0 +1,281 @@
+/**
+ * Chunk maps - per-block BLAKE3 digests
+ * Localize corruption inside large files and re-verify selected byte ranges
+ */
+
+import * as fs from 'node:fs';
+import { createBlake3Hasher, type Blake3KeyOptions } from './keys.js';
+import { getBufferSize } from '../utils/network.js';
+import { throttle, getReadLimiter } from './throttle.js';
+import { DEFAULT_CHUNK_SIZE, MIN_CHUNK_SIZE, MAX_CHUNK_SIZE } from './constants.js';
+import type { ByteRange, ChunkMap } from '../schemas/index.js';
+import type { HashProgressOptions } from './hasher.js';
+
+/**
+ * Options for hashing with a chunk map
+ */
+export interface ChunkedHashOptions extends HashProgressOptions, Blake3KeyOptions {
+  /** Block size in bytes (default: 16MiB, 1-64MiB) */
+  chunkSize?: number;
+  /** Return the full 64-char file hash instead of 16 chars */
+  full?: boolean;
+}
+
+/**
+ * Whole-file hash plus chunk map from a single read
+ */
+export interface ChunkedHashResult {
+  hash: string;
+  size: number;
+  chunkMap: ChunkMap;
+}
+
+/**
+ * Options for damage localization
+ */
+export interface LocateDamageOptions extends Blake3KeyOptions {
+  /** Only re-read chunks overlapping these ranges (partial re-verification) */
+  ranges?: ByteRange[];
+}
+
+/**
+ * Result of damage localization
+ */
+export interface LocateDamageResult {
+  path: string;
+  intact: boolean;
+  chunkSize: number;
+  actualSize: number;
+  expectedSize: number;
+  checkedChunks: number;
+  damagedChunks: number[];
+  /** Merged byte ranges that differ (end exclusive) */
+  damaged: ByteRange[];
+  bytesRead: number;
+}
+
+/**
+ * Validate a chunk size against the supported range
+ */
+export function validateChunkSize(chunkSize: number): void {
+  if (!Number.isInteger(chunkSize) || chunkSize < MIN_CHUNK_SIZE || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error(`Chunk size must be between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE} bytes`);
+  }
+}
+
+/**
+ * Hash a file and build its chunk map in one pass
+ * The file hash is identical to hashBlake3 for the same file and key options.
+ */
+export async function hashFileWithChunks(
+  filePath: string,
+  options: ChunkedHashOptions = {}
+): Promise<ChunkedHashResult> {
+  const { chunkSize = DEFAULT_CHUNK_SIZE, full = false, onProgress } = options;
+  validateChunkSize(chunkSize);
+
+  // Chunks use the same mode as the file hash so keyed maps leak nothing
+  const keyOptions: Blake3KeyOptions = { key: options.key, context: options.context };
+  const fileHasher = createBlake3Hasher(keyOptions);
+  let chunkHasher = createBlake3Hasher(keyOptions);
+  let chunkFill = 0;
+  const chunks: string[] = [];
+
+  let totalBytes = options.totalBytes;
+  if (onProgress && totalBytes === undefined) {
+    totalBytes = (await fs.promises.stat(filePath)).size;
+  }
+
+  const stream = throttle(fs.createReadStream(filePath, { highWaterMark: getBufferSize(filePath) }), getReadLimiter());
+  let size = 0;
+
+  for await (const data of stream) {
+    const buffer = data as Buffer;
+    fileHasher.update(buffer);
+    size += buffer.length;
+
+    // Split the read buffer on chunk boundaries
+    let offset = 0;
+    while (offset < buffer.length) {
+      const take = Math.min(chunkSize - chunkFill, buffer.length - offset);
+      chunkHasher.update(buffer.subarray(offset, offset + take));
+      chunkFill += take;
+      offset += take;
+
+      if (chunkFill === chunkSize) {
+        chunks.push(chunkHasher.digest('hex').slice(0, 16));
+        chunkHasher = createBlake3Hasher(keyOptions);
+        chunkFill = 0;
+      }
+    }
+
+    onProgress?.(size, totalBytes ?? size);
+  }
+
+  if (chunkFill > 0) {
+    chunks.push(chunkHasher.digest('hex').slice(0, 16));
+  }
+
+  const hex = fileHasher.digest('hex').toLowerCase();
+  return {
+    hash: full ? hex : hex.slice(0, 16),
+    size,
+    chunkMap: { chunkSize, chunks }
+  };
+}
+
+/**
+ * Build a chunk map for a file
+ */
+export async function computeChunkMap(
+  filePath: string,
+  chunkSize: number = DEFAULT_CHUNK_SIZE
+): Promise<ChunkMap> {
+  return (await hashFileWithChunks(filePath, { chunkSize })).chunkMap;
+}
+
+/**
+ * Chunk indices overlapping the given byte ranges
+ */
+export function chunkIndicesForRanges(
+  chunkSize: number,
+  chunkCount: number,
+  ranges: ByteRange[]
+): number[] {
+  const indices = new Set<number>();
+
+  for (const range of ranges) {
+    if (range.end <= range.start) continue;
+    const first = Math.floor(range.start / chunkSize);
+    const last = Math.min(Math.floor((range.end - 1) / chunkSize), chunkCount - 1);
+    for (let i = first; i <= last; i++) {
+      indices.add(i);
+    }
+  }
+
+  return [...indices].sort((a, b) => a - b);
+}
+
+/**
+ * Merge adjacent or overlapping ranges
+ */
+export function mergeRanges(ranges: ByteRange[]): ByteRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Compare a file against its chunk map and report the byte ranges that changed
+ * expectedSize is the size recorded alongside the map (detects truncation and growth).
+ * With options.ranges only the overlapping chunks are read.
+ */
+export async function locateDamage(
+  filePath: string,
+  chunkMap: ChunkMap,
+  expectedSize: number,
+  options: LocateDamageOptions = {}
+): Promise<LocateDamageResult> {
+  const { chunkSize, chunks } = chunkMap;
+  const { ranges } = options;
+
+  const actualSize = (await fs.promises.stat(filePath)).size;
+  const indices = ranges
+    ? chunkIndicesForRanges(chunkSize, chunks.length, ranges)
+    : chunks.map((_, i) => i);
+
+  const damagedChunks: number[] = [];
+  const damaged: ByteRange[] = [];
+  const limiter = getReadLimiter();
+  let bytesRead = 0;
+
+  const fd = await fs.promises.open(filePath, 'r');
+  try {
+    const bufferSize = getBufferSize(filePath);
+    const buffer = Buffer.alloc(Math.min(bufferSize, chunkSize));
+
+    for (const index of indices) {
+      const start = index * chunkSize;
+      const expectedEnd = Math.min(start + chunkSize, expectedSize);
+      const end = Math.min(expectedEnd, actualSize);
+
+      const hasher = createBlake3Hasher(options);
+      let position = start;
+      while (position < end) {
+        const { bytesRead: n } = await fd.read(buffer, 0, Math.min(buffer.length, end - position), position);
+        if (n === 0) break;
+        await limiter?.consume(n);
+        hasher.update(buffer.subarray(0, n));
+        position += n;
+      }
+      bytesRead += position - start;
+
+      // A chunk cut short by truncation is damaged even if the prefix matches
+      const digest = hasher.digest('hex').slice(0, 16);
+      if (digest !== chunks[index] || position < expectedEnd) {
+        damagedChunks.push(index);
+        damaged.push({ start, end: expectedEnd });
+      }
+    }
+  } finally {
+    await fd.close();
+  }
+
+  // Bytes past the recorded size were appended after the map was built
+  if (actualSize > expectedSize) {
+    const appended = { start: expectedSize, end: actualSize };
+    if (!ranges || ranges.some(r => r.start < appended.end && r.end > appended.start)) {
+      damaged.push(appended);
+    }
+  }
+
+  const merged = mergeRanges(damaged);
+  return {
+    path: filePath,
+    intact: merged.length === 0,
+    chunkSize,
+    actualSize,
+    expectedSize,
+    checkedChunks: indices.length,
+    damagedChunks,
+    damaged: merged,
+    bytesRead
+  };
+}
+
+/**
+ * Parse a byte range like "1048576-2097152" or "512M-1G" (end exclusive)
+ */
+export function parseByteRange(input: string): ByteRange {
+  const match = /^(\d+[kmgt]?)-(\d+[kmgt]?)$/i.exec(input.trim());
+  if (!match) {
+    throw new Error(`Invalid byte range: ${input} (expected start-end)`);
+  }
+
+  const start = parseByteCount(match[1]);
+  const end = parseByteCount(match[2]);
+  if (end <= start) {
+    throw new Error(`Invalid byte range: ${input} (end must be greater than start)`);
+  }
+
+  return { start, end };
+}
+
+function parseByteCount(value: string): number {
+  const units: Record<string, number> = { k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4 };
+  const suffix = value.slice(-1).toLowerCase();
+  if (units[suffix]) {
+    return parseInt(value.slice(0, -1), 10) * units[suffix];
+  }
+  return parseInt(value, 10);
+}
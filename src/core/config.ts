@@ -7,6 +7,8 @@ import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import * as os from 'node:os';
 import { getDefaultConcurrency, NETWORK_CONCURRENCY, LOCAL_BUFFER_SIZE, NETWORK_BUFFER_SIZE, RETRY_CONFIG } from './constants.js';
+import { parseRate } from './throttle.js';
+import { isHashCacheMode } from './hash-cache.js';
 
 export interface WnbConfig {
   // BLAKE3 options
@@ -29,6 +31,19 @@ export interface WnbConfig {
   // Output
   defaultFormat?: 'text' | 'json' | 'csv' | 'bsd' | 'sfv';
   defaultAlgorithm?: 'blake3' | 'blake3-full' | 'sha256' | 'sha512';
+
+  // Hash cache
+  hashCache?: 'off' | 'on' | 'trust'; // Persistent hash cache mode
+  hashCacheDir?: string;      // Cache directory (default: ~/.config/wnb)
+
+  // Throttling (bytes per second, 0 = unlimited)
+  limitRate?: number;         // Copy/import transfer rate
+  maxReadRate?: number;       // Hash/manifest/check read rate
+  background?: boolean;       // Lower CPU and I/O priority
+
+  // Signatures
+  signingKey?: string;        // Ed25519 private key file for wnb sign
+  trustedKeys?: string[];     // Public key files accepted by verify-signature and check
 }
 
 const CONFIG_DIR = path.join(os.homedir(), '.config', 'wnb');
@@ -47,6 +62,13 @@ const ENV_VARS: Record<string, keyof WnbConfig> = {
   'WNB_NETWORK_DELAY': 'networkDelayMs',
   'WNB_FORMAT': 'defaultFormat',
   'WNB_ALGORITHM': 'defaultAlgorithm',
+  'WNB_HASH_CACHE': 'hashCache',
+  'WNB_HASH_CACHE_DIR': 'hashCacheDir',
+  'WNB_LIMIT_RATE': 'limitRate',
+  'WNB_MAX_READ_RATE': 'maxReadRate',
+  'WNB_BACKGROUND': 'background',
+  'WNB_SIGNING_KEY': 'signingKey',
+  'WNB_TRUSTED_KEYS': 'trustedKeys',
 };
 
 // Default configuration
@@ -62,6 +84,13 @@ const DEFAULT_CONFIG: Required<WnbConfig> = {
   networkDelayMs: RETRY_CONFIG.networkDelayMs,
   defaultFormat: 'text',
   defaultAlgorithm: 'blake3',
+  hashCache: 'on',
+  hashCacheDir: CONFIG_DIR,
+  limitRate: 0,
+  maxReadRate: 0,
+  background: false,
+  signingKey: '',
+  trustedKeys: [],
 };
 
 let cachedConfig: WnbConfig | null = null;
@@ -82,6 +111,22 @@ export async function loadConfig(): Promise<WnbConfig> {
     const fileContent = await fs.readFile(CONFIG_FILE, 'utf-8');
     const fileConfig = JSON.parse(fileContent);
     Object.assign(config, fileConfig);
+
+    // Rates may be written as "50M" in the config file
+    for (const key of ['limitRate', 'maxReadRate'] as const) {
+      const rate: unknown = fileConfig[key];
+      if (typeof rate === 'string') {
+        try {
+          config[key] = parseRate(rate);
+        } catch {
+          config[key] = DEFAULT_CONFIG[key];
+        }
+      }
+    }
+    // Unknown cache modes fall back to the default rather than reaching the cache
+    if (fileConfig.hashCache !== undefined && !isHashCacheMode(fileConfig.hashCache)) {
+      config.hashCache = DEFAULT_CONFIG.hashCache;
+    }
   } catch {
     // No config file, that's fine
   }
@@ -91,7 +136,7 @@ export async function loadConfig(): Promise<WnbConfig> {
     const value = process.env[envVar];
     if (value !== undefined) {
       // Parse based on expected type
-      if (configKey === 'forceWasm' || configKey === 'forceNative') {
+      if (configKey === 'forceWasm' || configKey === 'forceNative' || configKey === 'background') {
         config[configKey] = value === 'true' || value === '1';
       } else if (
         configKey === 'concurrency' ||
@@ -105,8 +150,23 @@ export async function loadConfig(): Promise<WnbConfig> {
         if (!isNaN(parsed)) {
           config[configKey] = parsed;
         }
-      } else if (configKey === 'nativeB3sum') {
+      } else if (configKey === 'limitRate' || configKey === 'maxReadRate') {
+        // Rates accept suffixes (50M); an invalid value is ignored like other bad numbers
+        try {
+          config[configKey] = parseRate(value);
+        } catch {
+          // Keep the file/default value
+        }
+      } else if (configKey === 'nativeB3sum' || configKey === 'hashCacheDir' || configKey === 'signingKey') {
         config[configKey] = value;
+      } else if (configKey === 'trustedKeys') {
+        // A list like PATH: key files separated by ':' (';' on Windows)
+        config[configKey] = value.split(path.delimiter).filter(Boolean);
+      } else if (configKey === 'hashCache') {
+        // Only off, on and trust are modes; anything else keeps the file/default value
+        if (isHashCacheMode(value)) {
+          config[configKey] = value;
+        }
       } else if (configKey === 'defaultFormat') {
         config[configKey] = value as WnbConfig['defaultFormat'];
       } else if (configKey === 'defaultAlgorithm') {
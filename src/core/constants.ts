@@ -15,6 +15,15 @@ export const SHA512_HASH_LENGTH = 128;
 export const LOCAL_BUFFER_SIZE = 64 * 1024;           // 64KB for local files
 export const NETWORK_BUFFER_SIZE = 1024 * 1024;       // 1MB for network files
 
+// Chunk map block sizes (one BLAKE3 digest per block)
+export const DEFAULT_CHUNK_SIZE = 16 * 1024 * 1024;   // 16MiB
+export const MIN_CHUNK_SIZE = 1024 * 1024;            // 1MiB
+export const MAX_CHUNK_SIZE = 64 * 1024 * 1024;       // 64MiB
+
+// In-progress copies: data and resume state (excluded by the default .wnbignore patterns)
+export const PARTIAL_SUFFIX = '.partial';
+export const RESUME_STATE_SUFFIX = '.partial.json';
+
 // Concurrency settings (computed at runtime)
 export function getDefaultConcurrency(): number {
   return Math.max(1, os.cpus().length - 1);
@@ -6,24 +6,55 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { pipeline } from 'node:stream/promises';
-import { Transform, type TransformCallback } from 'node:stream';
+import { Transform, type Readable, type TransformCallback } from 'node:stream';
 import { createHash as cryptoHash } from 'node:crypto';
 import { createHash as blake3Hash } from 'blake3';
 import {
   LOCAL_BUFFER_SIZE,
   NETWORK_BUFFER_SIZE,
+  PARTIAL_SUFFIX,
+  RESUME_STATE_SUFFIX,
   RETRY_CONFIG,
   RETRYABLE_ERRORS
 } from './constants.js';
 import { isNetworkPath } from '../utils/network.js';
-import type { Algorithm } from '../schemas/index.js';
+import {
+  readFileMetadata,
+  applyFileMetadata,
+  preserveFileMetadata,
+  type MetadataPreservation
+} from './file-metadata.js';
+import { getCopyLimiter, createThrottleStream } from './throttle.js';
+import { createDigest } from './digests.js';
+import type { Algorithm, PreserveAttribute } from '../schemas/index.js';
+
+/**
+ * Filesystem cloning for copyWithHash (cp --reflink semantics)
+ * - 'never': always stream through wnb (default)
+ * - 'auto': clone when the filesystem supports it, otherwise stream
+ * - 'always': clone or fail
+ */
+export type ReflinkMode = 'auto' | 'always' | 'never';
+
+/**
+ * How the data reached the destination
+ * - 'stream': read and written by wnb with inline hashing
+ * - 'reflink': copy-on-write clone (FICLONE on btrfs/XFS, clonefile on APFS)
+ * - 'copy_file_range': in-kernel copy within one filesystem
+ */
+export type CopyMethod = 'stream' | 'reflink' | 'copy_file_range';
 
 export interface CopyOptions {
   algorithm?: Algorithm;
   verify?: boolean;
   overwrite?: boolean;
   preserveTimestamps?: boolean;
+  /** Metadata to carry over (what cannot be applied is reported, not fatal) */
+  preserve?: PreserveAttribute[];
   retries?: number;
+  /** Pick up a .partial file left by an earlier interrupted copy of the same source */
+  resume?: boolean;
+  reflink?: ReflinkMode;
   onProgress?: (bytes: number, total: number) => void;
 }
 
@@ -36,11 +67,74 @@ export interface CopyResult {
   durationMs: number;
   verified: boolean;
   retries: number;
+  method: CopyMethod;
+  preservation?: MetadataPreservation;
+  /** Bytes reused from an earlier partial copy (omitted when copied from scratch) */
+  resumedBytes?: number;
+}
+
+// Stored next to a .partial file so a later run can tell the source is unchanged
+interface ResumeState {
+  source: string;
+  size: number;
+  mtimeMs: number;
+}
+
+// Hash state carried into a resumed copy
+interface ResumePoint {
+  hasher: Hasher;
+  offset: number;
+}
+
+/**
+ * Outcome for one destination of a multi-destination copy
+ */
+export interface MultiCopyTarget {
+  destination: string;
+  verified: boolean;
+  preservation?: MetadataPreservation;
+  resumedBytes?: number;  // Bytes reused from an earlier partial copy
+  /** Set when this destination failed (the others are unaffected) */
+  error?: string;
+}
+
+/**
+ * Result of copying one source to several destinations
+ */
+export interface MultiCopyResult {
+  source: string;
+  hash: string;
+  algorithm: Algorithm;
+  size: number;
+  durationMs: number;
+  targets: MultiCopyTarget[];
+}
+
+// Open destination during a fan-out copy
+interface FanOutTarget {
+  destination: string;
+  partialPath: string;
+  handle: fs.promises.FileHandle | null;
+  created: boolean;
+  offset: number;  // Bytes already in the partial
+  hasher?: Hasher; // Source hashed up to offset, when resumed
+  verified: boolean;
+  preservation?: MetadataPreservation;
+  error?: string;
 }
 
 /**
  * Copy file with inline hashing
- * Computes hash during copy (no double-read) with network-aware buffering
+ * Computes hash during copy (no double-read) with network-aware buffering.
+ * Data is written to <destination>.partial and renamed into place once complete
+ * (and verified). Retries continue from the partial file instead of byte zero:
+ * its prefix is re-read and compared with the source, which also feeds the hash,
+ * so the result is still one digest over the whole file. With resume a partial
+ * left by an earlier run is picked up the same way if the source is unchanged.
+ * With reflink the file may be cloned instead of streamed; the source is then
+ * hashed separately, so every method yields the same digest.
+ * With preserve, mode/owner/xattrs/ACLs are applied before the rename.
+ * Reads and writes are paced by the shared copy rate limit, if one is configured.
  */
 export async function copyWithHash(
   source: string,
@@ -52,11 +146,16 @@ export async function copyWithHash(
     verify = true,
     overwrite = false,
     preserveTimestamps = true,
+    preserve = [],
     retries = RETRY_CONFIG.attempts,
+    resume = false,
+    reflink = 'never',
     onProgress
   } = options;
 
   const startTime = performance.now();
+  const partialPath = destination + PARTIAL_SUFFIX;
+  const statePath = destination + RESUME_STATE_SUFFIX;
   let attemptCount = 0;
 
   // Check if destination exists
@@ -81,40 +180,74 @@ export async function copyWithHash(
   const isNetwork = isNetworkPath(source) || isNetworkPath(destination);
   const bufferSize = isNetwork ? NETWORK_BUFFER_SIZE : LOCAL_BUFFER_SIZE;
 
+  // A partial from an earlier run is only trusted for the same, unchanged source
+  const state: ResumeState = { source: path.resolve(source), size: totalSize, mtimeMs: sourceStats.mtimeMs };
+  let resumable = resume && await matchesResumeState(statePath, state);
+  if (!resumable) {
+    await fs.promises.unlink(partialPath).catch(() => {});
+  }
+  await fs.promises.writeFile(statePath, JSON.stringify(state));
+
   // Retry loop for network resilience
   let lastError: Error | null = null;
+  let resumedBytes = 0;
 
   while (attemptCount < retries) {
     attemptCount++;
 
     try {
-      const hash = await performCopy(
-        source,
-        destination,
-        algorithm,
-        bufferSize,
-        totalSize,
-        onProgress
-      );
+      // Cloning replaces the partial, so it is skipped when resuming unless required
+      const method = reflink === 'always' || !resumable
+        ? await cloneFile(source, partialPath, reflink) ?? 'stream'
+        : 'stream';
+
+      let hash: string;
+      if (method !== 'stream') {
+        // The data never passed through wnb: hash the source so custody still holds
+        hash = await hashDestination(source, algorithm);
+        onProgress?.(totalSize, totalSize);
+      } else {
+        const hasher = createHasher(algorithm);
+        const offset = resumable ? await resumePartial(source, partialPath, hasher, bufferSize) : 0;
+        if (attemptCount === 1) resumedBytes = offset;
+        if (offset > 0) onProgress?.(offset, totalSize);
+
+        hash = await performCopy(
+          fs.createReadStream(source, { highWaterMark: bufferSize, start: offset }),
+          partialPath,
+          algorithm,
+          bufferSize,
+          totalSize,
+          onProgress,
+          { hasher, offset }
+        );
+      }
 
       // Verify if requested
       let verified = false;
       if (verify) {
-        const verifyHash = await hashDestination(destination, algorithm);
+        const verifyHash = await hashDestination(partialPath, algorithm);
         verified = verifyHash === hash;
 
         if (!verified) {
-          // Delete failed copy
-          await fs.promises.unlink(destination).catch(() => {});
+          // Delete failed copy - its content cannot be resumed from
+          await discardPartial(destination);
           throw new Error(`Verification failed: expected ${hash}, got ${verifyHash}`);
         }
       }
 
       // Preserve timestamps
       if (preserveTimestamps) {
-        await fs.promises.utimes(destination, sourceStats.atime, sourceStats.mtime);
+        await fs.promises.utimes(partialPath, sourceStats.atime, sourceStats.mtime);
       }
 
+      const preservation = preserve.length > 0
+        ? await preserveFileMetadata(source, partialPath, preserve)
+        : undefined;
+
+      await commitPartial(partialPath, destination, overwrite);
+      await fs.promises.unlink(statePath).catch(() => {});
+
       return {
         source,
         destination,
@@ -123,7 +256,10 @@ export async function copyWithHash(
         size: totalSize,
         durationMs: performance.now() - startTime,
         verified,
-        retries: attemptCount - 1
+        retries: attemptCount - 1,
+        method,
+        ...(preservation && { preservation }),
+        ...(resumedBytes > 0 && { resumedBytes })
       };
 
     } catch (err: unknown) {
@@ -136,9 +272,17 @@ export async function copyWithHash(
           RETRY_CONFIG.maxDelayMs
         );
         await sleep(delay);
+        // Continue from what already reached the destination
+        resumable = true;
         continue;
       }
 
+      // Keep the partial for a later resume only if something was written
+      const written = await fs.promises.stat(partialPath).then(stats => stats.size, () => 0);
+      if (written === 0) {
+        await discardPartial(destination);
+      }
+
       throw err;
     }
   }
@@ -146,56 +290,451 @@ export async function copyWithHash(
   throw lastError || new Error('Copy failed after retries');
 }
 
+/**
+ * Parse a --reflink value (a bare flag means 'always', as with cp)
+ */
+export function parseReflinkMode(value: string | boolean | undefined): ReflinkMode {
+  if (value === undefined || value === false) return 'never';
+  if (value === true) return 'always';
+  if (value === 'auto' || value === 'always' || value === 'never') return value;
+  throw new Error(`Invalid reflink mode: ${value} (expected auto, always or never)`);
+}
+
+/**
+ * Copy at the filesystem level for the reflink modes
+ * Returns null when the data has to be streamed instead.
+ */
+async function cloneFile(source: string, target: string, mode: ReflinkMode): Promise<CopyMethod | null> {
+  if (mode === 'never') return null;
+
+  try {
+    await fs.promises.copyFile(source, target, fs.constants.COPYFILE_FICLONE_FORCE);
+    return 'reflink';
+  } catch (err: unknown) {
+    if (mode === 'always') {
+      throw new Error(`Reflink not supported: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  // Same filesystem without copy-on-write: let the kernel copy (copy_file_range)
+  const [sourceStats, targetDirStats] = await Promise.all([
+    fs.promises.stat(source),
+    fs.promises.stat(path.dirname(target))
+  ]);
+  if (sourceStats.dev === targetDirStats.dev) {
+    await fs.promises.copyFile(source, target);
+    return 'copy_file_range';
+  }
+
+  return null;
+}
+
+/**
+ * Check a stored resume state against the current source
+ */
+async function matchesResumeState(statePath: string, current: ResumeState): Promise<boolean> {
+  try {
+    const stored = JSON.parse(await fs.promises.readFile(statePath, 'utf-8')) as ResumeState;
+    return stored.source === current.source &&
+      stored.size === current.size &&
+      stored.mtimeMs === current.mtimeMs;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Re-read a partial copy against the source and feed the matching prefix to the hasher
+ * The partial is truncated to the last block that matched; returns that offset.
+ */
+async function resumePartial(
+  source: string,
+  partialPath: string,
+  hasher: Hasher,
+  bufferSize: number
+): Promise<number> {
+  let partial: fs.promises.FileHandle;
+  try {
+    partial = await fs.promises.open(partialPath, 'r+');
+  } catch {
+    return 0;
+  }
+
+  const limiter = getCopyLimiter();
+  let offset = 0;
+  try {
+    const sourceHandle = await fs.promises.open(source, 'r');
+    try {
+      const expected = Buffer.alloc(bufferSize);
+      const actual = Buffer.alloc(bufferSize);
+
+      for (;;) {
+        const { bytesRead } = await partial.read(actual, 0, bufferSize, offset);
+        if (bytesRead === 0) break;
+
+        await limiter?.consume(bytesRead);
+        const { bytesRead: sourceRead } = await sourceHandle.read(expected, 0, bytesRead, offset);
+        const block = expected.subarray(0, sourceRead);
+        if (sourceRead !== bytesRead || !block.equals(actual.subarray(0, bytesRead))) break;
+
+        hasher.update(block);
+        offset += bytesRead;
+      }
+    } finally {
+      await sourceHandle.close();
+    }
+
+    await partial.truncate(offset);
+  } finally {
+    await partial.close();
+  }
+
+  return offset;
+}
+
+/**
+ * Remove a partial copy and its resume state
+ */
+async function discardPartial(destination: string): Promise<void> {
+  await fs.promises.unlink(destination + PARTIAL_SUFFIX).catch(() => {});
+  await fs.promises.unlink(destination + RESUME_STATE_SUFFIX).catch(() => {});
+}
+
+/**
+ * Copy one file to several destinations, reading the source once
+ * Each chunk is hashed once and written to every healthy destination's .partial
+ * file, which is renamed into place once verified; existing files are left alone
+ * until then. A destination that fails (open, write, close or verification) is
+ * dropped and the others continue; only a source read error fails the whole copy.
+ * As with copyWithHash, partials are kept for resume: the source is read from the
+ * shortest verified prefix and each destination only receives what it lacks.
+ * Writes proceed at the pace of the slowest destination; a copy rate limit is
+ * charged once per source byte.
+ */
+export async function copyToMany(
+  source: string,
+  destinations: string[],
+  options: Omit<CopyOptions, 'retries' | 'reflink'> = {}
+): Promise<MultiCopyResult> {
+  const {
+    algorithm = 'blake3',
+    verify = true,
+    overwrite = false,
+    preserveTimestamps = true,
+    preserve = [],
+    resume = false,
+    onProgress
+  } = options;
+
+  const startTime = performance.now();
+  const sourceStats = await fs.promises.stat(source);
+  const sourceMetadata = preserve.length > 0 ? await readFileMetadata(source, preserve) : null;
+  const totalSize = sourceStats.size;
+
+  const isNetwork = isNetworkPath(source) || destinations.some(d => isNetworkPath(d));
+  const bufferSize = isNetwork ? NETWORK_BUFFER_SIZE : LOCAL_BUFFER_SIZE;
+  const state: ResumeState = { source: path.resolve(source), size: totalSize, mtimeMs: sourceStats.mtimeMs };
+
+  // Open every partial up front; existing destinations are refused before any write
+  const targets: FanOutTarget[] = await Promise.all(destinations.map(async (destination) => {
+    const partialPath = destination + PARTIAL_SUFFIX;
+    const statePath = destination + RESUME_STATE_SUFFIX;
+    const target: FanOutTarget = { destination, partialPath, handle: null, created: false, offset: 0, verified: false };
+    try {
+      if (!overwrite && await fs.promises.access(destination).then(() => true, () => false)) {
+        throw new Error(`Destination already exists: ${destination}`);
+      }
+      await fs.promises.mkdir(path.dirname(destination), { recursive: true });
+
+      // A partial from an earlier run is only trusted for the same, unchanged source
+      if (resume && await matchesResumeState(statePath, state)) {
+        target.hasher = createHasher(algorithm);
+        target.offset = await resumePartial(source, partialPath, target.hasher, bufferSize);
+      }
+      target.handle = await fs.promises.open(partialPath, target.offset > 0 ? 'r+' : 'w');
+      target.created = true;
+      await fs.promises.writeFile(statePath, JSON.stringify(state));
+    } catch (err: unknown) {
+      await dropTarget(target, err);
+    }
+    return target;
+  }));
+
+  const healthy = (): FanOutTarget[] => targets.filter(t => !t.error);
+
+  // Continue hashing from the shortest prefix any destination already holds
+  const behind = healthy().reduce<FanOutTarget | undefined>((min, t) => !min || t.offset < min.offset ? t : min, undefined);
+  const startOffset = behind?.offset ?? 0;
+  const hasher = startOffset > 0 ? behind!.hasher! : createHasher(algorithm);
+  const limiter = getCopyLimiter();
+  let bytesProcessed = startOffset;
+  if (bytesProcessed > 0) onProgress?.(bytesProcessed, totalSize);
+
+  try {
+    const readStream = fs.createReadStream(source, { highWaterMark: bufferSize, start: startOffset });
+
+    for await (const chunk of readStream) {
+      await limiter?.consume(chunk.length);
+      hasher.update(chunk);
+
+      // Destinations further ahead only receive the part of the chunk they lack
+      const position = bytesProcessed;
+      await Promise.all(healthy().filter(target => target.offset < position + chunk.length).map(target => {
+        const skip = Math.max(0, target.offset - position);
+        return writeFully(target.handle!, chunk.subarray(skip), position + skip).catch(err => dropTarget(target, err));
+      }));
+
+      bytesProcessed += chunk.length;
+      onProgress?.(bytesProcessed, totalSize);
+    }
+  } catch (err) {
+    // Source read failed - no destination is complete
+    await Promise.all(healthy().map(target => dropTarget(target, err)));
+    throw err;
+  }
+
+  await Promise.all(healthy().map(async (target) => {
+    try {
+      await target.handle!.close();
+      target.handle = null;
+    } catch (err) {
+      await dropTarget(target, err);
+    }
+  }));
+
+  const hash = finalizeHash(hasher, algorithm);
+
+  // Verify and finish each destination independently
+  await Promise.all(healthy().map(async (target) => {
+    try {
+      if (verify) {
+        const verifyHash = await hashDestination(target.partialPath, algorithm);
+        if (verifyHash !== hash) {
+          // A partial that failed verification cannot be resumed from
+          await dropTarget(target, new Error(`Verification failed: expected ${hash}, got ${verifyHash}`), true);
+          return;
+        }
+        target.verified = true;
+      }
+
+      if (preserveTimestamps) {
+        await fs.promises.utimes(target.partialPath, sourceStats.atime, sourceStats.mtime);
+      }
+
+      if (sourceMetadata) {
+        const readable = preserve.filter(a => !sourceMetadata.failed.some(f => f.attribute === a));
+        const failed = [
+          ...sourceMetadata.failed,
+          ...await applyFileMetadata(target.partialPath, sourceMetadata.metadata, readable)
+        ];
+        target.preservation = {
+          metadata: sourceMetadata.metadata,
+          preserved: preserve.filter(a => !failed.some(f => f.attribute === a)),
+          failed
+        };
+      }
+
+      await commitPartial(target.partialPath, target.destination, overwrite);
+      await fs.promises.unlink(target.destination + RESUME_STATE_SUFFIX).catch(() => {});
+    } catch (err) {
+      await dropTarget(target, err);
+    }
+  }));
+
+  return {
+    source,
+    hash,
+    algorithm,
+    size: totalSize,
+    durationMs: performance.now() - startTime,
+    targets: targets.map(({ destination, verified, preservation, offset, error }) => ({
+      destination,
+      verified: !error && verified,
+      ...(preservation && !error && { preservation }),
+      ...(offset > 0 && !error && { resumedBytes: offset }),
+      ...(error && { error })
+    }))
+  };
+}
+
+/**
+ * Write a whole buffer at a file position
+ */
+async function writeFully(handle: fs.promises.FileHandle, buffer: Buffer, position: number): Promise<void> {
+  let offset = 0;
+  while (offset < buffer.length) {
+    const { bytesWritten } = await handle.write(buffer, offset, buffer.length - offset, position + offset);
+    offset += bytesWritten;
+  }
+}
+
+/**
+ * Mark a fan-out destination as failed
+ * Its partial is kept for a later resume if something was written, unless discarded.
+ */
+async function dropTarget(target: FanOutTarget, err: unknown, discard = false): Promise<void> {
+  if (target.error) return;
+  target.error = err instanceof Error ? err.message : String(err);
+
+  await target.handle?.close().catch(() => {});
+  target.handle = null;
+  if (!target.created) return;
+
+  const written = discard ? 0 : await fs.promises.stat(target.partialPath).then(stats => stats.size, () => 0);
+  if (written === 0) {
+    await discardPartial(target.destination);
+  }
+}
+
+/**
+ * Copy a stream (e.g. stdin) to a file with inline hashing
+ * The stream is written to a .partial file that replaces the destination only
+ * once complete and verified, so an existing file survives a failed copy.
+ * Streams cannot be replayed, so there are no retries; a failed partial is removed.
+ */
+export async function copyStreamWithHash(
+  source: Readable | NodeJS.ReadableStream,
+  destination: string,
+  options: Omit<CopyOptions, 'preserveTimestamps' | 'preserve' | 'retries' | 'resume' | 'reflink'> = {}
+): Promise<CopyResult> {
+  const { algorithm = 'blake3', verify = true, overwrite = false, onProgress } = options;
+  const startTime = performance.now();
+
+  if (!overwrite) {
+    try {
+      await fs.promises.access(destination);
+      throw new Error(`Destination already exists: ${destination}`);
+    } catch (err: unknown) {
+      const errObj = err as NodeJS.ErrnoException;
+      if (errObj.code !== 'ENOENT') throw err;
+    }
+  }
+
+  await fs.promises.mkdir(path.dirname(destination), { recursive: true });
+  const bufferSize = isNetworkPath(destination) ? NETWORK_BUFFER_SIZE : LOCAL_BUFFER_SIZE;
+  const partialPath = destination + PARTIAL_SUFFIX;
+
+  try {
+    // Total size is unknown until the stream ends
+    const hash = await performCopy(source, partialPath, algorithm, bufferSize, 0, onProgress);
+    const size = (await fs.promises.stat(partialPath)).size;
+
+    let verified = false;
+    if (verify) {
+      const verifyHash = await hashDestination(partialPath, algorithm);
+      verified = verifyHash === hash;
+      if (!verified) {
+        throw new Error(`Verification failed: expected ${hash}, got ${verifyHash}`);
+      }
+    }
+
+    await commitPartial(partialPath, destination, overwrite);
+
+    return {
+      source: '-',
+      destination,
+      hash,
+      algorithm,
+      size,
+      durationMs: performance.now() - startTime,
+      verified,
+      retries: 0,
+      method: 'stream'
+    };
+  } catch (err) {
+    await discardPartial(destination);
+    throw err;
+  }
+}
+
+/**
+ * Move a complete partial to its final name
+ * Without overwrite it is hard-linked into place, which fails atomically if the
+ * destination appeared in the meantime; filesystems without hard links (exFAT,
+ * some network shares) fall back to a rename.
+ */
+async function commitPartial(partialPath: string, destination: string, overwrite: boolean): Promise<void> {
+  if (!overwrite) {
+    try {
+      await fs.promises.link(partialPath, destination);
+      await fs.promises.unlink(partialPath);
+      return;
+    } catch (err: unknown) {
+      const errObj = err as NodeJS.ErrnoException;
+      if (errObj.code === 'EEXIST') throw new Error(`Destination already exists: ${destination}`);
+      if (!['EPERM', 'ENOTSUP', 'EOPNOTSUPP', 'ENOSYS'].includes(errObj.code ?? '')) throw err;
+    }
+  }
+  await fs.promises.rename(partialPath, destination);
+}
+
 /**
  * Perform the actual copy with inline hashing
+ * With a resume point the data is appended and hashing continues from its state.
  */
 async function performCopy(
-  source: string,
+  readStream: Readable | NodeJS.ReadableStream,
   destination: string,
   algorithm: Algorithm,
   bufferSize: number,
   totalSize: number,
-  onProgress?: (bytes: number, total: number) => void
+  onProgress?: (bytes: number, total: number) => void,
+  resumeFrom?: ResumePoint
 ): Promise<string> {
   // Create hasher
-  const hasher = createHasher(algorithm);
-  let bytesProcessed = 0;
+  const hasher = resumeFrom?.hasher ?? createHasher(algorithm);
+  let bytesProcessed = resumeFrom?.offset ?? 0;
 
   // Create transform stream for hashing
   const hashTransform = new Transform({
     transform(chunk: Buffer, _encoding: string, callback: TransformCallback) {
-      hasher.update(chunk);
-      bytesProcessed += chunk.length;
+      try {
+        hasher.update(chunk);
+        bytesProcessed += chunk.length;
 
-      if (onProgress) {
-        onProgress(bytesProcessed, totalSize);
+        if (onProgress) {
+          onProgress(bytesProcessed, totalSize || bytesProcessed);
+        }
+      } catch (err) {
+        // Fail the pipeline instead of throwing out of the stream
+        callback(err as Error);
+        return;
       }
 
       callback(null, chunk);
     }
   });
 
-  // Create streams
-  const readStream = fs.createReadStream(source, { highWaterMark: bufferSize });
-  const writeStream = fs.createWriteStream(destination, { highWaterMark: bufferSize });
+  const writeStream = fs.createWriteStream(destination, {
+    highWaterMark: bufferSize,
+    flags: bytesProcessed > 0 ? 'a' : 'w'
+  });
 
   // Perform copy with pipeline
-  await pipeline(readStream, hashTransform, writeStream);
+  const limiter = getCopyLimiter();
+  if (limiter) {
+    await pipeline(readStream, createThrottleStream(limiter), hashTransform, writeStream);
+  } else {
+    await pipeline(readStream, hashTransform, writeStream);
+  }
 
   // Get hash result
   return finalizeHash(hasher, algorithm);
 }
 
 /**
- * Hash destination file for verification
+ * Hash a file by streaming it (destination verification, cloned sources)
  */
 async function hashDestination(filePath: string, algorithm: Algorithm): Promise<string> {
   const hasher = createHasher(algorithm);
   const bufferSize = isNetworkPath(filePath) ? NETWORK_BUFFER_SIZE : LOCAL_BUFFER_SIZE;
 
+  const limiter = getCopyLimiter();
+
   const readStream = fs.createReadStream(filePath, { highWaterMark: bufferSize });
 
   for await (const chunk of readStream) {
+    await limiter?.consume(chunk.length);
     hasher.update(chunk);
   }
 
@@ -223,8 +762,14 @@ function createHasher(algorithm: Algorithm): Hasher {
     case 'md5':
       return cryptoHash('md5');
     case 'xxhash64':
-      // xxhash64 is not typically used during copy, fall back to blake3
-      return blake3Hash() as unknown as Hasher;
+    case 'xxh3':
+    case 'xxh128':
+    case 'sha1':
+    case 'crc32':
+    case 'c4': {
+      const digest = createDigest(algorithm);
+      return { update: data => digest.update(data), digest: () => digest.digest() };
+    }
   }
 }
 
@@ -233,7 +778,7 @@ function createHasher(algorithm: Algorithm): Hasher {
  */
 function finalizeHash(hasher: Hasher, algorithm: Algorithm): string {
   const hex = hasher.digest('hex');
-  if (algorithm === 'blake3' || algorithm === 'xxhash64') {
+  if (algorithm === 'blake3') {
     return hex.slice(0, 16);
   }
   return hex;
@@ -0,0 +1,89 @@
+/**
+ * Streaming digests for every algorithm but BLAKE3
+ * Shared by the hasher, the hash worker, the copier and the MHL service.
+ * BLAKE3 (plain, keyed, derive_key) is created in keys.ts.
+ */
+
+import * as crypto from 'node:crypto';
+import xxhashAddon from 'xxhash-addon';
+import type { Algorithm } from '../schemas/index.js';
+
+const { XXHash64, XXHash3, XXHash128 } = xxhashAddon;
+
+/**
+ * Algorithms createDigest handles
+ */
+export type DigestAlgorithm = Exclude<Algorithm, 'blake3' | 'blake3-full'>;
+
+/**
+ * Incremental digest; digest() returns lowercase hex (a C4 ID for c4)
+ */
+export interface Digest {
+  update(chunk: Buffer): void;
+  digest(): string;
+}
+
+const C4_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * C4 ID of a SHA-512 digest: "c4" and the digest in base58, padded to 90 characters
+ */
+export function c4Id(sha512: Buffer): string {
+  let value = BigInt(`0x${sha512.toString('hex')}`);
+  let encoded = '';
+  while (value > 0n) {
+    encoded = C4_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  return `c4${encoded.padStart(88, '1')}`;
+}
+
+// CRC-32 (IEEE 802.3, as in zip and SFV), one table entry per byte value
+const CRC32_TABLE = new Uint32Array(256).map((_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function createCrc32(): Digest {
+  let crc = 0xffffffff;
+  return {
+    update: (chunk: Buffer) => {
+      for (let i = 0; i < chunk.length; i++) {
+        crc = CRC32_TABLE[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8);
+      }
+    },
+    digest: () => ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0')
+  };
+}
+
+/**
+ * Create a digest for a non-BLAKE3 algorithm
+ * The xxHash variants use the default seed (zero), so digests match xxhsum.
+ */
+export function createDigest(algorithm: DigestAlgorithm): Digest {
+  switch (algorithm) {
+    case 'sha256':
+    case 'sha512':
+    case 'sha1':
+    case 'md5': {
+      const hash = crypto.createHash(algorithm);
+      return { update: chunk => hash.update(chunk), digest: () => hash.digest('hex') };
+    }
+    case 'c4': {
+      const hash = crypto.createHash('sha512');
+      return { update: chunk => hash.update(chunk), digest: () => c4Id(hash.digest()) };
+    }
+    case 'xxhash64':
+    case 'xxh3':
+    case 'xxh128': {
+      const Hasher = algorithm === 'xxhash64' ? XXHash64 : algorithm === 'xxh3' ? XXHash3 : XXHash128;
+      const hash = new Hasher(Buffer.alloc(8));
+      return { update: chunk => hash.update(chunk), digest: () => hash.digest().toString('hex') };
+    }
+    case 'crc32':
+      return createCrc32();
+  }
+}
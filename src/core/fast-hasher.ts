@@ -5,6 +5,7 @@
 
 import * as fs from 'node:fs';
 import { createHash } from 'blake3';
+import { getHashCache, getFileIdentity, type FileIdentity } from './hash-cache.js';
 
 const DEFAULT_SAMPLE_SIZE = 300 * 1024 * 1024; // 300MB
 const MIN_SIZE_FOR_SAMPLING = 1024 * 1024 * 1024; // 1GB - files under this get full hash
@@ -25,6 +26,8 @@ export interface FastHashResult {
 
 /**
  * Fast hash a file using sampling for large files
+ * Full hashes share cache entries with hashFile (blake3 / blake3-full);
+ * sampled hashes are cached per sample size.
  */
 export async function fastHash(
   filePath: string,
@@ -37,28 +40,82 @@ export async function fastHash(
   } = options;
 
   const startTime = performance.now();
-  const stats = await fs.promises.stat(filePath);
-  const fileSize = stats.size;
+  const cache = getHashCache();
+  let identity: FileIdentity | null = null;
+  let fileSize: number;
+  if (cache) {
+    identity = await getFileIdentity(filePath);
+    fileSize = identity.size;
+  } else {
+    fileSize = (await fs.promises.stat(filePath)).size;
+  }
 
-  // Small files get full hash
-  if (fileSize < threshold) {
-    const hash = await hashFull(filePath, full);
-    return {
-      hash,
-      size: fileSize,
-      sampled: false,
-      durationMs: performance.now() - startTime
-    };
+  const sampled = fileSize >= threshold;
+  const cacheAlgorithm = sampled
+    ? `fast-${sampleSize}${full ? '-full' : ''}`
+    : (full ? 'blake3-full' : 'blake3');
+
+  if (cache && identity) {
+    await cache.load();
+    const cached = cache.getByIdentity(identity, cacheAlgorithm);
+    if (cached) {
+      return {
+        hash: cached,
+        size: fileSize,
+        sampled,
+        ...(sampled ? { sampleRegions: computeSampleRegions(fileSize, sampleSize) } : {}),
+        durationMs: performance.now() - startTime
+      };
+    }
+  }
+
+  // Small files get full hash, large files get sampled hash
+  const result: Omit<FastHashResult, 'durationMs'> = sampled
+    ? await hashSampled(filePath, fileSize, sampleSize, full)
+    : { hash: await hashFull(filePath, full), size: fileSize, sampled: false };
+
+  if (cache && identity) {
+    await cache.set(filePath, cacheAlgorithm, result.hash, identity);
   }
 
-  // Large files get sampled hash
-  const result = await hashSampled(filePath, fileSize, sampleSize, full);
   return {
     ...result,
     durationMs: performance.now() - startTime
   };
 }
 
+/**
+ * Regions read by the sampled hash: first + middle + last, without overlap
+ */
+export function computeSampleRegions(
+  fileSize: number,
+  sampleSize: number
+): Array<{ start: number; end: number }> {
+  const regions: Array<{ start: number; end: number }> = [];
+
+  const firstEnd = Math.min(sampleSize, fileSize);
+  const middleStart = Math.max(0, Math.floor(fileSize / 2) - Math.floor(sampleSize / 2));
+  const middleEnd = Math.min(middleStart + sampleSize, fileSize);
+  const lastStart = Math.max(0, fileSize - sampleSize);
+
+  // First section
+  if (firstEnd > 0) {
+    regions.push({ start: 0, end: firstEnd });
+  }
+
+  // Middle section (if not overlapping with first)
+  if (middleStart > firstEnd) {
+    regions.push({ start: middleStart, end: middleEnd });
+  }
+
+  // Last section (if not overlapping with middle)
+  if (lastStart > middleEnd) {
+    regions.push({ start: lastStart, end: fileSize });
+  }
+
+  return regions;
+}
+
 /**
  * Full file hash
  */
@@ -87,30 +144,10 @@ async function hashSampled(
   const fd = await fs.promises.open(filePath, 'r');
 
   try {
-    const regions: Array<{ start: number; end: number }> = [];
-
-    // Calculate sample regions
-    const firstEnd = Math.min(sampleSize, fileSize);
-    const middleStart = Math.max(0, Math.floor(fileSize / 2) - Math.floor(sampleSize / 2));
-    const middleEnd = Math.min(middleStart + sampleSize, fileSize);
-    const lastStart = Math.max(0, fileSize - sampleSize);
-
-    // First section
-    if (firstEnd > 0) {
-      await hashRegion(fd, hasher, 0, firstEnd);
-      regions.push({ start: 0, end: firstEnd });
-    }
-
-    // Middle section (if not overlapping with first)
-    if (middleStart > firstEnd) {
-      await hashRegion(fd, hasher, middleStart, middleEnd);
-      regions.push({ start: middleStart, end: middleEnd });
-    }
+    const regions = computeSampleRegions(fileSize, sampleSize);
 
-    // Last section (if not overlapping with middle)
-    if (lastStart > middleEnd) {
-      await hashRegion(fd, hasher, lastStart, fileSize);
-      regions.push({ start: lastStart, end: fileSize });
+    for (const region of regions) {
+      await hashRegion(fd, hasher, region.start, region.end);
     }
 
     // Also hash file size to differentiate files with same content in sampled regions
@@ -0,0 +1,291 @@
+/**
+ * File metadata preservation
+ * Reads, applies and compares mode bits, ownership, user extended attributes and POSIX ACLs.
+ * Node has no xattr/ACL API, so those go through getfattr/setfattr/getfacl/setfacl
+ * (Linux) and xattr (macOS).
+ */
+
+import * as fs from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import type { FileMetadata, PreserveAttribute } from '../schemas/index.js';
+
+const execFileAsync = promisify(execFile);
+
+export const PRESERVE_ATTRIBUTES: readonly PreserveAttribute[] = ['mode', 'owner', 'xattr', 'acl'];
+
+// Apply order: xattrs need a writable file, chown clears setuid bits, mode last
+const APPLY_ORDER: readonly PreserveAttribute[] = ['xattr', 'owner', 'acl', 'mode'];
+
+/**
+ * An attribute that could not be read or applied
+ */
+export interface MetadataFailure {
+  attribute: PreserveAttribute;
+  error: string;
+}
+
+/**
+ * Outcome of carrying metadata from a source to a copy
+ */
+export interface MetadataPreservation {
+  /** Source metadata for the requested attributes (recorded in sidecars) */
+  metadata: FileMetadata;
+  preserved: PreserveAttribute[];
+  failed: MetadataFailure[];
+}
+
+/**
+ * Parse a --preserve list ("mode,owner,xattr,acl"; a bare flag or "all" means everything)
+ */
+export function parsePreserveList(value: string | boolean | undefined): PreserveAttribute[] {
+  if (value === undefined || value === false) return [];
+  if (value === true || value === 'all') return [...PRESERVE_ATTRIBUTES];
+
+  const attributes = value.split(',').map(a => a.trim()).filter(Boolean);
+  for (const attribute of attributes) {
+    if (!(PRESERVE_ATTRIBUTES as readonly string[]).includes(attribute)) {
+      throw new Error(`Invalid preserve attribute: ${attribute} (expected ${PRESERVE_ATTRIBUTES.join(', ')})`);
+    }
+  }
+  return PRESERVE_ATTRIBUTES.filter(a => attributes.includes(a));
+}
+
+/**
+ * Attributes present in recorded metadata
+ */
+export function metadataAttributes(metadata: FileMetadata): PreserveAttribute[] {
+  return PRESERVE_ATTRIBUTES.filter(attribute => {
+    switch (attribute) {
+      case 'mode': return metadata.mode !== undefined;
+      case 'owner': return metadata.uid !== undefined || metadata.gid !== undefined;
+      case 'xattr': return metadata.xattrs !== undefined;
+      case 'acl': return metadata.acl !== undefined;
+    }
+  });
+}
+
+/**
+ * Keep only the given attributes of a metadata record
+ */
+export function pickMetadata(metadata: FileMetadata, attributes: PreserveAttribute[]): FileMetadata {
+  return {
+    ...(attributes.includes('mode') && metadata.mode !== undefined && { mode: metadata.mode }),
+    ...(attributes.includes('owner') && metadata.uid !== undefined && { uid: metadata.uid, gid: metadata.gid }),
+    ...(attributes.includes('xattr') && metadata.xattrs !== undefined && { xattrs: metadata.xattrs }),
+    ...(attributes.includes('acl') && metadata.acl !== undefined && { acl: metadata.acl })
+  };
+}
+
+/**
+ * Read the requested attributes of a file
+ * Attributes that cannot be read (missing tools, unsupported platform) are reported as failures.
+ */
+export async function readFileMetadata(
+  filePath: string,
+  attributes: PreserveAttribute[]
+): Promise<{ metadata: FileMetadata; failed: MetadataFailure[] }> {
+  const metadata: FileMetadata = {};
+  const failed: MetadataFailure[] = [];
+  const stats = await fs.stat(filePath);
+
+  for (const attribute of attributes) {
+    try {
+      switch (attribute) {
+        case 'mode':
+          metadata.mode = stats.mode & 0o7777;
+          break;
+        case 'owner':
+          metadata.uid = stats.uid;
+          metadata.gid = stats.gid;
+          break;
+        case 'xattr':
+          metadata.xattrs = await readXattrs(filePath);
+          break;
+        case 'acl':
+          metadata.acl = await readAcl(filePath);
+          break;
+      }
+    } catch (err) {
+      failed.push({ attribute, error: errorMessage(err) });
+    }
+  }
+
+  return { metadata, failed };
+}
+
+/**
+ * Apply recorded attributes to a file
+ * Returns the attributes that could not be applied; the others are unaffected.
+ */
+export async function applyFileMetadata(
+  filePath: string,
+  metadata: FileMetadata,
+  attributes: PreserveAttribute[] = metadataAttributes(metadata)
+): Promise<MetadataFailure[]> {
+  const failed: MetadataFailure[] = [];
+
+  for (const attribute of APPLY_ORDER) {
+    if (!attributes.includes(attribute)) continue;
+
+    try {
+      switch (attribute) {
+        case 'mode':
+          if (metadata.mode !== undefined) await fs.chmod(filePath, metadata.mode);
+          break;
+        case 'owner':
+          if (metadata.uid !== undefined && metadata.gid !== undefined) {
+            await fs.chown(filePath, metadata.uid, metadata.gid);
+          }
+          break;
+        case 'xattr':
+          for (const [name, value] of Object.entries(metadata.xattrs ?? {})) {
+            await writeXattr(filePath, name, value);
+          }
+          break;
+        case 'acl':
+          if (metadata.acl) await writeAcl(filePath, metadata.acl);
+          break;
+      }
+    } catch (err) {
+      failed.push({ attribute, error: errorMessage(err) });
+    }
+  }
+
+  return failed;
+}
+
+/**
+ * Copy the requested attributes from a source file to its copy
+ */
+export async function preserveFileMetadata(
+  source: string,
+  destination: string,
+  attributes: PreserveAttribute[]
+): Promise<MetadataPreservation> {
+  const { metadata, failed } = await readFileMetadata(source, attributes);
+  const readable = attributes.filter(a => !failed.some(f => f.attribute === a));
+
+  failed.push(...await applyFileMetadata(destination, metadata, readable));
+
+  return {
+    metadata,
+    preserved: attributes.filter(a => !failed.some(f => f.attribute === a)),
+    failed
+  };
+}
+
+/**
+ * Attributes whose current value differs from the recorded one
+ */
+export function findMetadataDrift(recorded: FileMetadata, current: FileMetadata): PreserveAttribute[] {
+  return metadataAttributes(recorded).filter(attribute => {
+    switch (attribute) {
+      case 'mode': return recorded.mode !== current.mode;
+      case 'owner': return recorded.uid !== current.uid || recorded.gid !== current.gid;
+      case 'xattr': return !sameXattrs(recorded.xattrs ?? {}, current.xattrs);
+      case 'acl': return recorded.acl?.trim() !== current.acl?.trim();
+    }
+  });
+}
+
+/**
+ * Format a mode as octal (0644)
+ */
+export function formatMode(mode: number): string {
+  return mode.toString(8).padStart(4, '0');
+}
+
+function sameXattrs(a: Record<string, string>, b: Record<string, string> | undefined): boolean {
+  if (!b) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(k => a[k] === b[k]);
+}
+
+function errorMessage(err: unknown): string {
+  const errObj = err as NodeJS.ErrnoException;
+  // execFile reports a missing binary as ENOENT on the command name
+  if (errObj.code === 'ENOENT' && errObj.path && !errObj.path.startsWith('/')) {
+    return `${errObj.path} not available`;
+  }
+  return errObj.message ?? String(err);
+}
+
+/**
+ * Read user extended attributes as name → base64 value
+ */
+async function readXattrs(filePath: string): Promise<Record<string, string>> {
+  const xattrs: Record<string, string> = {};
+
+  if (process.platform === 'linux') {
+    const { stdout } = await execFileAsync('getfattr', [
+      '--absolute-names', '--dump', '--match=^user\\.', '--encoding=base64', '--', filePath
+    ]);
+    for (const line of stdout.split('\n')) {
+      if (!line || line.startsWith('#')) continue;
+      const eq = line.indexOf('=');
+      if (eq === -1) {
+        xattrs[line] = '';
+      } else {
+        xattrs[line.slice(0, eq)] = decodeGetfattrValue(line.slice(eq + 1));
+      }
+    }
+    return xattrs;
+  }
+
+  if (process.platform === 'darwin') {
+    const { stdout } = await execFileAsync('xattr', [filePath]);
+    for (const name of stdout.split('\n').filter(Boolean)) {
+      const { stdout: hex } = await execFileAsync('xattr', ['-px', name, filePath]);
+      xattrs[name] = Buffer.from(hex.replace(/\s+/g, ''), 'hex').toString('base64');
+    }
+    return xattrs;
+  }
+
+  throw new Error(`Extended attributes are not supported on ${process.platform}`);
+}
+
+// getfattr prints 0s<base64>, 0x<hex> or a quoted string depending on content
+function decodeGetfattrValue(value: string): string {
+  if (value.startsWith('0s')) return value.slice(2);
+  if (value.startsWith('0x')) return Buffer.from(value.slice(2), 'hex').toString('base64');
+  return Buffer.from(value.replace(/^"|"$/g, '')).toString('base64');
+}
+
+async function writeXattr(filePath: string, name: string, base64: string): Promise<void> {
+  if (process.platform === 'linux') {
+    await execFileAsync('setfattr', ['--name', name, `--value=0s${base64}`, '--', filePath]);
+    return;
+  }
+
+  if (process.platform === 'darwin') {
+    await execFileAsync('xattr', ['-wx', name, Buffer.from(base64, 'base64').toString('hex'), filePath]);
+    return;
+  }
+
+  throw new Error(`Extended attributes are not supported on ${process.platform}`);
+}
+
+/**
+ * Read a POSIX ACL in getfacl text form ('' when only the base permissions are set)
+ */
+async function readAcl(filePath: string): Promise<string> {
+  if (process.platform !== 'linux') {
+    throw new Error(`ACLs are not supported on ${process.platform}`);
+  }
+
+  const { stdout } = await execFileAsync('getfacl', [
+    '--absolute-names', '--omit-header', '--skip-base', '--', filePath
+  ]);
+  return stdout.trim();
+}
+
+async function writeAcl(filePath: string, acl: string): Promise<void> {
+  if (process.platform !== 'linux') {
+    throw new Error(`ACLs are not supported on ${process.platform}`);
+  }
+
+  const pending = execFileAsync('setfacl', ['--set-file=-', '--', filePath]);
+  pending.child.stdin?.end(acl + '\n');
+  await pending;
+}
@@ -0,0 +1,443 @@
+/**
+ * Persistent hash cache
+ * Remembers file hashes keyed by device, inode, size, mtime and algorithm
+ * so unchanged files are not re-read on every run
+ *
+ * The cache is a single JSON file, read whole on first use and rewritten
+ * whole on save. Saves merge with the file on disk, so concurrent processes
+ * keep each other's entries; only a save that lands between another
+ * process's read and rename can still drop that process's new entries,
+ * which are then re-hashed on a later run.
+ */
+
+import * as fs from 'node:fs';
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+/**
+ * Cache mode
+ * - 'off': never read or write the cache
+ * - 'on': use cached hashes for hashing, but re-read files when verifying
+ * - 'trust': use cached hashes for hashing and verification alike
+ */
+export type HashCacheMode = 'off' | 'on' | 'trust';
+
+const HASH_CACHE_MODES: readonly HashCacheMode[] = ['off', 'on', 'trust'];
+
+/**
+ * Check a configured value against the known cache modes
+ */
+export function isHashCacheMode(value: unknown): value is HashCacheMode {
+  return HASH_CACHE_MODES.includes(value as HashCacheMode);
+}
+
+/**
+ * Identity of a file on disk, as used for cache keys
+ */
+export interface FileIdentity {
+  dev: string;
+  ino: string;
+  size: number;
+  mtimeNs: string;
+}
+
+/**
+ * Single cached hash
+ */
+export interface HashCacheEntry {
+  path: string;
+  size: number;
+  mtimeNs: string;
+  hash: string;
+  cachedAt: string;
+}
+
+/**
+ * Counters for the current process
+ */
+export interface HashCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  invalidations: number;
+  writes: number;
+  file: string;
+  fileBytes: number;
+}
+
+interface HashCacheFile {
+  version: 1;
+  entries: Record<string, HashCacheEntry>;
+}
+
+const CACHE_FILE_VERSION = 1;
+const CACHE_FILENAME = 'hash-cache.json';
+
+/**
+ * Default cache directory (~/.config/wnb)
+ */
+export function getDefaultCacheDir(): string {
+  return path.join(os.homedir(), '.config', 'wnb');
+}
+
+/**
+ * Read the identity fields of a file
+ * Uses bigint stats so inode numbers and nanosecond mtimes survive intact
+ */
+export async function getFileIdentity(filePath: string): Promise<FileIdentity> {
+  const stats = await fsp.stat(filePath, { bigint: true });
+  return {
+    dev: stats.dev.toString(),
+    ino: stats.ino.toString(),
+    size: Number(stats.size),
+    mtimeNs: stats.mtimeNs.toString()
+  };
+}
+
+/**
+ * On-disk hash cache
+ * Entries are keyed by device + inode + algorithm; size and mtime are
+ * compared on lookup and a mismatch invalidates the entry.
+ */
+export class HashCache {
+  readonly filePath: string;
+  private entries = new Map<string, HashCacheEntry>();
+  // Changes since the last save, replayed over the file on disk when saving
+  private updated = new Set<string>();
+  private removed = new Set<string>();
+  private cleared = false;
+  private loaded = false;
+  private dirty = false;
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+  private writes = 0;
+
+  constructor(cacheDir: string = getDefaultCacheDir()) {
+    this.filePath = path.join(cacheDir, CACHE_FILENAME);
+  }
+
+  /**
+   * Load entries from disk (no-op after the first call)
+   */
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    let content: string | null = null;
+    try {
+      content = await fsp.readFile(this.filePath, 'utf-8');
+    } catch {
+      // No cache yet, or unreadable - start empty
+    }
+    for (const [key, entry] of parseEntries(content)) {
+      this.entries.set(key, entry);
+    }
+  }
+
+  /**
+   * Look up a cached hash; returns null on miss or when the file changed
+   */
+  async get(filePath: string, algorithm: string): Promise<string | null> {
+    await this.load();
+
+    let identity: FileIdentity;
+    try {
+      identity = await getFileIdentity(filePath);
+    } catch {
+      this.misses++;
+      return null;
+    }
+
+    return this.getByIdentity(identity, algorithm);
+  }
+
+  /**
+   * Look up a cached hash for an already-stat'ed file
+   * Synchronous, so it only sees entries already loaded: await load() first.
+   */
+  getByIdentity(identity: FileIdentity, algorithm: string): string | null {
+    const key = cacheKey(identity, algorithm);
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    if (entry.size !== identity.size || entry.mtimeNs !== identity.mtimeNs) {
+      this.remove(key);
+      this.invalidations++;
+      this.misses++;
+      return null;
+    }
+
+    this.hits++;
+    return entry.hash;
+  }
+
+  /**
+   * Store a hash for a file
+   */
+  async set(filePath: string, algorithm: string, hash: string, identity?: FileIdentity): Promise<void> {
+    await this.load();
+
+    let id = identity;
+    if (!id) {
+      try {
+        id = await getFileIdentity(filePath);
+      } catch {
+        return;
+      }
+    }
+
+    const key = cacheKey(id, algorithm);
+    this.entries.set(key, {
+      path: path.resolve(filePath),
+      size: id.size,
+      mtimeNs: id.mtimeNs,
+      hash,
+      cachedAt: new Date().toISOString()
+    });
+    this.updated.add(key);
+    this.removed.delete(key);
+    this.dirty = true;
+    this.writes++;
+  }
+
+  /**
+   * Remove entries whose file is gone or has changed
+   */
+  async prune(): Promise<{ removed: number; kept: number }> {
+    await this.load();
+    let removed = 0;
+
+    for (const [key, entry] of this.entries) {
+      let identity: FileIdentity | null = null;
+      try {
+        identity = await getFileIdentity(entry.path);
+      } catch {
+        // File no longer exists
+      }
+
+      if (!identity || !keyMatches(key, identity) ||
+          identity.size !== entry.size || identity.mtimeNs !== entry.mtimeNs) {
+        this.remove(key);
+        removed++;
+      }
+    }
+
+    return { removed, kept: this.entries.size };
+  }
+
+  /**
+   * Iterate over all entries with their algorithm
+   */
+  *list(): IterableIterator<HashCacheEntry & { algorithm: string }> {
+    for (const [key, entry] of this.entries) {
+      yield { ...entry, algorithm: algorithmFromKey(key) };
+    }
+  }
+
+  /**
+   * Drop a single entry (e.g. after verification found it stale)
+   */
+  delete(identity: FileIdentity, algorithm: string): void {
+    const key = cacheKey(identity, algorithm);
+    if (this.entries.has(key)) this.remove(key);
+  }
+
+  /**
+   * Remove all entries, including those other processes saved meanwhile
+   */
+  clear(): void {
+    if (this.entries.size > 0) this.dirty = true;
+    this.entries.clear();
+    this.updated.clear();
+    this.removed.clear();
+    this.cleared = true;
+  }
+
+  /**
+   * Counters and size information
+   */
+  async stats(): Promise<HashCacheStats> {
+    await this.load();
+    let fileBytes = 0;
+    try {
+      fileBytes = (await fsp.stat(this.filePath)).size;
+    } catch {
+      // Not written yet
+    }
+
+    return {
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      invalidations: this.invalidations,
+      writes: this.writes,
+      file: this.filePath,
+      fileBytes
+    };
+  }
+
+  /**
+   * Write the cache to disk if it changed (atomic rename)
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) return;
+
+    let onDisk: string | null = null;
+    try {
+      onDisk = await fsp.readFile(this.filePath, 'utf-8');
+    } catch {
+      // Nothing saved yet
+    }
+    this.merge(onDisk);
+
+    await fsp.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fsp.writeFile(tmpPath, this.serialize());
+    await fsp.rename(tmpPath, this.filePath);
+    this.dirty = false;
+  }
+
+  /**
+   * Synchronous save for process exit handlers
+   */
+  saveSync(): void {
+    if (!this.dirty) return;
+
+    let onDisk: string | null = null;
+    try {
+      onDisk = fs.readFileSync(this.filePath, 'utf-8');
+    } catch {
+      // Nothing saved yet
+    }
+    this.merge(onDisk);
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, this.serialize());
+    fs.renameSync(tmpPath, this.filePath);
+    this.dirty = false;
+  }
+
+  private remove(key: string): void {
+    this.entries.delete(key);
+    this.updated.delete(key);
+    this.removed.add(key);
+    this.dirty = true;
+  }
+
+  /**
+   * Rebuild the entries from the file on disk plus this process's changes
+   * Entries another process saved since load are kept; ours win on conflict.
+   */
+  private merge(onDisk: string | null): void {
+    const merged = this.cleared ? new Map<string, HashCacheEntry>() : parseEntries(onDisk);
+    for (const key of this.removed) merged.delete(key);
+    for (const key of this.updated) {
+      const entry = this.entries.get(key);
+      if (entry) merged.set(key, entry);
+    }
+
+    this.entries = merged;
+    this.updated.clear();
+    this.removed.clear();
+    this.cleared = false;
+  }
+
+  private serialize(): string {
+    const data: HashCacheFile = {
+      version: CACHE_FILE_VERSION,
+      entries: Object.fromEntries(this.entries)
+    };
+    return JSON.stringify(data);
+  }
+}
+
+function parseEntries(content: string | null): Map<string, HashCacheEntry> {
+  const entries = new Map<string, HashCacheEntry>();
+  if (content === null) return entries;
+
+  try {
+    const data = JSON.parse(content) as HashCacheFile;
+    if (data.version === CACHE_FILE_VERSION && data.entries) {
+      for (const [key, entry] of Object.entries(data.entries)) {
+        entries.set(key, entry);
+      }
+    }
+  } catch {
+    // Corrupt cache file - treat as empty
+  }
+  return entries;
+}
+
+function cacheKey(identity: FileIdentity, algorithm: string): string {
+  return `${identity.dev}:${identity.ino}:${algorithm}`;
+}
+
+function keyMatches(key: string, identity: FileIdentity): boolean {
+  return key.startsWith(`${identity.dev}:${identity.ino}:`);
+}
+
+function algorithmFromKey(key: string): string {
+  // dev and ino are numeric, so the algorithm is everything after the second colon
+  const first = key.indexOf(':');
+  const second = key.indexOf(':', first + 1);
+  return key.slice(second + 1);
+}
+
+// Active cache shared by the hasher, fast hasher and worker pool
+let activeCache: HashCache | null = null;
+let cacheMode: HashCacheMode = 'off';
+
+/**
+ * Configure the shared hash cache
+ * The library default is 'off'; the CLI enables it unless --no-cache is given.
+ */
+export function configureHashCache(options: { mode: HashCacheMode; dir?: string }): void {
+  cacheMode = options.mode;
+  if (options.mode === 'off') {
+    activeCache = null;
+    return;
+  }
+
+  const dir = options.dir || getDefaultCacheDir();
+  if (!activeCache || activeCache.filePath !== path.join(dir, CACHE_FILENAME)) {
+    activeCache = new HashCache(dir);
+  }
+}
+
+/**
+ * Get current cache mode
+ */
+export function getHashCacheMode(): HashCacheMode {
+  return cacheMode;
+}
+
+/**
+ * Get the shared cache, or null when caching is off
+ */
+export function getHashCache(): HashCache | null {
+  return cacheMode === 'off' ? null : activeCache;
+}
+
+/**
+ * Get the shared cache for a lookup
+ * Verification lookups (fresh = true) only use the cache in 'trust' mode.
+ */
+export function getHashCacheForLookup(fresh: boolean = false): HashCache | null {
+  if (cacheMode === 'off') return null;
+  if (fresh && cacheMode !== 'trust') return null;
+  return activeCache;
+}
+
+/**
+ * Persist the shared cache
+ */
+export async function flushHashCache(): Promise<void> {
+  await activeCache?.save();
+}
@@ -6,13 +6,16 @@
 import * as fs from 'node:fs';
 import * as fsp from 'node:fs/promises';
 import * as crypto from 'node:crypto';
-import { createHash as createBlake3Hash } from 'blake3';
 import xxhashAddon from 'xxhash-addon';
 const { XXHash64 } = xxhashAddon;
 import { execFile } from 'node:child_process';
 import { promisify } from 'node:util';
-import type { Algorithm, HashResult } from '../schemas/index.js';
+import { detectAlgorithms, type Algorithm, type HashResult } from '../schemas/index.js';
 import { getBufferSize } from '../utils/network.js';
+import { getHashCache, getHashCacheForLookup, getFileIdentity, type FileIdentity } from './hash-cache.js';
+import { createBlake3Hasher, getBlake3Mode, computeKeyId, type Blake3KeyOptions } from './keys.js';
+import { throttle, getReadLimiter } from './throttle.js';
+import { createDigest, type Digest, type DigestAlgorithm } from './digests.js';
 
 const execFileAsync = promisify(execFile);
 
@@ -131,7 +134,8 @@ async function hashBlake3Native(
 async function hashBlake3Wasm(
   filePath: string,
   truncate: number = 8,
-  progressOptions?: HashProgressOptions
+  progressOptions?: HashProgressOptions,
+  keyOptions?: Blake3KeyOptions
 ): Promise<string> {
   // Validate truncate parameter (same as native)
   if (!Number.isInteger(truncate) || truncate < 1 || truncate > 32) {
@@ -139,7 +143,7 @@ async function hashBlake3Wasm(
   }
 
   const bufferSize = getBufferSize(filePath);
-  const hasher = createBlake3Hash();
+  const hasher = createBlake3Hasher(keyOptions);
 
   // Get total size for progress reporting
   let totalBytes = progressOptions?.totalBytes;
@@ -148,7 +152,7 @@ async function hashBlake3Wasm(
     totalBytes = stats.size;
   }
 
-  const stream = fs.createReadStream(filePath, { highWaterMark: bufferSize });
+  const stream = throttle(fs.createReadStream(filePath, { highWaterMark: bufferSize }), getReadLimiter());
   let bytesProcessed = 0;
 
   for await (const chunk of stream) {
@@ -167,7 +171,7 @@ async function hashBlake3Wasm(
 /**
  * Options for hashBlake3 function
  */
-export interface HashBlake3Options extends HashProgressOptions {
+export interface HashBlake3Options extends HashProgressOptions, Blake3KeyOptions {
   /** Return full 64-char hash instead of 16-char */
   full?: boolean;
   /** Force WASM mode (skip native b3sum) */
@@ -177,6 +181,8 @@ export interface HashBlake3Options extends HashProgressOptions {
 /**
  * Calculate BLAKE3 hash (native with WASM fallback)
  * When onProgress is provided, WASM mode is used for byte-level progress
+ * (likewise when a read rate limit is set)
+ * Keyed and derive_key modes always use WASM
  */
 export async function hashBlake3(
   filePath: string,
@@ -184,10 +190,14 @@ export async function hashBlake3(
 ): Promise<string> {
   const truncateBytes = options.full ? 32 : 8;
 
+  if (getBlake3Mode(options) !== 'plain') {
+    return hashBlake3Wasm(filePath, truncateBytes, options, options);
+  }
+
   // Determine mode - if progress callback is requested, force WASM for per-chunk updates
-  // Native b3sum doesn't support streaming progress
-  const hasProgressCallback = options.onProgress !== undefined;
-  const effectiveMode = hasProgressCallback || options.forceWasm ? 'wasm' : hasherMode;
+  // Native b3sum doesn't support streaming progress, and its reads cannot be rate limited
+  const needsStreaming = options.onProgress !== undefined || getReadLimiter() !== null;
+  const effectiveMode = needsStreaming || options.forceWasm ? 'wasm' : hasherMode;
 
   // Force WASM mode (or required for progress)
   if (effectiveMode === 'wasm' || process.env.WNB_FORCE_WASM) {
@@ -228,7 +238,7 @@ export async function hashSha256(
     totalBytes = stats.size;
   }
 
-  const stream = fs.createReadStream(filePath, { highWaterMark: bufferSize });
+  const stream = throttle(fs.createReadStream(filePath, { highWaterMark: bufferSize }), getReadLimiter());
   let bytesProcessed = 0;
 
   for await (const chunk of stream) {
@@ -260,7 +270,7 @@ export async function hashSha512(
     totalBytes = stats.size;
   }
 
-  const stream = fs.createReadStream(filePath, { highWaterMark: bufferSize });
+  const stream = throttle(fs.createReadStream(filePath, { highWaterMark: bufferSize }), getReadLimiter());
   let bytesProcessed = 0;
 
   for await (const chunk of stream) {
@@ -292,7 +302,7 @@ export async function hashMd5(
     totalBytes = stats.size;
   }
 
-  const stream = fs.createReadStream(filePath, { highWaterMark: bufferSize });
+  const stream = throttle(fs.createReadStream(filePath, { highWaterMark: bufferSize }), getReadLimiter());
   let bytesProcessed = 0;
 
   for await (const chunk of stream) {
@@ -326,7 +336,7 @@ export async function hashXxhash64(
     totalBytes = stats.size;
   }
 
-  const stream = fs.createReadStream(filePath, { highWaterMark: bufferSize });
+  const stream = throttle(fs.createReadStream(filePath, { highWaterMark: bufferSize }), getReadLimiter());
   let bytesProcessed = 0;
 
   for await (const chunk of stream) {
@@ -341,16 +351,43 @@ export async function hashXxhash64(
   return hasher.digest().toString('hex').toLowerCase();
 }
 
+/**
+ * Calculate a digest (xxh3, xxh128, SHA-1, CRC32, C4) with optional progress callback
+ */
+async function hashDigest(
+  filePath: string,
+  algorithm: DigestAlgorithm,
+  progressOptions?: HashProgressOptions
+): Promise<string> {
+  const digest = createDigest(algorithm);
+  const stream = throttle(fs.createReadStream(filePath, { highWaterMark: getBufferSize(filePath) }), getReadLimiter());
+  let bytesProcessed = 0;
+
+  for await (const chunk of stream) {
+    digest.update(chunk);
+    bytesProcessed += chunk.length;
+
+    if (progressOptions?.onProgress && progressOptions.totalBytes !== undefined) {
+      progressOptions.onProgress(bytesProcessed, progressOptions.totalBytes);
+    }
+  }
+
+  return digest.digest();
+}
+
 /**
  * Options for hashFile with progress support
  */
-export interface HashFileOptions extends HashProgressOptions {
+export interface HashFileOptions extends HashProgressOptions, Blake3KeyOptions {
   /** Algorithm to use (default: blake3) */
   algorithm?: Algorithm;
+  /** Re-read the file even if the hash cache has an entry (verification paths) */
+  fresh?: boolean;
 }
 
 /**
  * Calculate hash using specified algorithm with optional progress callback
+ * Consults the persistent hash cache when it is enabled
  */
 export async function hashFile(
   filePath: string,
@@ -366,23 +403,60 @@ export async function hashFile(
     onProgress: options.onProgress,
     totalBytes: options.totalBytes,
   };
+  const keyOptions: Blake3KeyOptions = { key: options.key, context: options.context };
+  const mode = getBlake3Mode(keyOptions);
+
+  if (mode !== 'plain' && algorithm !== 'blake3' && algorithm !== 'blake3-full') {
+    throw new Error(`Keyed and derive-key modes require blake3, not ${algorithm}`);
+  }
+
+  // Keyed results are cached per key ID and context, never alongside plain digests
+  const cacheAlgorithm = mode === 'plain'
+    ? algorithm
+    : `${algorithm}/${mode}/${keyOptions.key ? computeKeyId(keyOptions.key) : '-'}/${keyOptions.context ?? ''}`;
 
   const startTime = performance.now();
-  const stats = await fsp.stat(filePath);
+
+  // Identity is captured before reading so a file modified mid-hash is
+  // invalidated on the next lookup
+  const cache = getHashCache();
+  let identity: FileIdentity | null = null;
+  let size: number;
+  if (cache) {
+    identity = await getFileIdentity(filePath);
+    size = identity.size;
+  } else {
+    size = (await fsp.stat(filePath)).size;
+  }
+
+  const lookupCache = getHashCacheForLookup(options.fresh);
+  if (lookupCache && identity) {
+    await lookupCache.load();
+    const cached = lookupCache.getByIdentity(identity, cacheAlgorithm);
+    if (cached) {
+      return {
+        path: filePath,
+        hash: cached,
+        algorithm,
+        size,
+        durationMs: performance.now() - startTime
+      };
+    }
+  }
 
   // Pre-populate totalBytes to avoid re-stat in individual hash functions
   if (progressOptions.onProgress && progressOptions.totalBytes === undefined) {
-    progressOptions.totalBytes = stats.size;
+    progressOptions.totalBytes = size;
   }
 
   let hash: string;
 
   switch (algorithm) {
     case 'blake3':
-      hash = await hashBlake3(filePath, { full: false, ...progressOptions });
+      hash = await hashBlake3(filePath, { full: false, ...progressOptions, ...keyOptions });
       break;
     case 'blake3-full':
-      hash = await hashBlake3(filePath, { full: true, ...progressOptions });
+      hash = await hashBlake3(filePath, { full: true, ...progressOptions, ...keyOptions });
       break;
     case 'sha256':
       hash = await hashSha256(filePath, progressOptions);
@@ -396,75 +470,171 @@ export async function hashFile(
     case 'xxhash64':
       hash = await hashXxhash64(filePath, progressOptions);
       break;
+    case 'xxh3':
+    case 'xxh128':
+    case 'sha1':
+    case 'crc32':
+    case 'c4':
+      hash = await hashDigest(filePath, algorithm, progressOptions);
+      break;
     default:
       throw new Error(`Unknown algorithm: ${algorithm}`);
   }
 
+  if (cache && identity) {
+    await cache.set(filePath, cacheAlgorithm, hash, identity);
+  }
+
   const durationMs = performance.now() - startTime;
 
   return {
     path: filePath,
     hash,
     algorithm,
-    size: stats.size,
+    size,
     durationMs
   };
 }
 
 /**
- * Calculate hashes using all algorithms
+ * Every algorithm, in the order hashFileAll reports them
+ */
+const ALL_ALGORITHMS: Algorithm[] = [
+  'blake3', 'blake3-full', 'sha256', 'sha512', 'md5', 'xxhash64', 'xxh3', 'xxh128', 'sha1', 'crc32', 'c4'
+];
+
+/**
+ * Options for stream hashing
  */
-export async function hashFileAll(filePath: string): Promise<{
+export interface HashStreamOptions extends HashProgressOptions, Blake3KeyOptions {}
+
+/**
+ * Result of hashing a stream
+ */
+export interface HashStreamResult {
+  /** Hex digest per requested algorithm */
+  hashes: Partial<Record<Algorithm, string>>;
+  size: number;
+  durationMs: number;
+}
+
+/**
+ * Hash a readable stream (stdin, pipes, sockets) with several algorithms in one pass
+ * totalBytes is optional for progress - without it the callback reports bytes read so far.
+ * Key options apply to BLAKE3 only.
+ */
+export async function hashStream(
+  readable: AsyncIterable<Buffer | string>,
+  algorithms: Algorithm[] = ['blake3'],
+  options: HashStreamOptions = {}
+): Promise<HashStreamResult> {
+  const { onProgress, totalBytes, ...keyOptions } = options;
+  const wanted = [...new Set(algorithms)];
+
+  if (getBlake3Mode(keyOptions) !== 'plain' && wanted.some(a => a !== 'blake3' && a !== 'blake3-full')) {
+    throw new Error('Keyed and derive-key modes are only supported for BLAKE3');
+  }
+
+  const startTime = performance.now();
+
+  // blake3 and blake3-full share one hasher
+  const blake3Hasher = wanted.some(a => a === 'blake3' || a === 'blake3-full')
+    ? createBlake3Hasher(keyOptions)
+    : null;
+  const digests = new Map<DigestAlgorithm, Digest>();
+  for (const algorithm of wanted) {
+    if (algorithm !== 'blake3' && algorithm !== 'blake3-full') {
+      digests.set(algorithm, createDigest(algorithm));
+    }
+  }
+
+  let size = 0;
+  for await (const data of readable) {
+    const chunk = typeof data === 'string' ? Buffer.from(data) : data;
+    blake3Hasher?.update(chunk);
+    digests.forEach(digest => digest.update(chunk));
+    size += chunk.length;
+    onProgress?.(size, totalBytes ?? size);
+  }
+
+  const hashes: Partial<Record<Algorithm, string>> = {};
+  const blake3Full = blake3Hasher?.digest('hex').toLowerCase();
+  for (const algorithm of wanted) {
+    switch (algorithm) {
+      case 'blake3':
+        hashes.blake3 = blake3Full!.slice(0, 16);
+        break;
+      case 'blake3-full':
+        hashes['blake3-full'] = blake3Full;
+        break;
+      default:
+        hashes[algorithm] = digests.get(algorithm)!.digest();
+    }
+  }
+
+  return { hashes, size, durationMs: performance.now() - startTime };
+}
+
+/**
+ * Digests from every algorithm
+ */
+export interface AllHashesResult {
   blake3: string;
   'blake3-full': string;
   sha256: string;
   sha512: string;
   md5: string;
   xxhash64: string;
+  xxh3: string;
+  xxh128: string;
+  sha1: string;
+  crc32: string;
+  c4: string;
   size: number;
   durationMs: number;
-}> {
-  const startTime = performance.now();
-  const stats = await fsp.stat(filePath);
+}
 
+/**
+ * Calculate hashes using all algorithms
+ */
+export async function hashFileAll(filePath: string): Promise<AllHashesResult> {
   // Read file once and compute all hashes
   const bufferSize = getBufferSize(filePath);
-  const blake3Hasher = createBlake3Hash();
-  const sha256Hasher = crypto.createHash('sha256');
-  const sha512Hasher = crypto.createHash('sha512');
-  const md5Hasher = crypto.createHash('md5');
-  const xxhash64Seed = Buffer.alloc(8);
-  const xxhash64Hasher = new XXHash64(xxhash64Seed);
-
-  const stream = fs.createReadStream(filePath, { highWaterMark: bufferSize });
-
-  for await (const chunk of stream) {
-    blake3Hasher.update(chunk);
-    sha256Hasher.update(chunk);
-    sha512Hasher.update(chunk);
-    md5Hasher.update(chunk);
-    xxhash64Hasher.update(chunk);
-  }
+  return hashStreamAll(throttle(fs.createReadStream(filePath, { highWaterMark: bufferSize }), getReadLimiter()));
+}
 
-  const blake3Full = blake3Hasher.digest('hex').toLowerCase();
+/**
+ * Calculate hashes of a stream using all algorithms
+ */
+export async function hashStreamAll(
+  readable: AsyncIterable<Buffer | string>,
+  options: HashProgressOptions = {}
+): Promise<AllHashesResult> {
+  const { hashes, size, durationMs } = await hashStream(readable, ALL_ALGORITHMS, options);
 
   return {
-    blake3: blake3Full.slice(0, 16),
-    'blake3-full': blake3Full,
-    sha256: sha256Hasher.digest('hex').toLowerCase(),
-    sha512: sha512Hasher.digest('hex').toLowerCase(),
-    md5: md5Hasher.digest('hex').toLowerCase(),
-    xxhash64: xxhash64Hasher.digest().toString('hex').toLowerCase(),
-    size: stats.size,
-    durationMs: performance.now() - startTime
+    blake3: hashes.blake3!,
+    'blake3-full': hashes['blake3-full']!,
+    sha256: hashes.sha256!,
+    sha512: hashes.sha512!,
+    md5: hashes.md5!,
+    xxhash64: hashes.xxhash64!,
+    xxh3: hashes.xxh3!,
+    xxh128: hashes.xxh128!,
+    sha1: hashes.sha1!,
+    crc32: hashes.crc32!,
+    c4: hashes.c4!,
+    size,
+    durationMs
   };
 }
 
 /**
  * Calculate BLAKE3 hash from buffer
+ * Pass keyOptions for keyed (MAC) or derive_key mode
  */
-export function hashBuffer(buffer: Buffer, full: boolean = false): string {
-  const hasher = createBlake3Hash();
+export function hashBuffer(buffer: Buffer, full: boolean = false, keyOptions?: Blake3KeyOptions): string {
+  const hasher = createBlake3Hasher(keyOptions);
   hasher.update(buffer);
   const hash = hasher.digest('hex').toLowerCase();
   return full ? hash : hash.slice(0, 16);
@@ -473,42 +643,54 @@ export function hashBuffer(buffer: Buffer, full: boolean = false): string {
 /**
  * Calculate BLAKE3 hash from string
  */
-export function hashString(str: string, full: boolean = false): string {
-  return hashBuffer(Buffer.from(str, 'utf-8'), full);
+export function hashString(str: string, full: boolean = false, keyOptions?: Blake3KeyOptions): string {
+  return hashBuffer(Buffer.from(str, 'utf-8'), full, keyOptions);
+}
+
+/**
+ * Hex digests compare case-insensitively; C4 IDs are base58 and case-sensitive
+ */
+function normalizeDigest(hash: string): string {
+  return hash.startsWith('c4') ? hash : hash.toLowerCase();
 }
 
 /**
  * Verify file against expected hash
+ * Always re-reads the file unless the hash cache is in 'trust' mode
  */
 export async function verifyFile(
   filePath: string,
   expectedHash: string,
-  algorithm?: Algorithm
+  algorithm?: Algorithm,
+  keyOptions?: Blake3KeyOptions
 ): Promise<{ match: boolean; actual: string; algorithm: Algorithm }> {
-  // Auto-detect algorithm from hash length if not specified
+  // Keyed and derive-key digests are always BLAKE3
+  if (!algorithm && getBlake3Mode(keyOptions) !== 'plain') {
+    algorithm = expectedHash.length === 64 ? 'blake3-full' : 'blake3';
+  }
+
+  // Auto-detect algorithm from the digest; same-length candidates are
+  // computed in one read and the one that matches is reported
   if (!algorithm) {
-    switch (expectedHash.length) {
-      case 16:
-        algorithm = 'blake3'; // Could also be xxhash64 - use explicit algorithm if needed
-        break;
-      case 32:
-        algorithm = 'md5';
-        break;
-      case 64:
-        algorithm = 'sha256'; // Could also be blake3-full
-        break;
-      case 128:
-        algorithm = 'sha512';
-        break;
-      default:
-        throw new Error(`Cannot detect algorithm for hash length ${expectedHash.length}`);
+    const candidates = detectAlgorithms(normalizeDigest(expectedHash));
+    if (candidates.length === 0) {
+      throw new Error(`Cannot detect algorithm for hash length ${expectedHash.length}`);
     }
+    if (candidates.length > 1) {
+      const stream = throttle(fs.createReadStream(filePath, { highWaterMark: getBufferSize(filePath) }), getReadLimiter());
+      const { hashes } = await hashStream(stream, candidates);
+      const matched = candidates.find(c => hashes[c] === normalizeDigest(expectedHash));
+      return matched
+        ? { match: true, actual: hashes[matched]!, algorithm: matched }
+        : { match: false, actual: hashes[candidates[0]]!, algorithm: candidates[0] };
+    }
+    algorithm = candidates[0];
   }
 
-  const result = await hashFile(filePath, algorithm);
+  const result = await hashFile(filePath, { algorithm, fresh: true, ...keyOptions });
 
   return {
-    match: result.hash.toLowerCase() === expectedHash.toLowerCase(),
+    match: normalizeDigest(result.hash) === normalizeDigest(expectedHash),
     actual: result.hash,
     algorithm
   };
@@ -611,20 +793,12 @@ export async function hashBatch(
           }
         : undefined;
 
-      let hash: string;
-      if (algorithm === 'blake3' || algorithm === 'blake3-full') {
-        hash = await hashBlake3(filePath, {
-          full: full || algorithm === 'blake3-full',
-          onProgress: fileProgressCallback,
-          totalBytes: fileSize,
-        });
-      } else {
-        hash = await hashFile(filePath, {
-          algorithm,
-          onProgress: fileProgressCallback,
-          totalBytes: fileSize,
-        }).then(r => r.hash);
-      }
+      const effectiveAlgorithm: Algorithm = full && algorithm === 'blake3' ? 'blake3-full' : algorithm;
+      const hash = await hashFile(filePath, {
+        algorithm: effectiveAlgorithm,
+        onProgress: fileProgressCallback,
+        totalBytes: fileSize,
+      }).then(r => r.hash);
 
       results.push({ path: filePath, hash, error: null, size: fileSize });
       bytesProcessed += fileSize;
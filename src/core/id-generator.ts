@@ -5,6 +5,7 @@
 
 import * as crypto from 'node:crypto';
 import { createHash as createBlake3Hash } from 'blake3';
+import { createBlake3Hasher, type Blake3KeyOptions } from './keys.js';
 import { v1 as uuidv1, v4 as uuidv4, v5 as uuidv5 } from 'uuid';
 import { ulid as generateUlid, monotonicFactory } from 'ulid';
 
@@ -42,9 +43,14 @@ export function generateBlake3Ids(count: number, options: { full?: boolean } = {
 
 /**
  * Generate a BLAKE3-based ID from a specific input (deterministic)
+ * With a key and/or context the ID is keyed or derived per context,
+ * so IDs for the same input cannot be correlated across projects
  */
-export function generateBlake3IdFrom(input: string | Buffer, options: { full?: boolean } = {}): string {
-  const hasher = createBlake3Hash();
+export function generateBlake3IdFrom(
+  input: string | Buffer,
+  options: { full?: boolean } & Blake3KeyOptions = {}
+): string {
+  const hasher = createBlake3Hasher(options);
   hasher.update(typeof input === 'string' ? Buffer.from(input, 'utf-8') : input);
   const hash = hasher.digest('hex').toLowerCase();
   return options.full ? hash : hash.slice(0, 16);
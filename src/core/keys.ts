@@ -0,0 +1,185 @@
+/**
+ * BLAKE3 keyed-hash and derive_key support
+ * Key loading, key IDs and hasher construction for MAC and per-context modes
+ */
+
+import * as fs from 'node:fs/promises';
+import { createHash, createKeyed, createDeriveKey, deriveKey } from 'blake3';
+import type { Blake3Mode } from '../schemas/index.js';
+
+/** Environment variable holding a 64-char hex key */
+export const HASH_KEY_ENV = 'WNB_HASH_KEY';
+
+/** Environment variable pointing at a key file */
+export const HASH_KEY_FILE_ENV = 'WNB_HASH_KEY_FILE';
+
+/** BLAKE3 key length in bytes */
+export const BLAKE3_KEY_LENGTH = 32;
+
+// Context for key IDs - fixed so the same key always has the same ID
+const KEY_ID_CONTEXT = 'wake-n-blake 2024-06-01 key id v1';
+
+/**
+ * Key options accepted by BLAKE3 hashing functions
+ */
+export interface Blake3KeyOptions {
+  /** 32-byte secret key for keyed hashing */
+  key?: Buffer;
+  /** derive_key context string (not secret) */
+  context?: string;
+}
+
+/**
+ * Minimal hasher interface shared by all BLAKE3 modes
+ */
+export interface Blake3Hasher {
+  update(data: Buffer | string): unknown;
+  digest(encoding: 'hex'): string;
+}
+
+/**
+ * Parse a key from raw bytes or hex text
+ * Accepts exactly 32 raw bytes, or 64 hex characters (surrounding whitespace ignored)
+ */
+export function parseKey(raw: Buffer | string): Buffer {
+  const buffer = typeof raw === 'string' ? Buffer.from(raw, 'utf-8') : raw;
+
+  if (buffer.length === BLAKE3_KEY_LENGTH) {
+    return Buffer.from(buffer);
+  }
+
+  const text = buffer.toString('utf-8').trim();
+  if (/^[a-fA-F0-9]{64}$/.test(text)) {
+    return Buffer.from(text, 'hex');
+  }
+
+  throw new Error(`Key must be ${BLAKE3_KEY_LENGTH} raw bytes or 64 hex characters`);
+}
+
+/**
+ * Load a key from a key file
+ */
+export async function loadKeyFile(keyFile: string): Promise<Buffer> {
+  return parseKey(await fs.readFile(keyFile));
+}
+
+/**
+ * Resolve the hash key from an explicit key file or the environment
+ * Order: keyFile argument, $WNB_HASH_KEY_FILE, $WNB_HASH_KEY
+ */
+export async function resolveHashKey(keyFile?: string): Promise<Buffer | null> {
+  if (keyFile) {
+    return loadKeyFile(keyFile);
+  }
+
+  const envFile = process.env[HASH_KEY_FILE_ENV];
+  if (envFile) {
+    return loadKeyFile(envFile);
+  }
+
+  const envKey = process.env[HASH_KEY_ENV];
+  if (envKey) {
+    return parseKey(envKey);
+  }
+
+  return null;
+}
+
+/**
+ * Build key options from CLI-style flags
+ * --key-file or --keyed (key from the environment) select keyed mode; a key is then required
+ */
+export async function resolveKeyOptions(flags: {
+  keyed?: boolean;
+  keyFile?: string;
+  context?: string;
+}): Promise<Blake3KeyOptions> {
+  const options: Blake3KeyOptions = {};
+
+  if (flags.keyed || flags.keyFile) {
+    const key = await resolveHashKey(flags.keyFile);
+    if (!key) {
+      throw new Error(`No key found: use --key-file or set ${HASH_KEY_FILE_ENV} / ${HASH_KEY_ENV}`);
+    }
+    options.key = key;
+  }
+
+  if (flags.context) {
+    options.context = flags.context;
+  }
+
+  return options;
+}
+
+/**
+ * Key options for verifying digests recorded with a key ID and/or context
+ * The context is taken as recorded; the key is resolved and checked against the key ID.
+ */
+export async function resolveRecordedKeyOptions(
+  recorded: { keyId?: string; context?: string },
+  keyFile?: string
+): Promise<Blake3KeyOptions> {
+  const options: Blake3KeyOptions = {};
+  if (recorded.context) {
+    options.context = recorded.context;
+  }
+
+  if (recorded.keyId) {
+    const key = await resolveHashKey(keyFile);
+    if (!key) {
+      throw new Error(`Digests are keyed (key ID ${recorded.keyId}): use --key-file or set ${HASH_KEY_FILE_ENV} / ${HASH_KEY_ENV}`);
+    }
+    const keyId = computeKeyId(key);
+    if (keyId !== recorded.keyId) {
+      throw new Error(`Wrong key: digests were created with key ID ${recorded.keyId}, got ${keyId}`);
+    }
+    options.key = key;
+  } else if (keyFile) {
+    throw new Error('Digests are not keyed, --key-file does not apply');
+  }
+
+  return options;
+}
+
+/**
+ * Public identifier for a key (16 hex chars)
+ * Derived one-way from the key, so it can be recorded without revealing the key
+ */
+export function computeKeyId(key: Buffer): string {
+  return deriveKey(KEY_ID_CONTEXT, key).toString('hex').slice(0, 16);
+}
+
+/**
+ * Determine the BLAKE3 mode for a set of key options
+ * - 'plain': regular hash
+ * - 'keyed': keyed hash (MAC) with a 32-byte secret key
+ * - 'derive-key': derive_key with a context string; combined with a key,
+ *   the key is first derived into a per-context subkey
+ */
+export function getBlake3Mode(options: Blake3KeyOptions = {}): Blake3Mode {
+  if (options.context) return 'derive-key';
+  if (options.key) return 'keyed';
+  return 'plain';
+}
+
+/**
+ * Create a streaming BLAKE3 hasher for the given mode
+ */
+export function createBlake3Hasher(options: Blake3KeyOptions = {}): Blake3Hasher {
+  const { key, context } = options;
+
+  if (key && key.length !== BLAKE3_KEY_LENGTH) {
+    throw new Error(`Key must be ${BLAKE3_KEY_LENGTH} bytes`);
+  }
+
+  if (key && context) {
+    return createKeyed(deriveKey(context, key));
+  }
+  if (key) {
+    return createKeyed(key);
+  }
+  if (context) {
+    return createDeriveKey(context);
+  }
+  return createHash();
+}
@@ -0,0 +1,225 @@
+/**
+ * Streaming (NDJSON) manifests
+ * A header line, one entry per line in path order, then a summary line, so
+ * manifests of millions of files are written, checked and compared without
+ * holding them in memory. Entries are ordered segment by segment
+ * (compareManifestPaths), the order a sorted directory walk produces, which lets
+ * two manifests or a manifest and a tree be compared by a sorted merge.
+ */
+
+import * as fs from 'node:fs';
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import { createInterface } from 'node:readline';
+import type { AnyManifest, AnyManifestEntry, ManifestHeader } from './manifest.js';
+
+/** Value of the header's "format" field */
+export const NDJSON_FORMAT = 'ndjson';
+
+// Longest header line looked at when detecting the format
+const HEADER_PEEK_BYTES = 64 * 1024;
+
+/**
+ * Totals on the last line; a manifest without one was not written completely
+ */
+export interface ManifestStreamSummary {
+  fileCount: number;
+  totalBytes: number;
+}
+
+/**
+ * A manifest read entry by entry
+ * manifest is set when the whole manifest was loaded (JSON); streamed manifests
+ * only ever hold one entry.
+ */
+export interface ManifestSource {
+  header: ManifestHeader;
+  /** Entries in compareManifestPaths order */
+  entries: AsyncIterable<AnyManifestEntry>;
+  manifest?: AnyManifest;
+}
+
+/**
+ * Order of manifest paths: segment by segment, by UTF-16 code units
+ * ("a/b" sorts before "a.b", as a directory walk visits them)
+ */
+export function compareManifestPaths(a: string, b: string): number {
+  const left = a.split(/[\\/]/);
+  const right = b.split(/[\\/]/);
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] !== right[i]) return left[i] < right[i] ? -1 : 1;
+  }
+  return left.length - right.length;
+}
+
+function parseHeader(line: string, manifestPath: string): ManifestHeader {
+  const { format, ...header } = JSON.parse(line) as { format?: unknown; version?: unknown };
+  if (format !== NDJSON_FORMAT) {
+    throw new Error(`${manifestPath} is not an NDJSON manifest`);
+  }
+  if (header.version !== '1.0' && header.version !== '2.0') {
+    throw new Error(`Unsupported manifest version ${String(header.version)} in ${manifestPath}`);
+  }
+  return header as ManifestHeader;
+}
+
+/**
+ * Whether a file is an NDJSON manifest (its first line is a header)
+ */
+export async function isStreamedManifest(manifestPath: string): Promise<boolean> {
+  const handle = await fsp.open(manifestPath, 'r');
+  try {
+    const buffer = Buffer.alloc(HEADER_PEEK_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    const text = buffer.subarray(0, bytesRead).toString('utf-8');
+    const end = text.indexOf('\n');
+    if (end < 0) return false;
+    try {
+      return (JSON.parse(text.slice(0, end)) as { format?: unknown }).format === NDJSON_FORMAT;
+    } catch {
+      return false;
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Open an NDJSON manifest: the header now, the entries as they are read
+ * The entries fail if they are out of order or the summary line is missing or wrong.
+ */
+export async function readManifestStream(manifestPath: string): Promise<ManifestSource> {
+  const lines = createInterface({ input: fs.createReadStream(manifestPath), crlfDelay: Infinity })[Symbol.asyncIterator]();
+  const first = await lines.next();
+  if (first.done) {
+    throw new Error(`${manifestPath} is empty`);
+  }
+  const header = parseHeader(first.value, manifestPath);
+
+  async function* entries(): AsyncGenerator<AnyManifestEntry> {
+    let previous: string | undefined;
+    let fileCount = 0;
+    let totalBytes = 0;
+    let summary: ManifestStreamSummary | undefined;
+
+    for (let line = await lines.next(); !line.done; line = await lines.next()) {
+      if (line.value.trim() === '') continue;
+      if (summary) {
+        throw new Error(`${manifestPath} has entries after its summary line`);
+      }
+
+      const record = JSON.parse(line.value) as AnyManifestEntry | ManifestStreamSummary;
+      if (!('path' in record)) {
+        summary = record;
+        continue;
+      }
+      if (previous !== undefined && compareManifestPaths(previous, record.path) >= 0) {
+        throw new Error(`${manifestPath} is not in path order at ${record.path}`);
+      }
+      previous = record.path;
+      fileCount++;
+      totalBytes += record.size;
+      yield record;
+    }
+
+    if (!summary) {
+      throw new Error(`${manifestPath} is truncated (no summary line)`);
+    }
+    if (summary.fileCount !== fileCount || summary.totalBytes !== totalBytes) {
+      throw new Error(`${manifestPath} summary does not match its entries`);
+    }
+  }
+
+  return { header, entries: entries() };
+}
+
+/**
+ * Read a whole NDJSON manifest into memory
+ */
+export async function loadStreamedManifest(manifestPath: string): Promise<AnyManifest> {
+  const { header, entries } = await readManifestStream(manifestPath);
+  const files: AnyManifestEntry[] = [];
+  let totalBytes = 0;
+  for await (const entry of entries) {
+    files.push(entry);
+    totalBytes += entry.size;
+  }
+  return { ...header, fileCount: files.length, totalBytes, files } as AnyManifest;
+}
+
+/**
+ * Writes an NDJSON manifest entry by entry
+ * Lines go to a temp file that replaces the manifest on close, so readers never
+ * see a partial manifest; abort() removes it.
+ */
+export class ManifestStreamWriter {
+  private readonly stream: fs.WriteStream;
+  private previous: string | undefined;
+  private fileCount = 0;
+  private totalBytes = 0;
+  // Open and write errors arrive asynchronously; they fail the next write or close
+  private error: Error | undefined;
+
+  private constructor(readonly manifestPath: string, readonly tempPath: string) {
+    this.stream = fs.createWriteStream(tempPath);
+    this.stream.on('error', (err) => {
+      this.error ??= err;
+    });
+  }
+
+  /**
+   * Start a manifest with its header line
+   */
+  static async open(manifestPath: string, header: ManifestHeader): Promise<ManifestStreamWriter> {
+    await fsp.mkdir(path.dirname(manifestPath), { recursive: true });
+    const writer = new ManifestStreamWriter(manifestPath, `${manifestPath}.${process.pid}.tmp`);
+    await writer.writeLine({ format: NDJSON_FORMAT, ...header });
+    return writer;
+  }
+
+  /**
+   * Append an entry; entries must come in compareManifestPaths order
+   */
+  async write(entry: AnyManifestEntry): Promise<void> {
+    if (this.previous !== undefined && compareManifestPaths(this.previous, entry.path) >= 0) {
+      throw new Error(`Manifest entries out of order: ${entry.path} after ${this.previous}`);
+    }
+    this.previous = entry.path;
+    this.fileCount++;
+    this.totalBytes += entry.size;
+    await this.writeLine(entry);
+  }
+
+  /**
+   * Write the summary line and put the manifest in place
+   */
+  async close(): Promise<ManifestStreamSummary> {
+    const summary: ManifestStreamSummary = { fileCount: this.fileCount, totalBytes: this.totalBytes };
+    await this.writeLine(summary);
+    await new Promise<void>((resolve, reject) => {
+      this.stream.once('error', reject);
+      this.stream.end(resolve);
+    });
+    if (this.error) throw this.error;
+    await fsp.rename(this.tempPath, this.manifestPath);
+    return summary;
+  }
+
+  /**
+   * Discard the partial manifest
+   */
+  async abort(): Promise<void> {
+    this.stream.destroy();
+    await fsp.rm(this.tempPath, { force: true });
+  }
+
+  private async writeLine(record: object): Promise<void> {
+    if (this.error) throw this.error;
+    if (!this.stream.write(JSON.stringify(record) + '\n')) {
+      await new Promise<void>((resolve, reject) => {
+        this.stream.once('drain', resolve);
+        this.stream.once('error', reject);
+      });
+    }
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * Wake-n-Blake Manifests
+ * Reading, hashing and upgrading v1 (BLAKE3-16) and v2 (multi-algorithm) manifests
+ */
+
+import * as fs from 'node:fs';
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import { hashFile, hashStream } from './hasher.js';
+import { throttle, getReadLimiter } from './throttle.js';
+import type { Blake3KeyOptions } from './keys.js';
+import { getBufferSize } from '../utils/network.js';
+import {
+  isStreamedManifest,
+  readManifestStream,
+  loadStreamedManifest,
+  compareManifestPaths,
+  type ManifestSource
+} from './manifest-stream.js';
+import type {
+  Algorithm,
+  Blake3Mode,
+  Manifest,
+  ManifestEntry,
+  ManifestV2,
+  ManifestV2Entry,
+  ManifestAlgorithm,
+  ManifestHistoryEvent
+} from '../schemas/index.js';
+
+export type AnyManifest = Manifest | ManifestV2;
+export type AnyManifestEntry = ManifestEntry | ManifestV2Entry;
+
+/**
+ * A manifest without its entries and totals (what an NDJSON header line holds)
+ */
+export type ManifestHeader =
+  | Omit<Manifest, 'files' | 'fileCount' | 'totalBytes'>
+  | Omit<ManifestV2, 'files' | 'fileCount' | 'totalBytes'>;
+
+export const MANIFEST_ALGORITHMS: readonly ManifestAlgorithm[] = [
+  'blake3', 'sha256', 'sha512', 'md5', 'xxhash64', 'xxh3', 'xxh128', 'sha1', 'crc32', 'c4'
+];
+
+/** v2 BLAKE3 length when none is given: the full 256-bit digest */
+export const DEFAULT_V2_HASH_LENGTH = 64;
+
+/**
+ * Digests of one file, as recorded in a manifest entry
+ */
+export type ManifestHashes = Partial<Record<ManifestAlgorithm, string>>;
+
+/**
+ * Read a manifest of either version (JSON, or NDJSON loaded whole)
+ */
+export async function loadManifest(manifestPath: string): Promise<AnyManifest> {
+  if (await isStreamedManifest(manifestPath)) {
+    return loadStreamedManifest(manifestPath);
+  }
+
+  const manifest = JSON.parse(await fsp.readFile(manifestPath, 'utf-8')) as { version?: unknown };
+  if (manifest.version !== '1.0' && manifest.version !== '2.0') {
+    throw new Error(`Unsupported manifest version ${String(manifest.version)} in ${manifestPath}`);
+  }
+  return manifest as AnyManifest;
+}
+
+/**
+ * A manifest of either format as a source of entries in path order
+ * NDJSON manifests are streamed; JSON manifests are loaded and sorted.
+ */
+export async function openManifestSource(manifestPath: string): Promise<ManifestSource> {
+  if (await isStreamedManifest(manifestPath)) {
+    return readManifestStream(manifestPath);
+  }
+
+  const manifest = await loadManifest(manifestPath);
+  const { files, ...header } = manifest;
+  const sorted = [...(files as AnyManifestEntry[])].sort((a, b) => compareManifestPaths(a.path, b.path));
+  return {
+    header,
+    entries: (async function* () { yield* sorted; })(),
+    manifest
+  };
+}
+
+/**
+ * Write a manifest via a temp file and rename, so readers never see a partial file
+ */
+export async function writeManifest(manifestPath: string, manifest: AnyManifest): Promise<void> {
+  const tempPath = `${manifestPath}.${process.pid}.tmp`;
+  await fsp.mkdir(path.dirname(manifestPath), { recursive: true });
+  await fsp.writeFile(tempPath, JSON.stringify(manifest, null, 2));
+  await fsp.rename(tempPath, manifestPath);
+}
+
+export function isManifestV2<T extends ManifestHeader>(manifest: T): manifest is Extract<T, { version: '2.0' }> {
+  return manifest.version === '2.0';
+}
+
+/**
+ * Algorithms recorded in a manifest, primary first
+ */
+export function manifestAlgorithms(manifest: ManifestHeader): ManifestAlgorithm[] {
+  return isManifestV2(manifest) ? manifest.algorithms : ['blake3'];
+}
+
+/**
+ * BLAKE3 digest length in hex characters
+ */
+export function manifestHashLength(manifest: ManifestHeader): number {
+  return manifest.hashLength;
+}
+
+/**
+ * Recorded digests of an entry, keyed by algorithm
+ */
+export function entryHashes(entry: AnyManifestEntry): ManifestHashes {
+  return 'hashes' in entry ? entry.hashes : { blake3: entry.hash };
+}
+
+/**
+ * Digest of the manifest's primary algorithm (used for duplicates and reports)
+ */
+export function primaryHash(manifest: ManifestHeader, entry: AnyManifestEntry): string {
+  return entryHashes(entry)[manifestAlgorithms(manifest)[0]] ?? '';
+}
+
+/**
+ * Parse an --algorithms list ("blake3-full,sha256,md5")
+ * blake3-full selects BLAKE3 at full length; the first algorithm is the primary.
+ */
+export function parseManifestAlgorithms(value: string): { algorithms: ManifestAlgorithm[]; hashLength?: number } {
+  const names = value.split(',').map(a => a.trim().toLowerCase()).filter(Boolean);
+  if (names.length === 0) {
+    throw new Error('No algorithms given');
+  }
+
+  const algorithms: ManifestAlgorithm[] = [];
+  let hashLength: number | undefined;
+  for (const name of names) {
+    const algorithm = name === 'blake3-full' ? 'blake3' : name;
+    if (!(MANIFEST_ALGORITHMS as readonly string[]).includes(algorithm)) {
+      throw new Error(`Invalid manifest algorithm: ${name} (expected blake3, blake3-full, ${MANIFEST_ALGORITHMS.slice(1).join(', ')})`);
+    }
+    if (name === 'blake3-full') hashLength = DEFAULT_V2_HASH_LENGTH;
+    if (!algorithms.includes(algorithm as ManifestAlgorithm)) {
+      algorithms.push(algorithm as ManifestAlgorithm);
+    }
+  }
+
+  return { algorithms, ...(hashLength !== undefined && { hashLength }) };
+}
+
+/**
+ * Validate a BLAKE3 digest length in hex characters (16-64, even)
+ */
+export function validateHashLength(hashLength: number): void {
+  if (!Number.isInteger(hashLength) || hashLength < 16 || hashLength > 64 || hashLength % 2 !== 0) {
+    throw new Error(`Invalid hash length: ${hashLength} (expected an even number of hex characters, 16-64)`);
+  }
+}
+
+/**
+ * Keyed and derive-key digests exist for BLAKE3 only
+ */
+export function validateKeyedAlgorithms(algorithms: ManifestAlgorithm[], hashMode: Blake3Mode = 'plain'): void {
+  if (hashMode !== 'plain' && algorithms.some(a => a !== 'blake3')) {
+    throw new Error(`${hashMode === 'keyed' ? 'Keyed' : 'Derive-key'} manifests can only record blake3`);
+  }
+}
+
+/**
+ * Hash a file with every given algorithm in one read
+ * BLAKE3 is truncated to hashLength; key options apply to BLAKE3 only.
+ * fresh bypasses the hash cache (verification paths).
+ */
+export async function hashForManifest(
+  filePath: string,
+  algorithms: ManifestAlgorithm[],
+  hashLength: number,
+  keyOptions: Blake3KeyOptions = {},
+  fresh: boolean = false
+): Promise<{ hashes: ManifestHashes; size: number }> {
+  // BLAKE3 alone goes through hashFile for native b3sum and the hash cache
+  if (algorithms.length === 1 && algorithms[0] === 'blake3') {
+    const result = await hashFile(filePath, { algorithm: hashLength === 16 ? 'blake3' : 'blake3-full', fresh, ...keyOptions });
+    return { hashes: { blake3: result.hash.slice(0, hashLength) }, size: result.size };
+  }
+
+  const streamAlgorithms: Algorithm[] = algorithms.map(a => a === 'blake3' ? 'blake3-full' : a);
+  const stream = throttle(fs.createReadStream(filePath, { highWaterMark: getBufferSize(filePath) }), getReadLimiter());
+  const result = await hashStream(stream, streamAlgorithms, keyOptions);
+
+  const hashes: ManifestHashes = {};
+  for (const algorithm of algorithms) {
+    hashes[algorithm] = algorithm === 'blake3'
+      ? result.hashes['blake3-full']!.slice(0, hashLength)
+      : result.hashes[algorithm];
+  }
+  return { hashes, size: result.size };
+}
+
+/**
+ * Algorithms whose recorded digest differs from the actual one
+ */
+export function findHashMismatches(expected: ManifestHashes, actual: ManifestHashes): ManifestAlgorithm[] {
+  return MANIFEST_ALGORITHMS.filter(a => expected[a] !== undefined && expected[a] !== actual[a]);
+}
+
+/**
+ * Number entries that share an inode (key "dev:ino") with another entry
+ * Groups are numbered from 1 in entry order; single links get no group.
+ */
+export function assignHardlinkGroups(entries: ManifestV2Entry[], inodes: Map<string, string>): void {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    const inode = inodes.get(entry.path);
+    if (inode) counts.set(inode, (counts.get(inode) ?? 0) + 1);
+  }
+
+  const groups = new Map<string, number>();
+  for (const entry of entries) {
+    const inode = inodes.get(entry.path);
+    if (!inode || counts.get(inode)! < 2) continue;
+    if (!groups.has(inode)) groups.set(inode, groups.size + 1);
+    entry.hardlinkGroup = groups.get(inode);
+  }
+}
+
+/**
+ * Whether a file still has the size and mtime recorded for its entry
+ * Entries without an mtime never match, so they are always re-hashed.
+ */
+export function entryMatchesStats(entry: AnyManifestEntry, stats: { size: number; mtime: Date }): boolean {
+  return entry.size === stats.size && entry.mtime !== undefined && entry.mtime === stats.mtime.toISOString();
+}
+
+/**
+ * History event for an entry that was modified or removed, keeping what it recorded
+ */
+export function manifestHistoryEvent(
+  entry: AnyManifestEntry,
+  change: ManifestHistoryEvent['change'],
+  recorded: string = new Date().toISOString()
+): ManifestHistoryEvent {
+  return {
+    path: entry.path,
+    change,
+    recorded,
+    size: entry.size,
+    ...(entry.mtime && { mtime: entry.mtime }),
+    hashes: entryHashes(entry)
+  };
+}
+
+/**
+ * Number of entries to re-verify: a count ("50") or a percentage ("5%") of total
+ * A non-zero percentage always selects at least one entry.
+ */
+export function parseSampleSize(spec: string, total: number): number {
+  const match = /^(\d+(?:\.\d+)?)(%?)$/.exec(spec.trim());
+  if (!match) {
+    throw new Error(`Invalid sample size: ${spec} (expected a count or a percentage, e.g. 50 or 5%)`);
+  }
+  const value = parseFloat(match[1]);
+  if (match[2]) {
+    if (value > 100) throw new Error(`Invalid sample size: ${spec} (more than 100%)`);
+    return value === 0 ? 0 : Math.max(1, Math.round(total * value / 100));
+  }
+  if (!Number.isInteger(value)) {
+    throw new Error(`Invalid sample size: ${spec} (a count must be a whole number)`);
+  }
+  return Math.min(value, total);
+}
+
+/**
+ * Entries to re-verify: never-verified and least recently verified first, ties in random order
+ */
+export function selectVerificationSample<T extends AnyManifestEntry>(entries: T[], count: number): T[] {
+  const lastVerified = (entry: AnyManifestEntry): string => ('lastVerified' in entry && entry.lastVerified) || '';
+  return entries
+    .map(entry => ({ entry, order: Math.random() }))
+    .sort((a, b) => lastVerified(a.entry).localeCompare(lastVerified(b.entry)) || a.order - b.order)
+    .slice(0, count)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Algorithm and BLAKE3 length two manifests can be compared on
+ * The first algorithm of `a` that `b` also records wins; BLAKE3 digests of
+ * different lengths compare on the shorter prefix.
+ */
+export function findCommonAlgorithm(a: ManifestHeader, b: ManifestHeader): { algorithm: ManifestAlgorithm; hashLength?: number } {
+  if ((a.hashMode ?? 'plain') !== (b.hashMode ?? 'plain') || a.keyId !== b.keyId || a.context !== b.context) {
+    throw new Error('Manifests were created with different keys or contexts');
+  }
+
+  const other = manifestAlgorithms(b);
+  const algorithm = manifestAlgorithms(a).find(alg => other.includes(alg));
+  if (!algorithm) {
+    throw new Error(`Manifests have no algorithm in common (${manifestAlgorithms(a).join(', ')} vs ${other.join(', ')})`);
+  }
+
+  return algorithm === 'blake3'
+    ? { algorithm, hashLength: Math.min(manifestHashLength(a), manifestHashLength(b)) }
+    : { algorithm };
+}
+
+/**
+ * Options for upgrading a v1 manifest
+ */
+export interface UpgradeManifestOptions extends Blake3KeyOptions {
+  /** Algorithms for the v2 manifest (default: blake3 only, no re-hash) */
+  algorithms?: ManifestAlgorithm[];
+  /** BLAKE3 length in hex characters (default: 16, no re-hash) */
+  hashLength?: number;
+  /** Directory holding the files (default: the manifest root) */
+  dir?: string;
+  /** Called before each file is re-hashed */
+  onProgress?: (current: number, total: number, relativePath: string) => void;
+}
+
+/**
+ * Result of upgrading a v1 manifest
+ */
+export interface UpgradeManifestResult {
+  manifest: ManifestV2;
+  /** Whether files were read (new algorithms or a longer BLAKE3) */
+  rehashed: boolean;
+  /** Entries that could not be carried over; the manifest is incomplete if any */
+  failed: Array<{ path: string; error: string }>;
+}
+
+/**
+ * Convert a v1 manifest to v2
+ * With only BLAKE3 at 16 characters the digests carry over unchanged. Anything
+ * else re-reads each file and keeps the new digests only if its BLAKE3 still
+ * matches the v1 digest, so an upgrade never blesses corrupted content.
+ */
+export async function upgradeManifest(
+  manifest: Manifest,
+  options: UpgradeManifestOptions = {}
+): Promise<UpgradeManifestResult> {
+  const { algorithms = ['blake3'], hashLength = 16, dir = manifest.root, onProgress, ...keyOptions } = options;
+  validateHashLength(hashLength);
+  validateKeyedAlgorithms(algorithms, manifest.hashMode);
+
+  const upgraded: ManifestV2 = {
+    version: '2.0',
+    generated: new Date().toISOString(),
+    algorithms,
+    hashLength,
+    root: manifest.root,
+    fileCount: manifest.fileCount,
+    totalBytes: manifest.totalBytes,
+    ...(manifest.hashMode && { hashMode: manifest.hashMode, keyId: manifest.keyId, context: manifest.context }),
+    ...(manifest.history && { history: manifest.history }),
+    files: []
+  };
+
+  const rehashed = hashLength !== 16 || algorithms.length !== 1 || algorithms[0] !== 'blake3';
+  if (!rehashed) {
+    upgraded.files = manifest.files.map(entry => toV2Entry(entry, { blake3: entry.hash }));
+    return { manifest: upgraded, rehashed, failed: [] };
+  }
+
+  // BLAKE3 is always computed so the v1 digest can be checked
+  const hashAlgorithms: ManifestAlgorithm[] = algorithms.includes('blake3') ? algorithms : ['blake3', ...algorithms];
+  const inodes = new Map<string, string>();
+  const failed: UpgradeManifestResult['failed'] = [];
+
+  for (let i = 0; i < manifest.files.length; i++) {
+    const entry = manifest.files[i];
+    onProgress?.(i + 1, manifest.files.length, entry.path);
+    const fullPath = path.join(dir, entry.path);
+
+    try {
+      const stats = await fsp.stat(fullPath);
+      const { hashes } = await hashForManifest(fullPath, hashAlgorithms, Math.max(hashLength, 16), keyOptions, true);
+      if (hashes.blake3!.slice(0, 16) !== entry.hash) {
+        failed.push({ path: entry.path, error: 'content no longer matches the manifest' });
+        continue;
+      }
+
+      const kept: ManifestHashes = {};
+      for (const algorithm of algorithms) {
+        kept[algorithm] = algorithm === 'blake3' ? hashes.blake3!.slice(0, hashLength) : hashes[algorithm];
+      }
+      upgraded.files.push({
+        ...toV2Entry(entry, kept),
+        mode: stats.mode & 0o7777,
+        lastVerified: new Date().toISOString()
+      });
+      if (stats.nlink > 1) inodes.set(entry.path, `${stats.dev}:${stats.ino}`);
+    } catch (err) {
+      const errObj = err as NodeJS.ErrnoException;
+      failed.push({ path: entry.path, error: errObj.code === 'ENOENT' ? 'missing' : errObj.message ?? String(err) });
+    }
+  }
+
+  assignHardlinkGroups(upgraded.files, inodes);
+  return { manifest: upgraded, rehashed, failed };
+}
+
+function toV2Entry(entry: ManifestEntry, hashes: ManifestHashes): ManifestV2Entry {
+  return {
+    path: entry.path,
+    size: entry.size,
+    ...(entry.mtime && { mtime: entry.mtime }),
+    hashes,
+    ...(entry.chunks && { chunks: entry.chunks }),
+    ...(entry.metadata && { metadata: entry.metadata })
+  };
+}
@@ -0,0 +1,238 @@
+/**
+ * Merkle trees over manifests
+ * A deterministic BLAKE3 tree that mirrors the directory layout: each directory's
+ * root covers its files and subdirectories, so one published root commits to the
+ * whole archive and any file can be proven without the rest of the manifest.
+ *
+ * Node encodings (domain-separated so no node can pose as another kind):
+ *   leaf       BLAKE3(0x00 || path \0 size \0 alg=hex \0 ...)   algorithms sorted
+ *   pair       BLAKE3(0x01 || left || right)
+ *   directory  BLAKE3(0x02 || dir path || 0x00 || children root)
+ *   empty      BLAKE3(0x03)
+ * Children are sorted by name (code-unit order); an odd node is promoted unpaired.
+ */
+
+import { createHash } from 'blake3';
+import { entryHashes, type AnyManifest, type AnyManifestEntry, type ManifestHashes } from './manifest.js';
+import type { MerkleTree, MerkleProof, MerkleProofStep } from '../schemas/index.js';
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const PAIR_PREFIX = Buffer.from([0x01]);
+const DIRECTORY_PREFIX = Buffer.from([0x02]);
+const EMPTY_PREFIX = Buffer.from([0x03]);
+
+interface TreeChild {
+  name: string;
+  hash: Buffer;
+}
+
+/**
+ * Children and roots of every directory, built bottom-up
+ */
+interface DirectoryTree {
+  children: Map<string, TreeChild[]>;
+  roots: Map<string, Buffer>;
+}
+
+function blake3(...parts: Buffer[]): Buffer {
+  const hasher = createHash();
+  for (const part of parts) hasher.update(part);
+  return hasher.digest();
+}
+
+function splitPath(entryPath: string): string[] {
+  return entryPath.split(/[\\/]/).filter(Boolean);
+}
+
+// Compare by UTF-16 code units, not locale, so every machine builds the same tree
+function byName(a: TreeChild, b: TreeChild): number {
+  return a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+}
+
+/**
+ * Leaf hash of an entry: its path, size and every recorded digest
+ */
+export function merkleLeafHash(entryPath: string, size: number, hashes: ManifestHashes): Buffer {
+  const fields = Object.keys(hashes).sort().map(algorithm => `${algorithm}=${hashes[algorithm as keyof ManifestHashes]}`);
+  return blake3(LEAF_PREFIX, Buffer.from([splitPath(entryPath).join('/'), String(size), ...fields].join('\0')));
+}
+
+function directoryHash(dir: string, childrenRoot: Buffer): Buffer {
+  return blake3(DIRECTORY_PREFIX, Buffer.from(dir), Buffer.from([0x00]), childrenRoot);
+}
+
+/**
+ * Root over an ordered list of nodes, pairing level by level
+ */
+function pairRoot(nodes: Buffer[]): Buffer {
+  if (nodes.length === 0) return blake3(EMPTY_PREFIX);
+
+  let level = nodes;
+  while (level.length > 1) {
+    const next: Buffer[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? blake3(PAIR_PREFIX, level[i], level[i + 1]) : level[i]);
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+/**
+ * Sibling hashes from the node at index up to the root of the list
+ */
+function pairPath(nodes: Buffer[], index: number): MerkleProofStep[] {
+  const steps: MerkleProofStep[] = [];
+  let level = nodes;
+  let position = index;
+
+  while (level.length > 1) {
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+    if (sibling < level.length) {
+      steps.push({ side: sibling < position ? 'left' : 'right', hash: level[sibling].toString('hex') });
+    }
+
+    const next: Buffer[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? blake3(PAIR_PREFIX, level[i], level[i + 1]) : level[i]);
+    }
+    level = next;
+    position = Math.floor(position / 2);
+  }
+  return steps;
+}
+
+/**
+ * Ancestor directories of a path, deepest first, ending with '' (the top)
+ */
+function ancestors(entryPath: string): string[] {
+  const parts = splitPath(entryPath);
+  const dirs: string[] = [];
+  for (let depth = parts.length - 1; depth >= 0; depth--) {
+    dirs.push(parts.slice(0, depth).join('/'));
+  }
+  return dirs;
+}
+
+function buildDirectoryTree(entries: AnyManifestEntry[]): DirectoryTree {
+  const children = new Map<string, TreeChild[]>([['', []]]);
+
+  for (const entry of entries) {
+    const parts = splitPath(entry.path);
+    const dirs = ancestors(entry.path);
+    for (const dir of dirs) {
+      if (!children.has(dir)) children.set(dir, []);
+    }
+    children.get(dirs[0])!.push({ name: parts[parts.length - 1], hash: merkleLeafHash(entry.path, entry.size, entryHashes(entry)) });
+  }
+
+  // Deepest directories first, so subdirectory roots exist before their parents need them
+  const roots = new Map<string, Buffer>();
+  const dirs = [...children.keys()].sort((a, b) => splitPath(b).length - splitPath(a).length);
+  for (const dir of dirs) {
+    const list = children.get(dir)!;
+    list.sort(byName);
+    const root = directoryHash(dir, pairRoot(list.map(child => child.hash)));
+    roots.set(dir, root);
+
+    if (dir !== '') {
+      const parts = splitPath(dir);
+      children.get(parts.slice(0, -1).join('/'))!.push({ name: parts[parts.length - 1], hash: root });
+    }
+  }
+
+  return { children, roots };
+}
+
+/**
+ * Merkle tree of a manifest's entries (the value stored as manifest.merkle)
+ */
+export function computeMerkleTree(entries: AnyManifestEntry[]): MerkleTree {
+  const { roots } = buildDirectoryTree(entries);
+  const directories: Record<string, string> = {};
+  for (const dir of [...roots.keys()].filter(Boolean).sort()) {
+    directories[dir] = roots.get(dir)!.toString('hex');
+  }
+  return { algorithm: 'blake3', root: roots.get('')!.toString('hex'), directories };
+}
+
+/**
+ * Inclusion proof for one manifest entry
+ * Fails if the manifest's stored root does not match its entries.
+ */
+export function createMerkleProof(manifest: AnyManifest, entryPath: string): MerkleProof {
+  const entries: AnyManifestEntry[] = manifest.files;
+  const normalized = splitPath(entryPath).join('/');
+  const entry = entries.find(e => splitPath(e.path).join('/') === normalized);
+  if (!entry) {
+    throw new Error(`${entryPath} is not in the manifest`);
+  }
+
+  const { children, roots } = buildDirectoryTree(entries);
+  const root = roots.get('')!.toString('hex');
+  if (manifest.merkle && manifest.merkle.root !== root) {
+    throw new Error('Manifest Merkle root does not match its entries (manifest edited?)');
+  }
+
+  const parts = splitPath(entry.path);
+  const levels: MerkleProofStep[][] = [];
+  let name = parts[parts.length - 1];
+  for (const dir of ancestors(entry.path)) {
+    const list = children.get(dir)!;
+    levels.push(pairPath(list.map(child => child.hash), list.findIndex(child => child.name === name)));
+    name = splitPath(dir).pop() ?? '';
+  }
+
+  return {
+    version: '1',
+    algorithm: 'blake3',
+    root,
+    entry: { path: normalized, size: entry.size, hashes: entryHashes(entry) },
+    levels
+  };
+}
+
+/**
+ * Root an inclusion proof leads to
+ */
+export function merkleProofRoot(proof: MerkleProof): string {
+  const dirs = ancestors(proof.entry.path);
+  if (proof.levels.length !== dirs.length) {
+    throw new Error(`Proof has ${proof.levels.length} levels, path ${proof.entry.path} needs ${dirs.length}`);
+  }
+
+  let node = merkleLeafHash(proof.entry.path, proof.entry.size, proof.entry.hashes);
+  proof.levels.forEach((steps, i) => {
+    for (const step of steps) {
+      const sibling = Buffer.from(step.hash, 'hex');
+      node = step.side === 'left' ? blake3(PAIR_PREFIX, sibling, node) : blake3(PAIR_PREFIX, node, sibling);
+    }
+    node = directoryHash(dirs[i], node);
+  });
+  return node.toString('hex');
+}
+
+/**
+ * Whether a proof shows its entry belongs to the archive with this root
+ */
+export function verifyMerkleProof(proof: MerkleProof, root: string): boolean {
+  try {
+    return merkleProofRoot(proof) === root.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Top-most directories whose subtree roots are equal in both trees
+ * Everything below them is identical and can be skipped when diffing.
+ */
+export function identicalSubtrees(a: MerkleTree, b: MerkleTree): string[] {
+  if (a.root === b.root) return [''];
+
+  const same = Object.keys(a.directories)
+    .filter(dir => b.directories[dir] === a.directories[dir])
+    .sort();
+  // Drop directories already covered by an identical ancestor
+  return same.filter(dir => !same.some(other => dir.startsWith(other + '/')));
+}
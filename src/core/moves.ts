@@ -0,0 +1,140 @@
+/**
+ * Move and rename detection
+ * Matches removed and added paths by content hash, so a reorganized tree reads
+ * as moves, renames and copies instead of deletions plus additions.
+ */
+
+import * as path from 'node:path';
+import type { FileMove, DirectoryMove } from '../schemas/index.js';
+
+/**
+ * A path with the digest and size of its content
+ */
+export interface HashedPath {
+  path: string;
+  hash: string;
+  size: number;
+}
+
+export interface MoveDetection {
+  /** Same content under another directory */
+  moved: FileMove[];
+  /** Same content under another name in the same directory */
+  renamed: FileMove[];
+  /** Same content at an additional path; the source still exists or moved too */
+  copied: FileMove[];
+  /** Directories whose files moved together (two or more files) */
+  movedDirectories: DirectoryMove[];
+  /** Removed paths no move explains */
+  removed: string[];
+  /** Added paths no move or copy explains */
+  added: string[];
+}
+
+function groupByHash(items: HashedPath[]): Map<string, HashedPath[]> {
+  const groups = new Map<string, HashedPath[]>();
+  for (const item of items) {
+    const group = groups.get(item.hash) ?? [];
+    group.push(item);
+    groups.set(item.hash, group);
+  }
+  return groups;
+}
+
+function byPath(a: HashedPath, b: HashedPath): number {
+  return a.path.localeCompare(b.path);
+}
+
+/**
+ * Match removed paths to added paths with the same content
+ * kept are paths present before and after (with their current digest); they are
+ * copy sources and count towards directory similarity. Empty files are never
+ * matched, since every empty file has the same digest.
+ */
+export function detectMoves(removed: HashedPath[], added: HashedPath[], kept: HashedPath[] = []): MoveDetection {
+  const result: MoveDetection = { moved: [], renamed: [], copied: [], movedDirectories: [], removed: [], added: [] };
+  const removedByHash = groupByHash(removed.filter(item => item.size > 0));
+  const keptByHash = groupByHash(kept.filter(item => item.size > 0));
+  const matchedSources = new Set<string>();
+
+  for (const [hash, group] of groupByHash(added)) {
+    const targets = group.sort(byPath);
+    if (targets[0].size === 0) {
+      result.added.push(...targets.map(t => t.path));
+      continue;
+    }
+
+    // Pairs that keep the file name first, then the rest in path order
+    const sources = (removedByHash.get(hash) ?? []).sort(byPath);
+    const unpaired = [...targets];
+    const pairs: Array<[HashedPath, HashedPath]> = [];
+    for (const sameName of [true, false]) {
+      for (const source of sources) {
+        if (matchedSources.has(source.path)) continue;
+        const index = unpaired.findIndex(t => !sameName || path.posix.basename(t.path) === path.posix.basename(source.path));
+        if (index < 0) continue;
+        pairs.push([source, unpaired[index]]);
+        matchedSources.add(source.path);
+        unpaired.splice(index, 1);
+      }
+    }
+
+    for (const [source, target] of pairs) {
+      const move = { from: source.path, to: target.path, hash };
+      if (path.posix.dirname(source.path) === path.posix.dirname(target.path)) {
+        result.renamed.push(move);
+      } else {
+        result.moved.push(move);
+      }
+    }
+
+    // Remaining targets copy a file that still exists, or one that moved
+    const copySource = keptByHash.get(hash)?.sort(byPath)[0]?.path ?? pairs[0]?.[0].path;
+    for (const target of unpaired) {
+      if (copySource !== undefined) {
+        result.copied.push({ from: copySource, to: target.path, hash });
+      } else {
+        result.added.push(target.path);
+      }
+    }
+  }
+
+  result.removed = removed.filter(item => !matchedSources.has(item.path)).map(item => item.path);
+  result.movedDirectories = findMovedDirectories(result.moved, [...removed, ...kept].map(item => item.path));
+  return result;
+}
+
+/**
+ * Directories that moved wholesale, from the common path suffix of each move
+ * (a/b/c/x.mov → z/c/x.mov moves a/b/c to z/c). similarity is the share of the
+ * directory's previous files that moved to the same place.
+ */
+function findMovedDirectories(moved: FileMove[], previousPaths: string[]): DirectoryMove[] {
+  const groups = new Map<string, DirectoryMove>();
+
+  for (const move of moved) {
+    const from = move.from.split('/');
+    const to = move.to.split('/');
+    let common = 0;
+    while (common < Math.min(from.length, to.length) && from[from.length - 1 - common] === to[to.length - 1 - common]) {
+      common++;
+    }
+    // The top-most directory of the common suffix moved; with no common directory, the parents
+    const depth = Math.max(common - 1, 1);
+    const fromDir = from.slice(0, from.length - depth).join('/');
+    const toDir = to.slice(0, to.length - depth).join('/');
+
+    const key = `${fromDir}\0${toDir}`;
+    const group = groups.get(key) ?? { from: fromDir, to: toDir, files: 0, similarity: 0 };
+    group.files++;
+    groups.set(key, group);
+  }
+
+  const directories: DirectoryMove[] = [];
+  for (const group of groups.values()) {
+    if (group.files < 2) continue;
+    const total = previousPaths.filter(p => group.from === '' || p.startsWith(group.from + '/')).length;
+    directories.push({ ...group, similarity: Math.round(group.files / Math.max(total, group.files) * 100) / 100 });
+  }
+  return directories.sort((a, b) => b.files - a.files || a.from.localeCompare(b.from));
+}
@@ -0,0 +1,259 @@
+/**
+ * Detached Ed25519 signatures
+ * Key pairs, signing and verification of manifests, MHL files and BagIt tag manifests.
+ * A signature covers the file's full BLAKE3 digest and size, not the file bytes,
+ * so large manifests are streamed rather than held in memory.
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { hashFile, hashBuffer } from './hasher.js';
+import { loadConfig } from './config.js';
+import { SignatureSchema, type Signature } from '../schemas/index.js';
+
+/** Detached signatures are written next to the file as <file>.sig */
+export const SIGNATURE_EXTENSION = '.sig';
+
+// First line of the signed statement - changes if the statement format does
+const PAYLOAD_HEADER = 'wnb-signature-v1';
+
+/**
+ * Outcome of checking a file's signature
+ * - 'valid': signed by a trusted key and unchanged since
+ * - 'invalid': the signature does not verify or the file changed after signing
+ * - 'unsigned': no signature file
+ * - 'untrusted': intact, but signed by a key that is not trusted
+ */
+export type SignatureStatus = 'valid' | 'invalid' | 'unsigned' | 'untrusted';
+
+export interface SignatureVerification {
+  file: string;
+  signaturePath: string;
+  status: SignatureStatus;
+  keyId?: string;
+  signed?: string;
+  /** Why the signature is not valid */
+  reason?: string;
+}
+
+/**
+ * Paths and fingerprint of a generated key pair
+ */
+export interface SigningKeyPair {
+  privateKeyPath: string;
+  publicKeyPath: string;
+  keyId: string;
+}
+
+/**
+ * Raw 32-byte Ed25519 public key
+ */
+function rawPublicKey(key: crypto.KeyObject): Buffer {
+  const publicKey = key.type === 'private' ? crypto.createPublicKey(key) : key;
+  return Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url');
+}
+
+function publicKeyFromRaw(raw: Buffer): crypto.KeyObject {
+  return crypto.createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: raw.toString('base64url') }, format: 'jwk' });
+}
+
+/**
+ * Fingerprint of a signing key (16 hex chars, BLAKE3 of the raw public key)
+ */
+export function signingKeyId(key: crypto.KeyObject): string {
+  return hashBuffer(rawPublicKey(key));
+}
+
+function assertEd25519(key: crypto.KeyObject, file: string): crypto.KeyObject {
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`${file} is not an Ed25519 key`);
+  }
+  return key;
+}
+
+/**
+ * Generate a key pair as <base>.key (PKCS#8, mode 600) and <base>.pub (SPKI)
+ * Existing files are only replaced with force.
+ */
+export async function generateSigningKeyPair(base: string, force: boolean = false): Promise<SigningKeyPair> {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  const privateKeyPath = `${base}.key`;
+  const publicKeyPath = `${base}.pub`;
+  const flag = force ? 'w' : 'wx';
+
+  await fs.mkdir(path.dirname(path.resolve(base)), { recursive: true });
+  await fs.writeFile(privateKeyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600, flag });
+  await fs.writeFile(publicKeyPath, publicKey.export({ type: 'spki', format: 'pem' }), { flag });
+
+  return { privateKeyPath, publicKeyPath, keyId: signingKeyId(publicKey) };
+}
+
+/**
+ * Load an Ed25519 private key (PEM)
+ */
+export async function loadPrivateKey(keyFile: string): Promise<crypto.KeyObject> {
+  return assertEd25519(crypto.createPrivateKey(await fs.readFile(keyFile)), keyFile);
+}
+
+/**
+ * Load an Ed25519 public key (PEM; a private key file yields its public half)
+ */
+export async function loadPublicKey(keyFile: string): Promise<crypto.KeyObject> {
+  return assertEd25519(crypto.createPublicKey(await fs.readFile(keyFile)), keyFile);
+}
+
+/**
+ * Signing key from an explicit file or config (signingKey / $WNB_SIGNING_KEY)
+ */
+export async function resolveSigningKey(keyFile?: string): Promise<crypto.KeyObject> {
+  const file = keyFile || (await loadConfig()).signingKey;
+  if (!file) {
+    throw new Error('No signing key: use --key or set WNB_SIGNING_KEY (generate one with wnb sign keygen)');
+  }
+  return loadPrivateKey(file);
+}
+
+/**
+ * Trusted public keys from config (trustedKeys / $WNB_TRUSTED_KEYS) plus extra key files
+ */
+export async function resolveTrustedKeys(extraKeyFiles: string[] = []): Promise<crypto.KeyObject[]> {
+  const files = [...((await loadConfig()).trustedKeys ?? []), ...extraKeyFiles];
+  return Promise.all(files.map(file => loadPublicKey(file)));
+}
+
+/**
+ * Default signature path for a file
+ */
+export function signatureFilePath(filePath: string): string {
+  return filePath + SIGNATURE_EXTENSION;
+}
+
+/**
+ * The statement that is actually signed
+ */
+function signingPayload(signature: Omit<Signature, 'signature'>): Buffer {
+  return Buffer.from([
+    PAYLOAD_HEADER,
+    `key-id ${signature.keyId}`,
+    `size ${signature.size}`,
+    `blake3 ${signature.blake3}`,
+    `signed ${signature.signed}`
+  ].join('\n') + '\n');
+}
+
+/**
+ * Sign a file, writing a detached signature (default: <file>.sig)
+ */
+export async function signFile(
+  filePath: string,
+  privateKey: crypto.KeyObject,
+  signaturePath: string = signatureFilePath(filePath)
+): Promise<{ signaturePath: string; signature: Signature }> {
+  const { hash, size } = await hashFile(filePath, { algorithm: 'blake3-full', fresh: true });
+
+  const unsigned: Omit<Signature, 'signature'> = {
+    version: '1',
+    algorithm: 'ed25519',
+    keyId: signingKeyId(privateKey),
+    publicKey: rawPublicKey(privateKey).toString('base64'),
+    file: path.basename(filePath),
+    size,
+    blake3: hash,
+    signed: new Date().toISOString()
+  };
+  const signature: Signature = {
+    ...unsigned,
+    signature: crypto.sign(null, signingPayload(unsigned), privateKey).toString('base64')
+  };
+
+  await fs.writeFile(signaturePath, JSON.stringify(signature, null, 2) + '\n');
+  return { signaturePath, signature };
+}
+
+/**
+ * Read and validate a signature file
+ */
+export async function readSignature(signaturePath: string): Promise<Signature> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(signaturePath, 'utf-8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') throw err;
+    throw new Error(`${signaturePath} is not a wnb signature file`);
+  }
+
+  const parsed = SignatureSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(`${signaturePath} is not a wnb signature file`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Check a file against its detached signature
+ * The signature is verified with the trusted key of the same ID; without one it
+ * is verified with the embedded key only to tell 'untrusted' from 'invalid'.
+ */
+export async function verifyFileSignature(
+  filePath: string,
+  trustedKeys: crypto.KeyObject[],
+  signaturePath: string = signatureFilePath(filePath)
+): Promise<SignatureVerification> {
+  const result: SignatureVerification = { file: filePath, signaturePath, status: 'unsigned' };
+
+  let signature: Signature;
+  try {
+    signature = await readSignature(signaturePath);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return result;
+    return { ...result, status: 'invalid', reason: (err as Error).message };
+  }
+  result.keyId = signature.keyId;
+  result.signed = signature.signed;
+
+  const trusted = trustedKeys.find(key => signingKeyId(key) === signature.keyId);
+  let verified: boolean;
+  try {
+    const key = trusted ?? publicKeyFromRaw(Buffer.from(signature.publicKey, 'base64'));
+    const { signature: encoded, ...unsigned } = signature;
+    verified = crypto.verify(null, signingPayload(unsigned), key, Buffer.from(encoded, 'base64'));
+  } catch {
+    verified = false;
+  }
+  if (!verified) {
+    return { ...result, status: 'invalid', reason: 'signature does not verify' };
+  }
+
+  const { hash, size } = await hashFile(filePath, { algorithm: 'blake3-full', fresh: true });
+  if (hash !== signature.blake3 || size !== signature.size) {
+    return { ...result, status: 'invalid', reason: 'file changed after signing' };
+  }
+
+  if (!trusted) {
+    return { ...result, status: 'untrusted', reason: `key ${signature.keyId} is not trusted` };
+  }
+  return { ...result, status: 'valid' };
+}
+
+/**
+ * Files to sign for a path: a file as is, a BagIt bag's tag manifests, or a
+ * directory's manifest.json
+ */
+export async function findSignableFiles(target: string): Promise<string[]> {
+  const stats = await fs.stat(target);
+  if (!stats.isDirectory()) return [target];
+
+  const names = await fs.readdir(target);
+  if (names.includes('bagit.txt')) {
+    const tagManifests = names.filter(name => /^tagmanifest-\w+\.txt$/.test(name)).sort();
+    if (tagManifests.length === 0) {
+      throw new Error(`${target} is a bag without tag manifests`);
+    }
+    return tagManifests.map(name => path.join(target, name));
+  }
+  if (names.includes('manifest.json')) {
+    return [path.join(target, 'manifest.json')];
+  }
+  throw new Error(`Nothing to sign in ${target} (expected manifest.json or a BagIt bag)`);
+}
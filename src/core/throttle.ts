@@ -0,0 +1,224 @@
+/**
+ * Bandwidth limits and background priority
+ * One rate limiter per direction is shared by every stream in the process, including
+ * hash worker threads (its state lives in a SharedArrayBuffer), so a limit caps the
+ * total rate rather than the rate per file.
+ */
+
+import * as os from 'node:os';
+import * as fs from 'node:fs/promises';
+import { Transform, type TransformCallback } from 'node:stream';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+const RATE_UNITS: Record<string, number> = { k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4 };
+
+// Lowest scheduling priority (nice 19)
+const BACKGROUND_NICE = 19;
+
+/**
+ * Limiter state that can be posted to a worker thread
+ */
+export interface SharedRateLimit {
+  bytesPerSecond: number;
+  state: SharedArrayBuffer;
+}
+
+/**
+ * Parse a rate such as "50M", "512K/s" or "1.5G" into bytes per second
+ * Suffixes are binary (K = 1024). "0" means unlimited.
+ */
+export function parseRate(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([kmgt])?(?:i?b)?(?:\/s)?$/i.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid rate: ${value} (expected e.g. 500K, 50M, 1G)`);
+  }
+
+  const unit = match[2] ? RATE_UNITS[match[2].toLowerCase()] : 1;
+  const rate = Math.floor(parseFloat(match[1]) * unit);
+  if (rate === 0 && parseFloat(match[1]) !== 0) {
+    throw new Error(`Invalid rate: ${value} (must be at least 1 byte per second)`);
+  }
+  return rate;
+}
+
+/**
+ * Format a rate for display (50.0 MB/s)
+ */
+export function formatRate(bytesPerSecond: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytesPerSecond;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}/s`;
+}
+
+/**
+ * Byte-rate limiter
+ * Each consume() reserves a time slot after the previous reservation (GCRA); callers
+ * wait until their slot starts. The next free slot is a wall-clock timestamp in a
+ * SharedArrayBuffer, so limiters rebuilt from share() in other threads draw from
+ * the same budget.
+ */
+export class RateLimiter {
+  readonly bytesPerSecond: number;
+  private readonly state: SharedArrayBuffer;
+  private readonly nextSlot: BigInt64Array;
+
+  constructor(bytesPerSecond: number, state?: SharedArrayBuffer) {
+    if (!Number.isFinite(bytesPerSecond) || bytesPerSecond <= 0) {
+      throw new Error(`Invalid rate limit: ${bytesPerSecond}`);
+    }
+    this.bytesPerSecond = bytesPerSecond;
+    this.state = state ?? new SharedArrayBuffer(BigInt64Array.BYTES_PER_ELEMENT);
+    this.nextSlot = new BigInt64Array(this.state);
+  }
+
+  /**
+   * Rebuild a limiter from shared state (in a worker thread)
+   */
+  static fromShared(shared: SharedRateLimit): RateLimiter {
+    return new RateLimiter(shared.bytesPerSecond, shared.state);
+  }
+
+  /**
+   * State to hand to a worker thread
+   */
+  share(): SharedRateLimit {
+    return { bytesPerSecond: this.bytesPerSecond, state: this.state };
+  }
+
+  /**
+   * Wait until the given number of bytes may be transferred
+   */
+  async consume(bytes: number): Promise<void> {
+    if (bytes <= 0) return;
+
+    const cost = BigInt(Math.ceil((bytes * 1e6) / this.bytesPerSecond));
+
+    for (;;) {
+      const now = nowMicros();
+      const previous = Atomics.load(this.nextSlot, 0);
+      const start = previous > now ? previous : now;
+
+      if (Atomics.compareExchange(this.nextSlot, 0, previous, start + cost) === previous) {
+        const waitMs = Number(start - now) / 1000;
+        if (waitMs >= 1) {
+          await new Promise(resolve => setTimeout(resolve, waitMs));
+        }
+        return;
+      }
+    }
+  }
+}
+
+function nowMicros(): bigint {
+  // Wall clock, so timestamps agree between threads (performance.now() is per thread)
+  return BigInt(Math.round((performance.timeOrigin + performance.now()) * 1000));
+}
+
+/**
+ * Pass-through stream that paces data through a limiter
+ */
+export function createThrottleStream(limiter: RateLimiter): Transform {
+  return new Transform({
+    transform(chunk: Buffer, _encoding: string, callback: TransformCallback) {
+      limiter.consume(chunk.length).then(() => callback(null, chunk), callback);
+    }
+  });
+}
+
+/**
+ * Pace an iterable of chunks (e.g. a file read stream) through a limiter
+ * With no limiter the chunks are passed through untouched.
+ */
+export async function* throttle(
+  source: AsyncIterable<Buffer>,
+  limiter: RateLimiter | null
+): AsyncGenerator<Buffer> {
+  for await (const chunk of source) {
+    await limiter?.consume(chunk.length);
+    yield chunk;
+  }
+}
+
+// Active limiters shared by the copier, hasher and worker pool
+let copyLimiter: RateLimiter | null = null;
+let readLimiter: RateLimiter | null = null;
+
+/**
+ * Configure the shared limits in bytes per second (0 removes a limit)
+ * - copy: copies and their verification reads (--limit-rate)
+ * - read: hashing reads (--max-read-rate)
+ * Omitted keys keep their current setting; the library default is unlimited.
+ */
+export function configureRateLimits(limits: { copy?: number; read?: number }): void {
+  if (limits.copy !== undefined) {
+    copyLimiter = limits.copy > 0 ? new RateLimiter(limits.copy) : null;
+  }
+  if (limits.read !== undefined) {
+    readLimiter = limits.read > 0 ? new RateLimiter(limits.read) : null;
+  }
+}
+
+/**
+ * Get the copy limiter, or null when copies are unlimited
+ */
+export function getCopyLimiter(): RateLimiter | null {
+  return copyLimiter;
+}
+
+/**
+ * Get the hashing read limiter, or null when reads are unlimited
+ */
+export function getReadLimiter(): RateLimiter | null {
+  return readLimiter;
+}
+
+/**
+ * Lower this process to background priority
+ * CPU priority via nice (all platforms); idle I/O class via ionice on Linux.
+ * Linux keeps both per thread, so every existing thread (including libuv's I/O
+ * pool) is lowered; threads and child processes started later inherit them.
+ * Returns what could not be lowered - background mode is best effort.
+ */
+export async function enterBackgroundMode(): Promise<string[]> {
+  const failed: string[] = [];
+  const threads = await listThreads();
+
+  try {
+    for (const id of threads) {
+      os.setPriority(id, BACKGROUND_NICE);
+    }
+  } catch (err) {
+    failed.push(`CPU priority: ${(err as Error).message}`);
+  }
+
+  if (process.platform === 'linux') {
+    try {
+      await execFileAsync('ionice', ['-c', '3', '-p', ...threads.map(String)]);
+    } catch (err) {
+      const errObj = err as NodeJS.ErrnoException;
+      failed.push(`I/O priority: ${errObj.code === 'ENOENT' ? 'ionice not available' : errObj.message}`);
+    }
+  }
+
+  return failed;
+}
+
+async function listThreads(): Promise<number[]> {
+  if (process.platform === 'linux') {
+    try {
+      const tasks = await fs.readdir('/proc/self/task');
+      return tasks.map(Number).filter(id => Number.isInteger(id));
+    } catch {
+      // Fall through to the process itself
+    }
+  }
+  return [process.pid];
+}
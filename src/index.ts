@@ -20,6 +20,8 @@ export {
   hashBuffer,
   hashString,
   hashFileAll,
+  hashStream,
+  hashStreamAll,
   hashBatch,
   verifyFile,
   findNativeB3sum,
@@ -33,12 +35,66 @@ export type {
   HashProgressOptions,
   HashBlake3Options,
   HashFileOptions,
+  HashStreamOptions,
+  HashStreamResult,
+  AllHashesResult,
   BatchProgressCallback,
   HashBatchOptions,
   HashBatchResult
 } from './core/hasher.js';
 
-export type { Algorithm, HashResult } from './schemas/index.js';
+export { createDigest, c4Id } from './core/digests.js';
+export type { Digest, DigestAlgorithm } from './core/digests.js';
+
+export type { Algorithm, HashResult, Blake3Mode } from './schemas/index.js';
+
+export {
+  parseKey,
+  loadKeyFile,
+  resolveHashKey,
+  resolveKeyOptions,
+  resolveRecordedKeyOptions,
+  computeKeyId,
+  getBlake3Mode,
+  createBlake3Hasher,
+  HASH_KEY_ENV,
+  HASH_KEY_FILE_ENV,
+  BLAKE3_KEY_LENGTH
+} from './core/keys.js';
+
+export type { Blake3KeyOptions, Blake3Hasher } from './core/keys.js';
+
+export {
+  parseChecksumLine,
+  parseChecksumList,
+  verifyChecksumEntry,
+  algorithmHintFromName
+} from './core/checksum-list.js';
+
+export type {
+  ChecksumLineFormat,
+  ChecksumEntry,
+  ChecksumList,
+  ChecksumStatus,
+  ChecksumCheckResult
+} from './core/checksum-list.js';
+
+export {
+  HashCache,
+  configureHashCache,
+  getHashCache,
+  getHashCacheMode,
+  flushHashCache,
+  getFileIdentity,
+  getDefaultCacheDir
+} from './core/hash-cache.js';
+
+export type {
+  HashCacheMode,
+  HashCacheEntry,
+  HashCacheStats,
+  FileIdentity
+} from './core/hash-cache.js';
 
 // ============================================
 // ID GENERATION
@@ -68,16 +124,147 @@ export type { NamespaceType } from './core/id-generator.js';
 // ============================================
 
 export {
-  copyWithHash
+  copyWithHash,
+  copyStreamWithHash,
+  copyToMany,
+  parseReflinkMode
+} from './core/copier.js';
+
+export type {
+  CopyOptions,
+  CopyResult,
+  CopyMethod,
+  ReflinkMode,
+  MultiCopyResult,
+  MultiCopyTarget
 } from './core/copier.js';
 
-export type { CopyOptions, CopyResult } from './core/copier.js';
+export {
+  PRESERVE_ATTRIBUTES,
+  parsePreserveList,
+  readFileMetadata,
+  applyFileMetadata,
+  preserveFileMetadata,
+  findMetadataDrift,
+  metadataAttributes,
+  pickMetadata,
+  formatMode
+} from './core/file-metadata.js';
+
+export type { MetadataFailure, MetadataPreservation } from './core/file-metadata.js';
+
+export {
+  RateLimiter,
+  parseRate,
+  formatRate,
+  throttle,
+  createThrottleStream,
+  configureRateLimits,
+  getCopyLimiter,
+  getReadLimiter,
+  enterBackgroundMode
+} from './core/throttle.js';
+
+export type { SharedRateLimit } from './core/throttle.js';
 
 export {
   fastHash,
-  fastHashBatch
+  fastHashBatch,
+  computeSampleRegions
 } from './core/fast-hasher.js';
 
+export {
+  hashFileWithChunks,
+  computeChunkMap,
+  locateDamage,
+  chunkIndicesForRanges,
+  mergeRanges,
+  parseByteRange,
+  validateChunkSize
+} from './core/chunk-map.js';
+
+export type {
+  ChunkedHashOptions,
+  ChunkedHashResult,
+  LocateDamageOptions,
+  LocateDamageResult
+} from './core/chunk-map.js';
+
+export {
+  MANIFEST_ALGORITHMS,
+  DEFAULT_V2_HASH_LENGTH,
+  loadManifest,
+  writeManifest,
+  isManifestV2,
+  manifestAlgorithms,
+  manifestHashLength,
+  entryHashes,
+  primaryHash,
+  parseManifestAlgorithms,
+  validateHashLength,
+  validateKeyedAlgorithms,
+  hashForManifest,
+  findHashMismatches,
+  assignHardlinkGroups,
+  findCommonAlgorithm,
+  upgradeManifest,
+  entryMatchesStats,
+  manifestHistoryEvent,
+  parseSampleSize,
+  selectVerificationSample,
+  openManifestSource
+} from './core/manifest.js';
+
+export type {
+  AnyManifest,
+  AnyManifestEntry,
+  ManifestHeader,
+  ManifestHashes,
+  UpgradeManifestOptions,
+  UpgradeManifestResult
+} from './core/manifest.js';
+
+export {
+  NDJSON_FORMAT,
+  compareManifestPaths,
+  isStreamedManifest,
+  readManifestStream,
+  loadStreamedManifest,
+  ManifestStreamWriter
+} from './core/manifest-stream.js';
+
+export type { ManifestStreamSummary, ManifestSource } from './core/manifest-stream.js';
+
+export {
+  SIGNATURE_EXTENSION,
+  generateSigningKeyPair,
+  loadPrivateKey,
+  loadPublicKey,
+  resolveSigningKey,
+  resolveTrustedKeys,
+  signingKeyId,
+  signatureFilePath,
+  signFile,
+  readSignature,
+  verifyFileSignature,
+  findSignableFiles
+} from './core/signing.js';
+
+export type { SignatureStatus, SignatureVerification, SigningKeyPair } from './core/signing.js';
+
+export {
+  merkleLeafHash,
+  computeMerkleTree,
+  createMerkleProof,
+  merkleProofRoot,
+  verifyMerkleProof,
+  identicalSubtrees
+} from './core/merkle.js';
+
+export { detectMoves } from './core/moves.js';
+
+export type { HashedPath, MoveDetection } from './core/moves.js';
+
 export type {
   FastHashOptions,
   FastHashResult,
@@ -100,10 +287,65 @@ export {
 export type {
   ImportSession,
   ImportFileState,
+  ImportDestinationState,
   ImportOptions,
   ImportStatus
 } from './services/importer.js';
 
+export {
+  planSync,
+  runSync,
+  resolveDeletePolicy
+} from './services/sync.js';
+
+export type {
+  DeletePolicy,
+  SyncChange,
+  SyncOperation,
+  SyncPlan,
+  SyncResult,
+  SyncOptions
+} from './services/sync.js';
+
+export {
+  FIXITY_FORMATS,
+  readFixityList,
+  targetAlgorithms,
+  formatFixityList,
+  convertFixityList
+} from './services/convert.js';
+
+export type {
+  FixityFormat,
+  FixityRecord,
+  FixityList,
+  ConvertOptions,
+  ConvertResult
+} from './services/convert.js';
+
+export {
+  DEFAULT_FIXITY_CYCLE_DAYS,
+  parseFixityBudget,
+  defaultLedgerPath,
+  loadFixityLedger,
+  saveFixityLedger,
+  selectFixityBatch,
+  fixityCoverage,
+  runFixityCheck
+} from './services/fixity.js';
+
+export type {
+  FixityOutcome,
+  FixityLedgerEntry,
+  FixityLedger,
+  FixityBudget,
+  FixityCheck,
+  FixityFailure,
+  FixityCoverage,
+  FixityRunOptions,
+  FixityRunResult
+} from './services/fixity.js';
+
 // ============================================
 // PROGRESS TRACKING
 // ============================================
@@ -333,7 +575,13 @@ export {
   Sha512HashSchema,
   Md5HashSchema,
   Xxhash64HashSchema,
+  Xxh3HashSchema,
+  Xxh128HashSchema,
+  Sha1HashSchema,
+  Crc32HashSchema,
+  C4IdSchema,
   AnyHashSchema,
+  DigestSchema,
 
   // ID schemas
   Blake3IdSchema,
@@ -347,6 +595,21 @@ export {
   HashResultSchema,
   ManifestSchema,
   ManifestEntrySchema,
+  ManifestAlgorithmSchema,
+  ManifestV2Schema,
+  ManifestV2EntrySchema,
+  ManifestHistoryEventSchema,
+  MerkleTreeSchema,
+  MerkleProofSchema,
+  MerkleProofStepSchema,
+  FileMoveSchema,
+  DirectoryMoveSchema,
+  SignatureSchema,
+  ChunkMapSchema,
+  FileMetadataSchema,
+  PreserveAttributeSchema,
+  Blake3ModeSchema,
+  ByteRangeSchema,
   ImportSessionSchema,
   ImportStatusSchema,
   SourceTypeSchema,
@@ -355,6 +618,7 @@ export {
 
   // Validation helpers
   detectAlgorithm,
+  detectAlgorithms,
   isValidHash,
   isValidUuid,
   isValidUlid
@@ -367,6 +631,11 @@ export type {
   Sha512Hash,
   Md5Hash,
   Xxhash64Hash,
+  Xxh3Hash,
+  Xxh128Hash,
+  Sha1Hash,
+  Crc32Hash,
+  C4Id,
   Blake3Id,
   Uuid,
   Ulid,
@@ -374,7 +643,21 @@ export type {
   VerifyResult,
   ManifestEntry,
   Manifest,
+  ManifestAlgorithm,
+  ManifestV2Entry,
+  ManifestV2,
+  ManifestHistoryEvent,
+  MerkleTree,
+  MerkleProof,
+  MerkleProofStep,
   AuditResult,
+  FileMove,
+  DirectoryMove,
+  Signature,
+  ChunkMap,
+  ByteRange,
+  FileMetadata,
+  PreserveAttribute,
   CustodyEventAction,
   USBDeviceInfo,
   CardReaderInfo
@@ -421,7 +704,19 @@ export {
   parseMhl,
   parseMhlXml,
   verifyMhl,
-  generateMhlFilename
+  generateMhlFilename,
+  MHL_VERSION,
+  ASC_MHL_VERSION,
+  MHL_HASH_FORMATS,
+  hashMhlFormats,
+  isAscMhlXml,
+  ascMhlToXml,
+  parseAscMhlXml,
+  chainToXml,
+  parseChainXml,
+  loadMhlHistory,
+  createMhlGeneration,
+  verifyMhlHistory
 } from './services/mhl/index.js';
 
 export type {
@@ -429,7 +724,19 @@ export type {
   MhlCreatorInfo,
   MhlDocument,
   MhlAlgorithm,
-  MhlGenerateOptions
+  MhlGenerateOptions,
+  MhlHashFormat,
+  MhlHashAction,
+  AscMhlHash,
+  AscMhlEntry,
+  AscMhlReference,
+  AscMhlGeneration,
+  AscMhlChainEntry,
+  AscMhlHistory,
+  MhlRename,
+  MhlGenerationResult,
+  MhlHistoryVerifyResult,
+  MhlHistoryOptions
 } from './services/mhl/index.js';
 
 // ============================================
@@ -438,16 +745,47 @@ export type {
 
 export {
   createBag,
-  verifyBag
+  verifyBag,
+  completeBag,
+  addToBag,
+  removeFromBag,
+  regenerateBag,
+  parseBagManifest,
+  parseFetchFile,
+  formatFetchFile,
+  readFetchFile,
+  FETCH_FILE,
+  loadBagItProfile,
+  parseBagItProfile,
+  parseBagInfo,
+  missingBagInfoTags,
+  validateBagProfile,
+  serializeBag,
+  readSerializedBag,
+  serializationOf,
+  SERIALIZATION_EXTENSIONS
 } from './services/bagit/index.js';
 
 export type {
   BagItAlgorithm,
   BagItOptions,
   BagItResult,
-  BagItVerifyResult
+  BagItVerifyResult,
+  BagItCompleteResult,
+  BagItUpdateResult,
+  BagItProfile,
+  BagItProfileReport,
+  BagItProfileRuleResult,
+  BagItSerialization,
+  BagItSerializedResult
 } from './services/bagit/schemas.js';
 
+export type { FetchEntry } from './services/bagit/fetch.js';
+export type { BagInfoEntry } from './services/bagit/profile.js';
+export type { BagManifestEntry } from './services/bagit/manifest.js';
+export type { BagReader, BagFileDigests } from './services/bagit/reader.js';
+export type { SerializedBag } from './services/bagit/serialize.js';
+
 // ============================================
 // GPS ENRICHMENT
 // ============================================
@@ -33,6 +33,27 @@ export const Xxhash64HashSchema = z.string()
   .length(16)
   .regex(/^[a-f0-9]+$/, 'Must be 16 lowercase hex characters');
 
+export const Xxh3HashSchema = z.string()
+  .length(16)
+  .regex(/^[a-f0-9]+$/, 'Must be 16 lowercase hex characters');
+
+export const Xxh128HashSchema = z.string()
+  .length(32)
+  .regex(/^[a-f0-9]+$/, 'Must be 32 lowercase hex characters');
+
+export const Sha1HashSchema = z.string()
+  .length(40)
+  .regex(/^[a-f0-9]+$/, 'Must be 40 lowercase hex characters');
+
+export const Crc32HashSchema = z.string()
+  .length(8)
+  .regex(/^[a-f0-9]+$/, 'Must be 8 lowercase hex characters');
+
+// C4 ID: "c4" and the SHA-512 digest in base58
+export const C4IdSchema = z.string()
+  .length(90)
+  .regex(/^c4[1-9A-HJ-NP-Za-km-z]+$/, 'Must be a 90 character C4 ID');
+
 // Union for any supported hash
 export const AnyHashSchema = z.union([
   Blake3HashSchema,
@@ -40,9 +61,17 @@ export const AnyHashSchema = z.union([
   Sha256HashSchema,
   Sha512HashSchema,
   Md5HashSchema,
-  Xxhash64HashSchema
+  Xxhash64HashSchema,
+  Xxh3HashSchema,
+  Xxh128HashSchema,
+  Sha1HashSchema,
+  Crc32HashSchema,
+  C4IdSchema
 ]);
 
+// Digest stored in manifests: lowercase hex, or a C4 ID
+export const DigestSchema = z.string().regex(/^(?:[a-f0-9]+|c4[1-9A-HJ-NP-Za-km-z]{88})$/);
+
 // ============================================
 // ID SCHEMAS
 // ============================================
@@ -66,10 +95,16 @@ export const AnyIdSchema = z.union([
 // ALGORITHM & FORMAT SCHEMAS
 // ============================================
 
-export const AlgorithmSchema = z.enum(['blake3', 'blake3-full', 'sha256', 'sha512', 'md5', 'xxhash64']);
+export const AlgorithmSchema = z.enum([
+  'blake3', 'blake3-full', 'sha256', 'sha512', 'md5', 'xxhash64',
+  'xxh3', 'xxh128', 'sha1', 'crc32', 'c4'
+]);
 
 export const OutputFormatSchema = z.enum(['text', 'json', 'csv', 'bsd', 'sfv']);
 
+// BLAKE3 modes: plain hash, keyed hash (MAC), derive_key context
+export const Blake3ModeSchema = z.enum(['plain', 'keyed', 'derive-key']);
+
 // ============================================
 // FILE & RESULT SCHEMAS
 // ============================================
@@ -95,11 +130,60 @@ export const VerifyResultSchema = z.object({
 // MANIFEST SCHEMAS
 // ============================================
 
+// Byte range within a file (end is exclusive)
+export const ByteRangeSchema = z.object({
+  start: z.number().int().nonnegative(),
+  end: z.number().int().nonnegative()
+});
+
+// One BLAKE3 digest per fixed-size block, used to localize damage
+export const ChunkMapSchema = z.object({
+  chunkSize: z.number().int().positive(),
+  chunks: z.array(Blake3HashSchema)
+});
+
+// File metadata beyond content (wnb copy --preserve, wnb manifest --metadata)
+export const PreserveAttributeSchema = z.enum(['mode', 'owner', 'xattr', 'acl']);
+
+export const FileMetadataSchema = z.object({
+  mode: z.number().int().nonnegative().optional(),   // Permission bits (incl. setuid/sticky)
+  uid: z.number().int().nonnegative().optional(),
+  gid: z.number().int().nonnegative().optional(),
+  xattrs: z.record(z.string()).optional(),           // user.* name → base64 value
+  acl: z.string().optional()                         // getfacl text, '' for base permissions only
+});
+
+// Merkle tree over manifest entries: BLAKE3 roots per directory ('' is the top)
+export const MerkleTreeSchema = z.object({
+  algorithm: z.literal('blake3'),
+  root: Blake3FullHashSchema,
+  directories: z.record(Blake3FullHashSchema)   // Directory path → subtree root
+});
+
+// Manifest v2: several algorithms per entry, BLAKE3 at a chosen length
+// (blake3-full is BLAKE3 at hashLength 64)
+export const ManifestAlgorithmSchema = z.enum([
+  'blake3', 'sha256', 'sha512', 'md5', 'xxhash64', 'xxh3', 'xxh128', 'sha1', 'crc32', 'c4'
+]);
+
+// Append-only record of entries replaced or dropped by wnb manifest --update,
+// with the size and digests they had before
+export const ManifestHistoryEventSchema = z.object({
+  path: z.string().min(1),
+  change: z.enum(['modified', 'removed']),
+  recorded: z.string().datetime(),
+  size: z.number().int().nonnegative(),
+  mtime: z.string().datetime().optional(),
+  hashes: z.record(ManifestAlgorithmSchema, DigestSchema)
+});
+
 export const ManifestEntrySchema = z.object({
   path: z.string().min(1),
   hash: Blake3HashSchema,
   size: z.number().int().nonnegative(),
-  mtime: z.string().datetime().optional()
+  mtime: z.string().datetime().optional(),
+  chunks: ChunkMapSchema.optional(),
+  metadata: FileMetadataSchema.optional()
 });
 
 export const ManifestSchema = z.object({
@@ -110,24 +194,124 @@ export const ManifestSchema = z.object({
   root: z.string(),
   fileCount: z.number().int().nonnegative(),
   totalBytes: z.number().int().nonnegative(),
+  // Keyed / derive-key manifests record the key ID, never the key
+  hashMode: Blake3ModeSchema.optional(),
+  keyId: z.string().length(16).optional(),
+  context: z.string().optional(),
+  merkle: MerkleTreeSchema.optional(),
+  history: z.array(ManifestHistoryEventSchema).optional(),
   files: z.array(ManifestEntrySchema)
 });
 
+export const ManifestV2EntrySchema = z.object({
+  path: z.string().min(1),
+  size: z.number().int().nonnegative(),
+  mtime: z.string().datetime().optional(),
+  hashes: z.record(ManifestAlgorithmSchema, DigestSchema),
+  chunks: ChunkMapSchema.optional(),
+  metadata: FileMetadataSchema.optional(),
+  mode: z.number().int().nonnegative().optional(),          // st_mode permission bits at generation
+  hardlinkGroup: z.number().int().positive().optional(),    // Entries sharing an inode share a group
+  lastVerified: z.string().datetime().optional()            // Last time the hashes were confirmed
+});
+
+export const ManifestV2Schema = z.object({
+  version: z.literal('2.0'),
+  generated: z.string().datetime(),
+  algorithms: z.array(ManifestAlgorithmSchema).min(1),      // First is primary
+  hashLength: z.number().int().min(16).max(64).multipleOf(2), // BLAKE3 hex characters
+  root: z.string(),
+  fileCount: z.number().int().nonnegative(),
+  totalBytes: z.number().int().nonnegative(),
+  hashMode: Blake3ModeSchema.optional(),
+  keyId: z.string().length(16).optional(),
+  context: z.string().optional(),
+  merkle: MerkleTreeSchema.optional(),
+  history: z.array(ManifestHistoryEventSchema).optional(),
+  files: z.array(ManifestV2EntrySchema)
+});
+
+// Inclusion proof: one entry plus the sibling hashes up to the root,
+// one list per directory level from the entry's directory to the top
+export const MerkleProofStepSchema = z.object({
+  side: z.enum(['left', 'right']),
+  hash: Blake3FullHashSchema
+});
+
+export const MerkleProofSchema = z.object({
+  version: z.literal('1'),
+  algorithm: z.literal('blake3'),
+  root: Blake3FullHashSchema,
+  entry: z.object({
+    path: z.string().min(1),
+    size: z.number().int().nonnegative(),
+    hashes: z.record(ManifestAlgorithmSchema, DigestSchema)
+  }),
+  levels: z.array(z.array(MerkleProofStepSchema))
+});
+
 // ============================================
 // AUDIT SCHEMAS
 // ============================================
 
+// The same content found at a new path (wnb diff, wnb audit)
+export const FileMoveSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  hash: z.string().regex(/^[a-f0-9]+$/)
+});
+
+// A directory whose files moved together; similarity is the share of its files that did
+export const DirectoryMoveSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  files: z.number().int().positive(),
+  similarity: z.number().min(0).max(1)
+});
+
 export const AuditResultSchema = z.object({
   valid: z.boolean(),
   total: z.number().int(),
   matched: z.number().int(),
-  mismatched: z.array(ManifestEntrySchema),
-  missing: z.array(ManifestEntrySchema),
+  mismatched: z.array(z.union([ManifestEntrySchema, ManifestV2EntrySchema])),
+  missing: z.array(z.union([ManifestEntrySchema, ManifestV2EntrySchema])),
   extra: z.array(z.string()),
   duplicates: z.array(z.object({
-    hash: Blake3HashSchema,
+    hash: z.string().regex(/^[a-f0-9]+$/),   // Primary algorithm digest
     paths: z.array(z.string())
-  }))
+  })),
+  // Damaged byte ranges for mismatched entries that carry a chunk map
+  damaged: z.array(z.object({
+    path: z.string(),
+    ranges: z.array(ByteRangeSchema)
+  })).optional(),
+  // Entries whose recorded metadata no longer matches
+  metadataDrift: z.array(z.object({
+    path: z.string(),
+    attributes: z.array(PreserveAttributeSchema)
+  })).optional(),
+  // Missing entries found elsewhere in the tree, and extra files copying an entry (--strict)
+  moved: z.array(FileMoveSchema).optional(),
+  renamed: z.array(FileMoveSchema).optional(),
+  copied: z.array(FileMoveSchema).optional(),
+  movedDirectories: z.array(DirectoryMoveSchema).optional()
+});
+
+// ============================================
+// SIGNATURE SCHEMAS
+// ============================================
+
+// Detached Ed25519 signature (<file>.sig) over the file's BLAKE3 digest and size
+export const SignatureSchema = z.object({
+  version: z.literal('1'),
+  algorithm: z.literal('ed25519'),
+  keyId: z.string().length(16),          // BLAKE3 fingerprint of the public key
+  publicKey: z.string(),                 // Raw 32-byte public key, base64
+  file: z.string(),                      // Name at signing time (informational)
+  size: z.number().int().nonnegative(),
+  blake3: Blake3FullHashSchema,
+  signed: z.string().datetime(),
+  signature: z.string()                  // Ed25519 signature, base64
 });
 
 // ============================================
@@ -355,6 +539,14 @@ export const XmpSidecarSchema = z.object({
   sourceTimezone: z.string().optional(),
   importTimezone: z.string().optional(),
 
+  // Permissions and attributes
+  originalMode: z.string().regex(/^[0-7]{4}$/).optional(),
+  originalUid: z.number().int().nonnegative().optional(),
+  originalGid: z.number().int().nonnegative().optional(),
+  originalXattrs: z.array(z.string()).optional(),
+  originalAcl: z.string().optional(),
+  unpreservedMetadata: z.array(z.string()).optional(),
+
   // Import context
   importTimestamp: z.string(),
   sessionId: Blake3IdSchema,
@@ -363,7 +555,7 @@ export const XmpSidecarSchema = z.object({
   importHost: z.string(),
   importPlatform: z.enum(['darwin', 'linux', 'win32']),
   importOSVersion: z.string().optional(),
-  importMethod: z.enum(['copy', 'move', 'hardlink', 'symlink']).optional(),
+  importMethod: z.enum(['copy', 'move', 'hardlink', 'symlink', 'reflink', 'copy_file_range']).optional(),
 
   // Batch context
   batchId: z.string().optional(),
@@ -469,16 +661,36 @@ export type Sha256Hash = z.infer<typeof Sha256HashSchema>;
 export type Sha512Hash = z.infer<typeof Sha512HashSchema>;
 export type Md5Hash = z.infer<typeof Md5HashSchema>;
 export type Xxhash64Hash = z.infer<typeof Xxhash64HashSchema>;
+export type Xxh3Hash = z.infer<typeof Xxh3HashSchema>;
+export type Xxh128Hash = z.infer<typeof Xxh128HashSchema>;
+export type Sha1Hash = z.infer<typeof Sha1HashSchema>;
+export type Crc32Hash = z.infer<typeof Crc32HashSchema>;
+export type C4Id = z.infer<typeof C4IdSchema>;
 export type Blake3Id = z.infer<typeof Blake3IdSchema>;
 export type Uuid = z.infer<typeof UuidSchema>;
 export type Ulid = z.infer<typeof UlidSchema>;
 export type Algorithm = z.infer<typeof AlgorithmSchema>;
 export type OutputFormat = z.infer<typeof OutputFormatSchema>;
+export type Blake3Mode = z.infer<typeof Blake3ModeSchema>;
 export type HashResult = z.infer<typeof HashResultSchema>;
 export type VerifyResult = z.infer<typeof VerifyResultSchema>;
+export type ByteRange = z.infer<typeof ByteRangeSchema>;
+export type ChunkMap = z.infer<typeof ChunkMapSchema>;
+export type PreserveAttribute = z.infer<typeof PreserveAttributeSchema>;
+export type FileMetadata = z.infer<typeof FileMetadataSchema>;
 export type ManifestEntry = z.infer<typeof ManifestEntrySchema>;
 export type Manifest = z.infer<typeof ManifestSchema>;
+export type ManifestAlgorithm = z.infer<typeof ManifestAlgorithmSchema>;
+export type ManifestV2Entry = z.infer<typeof ManifestV2EntrySchema>;
+export type ManifestV2 = z.infer<typeof ManifestV2Schema>;
+export type ManifestHistoryEvent = z.infer<typeof ManifestHistoryEventSchema>;
+export type MerkleTree = z.infer<typeof MerkleTreeSchema>;
+export type MerkleProof = z.infer<typeof MerkleProofSchema>;
+export type MerkleProofStep = z.infer<typeof MerkleProofStepSchema>;
 export type AuditResult = z.infer<typeof AuditResultSchema>;
+export type FileMove = z.infer<typeof FileMoveSchema>;
+export type DirectoryMove = z.infer<typeof DirectoryMoveSchema>;
+export type Signature = z.infer<typeof SignatureSchema>;
 export type CopyResult = z.infer<typeof CopyResultSchema>;
 export type ImportStatus = z.infer<typeof ImportStatusSchema>;
 export type ImportSession = z.infer<typeof ImportSessionSchema>;
@@ -502,16 +714,33 @@ export type XmpSidecar = z.infer<typeof XmpSidecarSchema>;
 // VALIDATION HELPERS
 // ============================================
 
+/**
+ * Algorithms a digest of each hex length could come from, most likely first
+ */
+const ALGORITHMS_BY_LENGTH: Record<number, Algorithm[]> = {
+  8: ['crc32'],
+  16: ['blake3', 'xxhash64', 'xxh3'],
+  32: ['md5', 'xxh128'],
+  40: ['sha1'],
+  64: ['sha256', 'blake3-full'],
+  128: ['sha512']
+};
+
+/**
+ * Every algorithm a hash string could come from, most likely first
+ * Same-length digests can only be told apart by hashing the file.
+ */
+export function detectAlgorithms(hash: string): Algorithm[] {
+  if (C4IdSchema.safeParse(hash).success) return ['c4'];
+  if (!/^[a-f0-9]+$/.test(hash)) return [];
+  return ALGORITHMS_BY_LENGTH[hash.length] ?? [];
+}
+
 /**
  * Detect hash algorithm from hash string length
  */
 export function detectAlgorithm(hash: string): Algorithm | null {
-  const len = hash.length;
-  if (len === 16 && /^[a-f0-9]+$/.test(hash)) return 'blake3'; // or xxhash64
-  if (len === 32 && /^[a-f0-9]+$/.test(hash)) return 'md5';
-  if (len === 64 && /^[a-f0-9]+$/.test(hash)) return 'sha256'; // or blake3-full
-  if (len === 128 && /^[a-f0-9]+$/.test(hash)) return 'sha512';
-  return null;
+  return detectAlgorithms(hash)[0] ?? null;
 }
 
 /**
@@ -525,7 +754,12 @@ export function isValidHash(hash: string, algorithm?: Algorithm): boolean {
       'sha256': Sha256HashSchema,
       'sha512': Sha512HashSchema,
       'md5': Md5HashSchema,
-      'xxhash64': Xxhash64HashSchema
+      'xxhash64': Xxhash64HashSchema,
+      'xxh3': Xxh3HashSchema,
+      'xxh128': Xxh128HashSchema,
+      'sha1': Sha1HashSchema,
+      'crc32': Crc32HashSchema,
+      'c4': C4IdSchema
     }[algorithm];
     return schema.safeParse(hash).success;
   }
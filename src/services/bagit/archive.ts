@@ -0,0 +1,545 @@
+/**
+ * Tar and zip archives for serialized bags
+ * Writers stream files into an archive; readers stream entries out of one
+ * without extracting anything to disk. Tar is POSIX ustar with pax headers for
+ * long names and large files (GNU long names are read too); zip uses deflate,
+ * data descriptors and zip64 where sizes or offsets need it.
+ */
+
+import * as fs from 'node:fs';
+import * as zlib from 'node:zlib';
+import { Readable } from 'node:stream';
+import { createDigest } from '../../core/digests.js';
+
+/**
+ * An archive member; source is the file to read when writing
+ */
+export interface ArchiveEntry {
+  path: string;
+  type: 'file' | 'directory';
+  size: number;
+  mtime?: Date;
+  mode?: number;
+  source?: string;
+}
+
+/**
+ * A zip member as listed by the central directory
+ */
+export interface ZipEntry extends ArchiveEntry {
+  method: number;
+  compressedSize: number;
+  offset: number;
+}
+
+const BLOCK = 512;
+const MAX_OCTAL_SIZE = 0o77777777777;
+const UINT32_MAX = 0xffffffff;
+
+// ============================================
+// TAR
+// ============================================
+
+/**
+ * Tar bytes for the entries, ending with the two zero blocks
+ */
+export async function* tarStream(entries: ArchiveEntry[]): AsyncGenerator<Buffer> {
+  for (const entry of entries) {
+    const name = entry.type === 'directory' ? `${entry.path}/` : entry.path;
+    const size = entry.type === 'file' ? entry.size : 0;
+    const mtime = Math.floor((entry.mtime?.getTime() ?? Date.now()) / 1000);
+    const mode = entry.mode ?? (entry.type === 'directory' ? 0o755 : 0o644);
+
+    // pax header for what ustar cannot hold: long or non-ASCII names, sizes of 8 GiB and up
+    const pax: Record<string, string> = {};
+    if (Buffer.byteLength(name) > 100 || /[^\x20-\x7e]/.test(name)) pax.path = name;
+    if (size > MAX_OCTAL_SIZE) pax.size = String(size);
+    if (Object.keys(pax).length > 0) {
+      const body = Buffer.from(Object.entries(pax).map(([key, value]) => paxRecord(key, value)).join(''));
+      yield tarHeader(Buffer.from('././@PaxHeader'), body.length, mtime, 0o644, 'x');
+      yield body;
+      yield Buffer.alloc(padding(body.length));
+    }
+
+    yield tarHeader(Buffer.from(name), pax.size ? 0 : size, mtime, mode, entry.type === 'directory' ? '5' : '0');
+    if (entry.type === 'file' && entry.source) {
+      let written = 0;
+      for await (const chunk of fs.createReadStream(entry.source)) {
+        written += (chunk as Buffer).length;
+        yield chunk as Buffer;
+      }
+      if (written !== size) {
+        throw new Error(`${entry.source} changed size while being archived`);
+      }
+      yield Buffer.alloc(padding(size));
+    }
+  }
+  yield Buffer.alloc(BLOCK * 2);
+}
+
+/**
+ * Read a tar stream entry by entry; visit must consume or ignore data before returning
+ */
+export async function readTar(
+  source: AsyncIterable<Buffer>,
+  visit: (entry: ArchiveEntry, data: AsyncIterable<Buffer>) => Promise<void>
+): Promise<void> {
+  const reader = new ByteReader(source[Symbol.asyncIterator]());
+  let pax: Record<string, string> = {};
+  let longName: string | undefined;
+
+  while (!(await reader.atEnd())) {
+    const header = await reader.read(BLOCK);
+    if (header.every(byte => byte === 0)) break;
+
+    const stored = readNumber(header, 148, 8);
+    const checksum = header.reduce((sum, byte, i) => sum + (i >= 148 && i < 156 ? 0x20 : byte), 0);
+    if (stored !== checksum) {
+      throw new Error('Invalid tar header (not a tar archive, or corrupt)');
+    }
+
+    const type = header[156] === 0 ? '0' : String.fromCharCode(header[156]);
+    const size = pax.size !== undefined ? Number(pax.size) : readNumber(header, 124, 12);
+
+    if (type === 'x' || type === 'g' || type === 'L') {
+      const body = await reader.read(size);
+      await reader.skip(padding(size));
+      if (type === 'x') pax = parsePax(body);
+      if (type === 'L') longName = cString(body, 0, body.length);
+      continue;
+    }
+
+    const prefix = cString(header, 345, 155);
+    const base = cString(header, 0, 100);
+    const name = (pax.path ?? longName ?? (prefix ? `${prefix}/${base}` : base)).replace(/\/+$/, '');
+    pax = {};
+    longName = undefined;
+
+    let left = size;
+    const data: AsyncIterable<Buffer> = {
+      async *[Symbol.asyncIterator]() {
+        while (left > 0) {
+          const chunk = await reader.take(left);
+          left -= chunk.length;
+          yield chunk;
+        }
+      }
+    };
+    // Links and special files are not bag content
+    if (type === '0' || type === '7' || type === '5') {
+      await visit({ path: name, type: type === '5' ? 'directory' : 'file', size }, data);
+    }
+    await reader.skip(left + padding(size));
+  }
+
+  // Read to the end: record padding and anything after the end blocks
+  await reader.drain();
+}
+
+function tarHeader(name: Buffer, size: number, mtime: number, mode: number, typeflag: string): Buffer {
+  const header = Buffer.alloc(BLOCK);
+  name.copy(header, 0, 0, 100);
+  writeOctal(header, mode & 0o7777, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  header.fill(0x20, 148, 156);
+  header.write(typeflag, 156, 'latin1');
+  header.write('ustar\0', 257, 'latin1');
+  header.write('00', 263, 'latin1');
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'latin1');
+  return header;
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(`${value.toString(8).padStart(length - 1, '0')}\0`, offset, length, 'latin1');
+}
+
+/**
+ * Octal field, or base-256 when the high bit is set (GNU, large sizes)
+ */
+function readNumber(header: Buffer, offset: number, length: number): number {
+  if (header[offset] & 0x80) {
+    let value = BigInt(header[offset] & 0x7f);
+    for (let i = 1; i < length; i++) value = (value << 8n) | BigInt(header[offset + i]);
+    return Number(value);
+  }
+  const text = cString(header, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function cString(buffer: Buffer, offset: number, length: number): string {
+  const field = buffer.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf-8');
+}
+
+/**
+ * "<length> <key>=<value>\n", where length counts the whole record
+ */
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = Buffer.byteLength(body);
+  const digits = String(bodyLength).length;
+  // Adding the length's own digits can carry it to one more digit
+  const length = String(bodyLength + digits).length > digits ? bodyLength + digits + 1 : bodyLength + digits;
+  return `${length}${body}`;
+}
+
+function parsePax(body: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < body.length) {
+    const space = body.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(body.toString('latin1', offset, space), 10);
+    if (!length) break;
+    const record = body.toString('utf-8', space + 1, offset + length - 1);
+    const equals = record.indexOf('=');
+    if (equals > 0) records[record.slice(0, equals)] = record.slice(equals + 1);
+    offset += length;
+  }
+  return records;
+}
+
+function padding(size: number): number {
+  return (BLOCK - (size % BLOCK)) % BLOCK;
+}
+
+/**
+ * Exact-length reads over a chunked stream
+ */
+class ByteReader {
+  private chunks: Buffer[] = [];
+  private buffered = 0;
+  private done = false;
+
+  constructor(private readonly source: AsyncIterator<Buffer>) {}
+
+  async atEnd(): Promise<boolean> {
+    await this.fill(1);
+    return this.buffered === 0;
+  }
+
+  /** Up to max bytes, at least one */
+  async take(max: number): Promise<Buffer> {
+    await this.fill(1);
+    if (this.buffered === 0) throw new Error('Unexpected end of archive');
+    let chunk = this.chunks[0];
+    if (chunk.length > max) {
+      this.chunks[0] = chunk.subarray(max);
+      chunk = chunk.subarray(0, max);
+    } else {
+      this.chunks.shift();
+    }
+    this.buffered -= chunk.length;
+    return chunk;
+  }
+
+  async read(length: number): Promise<Buffer> {
+    const parts: Buffer[] = [];
+    for (let left = length; left > 0;) {
+      const chunk = await this.take(left);
+      parts.push(chunk);
+      left -= chunk.length;
+    }
+    return Buffer.concat(parts);
+  }
+
+  async skip(length: number): Promise<void> {
+    for (let left = length; left > 0;) {
+      left -= (await this.take(left)).length;
+    }
+  }
+
+  async drain(): Promise<void> {
+    while (!(await this.atEnd())) {
+      await this.take(this.buffered);
+    }
+  }
+
+  private async fill(length: number): Promise<void> {
+    while (this.buffered < length && !this.done) {
+      const next = await this.source.next();
+      if (next.done) {
+        this.done = true;
+      } else if (next.value.length > 0) {
+        this.chunks.push(next.value);
+        this.buffered += next.value.length;
+      }
+    }
+  }
+}
+
+// ============================================
+// ZIP
+// ============================================
+
+/**
+ * Zip bytes for the entries: deflated files, central directory, end records
+ */
+export async function* zipStream(entries: ArchiveEntry[]): AsyncGenerator<Buffer> {
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.type === 'directory' ? `${entry.path}/` : entry.path);
+    const isFile = entry.type === 'file';
+    // Sizes near 4 GiB get zip64 fields: deflate can grow incompressible data a little
+    const zip64 = isFile && entry.size >= 0xffff0000;
+    const localOffset = offset;
+    const { time, date } = dosDateTime(entry.mtime ?? new Date());
+    const flags = 0x0800 | (isFile ? 0x0008 : 0); // UTF-8 names; sizes in a data descriptor
+    const method = isFile ? 8 : 0;
+    const version = zip64 ? 45 : 20;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(version, 4);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(zip64 ? UINT32_MAX : 0, 18);
+    local.writeUInt32LE(zip64 ? UINT32_MAX : 0, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(zip64 ? 20 : 0, 28);
+    const localParts = [local, name, ...(zip64 ? [zip64Extra([0, 0])] : [])];
+    for (const part of localParts) {
+      offset += part.length;
+      yield part;
+    }
+
+    let crc = 0;
+    let size = 0;
+    let compressedSize = 0;
+    if (isFile && entry.source) {
+      const crcDigest = createDigest('crc32');
+      const input = fs.createReadStream(entry.source);
+      const deflate = zlib.createDeflateRaw();
+      input.on('data', chunk => {
+        crcDigest.update(chunk as Buffer);
+        size += chunk.length;
+      });
+      input.on('error', err => deflate.destroy(err));
+      input.pipe(deflate);
+      for await (const chunk of deflate) {
+        compressedSize += (chunk as Buffer).length;
+        offset += (chunk as Buffer).length;
+        yield chunk as Buffer;
+      }
+      crc = parseInt(crcDigest.digest(), 16);
+
+      const descriptor = Buffer.alloc(zip64 ? 24 : 16);
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(crc, 4);
+      if (zip64) {
+        descriptor.writeBigUInt64LE(BigInt(compressedSize), 8);
+        descriptor.writeBigUInt64LE(BigInt(size), 16);
+      } else {
+        descriptor.writeUInt32LE(compressedSize, 8);
+        descriptor.writeUInt32LE(size, 12);
+      }
+      offset += descriptor.length;
+      yield descriptor;
+    }
+
+    // Central directory record; zip64 fields for what does not fit in 32 bits
+    const large = [
+      ...(zip64 ? [size, compressedSize] : []),
+      ...(localOffset >= UINT32_MAX ? [localOffset] : [])
+    ];
+    const extra = large.length > 0 ? zip64Extra(large) : Buffer.alloc(0);
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE((3 << 8) | 45, 4); // Unix
+    record.writeUInt16LE(large.length > 0 ? 45 : version, 6);
+    record.writeUInt16LE(flags, 8);
+    record.writeUInt16LE(method, 10);
+    record.writeUInt16LE(time, 12);
+    record.writeUInt16LE(date, 14);
+    record.writeUInt32LE(crc, 16);
+    record.writeUInt32LE(zip64 ? UINT32_MAX : compressedSize, 20);
+    record.writeUInt32LE(zip64 ? UINT32_MAX : size, 24);
+    record.writeUInt16LE(name.length, 28);
+    record.writeUInt16LE(extra.length, 30);
+    const mode = entry.mode ?? (isFile ? 0o644 : 0o755);
+    record.writeUInt32LE((((isFile ? 0o100000 : 0o40000) | mode) << 16 | (isFile ? 0 : 0x10)) >>> 0, 38);
+    record.writeUInt32LE(Math.min(localOffset, UINT32_MAX), 42);
+    central.push(record, name, extra);
+  }
+
+  const centralOffset = offset;
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  yield* central;
+
+  const count = entries.length;
+  if (count >= 0xffff || centralOffset >= UINT32_MAX || centralSize >= UINT32_MAX) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(44n, 4);
+    record.writeUInt16LE(45, 12);
+    record.writeUInt16LE(45, 14);
+    record.writeBigUInt64LE(BigInt(count), 24);
+    record.writeBigUInt64LE(BigInt(count), 32);
+    record.writeBigUInt64LE(BigInt(centralSize), 40);
+    record.writeBigUInt64LE(BigInt(centralOffset), 48);
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(centralOffset + centralSize), 8);
+    locator.writeUInt32LE(1, 16);
+    yield record;
+    yield locator;
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Math.min(count, 0xffff), 8);
+  end.writeUInt16LE(Math.min(count, 0xffff), 10);
+  end.writeUInt32LE(Math.min(centralSize, UINT32_MAX), 12);
+  end.writeUInt32LE(Math.min(centralOffset, UINT32_MAX), 16);
+  yield end;
+}
+
+/**
+ * Members of a zip archive, from its central directory
+ */
+export async function listZip(archivePath: string): Promise<ZipEntry[]> {
+  const handle = await fs.promises.open(archivePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const tail = Buffer.alloc(Math.min(size, 22 + 0xffff));
+    await handle.read(tail, 0, tail.length, size - tail.length);
+
+    let end = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === 0x06054b50) {
+        end = i;
+        break;
+      }
+    }
+    if (end === -1) {
+      throw new Error('Not a zip archive (no end of central directory record)');
+    }
+
+    let count = tail.readUInt16LE(end + 10);
+    let centralSize = tail.readUInt32LE(end + 12);
+    let centralOffset = tail.readUInt32LE(end + 16);
+    if (count === 0xffff || centralSize === UINT32_MAX || centralOffset === UINT32_MAX) {
+      const locator = end - 20;
+      if (locator < 0 || tail.readUInt32LE(locator) !== 0x07064b50) {
+        throw new Error('Corrupt zip64 archive (no end of central directory locator)');
+      }
+      const record = Buffer.alloc(56);
+      await handle.read(record, 0, 56, Number(tail.readBigUInt64LE(locator + 8)));
+      if (record.readUInt32LE(0) !== 0x06064b50) {
+        throw new Error('Corrupt zip64 archive (no end of central directory record)');
+      }
+      count = Number(record.readBigUInt64LE(32));
+      centralSize = Number(record.readBigUInt64LE(40));
+      centralOffset = Number(record.readBigUInt64LE(48));
+    }
+
+    const central = Buffer.alloc(centralSize);
+    await handle.read(central, 0, centralSize, centralOffset);
+
+    const entries: ZipEntry[] = [];
+    let p = 0;
+    for (let i = 0; i < count; i++) {
+      if (p + 46 > central.length || central.readUInt32LE(p) !== 0x02014b50) {
+        throw new Error('Corrupt zip central directory');
+      }
+      const method = central.readUInt16LE(p + 10);
+      let compressedSize = central.readUInt32LE(p + 20);
+      let entrySize = central.readUInt32LE(p + 24);
+      const nameLength = central.readUInt16LE(p + 28);
+      const extraLength = central.readUInt16LE(p + 30);
+      const commentLength = central.readUInt16LE(p + 32);
+      let offset = central.readUInt32LE(p + 42);
+      const name = central.toString('utf-8', p + 46, p + 46 + nameLength);
+
+      // zip64 extended information: only the fields that overflowed, in this order
+      for (let e = p + 46 + nameLength; e + 4 <= p + 46 + nameLength + extraLength;) {
+        const id = central.readUInt16LE(e);
+        const length = central.readUInt16LE(e + 2);
+        if (id === 0x0001) {
+          let q = e + 4;
+          const next = (): number => {
+            const value = Number(central.readBigUInt64LE(q));
+            q += 8;
+            return value;
+          };
+          if (entrySize === UINT32_MAX) entrySize = next();
+          if (compressedSize === UINT32_MAX) compressedSize = next();
+          if (offset === UINT32_MAX) offset = next();
+        }
+        e += 4 + length;
+      }
+
+      entries.push({
+        path: name.replace(/\/+$/, ''),
+        type: name.endsWith('/') ? 'directory' : 'file',
+        size: entrySize,
+        method,
+        compressedSize,
+        offset
+      });
+      p += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Stream the uncompressed content of a zip member
+ */
+export async function openZipEntry(archivePath: string, entry: ZipEntry): Promise<Readable> {
+  const local = Buffer.alloc(30);
+  const handle = await fs.promises.open(archivePath, 'r');
+  try {
+    await handle.read(local, 0, 30, entry.offset);
+  } finally {
+    await handle.close();
+  }
+  if (local.readUInt32LE(0) !== 0x04034b50) {
+    throw new Error(`Corrupt zip entry: ${entry.path}`);
+  }
+  if (entry.method !== 0 && entry.method !== 8) {
+    throw new Error(`Unsupported zip compression method ${entry.method}: ${entry.path}`);
+  }
+  if (entry.compressedSize === 0) return Readable.from([]);
+
+  const start = entry.offset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28);
+  const raw = fs.createReadStream(archivePath, { start, end: start + entry.compressedSize - 1 });
+  if (entry.method === 0) return raw;
+
+  const inflate = zlib.createInflateRaw();
+  raw.on('error', err => inflate.destroy(err));
+  return raw.pipe(inflate);
+}
+
+/**
+ * zip64 extended information extra field
+ */
+function zip64Extra(values: number[]): Buffer {
+  const extra = Buffer.alloc(4 + values.length * 8);
+  extra.writeUInt16LE(0x0001, 0);
+  extra.writeUInt16LE(values.length * 8, 2);
+  values.forEach((value, i) => extra.writeBigUInt64LE(BigInt(value), 4 + i * 8));
+  return extra;
+}
+
+/**
+ * MS-DOS time and date fields (local time, 2-second resolution, from 1980)
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  if (date.getFullYear() < 1980) return { time: 0, date: (1 << 5) | 1 };
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
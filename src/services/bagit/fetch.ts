@@ -0,0 +1,99 @@
+/**
+ * BagIt fetch.txt (RFC 8493 section 2.2.3)
+ * Payload files a holey bag lists but does not hold, and the URLs to get them from.
+ * Supports file: URLs and http(s) URLs.
+ */
+
+import * as fs from 'node:fs';
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+export const FETCH_FILE = 'fetch.txt';
+
+/**
+ * One fetch.txt line: "<url> <length|-> <path>"
+ */
+export interface FetchEntry {
+  url: string;
+  /** Octets, when the bag states them */
+  length?: number;
+  /** Path in the bag, e.g. data/clips/A001.mov */
+  path: string;
+}
+
+/**
+ * Parse fetch.txt; paths may contain spaces, URLs and lengths may not
+ */
+export function parseFetchFile(content: string): FetchEntry[] {
+  const entries: FetchEntry[] = [];
+  content.split('\n').forEach((text, index) => {
+    const line = text.replace(/\r$/, '');
+    if (!line.trim()) return;
+
+    const match = /^(\S+)[ \t]+(\d+|-)[ \t]+(.+)$/.exec(line);
+    if (!match) {
+      throw new Error(`Invalid fetch.txt line ${index + 1}: ${line}`);
+    }
+    entries.push({
+      url: match[1],
+      ...(match[2] !== '-' && { length: Number(match[2]) }),
+      path: match[3]
+    });
+  });
+  return entries;
+}
+
+/**
+ * Format fetch.txt content
+ */
+export function formatFetchFile(entries: FetchEntry[]): string {
+  return entries.map(e => `${e.url} ${e.length ?? '-'} ${e.path}`).join('\n') + '\n';
+}
+
+/**
+ * Read a bag's fetch.txt; a bag without one lists no entries
+ */
+export async function readFetchFile(bagPath: string): Promise<FetchEntry[]> {
+  try {
+    return parseFetchFile(await fsp.readFile(path.join(bagPath, FETCH_FILE), 'utf-8'));
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+}
+
+/**
+ * URL of a payload file: under baseUrl when given, else the file itself
+ */
+export function fetchUrlFor(filePath: string, relativePath: string, baseUrl?: string): string {
+  if (!baseUrl) return pathToFileURL(filePath).href;
+  const encoded = relativePath.split('/').map(encodeURIComponent).join('/');
+  return `${baseUrl.replace(/\/+$/, '')}/${encoded}`;
+}
+
+/**
+ * Download a URL to a file, returning the octets written
+ */
+export async function downloadToFile(url: string, destination: string): Promise<number> {
+  const parsed = new URL(url);
+  let source: Readable;
+
+  if (parsed.protocol === 'file:') {
+    source = fs.createReadStream(fileURLToPath(parsed));
+  } else if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
+    const response = await fetch(parsed);
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+    }
+    source = Readable.fromWeb(response.body);
+  } else {
+    throw new Error(`Unsupported URL scheme: ${parsed.protocol}`);
+  }
+
+  await fsp.mkdir(path.dirname(destination), { recursive: true });
+  await pipeline(source, fs.createWriteStream(destination));
+  return (await fsp.stat(destination)).size;
+}
@@ -1,25 +1,28 @@
 /**
  * BagIt RFC 8493 Service
- * Create and verify BagIt packages for long-term preservation
+ * Create, verify, complete and update BagIt packages for long-term preservation,
+ * as directories or serialized archives
  */
 
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import { hashFile } from '../../core/hasher.js';
-import type { BagItAlgorithm, BagItOptions, BagItResult, BagItVerifyResult } from './schemas.js';
+import { FETCH_FILE, downloadToFile, fetchUrlFor, formatFetchFile, parseFetchFile, readFetchFile, type FetchEntry } from './fetch.js';
+import { formatBagManifest, formatBagSize, manifestAlgorithms, readBagManifests, writeTagManifests } from './manifest.js';
+import { checkBagProfile, checkProfileForCreate, profileAlgorithms } from './profile.js';
+import { directoryReader, hashBagFile, type BagFileDigests, type BagReader } from './reader.js';
+import { readSerializedBag, serializationOf, serializeBag } from './serialize.js';
+import {
+  BagItAlgorithmSchema,
+  type BagItAlgorithm,
+  type BagItCompleteResult,
+  type BagItOptions,
+  type BagItProfile,
+  type BagItResult,
+  type BagItVerifyResult
+} from './schemas.js';
 
 const VERSION = '0.1.1';
 
-/**
- * Format bytes as human-readable size
- */
-function formatBagSize(bytes: number): string {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
-}
-
 /**
  * Get today's date in YYYY-MM-DD format
  */
@@ -72,6 +75,24 @@ function matchPattern(name: string, pattern: string): boolean {
   return new RegExp(`^${regex}$`, 'i').test(name);
 }
 
+/**
+ * Whether a payload file (path relative to the source) is left to fetch.txt
+ */
+function isFetched(relativePath: string, patterns: string[]): boolean {
+  return patterns.some(p => matchPattern(path.basename(relativePath), p) || matchPattern(relativePath, p));
+}
+
+/**
+ * Whether a path is an existing file (a serialized bag, when verifying)
+ */
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Create a BagIt package from a directory
  *
@@ -79,8 +100,9 @@ function matchPattern(name: string, pattern: string): boolean {
  *   bag/
  *     bagit.txt
  *     bag-info.txt
- *     manifest-sha256.txt (or sha512)
- *     tagmanifest-sha256.txt
+ *     manifest-sha256.txt (one per algorithm: sha256, sha512, sha1, md5)
+ *     fetch.txt (holey bags: payload files to fetch)
+ *     tagmanifest-sha256.txt (one per algorithm)
  *     data/
  *       <payload files>
  */
@@ -89,7 +111,11 @@ export async function createBag(
   options: Partial<BagItOptions> = {}
 ): Promise<BagItResult> {
   const startTime = performance.now();
-  const algorithm: BagItAlgorithm = options.algorithm ?? 'sha256';
+  const profileChoice = options.profile ? profileAlgorithms(options.profile) : [];
+  const algorithms: BagItAlgorithm[] = options.algorithms?.length ? [...new Set(options.algorithms)]
+    : options.algorithm ? [options.algorithm]
+      : profileChoice.length > 0 ? profileChoice : ['sha256'];
+  const algorithm = algorithms[0];
   const inPlace = options.inPlace ?? true;
 
   const resolvedSource = path.resolve(sourceDir);
@@ -111,10 +137,36 @@ export async function createBag(
     if (errObj.code !== 'ENOENT') throw err;
   }
 
+  // Holey bag: fetched files stay in the source, so they need a separate output bag
+  const fetchPatterns = options.fetchPatterns ?? [];
+  if (fetchPatterns.length > 0 && (!options.outputPath || bagPath === resolvedSource)) {
+    throw new Error('Fetched payload needs an output bag (--output): the source keeps the files fetch.txt points at');
+  }
+  const fetchedSources = fetchPatterns.length > 0
+    ? (await collectFiles(resolvedSource, {
+      includeHidden: options.includeHiddenFiles,
+      excludePatterns: options.excludePatterns
+    })).filter(file => isFetched(path.relative(resolvedSource, file).replace(/\\/g, '/'), fetchPatterns))
+    : [];
+
+  // A profile is checked before any file is moved or copied
+  const profileId = options.profile?.['BagIt-Profile-Info']['BagIt-Profile-Identifier'];
+  if (options.profile) {
+    const problems = checkProfileForCreate(options.profile, {
+      algorithms,
+      bagInfo: options.bagInfo ?? {},
+      fetch: fetchedSources.length > 0,
+      serialization: options.serialize
+    });
+    if (problems.length > 0) {
+      throw new Error(`Bag would not meet profile ${profileId}: ${problems.join('; ')}`);
+    }
+  }
+
   // If outputPath specified and different from source, copy files
   if (options.outputPath && bagPath !== resolvedSource) {
     await fs.mkdir(dataDir, { recursive: true });
-    await copyDirectory(resolvedSource, dataDir, options);
+    await copyDirectory(resolvedSource, dataDir, options, new Set(fetchedSources));
   } else if (inPlace) {
     // In-place: move files to data/ subdirectory
     await fs.mkdir(dataDir, { recursive: true });
@@ -134,35 +186,37 @@ export async function createBag(
     excludePatterns: options.excludePatterns
   });
 
-  // Hash all payload files
-  const manifestLines: string[] = [];
+  // Hash all payload files; fetched files are hashed in the source
+  const payload = [
+    ...payloadFiles.map(file => ({ file, relativePath: path.relative(bagPath, file) })),
+    ...fetchedSources.map(file => ({ file, relativePath: path.join('data', path.relative(resolvedSource, file)) }))
+  ];
+  const fetched = new Set(fetchedSources);
+  const hashed: Array<{ path: string; digests: BagFileDigests }> = [];
+  const fetchEntries: FetchEntry[] = [];
   let totalBytes = 0;
   let processed = 0;
 
-  for (const file of payloadFiles) {
-    const relativePath = path.relative(bagPath, file);
-    const result = await hashFile(file, algorithm);
+  for (const { file, relativePath } of payload) {
+    // Every manifest algorithm from one read
+    const result = await hashBagFile(file, algorithms);
 
-    // RFC 8493: hash + two spaces + path (Unix-style forward slashes)
     const unixPath = relativePath.replace(/\\/g, '/');
-    manifestLines.push(`${result.hash}  ${unixPath}`);
+    hashed.push({ path: unixPath, digests: result });
+    if (fetched.has(file)) {
+      const url = fetchUrlFor(file, unixPath.slice('data/'.length), options.fetchUrl);
+      fetchEntries.push({ url, length: result.size, path: unixPath });
+    }
     totalBytes += result.size;
     processed++;
 
     if (options.onProgress) {
-      options.onProgress(processed, payloadFiles.length, file);
+      options.onProgress(processed, payload.length, file);
     }
   }
 
-  // Sort manifest lines for consistency
-  manifestLines.sort((a, b) => {
-    const pathA = a.split('  ')[1];
-    const pathB = b.split('  ')[1];
-    return pathA.localeCompare(pathB);
-  });
-
-  // Calculate Payload-Oxum: octetcount.streamcount
-  const payloadOxum = `${totalBytes}.${payloadFiles.length}`;
+  // Calculate Payload-Oxum: octetcount.streamcount (fetched files included)
+  const payloadOxum = `${totalBytes}.${payload.length}`;
 
   // Generate bag-info.txt content
   const bagInfo: Record<string, string> = {
@@ -170,6 +224,7 @@ export async function createBag(
     'Bagging-Date': getBaggingDate(),
     'Payload-Oxum': payloadOxum,
     'Bag-Size': formatBagSize(totalBytes),
+    ...(profileId && { 'BagIt-Profile-Identifier': profileId }),
     ...options.bagInfo
   };
 
@@ -180,45 +235,42 @@ export async function createBag(
   // Generate bagit.txt content
   const bagitTxtContent = 'BagIt-Version: 1.0\nTag-File-Character-Encoding: UTF-8\n';
 
-  // Write tag files
-  const bagitTxtPath = path.join(bagPath, 'bagit.txt');
-  const bagInfoPath = path.join(bagPath, 'bag-info.txt');
-  const manifestPath = path.join(bagPath, `manifest-${algorithm}.txt`);
-
-  await fs.writeFile(bagitTxtPath, bagitTxtContent, 'utf-8');
-  await fs.writeFile(bagInfoPath, bagInfoContent, 'utf-8');
-  await fs.writeFile(manifestPath, manifestLines.join('\n') + '\n', 'utf-8');
-
-  // Generate tag manifest (hashes of tag files)
-  const tagFiles = [bagitTxtPath, bagInfoPath, manifestPath];
-  const tagManifestLines: string[] = [];
-
-  for (const tagFile of tagFiles) {
-    const relativePath = path.relative(bagPath, tagFile);
-    const result = await hashFile(tagFile, algorithm);
-    const unixPath = relativePath.replace(/\\/g, '/');
-    tagManifestLines.push(`${result.hash}  ${unixPath}`);
+  // Write tag files, one payload manifest per algorithm
+  await fs.writeFile(path.join(bagPath, 'bagit.txt'), bagitTxtContent, 'utf-8');
+  await fs.writeFile(path.join(bagPath, 'bag-info.txt'), bagInfoContent, 'utf-8');
+  for (const alg of algorithms) {
+    const entries = hashed.map(file => ({ hash: file.digests.hashes[alg]!, path: file.path }));
+    await fs.writeFile(path.join(bagPath, `manifest-${alg}.txt`), formatBagManifest(entries), 'utf-8');
+  }
+  if (fetchEntries.length > 0) {
+    fetchEntries.sort((a, b) => a.path.localeCompare(b.path));
+    await fs.writeFile(path.join(bagPath, FETCH_FILE), formatFetchFile(fetchEntries), 'utf-8');
   }
 
-  tagManifestLines.sort((a, b) => {
-    const pathA = a.split('  ')[1];
-    const pathB = b.split('  ')[1];
-    return pathA.localeCompare(pathB);
-  });
+  // Generate tag manifests (hashes of tag files)
+  const tagManifests = await writeTagManifests(bagPath, algorithms);
 
-  const tagManifestPath = path.join(bagPath, `tagmanifest-${algorithm}.txt`);
-  await fs.writeFile(tagManifestPath, tagManifestLines.join('\n') + '\n', 'utf-8');
+  const serialized = options.serialize ? await serializeBag(bagPath, options.serialize, algorithm) : undefined;
 
   return {
     bagPath,
     algorithm,
+    algorithms,
     payloadOxum,
-    fileCount: payloadFiles.length,
+    fileCount: payload.length,
     totalBytes,
     durationMs: performance.now() - startTime,
-    tagFiles: ['bagit.txt', 'bag-info.txt', `manifest-${algorithm}.txt`, `tagmanifest-${algorithm}.txt`],
+    tagFiles: [
+      'bagit.txt',
+      'bag-info.txt',
+      ...algorithms.map(alg => `manifest-${alg}.txt`),
+      ...(fetchEntries.length > 0 ? [FETCH_FILE] : []),
+      ...tagManifests
+    ],
     payloadManifest: `manifest-${algorithm}.txt`,
-    tagManifest: `tagmanifest-${algorithm}.txt`
+    tagManifest: `tagmanifest-${algorithm}.txt`,
+    fetchFiles: fetchEntries.length,
+    ...(serialized && { serialized })
   };
 }
 
@@ -228,7 +280,8 @@ export async function createBag(
 async function copyDirectory(
   src: string,
   dest: string,
-  options: Partial<BagItOptions>
+  options: Partial<BagItOptions>,
+  skip: Set<string> = new Set()
 ): Promise<void> {
   const entries = await fs.readdir(src, { withFileTypes: true });
 
@@ -240,28 +293,35 @@ async function copyDirectory(
     const destPath = path.join(dest, entry.name);
 
     if (entry.isFile()) {
-      await fs.copyFile(srcPath, destPath);
+      if (!skip.has(srcPath)) await fs.copyFile(srcPath, destPath);
     } else if (entry.isDirectory()) {
       await fs.mkdir(destPath, { recursive: true });
-      await copyDirectory(srcPath, destPath, options);
+      await copyDirectory(srcPath, destPath, options, skip);
     }
   }
 }
 
 /**
- * Verify a BagIt package
+ * Verify a BagIt package: a bag directory, or a serialized bag (.tar, .tar.gz,
+ * .tgz, .zip) read in place in one pass through the archive
  */
 export async function verifyBag(
   bagPath: string,
-  options: { verbose?: boolean; onProgress?: (current: number, total: number, file: string) => void } = {}
+  options: {
+    verbose?: boolean;
+    profile?: BagItProfile; // Also check the bag against it (result.profile)
+    onProgress?: (current: number, total: number, file: string) => void;
+  } = {}
 ): Promise<BagItVerifyResult> {
   const startTime = performance.now();
   const resolvedBag = path.resolve(bagPath);
 
   const result: BagItVerifyResult = {
     valid: true,
+    complete: true,
     bagPath: resolvedBag,
     algorithm: 'sha256',
+    algorithms: [],
     payloadValid: true,
     tagFilesValid: true,
     payloadOxumMatch: true,
@@ -270,150 +330,178 @@ export async function verifyBag(
     missingFiles: [],
     invalidFiles: [],
     extraFiles: [],
+    fetchPending: [],
     errors: [],
     durationMs: 0
   };
 
-  // Check bagit.txt exists
-  const bagitTxtPath = path.join(resolvedBag, 'bagit.txt');
-  try {
-    const bagitContent = await fs.readFile(bagitTxtPath, 'utf-8');
-    if (!bagitContent.includes('BagIt-Version: 1.0')) {
-      result.errors.push('Invalid bagit.txt: missing BagIt-Version: 1.0');
-      result.valid = false;
+  // A serialized bag is scanned first (with progress); its files are then looked up
+  let reader: BagReader = directoryReader(resolvedBag);
+  let onProgress = options.onProgress;
+  const archived = await isFile(resolvedBag);
+  const serialization = archived ? serializationOf(resolvedBag) : undefined;
+  if (archived && !serialization) {
+    throw new Error(`Not a bag directory or serialized bag (.tar, .tar.gz, .tgz, .zip): ${resolvedBag}`);
+  }
+  if (serialization) {
+    const archive = await readSerializedBag(resolvedBag, { onProgress });
+    reader = archive.reader;
+    onProgress = undefined;
+    result.serialization = serialization;
+    if (archive.checksumMatch !== undefined) {
+      result.archiveChecksumMatch = archive.checksumMatch;
+      if (!archive.checksumMatch) {
+        result.errors.push(`Archive checksum mismatch: ${path.basename(archive.checksumPath ?? '')}`);
+        result.valid = false;
+      }
     }
-  } catch {
+  }
+
+  // Check bagit.txt exists
+  const bagitContent = await reader.readText('bagit.txt');
+  if (bagitContent === undefined) {
     result.errors.push('Missing bagit.txt');
     result.valid = false;
+    result.complete = false;
     result.durationMs = performance.now() - startTime;
     return result;
   }
-
-  // Find manifest file
-  let manifestPath: string | null = null;
-  let algorithm: BagItAlgorithm = 'sha256';
-
-  for (const alg of ['sha256', 'sha512'] as const) {
-    const mPath = path.join(resolvedBag, `manifest-${alg}.txt`);
-    try {
-      await fs.access(mPath);
-      manifestPath = mPath;
-      algorithm = alg;
-      break;
-    } catch {
-      // Try next algorithm
-    }
+  if (!bagitContent.includes('BagIt-Version: 1.0')) {
+    result.errors.push('Invalid bagit.txt: missing BagIt-Version: 1.0');
+    result.valid = false;
   }
 
-  if (!manifestPath) {
-    result.errors.push('Missing manifest file (manifest-sha256.txt or manifest-sha512.txt)');
+  // Every payload manifest is verified, and each must list every payload file
+  const bagFiles = await reader.files();
+  const algorithms = manifestAlgorithms(bagFiles);
+  if (algorithms.length === 0) {
+    const names = BagItAlgorithmSchema.options.map(alg => `manifest-${alg}.txt`);
+    result.errors.push(`Missing manifest file (${names.join(', ')})`);
     result.valid = false;
+    result.complete = false;
     result.durationMs = performance.now() - startTime;
     return result;
   }
+  result.algorithm = algorithms[0];
+  result.algorithms = algorithms;
+
+  // Parse manifests
+  const expected = await readBagManifests(reader, algorithms);
+  result.totalFiles = expected.size;
+  for (const [entryPath, hashes] of expected) {
+    for (const algorithm of algorithms.filter(alg => !hashes[alg])) {
+      result.errors.push(`${entryPath} is not listed in manifest-${algorithm}.txt`);
+      result.payloadValid = false;
+      result.valid = false;
+    }
+  }
 
-  result.algorithm = algorithm;
-
-  // Parse manifest
-  const manifestContent = await fs.readFile(manifestPath, 'utf-8');
-  const manifestEntries = parseManifest(manifestContent);
-  result.totalFiles = manifestEntries.length;
+  // Holey bags: payload files listed in fetch.txt may be absent
+  let fetchPaths = new Set<string>();
+  try {
+    fetchPaths = new Set(parseFetchFile(await reader.readText(FETCH_FILE) ?? '').map(e => e.path));
+  } catch (err) {
+    result.errors.push(err instanceof Error ? err.message : String(err));
+    result.valid = false;
+  }
+  for (const fetchPath of fetchPaths) {
+    if (!expected.has(fetchPath)) {
+      result.errors.push(`fetch.txt lists ${fetchPath}, which is not in the payload manifest`);
+      result.valid = false;
+    }
+  }
 
-  // Verify payload files
+  // Verify payload files, with every algorithm from one read
   const verifiedPaths = new Set<string>();
   let actualBytes = 0;
 
-  for (const entry of manifestEntries) {
-    const filePath = path.join(resolvedBag, entry.path);
-    verifiedPaths.add(entry.path);
+  for (const [entryPath, hashes] of expected) {
+    verifiedPaths.add(entryPath);
 
-    try {
-      const fileResult = await hashFile(filePath, algorithm);
-      actualBytes += fileResult.size;
-
-      if (fileResult.hash !== entry.hash) {
-        result.invalidFiles.push({
-          path: entry.path,
-          expected: entry.hash,
-          actual: fileResult.hash
-        });
-        result.payloadValid = false;
-        result.valid = false;
+    const listed = algorithms.filter(alg => hashes[alg]);
+    const fileResult = await reader.digest(entryPath, listed);
+    if (!fileResult) {
+      if (fetchPaths.has(entryPath)) {
+        result.fetchPending.push(entryPath);
       } else {
-        result.verifiedFiles++;
-      }
-
-      if (options.onProgress) {
-        options.onProgress(result.verifiedFiles + result.invalidFiles.length, result.totalFiles, entry.path);
+        result.missingFiles.push(entryPath);
+        result.payloadValid = false;
       }
-    } catch {
-      result.missingFiles.push(entry.path);
+      result.valid = false;
+      result.complete = false;
+      continue;
+    }
+    actualBytes += fileResult.size;
+
+    const mismatch = listed.find(alg => fileResult.hashes[alg] !== hashes[alg]);
+    if (mismatch) {
+      result.invalidFiles.push({
+        path: entryPath,
+        algorithm: mismatch,
+        expected: hashes[mismatch]!,
+        actual: fileResult.hashes[mismatch]!
+      });
       result.payloadValid = false;
       result.valid = false;
+    } else {
+      result.verifiedFiles++;
+    }
+
+    if (onProgress) {
+      onProgress(result.verifiedFiles + result.invalidFiles.length, result.totalFiles, entryPath);
     }
   }
 
-  // Check for extra files in data/
-  const dataDir = path.join(resolvedBag, 'data');
-  try {
-    const actualFiles = await collectFiles(dataDir);
-    for (const file of actualFiles) {
-      const relativePath = path.relative(resolvedBag, file).replace(/\\/g, '/');
-      if (!verifiedPaths.has(relativePath)) {
-        result.extraFiles.push(relativePath);
+  // Check for extra files in data/ (hidden files are not payload)
+  if (await reader.hasDirectory('data')) {
+    for (const file of bagFiles) {
+      if (file.startsWith('data/') && !verifiedPaths.has(file) && !file.split('/').some(part => part.startsWith('.'))) {
+        result.extraFiles.push(file);
       }
     }
-  } catch {
-    // data/ directory doesn't exist
+  } else {
     result.errors.push('Missing data/ directory');
     result.valid = false;
+    result.complete = false;
   }
 
-  // Verify Payload-Oxum from bag-info.txt
-  const bagInfoPath = path.join(resolvedBag, 'bag-info.txt');
-  try {
-    const bagInfoContent = await fs.readFile(bagInfoPath, 'utf-8');
-    const oxumMatch = bagInfoContent.match(/Payload-Oxum:\s*(\d+)\.(\d+)/);
-
-    if (oxumMatch) {
-      const expectedBytes = parseInt(oxumMatch[1], 10);
-      const expectedCount = parseInt(oxumMatch[2], 10);
-
-      if (actualBytes !== expectedBytes || manifestEntries.length !== expectedCount) {
-        result.payloadOxumMatch = false;
-        result.errors.push(
-          `Payload-Oxum mismatch: expected ${expectedBytes}.${expectedCount}, got ${actualBytes}.${manifestEntries.length}`
-        );
-        result.valid = false;
-      }
+  // Verify Payload-Oxum from bag-info.txt (bag-info.txt is optional)
+  const bagInfoContent = await reader.readText('bag-info.txt');
+  const oxumMatch = bagInfoContent?.match(/Payload-Oxum:\s*(\d+)\.(\d+)/);
+
+  // Fetched files count toward the Oxum, so it only applies once they are all here
+  if (oxumMatch && result.fetchPending.length === 0) {
+    const expectedBytes = parseInt(oxumMatch[1], 10);
+    const expectedCount = parseInt(oxumMatch[2], 10);
+
+    if (actualBytes !== expectedBytes || expected.size !== expectedCount) {
+      result.payloadOxumMatch = false;
+      result.errors.push(
+        `Payload-Oxum mismatch: expected ${expectedBytes}.${expectedCount}, got ${actualBytes}.${expected.size}`
+      );
+      result.valid = false;
     }
-  } catch {
-    // bag-info.txt is optional
   }
 
-  // Verify tag manifest
-  const tagManifestPath = path.join(resolvedBag, `tagmanifest-${algorithm}.txt`);
-  try {
-    const tagManifestContent = await fs.readFile(tagManifestPath, 'utf-8');
-    const tagEntries = parseManifest(tagManifestContent);
-
-    for (const entry of tagEntries) {
-      const filePath = path.join(resolvedBag, entry.path);
-      try {
-        const fileResult = await hashFile(filePath, algorithm);
-        if (fileResult.hash !== entry.hash) {
-          result.errors.push(`Tag file hash mismatch: ${entry.path}`);
-          result.tagFilesValid = false;
-          result.valid = false;
-        }
-      } catch {
-        result.errors.push(`Missing tag file: ${entry.path}`);
-        result.tagFilesValid = false;
-        result.valid = false;
-      }
+  // Verify tag manifests (optional per RFC but we check those present)
+  const tagAlgorithms = manifestAlgorithms(bagFiles, 'tagmanifest');
+  for (const [tagPath, hashes] of await readBagManifests(reader, tagAlgorithms, 'tagmanifest')) {
+    const listed = tagAlgorithms.filter(alg => hashes[alg]);
+    const fileResult = await reader.digest(tagPath, listed);
+    if (!fileResult) {
+      result.errors.push(`Missing tag file: ${tagPath}`);
+      result.tagFilesValid = false;
+      result.valid = false;
+      result.complete = false;
+    } else if (listed.some(alg => fileResult.hashes[alg] !== hashes[alg])) {
+      result.errors.push(`Tag file hash mismatch: ${tagPath}`);
+      result.tagFilesValid = false;
+      result.valid = false;
     }
-  } catch {
-    // Tag manifest is optional per RFC but we check if present
+  }
+
+  if (options.profile) {
+    result.profile = await checkBagProfile(reader, options.profile, serialization);
   }
 
   result.durationMs = performance.now() - startTime;
@@ -421,22 +509,99 @@ export async function verifyBag(
 }
 
 /**
- * Parse a manifest file into entries
+ * Complete a holey bag: fetch every fetch.txt entry that is absent or does not
+ * match the payload manifest, verify it, and move it into place.
+ * Once every entry is present and verified, fetch.txt is removed (and dropped
+ * from the tag manifest), which marks the bag complete.
  */
-function parseManifest(content: string): Array<{ hash: string; path: string }> {
-  const entries: Array<{ hash: string; path: string }> = [];
-  const lines = content.split('\n').filter(line => line.trim());
-
-  for (const line of lines) {
-    // Format: hash<two spaces>path
-    const match = line.match(/^([a-f0-9]+)\s{2}(.+)$/);
-    if (match) {
-      entries.push({ hash: match[1], path: match[2] });
+export async function completeBag(
+  bagPath: string,
+  options: { onProgress?: (current: number, total: number, file: string) => void } = {}
+): Promise<BagItCompleteResult> {
+  const startTime = performance.now();
+  const resolvedBag = path.resolve(bagPath);
+  const dataDir = path.join(resolvedBag, 'data');
+
+  if (await isFile(resolvedBag) && serializationOf(resolvedBag)) {
+    throw new Error(`Extract the serialized bag before completing it: ${resolvedBag}`);
+  }
+  const names = await fs.readdir(resolvedBag).catch(() => []);
+  const algorithms = manifestAlgorithms(names);
+  if (algorithms.length === 0) {
+    throw new Error(`Not a bag (no payload manifest): ${resolvedBag}`);
+  }
+  const expected = await readBagManifests(directoryReader(resolvedBag), algorithms);
+  const fetchEntries = await readFetchFile(resolvedBag);
+
+  const result: BagItCompleteResult = {
+    bagPath: resolvedBag,
+    complete: false,
+    fetched: [],
+    alreadyPresent: 0,
+    failed: [],
+    bytesFetched: 0,
+    durationMs: 0
+  };
+
+  for (const [index, entry] of fetchEntries.entries()) {
+    options.onProgress?.(index + 1, fetchEntries.length, entry.path);
+
+    const hashes = expected.get(entry.path);
+    const destination = path.resolve(resolvedBag, entry.path);
+    if (!hashes || !destination.startsWith(dataDir + path.sep)) {
+      const error = hashes ? 'path is outside data/' : 'not in the payload manifest';
+      result.failed.push({ path: entry.path, url: entry.url, error });
+      continue;
+    }
+    const listed = algorithms.filter(alg => hashes[alg]);
+    const mismatch = (digests: BagFileDigests): BagItAlgorithm | undefined =>
+      listed.find(alg => digests.hashes[alg] !== hashes[alg]);
+
+    // A file already in place counts if it matches; anything else is fetched again
+    try {
+      if (!mismatch(await hashBagFile(destination, listed, { fresh: true }))) {
+        result.alreadyPresent++;
+        continue;
+      }
+    } catch {
+      // Not fetched yet
+    }
+
+    const partial = `${destination}.part`;
+    try {
+      const size = await downloadToFile(entry.url, partial);
+      if (entry.length !== undefined && size !== entry.length) {
+        throw new Error(`expected ${entry.length} octets, got ${size}`);
+      }
+      const digests = await hashBagFile(partial, listed, { fresh: true });
+      const algorithm = mismatch(digests);
+      if (algorithm) {
+        throw new Error(`${algorithm} mismatch: expected ${hashes[algorithm]}, got ${digests.hashes[algorithm]}`);
+      }
+      await fs.rename(partial, destination);
+      result.fetched.push(entry.path);
+      result.bytesFetched += size;
+    } catch (err) {
+      await fs.rm(partial, { force: true });
+      result.failed.push({ path: entry.path, url: entry.url, error: err instanceof Error ? err.message : String(err) });
     }
   }
 
-  return entries;
+  result.complete = result.failed.length === 0;
+  if (result.complete && fetchEntries.length > 0) {
+    await fs.rm(path.join(resolvedBag, FETCH_FILE));
+    await writeTagManifests(resolvedBag, manifestAlgorithms(names, 'tagmanifest'));
+  }
+
+  result.durationMs = performance.now() - startTime;
+  return result;
 }
 
 // Re-export schemas
 export * from './schemas.js';
+export * from './fetch.js';
+export * from './manifest.js';
+export * from './profile.js';
+export * from './reader.js';
+export * from './serialize.js';
+export * from './update.js';
@@ -0,0 +1,141 @@
+/**
+ * BagIt manifests and tag files
+ * Reading and writing manifest-<alg>.txt and tagmanifest-<alg>.txt, shared by
+ * creating, completing and updating bags. A bag may carry one manifest per
+ * algorithm; each lists every payload (or tag) file.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { FETCH_FILE } from './fetch.js';
+import { hashBagFile, type BagReader } from './reader.js';
+import { BagItAlgorithmSchema, type BagItAlgorithm } from './schemas.js';
+
+export interface BagManifestEntry {
+  hash: string;
+  path: string;
+}
+
+/**
+ * Parse a payload or tag manifest (manifest-<alg>.txt) into entries
+ */
+export function parseBagManifest(content: string): BagManifestEntry[] {
+  const entries: BagManifestEntry[] = [];
+  const lines = content.split('\n').filter(line => line.trim());
+
+  for (const line of lines) {
+    // Format: hash<two spaces>path
+    const match = line.match(/^([a-f0-9]+)\s{2}(.+)$/);
+    if (match) {
+      entries.push({ hash: match[1], path: match[2] });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Format manifest entries, sorted by path
+ * RFC 8493: hash + two spaces + path (Unix-style forward slashes)
+ */
+export function formatBagManifest(entries: BagManifestEntry[]): string {
+  const sorted = [...entries].sort((a, b) => a.path.localeCompare(b.path));
+  return sorted.map(e => `${e.hash}  ${e.path}`).join('\n') + '\n';
+}
+
+/**
+ * Algorithms of the payload (or tag) manifests among a bag's top-level files,
+ * in BagItAlgorithmSchema order; manifests of other algorithms are ignored
+ */
+export function manifestAlgorithms(files: string[], kind: 'manifest' | 'tagmanifest' = 'manifest'): BagItAlgorithm[] {
+  return BagItAlgorithmSchema.options.filter(algorithm => files.includes(`${kind}-${algorithm}.txt`));
+}
+
+/**
+ * Digests per file from a bag's manifests of the given algorithms; a file one
+ * manifest leaves out has no digest for that algorithm
+ */
+export async function readBagManifests(
+  reader: BagReader,
+  algorithms: BagItAlgorithm[],
+  kind: 'manifest' | 'tagmanifest' = 'manifest'
+): Promise<Map<string, Partial<Record<BagItAlgorithm, string>>>> {
+  const digests = new Map<string, Partial<Record<BagItAlgorithm, string>>>();
+  for (const algorithm of algorithms) {
+    for (const entry of parseBagManifest(await reader.readText(`${kind}-${algorithm}.txt`) ?? '')) {
+      digests.set(entry.path, { ...digests.get(entry.path), [algorithm]: entry.hash });
+    }
+  }
+  return digests;
+}
+
+/**
+ * Write tagmanifest-<alg>.txt for each algorithm and remove the bag's other tag
+ * manifests. They list bagit.txt, bag-info.txt, the payload manifests, fetch.txt
+ * and any other tag file the previous tag manifests listed, as far as they exist.
+ */
+export async function writeTagManifests(bagPath: string, algorithms: BagItAlgorithm[]): Promise<string[]> {
+  const names = await fs.readdir(bagPath);
+  const listed = new Set(['bagit.txt', 'bag-info.txt', ...names.filter(name => /^manifest-\w+\.txt$/.test(name)), FETCH_FILE]);
+  for (const algorithm of manifestAlgorithms(names, 'tagmanifest')) {
+    const tagManifestPath = path.join(bagPath, `tagmanifest-${algorithm}.txt`);
+    parseBagManifest(await fs.readFile(tagManifestPath, 'utf-8')).forEach(e => listed.add(e.path));
+    if (!algorithms.includes(algorithm)) await fs.rm(tagManifestPath);
+  }
+
+  const entries = new Map<BagItAlgorithm, BagManifestEntry[]>(algorithms.map(algorithm => [algorithm, []]));
+  for (const relativePath of listed) {
+    // Tag manifests never list one another
+    if (/^tagmanifest-\w+\.txt$/.test(relativePath)) continue;
+    try {
+      // Tag files change within the same second, so the hash cache is bypassed
+      const { hashes } = await hashBagFile(path.join(bagPath, relativePath), algorithms, { fresh: true });
+      algorithms.forEach(algorithm => entries.get(algorithm)!.push({ hash: hashes[algorithm]!, path: relativePath }));
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    }
+  }
+
+  for (const [algorithm, tagEntries] of entries) {
+    await fs.writeFile(path.join(bagPath, `tagmanifest-${algorithm}.txt`), formatBagManifest(tagEntries), 'utf-8');
+  }
+  return algorithms.map(algorithm => `tagmanifest-${algorithm}.txt`);
+}
+
+/**
+ * Set bag-info.txt elements: the first element with each label gets the new
+ * value (its continuation lines are dropped), labels not present are appended,
+ * and every other line is kept as it was
+ */
+export function setBagInfoTags(content: string, tags: Record<string, string>): string {
+  const pending = new Map(Object.entries(tags).map(([label, value]) => [label.toLowerCase(), `${label}: ${value}`]));
+  const existing = content.replace(/\n+$/, '');
+  const lines: string[] = [];
+  let replacing = false;
+
+  for (const line of existing ? existing.split('\n') : []) {
+    if (replacing && /^[ \t]/.test(line)) continue;
+    replacing = false;
+    const label = /^([^:\s][^:]*):/.exec(line)?.[1].trim().toLowerCase();
+    const replacement = label !== undefined ? pending.get(label) : undefined;
+    if (replacement !== undefined) {
+      lines.push(replacement);
+      pending.delete(label!);
+      replacing = true;
+    } else {
+      lines.push(line);
+    }
+  }
+
+  return [...lines, ...pending.values()].join('\n') + '\n';
+}
+
+/**
+ * Format bytes as human-readable size (Bag-Size)
+ */
+export function formatBagSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
@@ -0,0 +1,362 @@
+/**
+ * BagIt Profiles (bagit-profiles spec 1.4)
+ * Check bags, and bags about to be created, against a partner's profile JSON:
+ * bag-info tags, manifest algorithms, fetch.txt, serialization and file rules.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { FETCH_FILE, parseFetchFile } from './fetch.js';
+import { directoryReader, type BagReader } from './reader.js';
+import { SERIALIZATION_MIME_TYPES, readSerializedBag, serializationOf } from './serialize.js';
+import {
+  BagItAlgorithmSchema,
+  BagItProfileSchema,
+  type BagItAlgorithm,
+  type BagItSerialization,
+  type BagItProfile,
+  type BagItProfileReport,
+  type BagItProfileRuleResult
+} from './schemas.js';
+
+/**
+ * One bag-info.txt element; labels may repeat
+ */
+export interface BagInfoEntry {
+  label: string;
+  value: string;
+}
+
+/**
+ * What the rules look at, read from a bag or planned for a new one
+ */
+interface BagFacts {
+  bagItVersion?: string;
+  bagInfo: BagInfoEntry[];
+  manifests: string[]; // Algorithms of manifest-<alg>.txt
+  tagManifests: string[]; // Algorithms of tagmanifest-<alg>.txt
+  hasFetch: boolean;
+  serialization?: BagItSerialization; // Unset for a directory bag
+  tagFiles: string[]; // Paths outside data/, relative to the bag
+  payloadFiles?: string[]; // Paths under data/, relative to the bag; unknown before creation
+  emptyPayload?: boolean; // data/ holds exactly one zero-length file
+}
+
+/**
+ * Bag-info tags wnb writes itself when creating a bag
+ */
+const GENERATED_TAGS = ['Bag-Software-Agent', 'Bagging-Date', 'Payload-Oxum', 'Bag-Size', 'BagIt-Profile-Identifier'];
+
+/**
+ * Validate profile JSON
+ */
+export function parseBagItProfile(data: unknown, source = 'Profile'): BagItProfile {
+  const parsed = BagItProfileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`${source} is not a BagIt profile: ${issue.path.join('.') || 'profile'}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Load a profile from a file or an http(s) URL
+ */
+export async function loadBagItProfile(source: string): Promise<BagItProfile> {
+  let text: string;
+  if (/^https?:\/\//i.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Could not fetch BagIt profile ${source}: HTTP ${response.status}`);
+    }
+    text = await response.text();
+  } else {
+    text = await fs.readFile(source, 'utf-8');
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${source} is not a BagIt profile: invalid JSON`);
+  }
+  return parseBagItProfile(data, source);
+}
+
+/**
+ * Parse bag-info.txt; lines starting with whitespace continue the previous value
+ */
+export function parseBagInfo(content: string): BagInfoEntry[] {
+  const entries: BagInfoEntry[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    if (/^[ \t]/.test(line) && entries.length > 0) {
+      entries[entries.length - 1].value += ' ' + line.trim();
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      entries.push({ label: line.slice(0, colon).trim(), value: line.slice(colon + 1).trim() });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Required bag-info tags a new bag would lack (for prompting)
+ */
+export function missingBagInfoTags(profile: BagItProfile, bagInfo: Record<string, string> = {}): string[] {
+  const given = new Set([...GENERATED_TAGS, ...Object.keys(bagInfo)].map(label => label.toLowerCase()));
+  return Object.entries(profile['Bag-Info'])
+    .filter(([label, rule]) => rule.required && !given.has(label.toLowerCase()))
+    .map(([label]) => label);
+}
+
+/**
+ * Manifest algorithms wnb can write that the profile asks for: every required
+ * one, else the first allowed one (empty when it names none wnb knows)
+ */
+export function profileAlgorithms(profile: BagItProfile): BagItAlgorithm[] {
+  const known = (algorithms: string[]): BagItAlgorithm[] =>
+    algorithms.flatMap(alg => BagItAlgorithmSchema.safeParse(alg).data ?? []);
+  const required = known(profile['Manifests-Required']);
+  return required.length > 0 ? [...new Set(required)] : known(profile['Manifests-Allowed'] ?? []).slice(0, 1);
+}
+
+/**
+ * Problems that keep a bag about to be created from meeting the profile
+ * Payload rules are left to verification.
+ */
+export function checkProfileForCreate(
+  profile: BagItProfile,
+  plan: { algorithms: BagItAlgorithm[]; bagInfo: Record<string, string>; fetch: boolean; serialization?: BagItSerialization }
+): string[] {
+  const bagInfo: Record<string, string> = {
+    'Bag-Software-Agent': 'wake-n-blake',
+    'Bagging-Date': new Date().toISOString().split('T')[0],
+    'Payload-Oxum': '',
+    'Bag-Size': '',
+    'BagIt-Profile-Identifier': profile['BagIt-Profile-Info']['BagIt-Profile-Identifier'],
+    ...plan.bagInfo
+  };
+  const manifests = plan.algorithms.flatMap(alg => [`manifest-${alg}.txt`, `tagmanifest-${alg}.txt`]);
+
+  const rules = evaluateProfile(profile, {
+    bagItVersion: '1.0',
+    bagInfo: Object.entries(bagInfo).map(([label, value]) => ({ label, value })),
+    manifests: plan.algorithms,
+    tagManifests: plan.algorithms,
+    hasFetch: plan.fetch,
+    serialization: plan.serialization,
+    tagFiles: ['bagit.txt', 'bag-info.txt', ...manifests, ...(plan.fetch ? [FETCH_FILE] : [])]
+  });
+  return rules.filter(r => !r.passed).map(r => `${r.rule}: ${r.message}`);
+}
+
+/**
+ * Check a bag (directory or serialized) against a profile, one result per rule
+ */
+export async function validateBagProfile(bagPath: string, profile: BagItProfile): Promise<BagItProfileReport> {
+  const resolvedBag = path.resolve(bagPath);
+  const serialization = serializationOf(resolvedBag);
+  if (serialization && (await fs.stat(resolvedBag).catch(() => undefined))?.isFile()) {
+    const archive = await readSerializedBag(resolvedBag);
+    return checkBagProfile(archive.reader, profile, serialization);
+  }
+  return checkBagProfile(directoryReader(resolvedBag), profile);
+}
+
+/**
+ * Check a bag, as read by a BagReader, against a profile
+ */
+export async function checkBagProfile(
+  reader: BagReader,
+  profile: BagItProfile,
+  serialization?: BagItSerialization
+): Promise<BagItProfileReport> {
+  const bagitTxt = await reader.readText('bagit.txt');
+  const bagItVersion = bagitTxt === undefined
+    ? undefined
+    : parseBagInfo(bagitTxt).find(e => e.label === 'BagIt-Version')?.value;
+  const bagInfoTxt = await reader.readText('bag-info.txt');
+
+  const files = await reader.files();
+  const tagFiles = files.filter(f => !f.startsWith('data/'));
+  const manifests = tagFiles.flatMap(f => /^manifest-(\w+)\.txt$/.exec(f)?.[1] ?? []);
+  const tagManifests = tagFiles.flatMap(f => /^tagmanifest-(\w+)\.txt$/.exec(f)?.[1] ?? []);
+
+  // Files listed in fetch.txt are part of the payload even before they are fetched
+  const present = files.filter(f => f.startsWith('data/'));
+  let fetchPaths: string[] = [];
+  try {
+    fetchPaths = parseFetchFile(await reader.readText(FETCH_FILE) ?? '').map(e => e.path);
+  } catch {
+    // An unreadable fetch.txt is reported by verification
+  }
+  const payloadFiles = [...new Set([...present, ...fetchPaths])].sort();
+  const emptyPayload = payloadFiles.length === 1 && present.length === 1 && await reader.size(present[0]) === 0;
+
+  const rules = evaluateProfile(profile, {
+    bagItVersion,
+    bagInfo: bagInfoTxt === undefined ? [] : parseBagInfo(bagInfoTxt),
+    manifests,
+    tagManifests,
+    hasFetch: tagFiles.includes(FETCH_FILE),
+    serialization,
+    tagFiles,
+    payloadFiles,
+    emptyPayload
+  });
+
+  return {
+    identifier: profile['BagIt-Profile-Info']['BagIt-Profile-Identifier'],
+    valid: rules.every(r => r.passed),
+    rules
+  };
+}
+
+/**
+ * Apply every rule the profile states to the facts of a bag
+ */
+function evaluateProfile(profile: BagItProfile, bag: BagFacts): BagItProfileRuleResult[] {
+  const rules: BagItProfileRuleResult[] = [];
+  const check = (rule: string, passed: boolean, message: string): void => {
+    rules.push({ rule, passed, message });
+  };
+
+  // Profile identifier the bag declares, if any
+  const identifier = profile['BagIt-Profile-Info']['BagIt-Profile-Identifier'];
+  const declared = valuesOf(bag.bagInfo, 'BagIt-Profile-Identifier');
+  if (declared.length > 0) {
+    check('BagIt-Profile-Identifier', declared.includes(identifier),
+      declared.includes(identifier) ? 'bag names this profile' : `bag names ${declared.join(', ')}`);
+  }
+
+  const versions = profile['Accept-BagIt-Version'];
+  if (versions) {
+    const version = bag.bagItVersion ?? 'none';
+    check('Accept-BagIt-Version', versions.includes(version), `BagIt-Version ${version}${versions.includes(version) ? '' : `, accepted: ${versions.join(', ')}`}`);
+  }
+
+  for (const [label, tag] of Object.entries(profile['Bag-Info'])) {
+    const values = valuesOf(bag.bagInfo, label);
+    const rule = `Bag-Info: ${label}`;
+    if (values.length === 0) {
+      check(rule, !tag.required, tag.required ? 'required, missing' : 'optional, absent');
+    } else if (!tag.repeatable && values.length > 1) {
+      check(rule, false, `appears ${values.length} times, not repeatable`);
+    } else {
+      const disallowed = tag.values ? values.filter(v => !tag.values?.includes(v)) : [];
+      check(rule, disallowed.length === 0, disallowed.length === 0
+        ? 'present'
+        : `"${disallowed.join('", "')}" is not one of: ${tag.values?.join(', ')}`);
+    }
+  }
+
+  checkAlgorithms('Manifests', bag.manifests, profile['Manifests-Required'], profile['Manifests-Allowed'], check);
+  checkAlgorithms('Tag-Manifests', bag.tagManifests, profile['Tag-Manifests-Required'], profile['Tag-Manifests-Allowed'], check);
+
+  if (!profile['Allow-Fetch.txt']) {
+    check('Allow-Fetch.txt', !bag.hasFetch, bag.hasFetch ? 'fetch.txt is not allowed' : 'no fetch.txt');
+  }
+  if (profile['Fetch.txt-Required']) {
+    check('Fetch.txt-Required', bag.hasFetch, bag.hasFetch ? 'fetch.txt present' : 'fetch.txt is required');
+  }
+
+  const serialization = profile['Serialization'];
+  if (bag.serialization) {
+    check('Serialization', serialization !== 'forbidden', serialization === 'forbidden' ? 'serialized bags are not allowed' : `${bag.serialization} archive`);
+    const accepted = profile['Accept-Serialization'];
+    if (accepted) {
+      const types = SERIALIZATION_MIME_TYPES[bag.serialization];
+      const ok = types.some(type => accepted.includes(type));
+      check('Accept-Serialization', ok, ok ? `${bag.serialization} accepted` : `${bag.serialization} (${types[0]}) not accepted: ${accepted.join(', ')}`);
+    }
+  } else {
+    check('Serialization', serialization !== 'required', serialization === 'required' ? 'a serialized bag is required' : 'directory bag');
+  }
+
+  for (const required of profile['Tag-Files-Required']) {
+    const found = bag.tagFiles.includes(required);
+    check(`Tag-Files-Required: ${required}`, found, found ? 'present' : 'missing');
+  }
+  const allowedTags = profile['Tag-Files-Allowed'];
+  if (allowedTags) {
+    const others = bag.tagFiles.filter(f => !isStandardTagFile(f));
+    const disallowed = others.filter(f => !allowedTags.some(p => matchGlob(f, p)));
+    check('Tag-Files-Allowed', disallowed.length === 0, disallowed.length === 0
+      ? `${others.length} other tag files allowed`
+      : `not allowed: ${disallowed.join(', ')}`);
+  }
+
+  // Payload rules need the payload, which is only known once the bag exists
+  if (bag.payloadFiles) {
+    const payload = bag.payloadFiles;
+    for (const required of profile['Payload-Files-Required']) {
+      const target = required.replace(/\/+$/, '');
+      const found = payload.some(f => f === target || f.startsWith(target + '/'));
+      check(`Payload-Files-Required: ${required}`, found, found ? 'present' : 'missing');
+    }
+    const allowedPayload = profile['Payload-Files-Allowed'];
+    if (allowedPayload) {
+      const disallowed = payload.filter(f => !allowedPayload.some(p => matchGlob(f, p)));
+      check('Payload-Files-Allowed', disallowed.length === 0, disallowed.length === 0
+        ? `${payload.length} payload files allowed`
+        : `not allowed: ${disallowed.slice(0, 10).join(', ')}${disallowed.length > 10 ? ` and ${disallowed.length - 10} more` : ''}`);
+    }
+    if (profile['Data-Empty']) {
+      check('Data-Empty', bag.emptyPayload === true,
+        bag.emptyPayload ? 'data/ holds one zero-length file' : `data/ must hold one zero-length file, has ${payload.length} files`);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Manifests-Required/-Allowed and Tag-Manifests-Required/-Allowed
+ */
+function checkAlgorithms(
+  kind: string,
+  present: string[],
+  required: string[],
+  allowed: string[] | undefined,
+  check: (rule: string, passed: boolean, message: string) => void
+): void {
+  const file = kind === 'Manifests' ? 'manifest' : 'tagmanifest';
+  for (const alg of required) {
+    const found = present.includes(alg);
+    check(`${kind}-Required: ${alg}`, found, found ? `${file}-${alg}.txt present` : `${file}-${alg}.txt missing`);
+  }
+  if (allowed) {
+    const disallowed = present.filter(alg => !allowed.includes(alg));
+    check(`${kind}-Allowed`, disallowed.length === 0, disallowed.length === 0
+      ? `${present.join(', ') || 'none'} allowed`
+      : `${disallowed.join(', ')} not allowed (allowed: ${allowed.join(', ')})`);
+  }
+}
+
+/**
+ * Values of a bag-info label (labels compare case-insensitively)
+ */
+function valuesOf(bagInfo: BagInfoEntry[], label: string): string[] {
+  const wanted = label.toLowerCase();
+  return bagInfo.filter(e => e.label.toLowerCase() === wanted).map(e => e.value);
+}
+
+/**
+ * Tag files every bag may hold, whatever Tag-Files-Allowed says
+ */
+function isStandardTagFile(file: string): boolean {
+  return ['bagit.txt', 'bag-info.txt', FETCH_FILE].includes(file) || /^(tag)?manifest-\w+\.txt$/.test(file);
+}
+
+/**
+ * Glob match on bag paths: * and ? stay within a path segment, ** crosses them
+ */
+function matchGlob(file: string, pattern: string): boolean {
+  const regex = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*|\*|\?/g, token => token === '**' ? '.*' : token === '*' ? '[^/]*' : '[^/]');
+  return new RegExp(`^${regex}$`).test(file);
+}
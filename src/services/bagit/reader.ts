@@ -0,0 +1,111 @@
+/**
+ * BagIt bag access
+ * Verification and profile checks read a bag through a BagReader, so a
+ * directory and a serialized bag (scanned once, see serialize.ts) are checked alike.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { createReadStream, type Dirent } from 'node:fs';
+import { hashFile, hashStream } from '../../core/hasher.js';
+import type { BagItAlgorithm } from './schemas.js';
+
+/**
+ * Read access to a bag; paths are relative to the bag, with forward slashes
+ */
+export interface BagReader {
+  /** Every file in the bag, sorted */
+  files(): Promise<string[]>;
+  hasDirectory(relativePath: string): Promise<boolean>;
+  /** Content of a tag file; undefined when absent */
+  readText(relativePath: string): Promise<string | undefined>;
+  size(relativePath: string): Promise<number | undefined>;
+  /** Digests of a file, one per algorithm; undefined when absent */
+  digest(relativePath: string, algorithms: BagItAlgorithm[]): Promise<BagFileDigests | undefined>;
+}
+
+export interface BagFileDigests {
+  hashes: Partial<Record<BagItAlgorithm, string>>;
+  size: number;
+}
+
+/**
+ * Reader for a bag directory
+ */
+export function directoryReader(bagPath: string): BagReader {
+  const resolve = (relativePath: string): string => path.join(bagPath, relativePath);
+  return {
+    files: () => listFiles(bagPath),
+    async hasDirectory(relativePath) {
+      try {
+        return (await fs.stat(resolve(relativePath))).isDirectory();
+      } catch {
+        return false;
+      }
+    },
+    async readText(relativePath) {
+      try {
+        return await fs.readFile(resolve(relativePath), 'utf-8');
+      } catch (err: unknown) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+        throw err;
+      }
+    },
+    async size(relativePath) {
+      try {
+        return (await fs.stat(resolve(relativePath))).size;
+      } catch {
+        return undefined;
+      }
+    },
+    async digest(relativePath, algorithms) {
+      try {
+        // Verification re-reads the payload; only trust mode serves it from the hash cache
+        return await hashBagFile(resolve(relativePath), algorithms, { fresh: true });
+      } catch {
+        return undefined;
+      }
+    }
+  };
+}
+
+/**
+ * Hash a file with every manifest algorithm of a bag in one read
+ * A single algorithm goes through hashFile, and so through the hash cache
+ * unless fresh is set.
+ */
+export async function hashBagFile(
+  filePath: string,
+  algorithms: BagItAlgorithm[],
+  options: { fresh?: boolean } = {}
+): Promise<BagFileDigests> {
+  if (algorithms.length === 1) {
+    const result = await hashFile(filePath, { algorithm: algorithms[0], fresh: options.fresh });
+    return { hashes: { [algorithms[0]]: result.hash }, size: result.size };
+  }
+  const { hashes, size } = await hashStream(createReadStream(filePath), algorithms);
+  return { hashes, size };
+}
+
+/**
+ * List files below a directory, hidden ones included, as paths under prefix
+ */
+export async function listFiles(dir: string, prefix = ''): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isFile()) {
+      files.push(relative);
+    } else if (entry.isDirectory()) {
+      files.push(...await listFiles(path.join(dir, entry.name), relative));
+    }
+  }
+  return files.sort();
+}
@@ -29,38 +29,112 @@ export const BagInfoSchema = z.object({
   'Internal-Sender-Description': z.string().optional()
 });
 
+// ============================================
+// BAGIT PROFILE SCHEMA (bagit-profiles spec 1.4)
+// ============================================
+
+export const BagItProfileTagSchema = z.object({
+  required: z.boolean().default(false),
+  values: z.array(z.string()).optional(), // Allowed values; any value when absent
+  repeatable: z.boolean().default(true),
+  description: z.string().optional()
+}).passthrough();
+
+export const BagItProfileSchema = z.object({
+  'BagIt-Profile-Info': z.object({
+    'BagIt-Profile-Identifier': z.string(),
+    'BagIt-Profile-Version': z.string().optional(),
+    'Source-Organization': z.string().optional(),
+    'External-Description': z.string().optional(),
+    'Version': z.string().optional(),
+    'Contact-Name': z.string().optional(),
+    'Contact-Email': z.string().optional()
+  }).passthrough(),
+  'Bag-Info': z.record(BagItProfileTagSchema).default({}),
+  'Manifests-Required': z.array(z.string()).default([]),
+  'Manifests-Allowed': z.array(z.string()).optional(),
+  'Tag-Manifests-Required': z.array(z.string()).default([]),
+  'Tag-Manifests-Allowed': z.array(z.string()).optional(),
+  'Allow-Fetch.txt': z.boolean().default(true),
+  'Fetch.txt-Required': z.boolean().default(false),
+  'Serialization': z.enum(['forbidden', 'required', 'optional']).default('optional'),
+  'Accept-Serialization': z.array(z.string()).optional(), // MIME types
+  'Accept-BagIt-Version': z.array(z.string()).optional(),
+  'Tag-Files-Required': z.array(z.string()).default([]),
+  'Tag-Files-Allowed': z.array(z.string()).optional(), // Glob patterns
+  'Payload-Files-Required': z.array(z.string()).default([]),
+  'Payload-Files-Allowed': z.array(z.string()).optional(), // Glob patterns
+  'Data-Empty': z.boolean().default(false)
+}).passthrough();
+
+// One checked requirement, e.g. rule "Bag-Info: Contact-Email"
+export const BagItProfileRuleResultSchema = z.object({
+  rule: z.string(),
+  passed: z.boolean(),
+  message: z.string()
+});
+
+export const BagItProfileReportSchema = z.object({
+  identifier: z.string(),
+  valid: z.boolean(),
+  rules: z.array(BagItProfileRuleResultSchema)
+});
+
 // ============================================
 // BAGIT OPTIONS & RESULTS
 // ============================================
 
-export const BagItAlgorithmSchema = z.enum(['sha256', 'sha512']);
+// RFC 8493 manifest algorithms; a bag with several reports the first in this order
+export const BagItAlgorithmSchema = z.enum(['sha256', 'sha512', 'sha1', 'md5']);
+
+export const BagItSerializationSchema = z.enum(['tar', 'tgz', 'zip']);
+
+export const BagItSerializedResultSchema = z.object({
+  format: BagItSerializationSchema,
+  archivePath: z.string(),
+  checksumPath: z.string(), // <archive>.<algorithm>, sha256sum format
+  checksum: z.string()
+});
 
 export const BagItOptionsSchema = z.object({
   algorithm: BagItAlgorithmSchema.default('sha256'),
+  algorithms: z.array(BagItAlgorithmSchema).optional(), // One manifest per algorithm (overrides algorithm)
   inPlace: z.boolean().default(true),
   outputPath: z.string().optional(),
   bagInfo: z.record(z.string()).optional(),
   includeHiddenFiles: z.boolean().default(false),
   excludePatterns: z.array(z.string()).optional(),
+  // Holey bags: payload files matching these patterns go to fetch.txt instead of data/
+  fetchPatterns: z.array(z.string()).optional(),
+  fetchUrl: z.string().optional(), // Base URL of fetched files (default: file: URLs of the sources)
+  profile: BagItProfileSchema.optional(), // Bag must meet it; its identifier goes into bag-info.txt
+  serialize: BagItSerializationSchema.optional(), // Also write the bag as an archive beside it
   onProgress: z.function().args(z.number(), z.number(), z.string()).optional()
 });
 
 export const BagItResultSchema = z.object({
   bagPath: z.string(),
-  algorithm: BagItAlgorithmSchema,
+  algorithm: BagItAlgorithmSchema, // First of algorithms
+  algorithms: z.array(BagItAlgorithmSchema),
   payloadOxum: z.string(),
   fileCount: z.number().int().nonnegative(),
   totalBytes: z.number().int().nonnegative(),
   durationMs: z.number().nonnegative(),
   tagFiles: z.array(z.string()),
-  payloadManifest: z.string(),
-  tagManifest: z.string()
+  payloadManifest: z.string(), // Manifests of the first algorithm
+  tagManifest: z.string(),
+  fetchFiles: z.number().int().nonnegative(), // Payload files listed in fetch.txt
+  serialized: BagItSerializedResultSchema.optional()
 });
 
+// Complete: every payload and tag file is present (nothing left to fetch).
+// Valid: complete, and every checksum and the Payload-Oxum match.
 export const BagItVerifyResultSchema = z.object({
   valid: z.boolean(),
+  complete: z.boolean(),
   bagPath: z.string(),
-  algorithm: BagItAlgorithmSchema,
+  algorithm: BagItAlgorithmSchema, // First of algorithms
+  algorithms: z.array(BagItAlgorithmSchema), // Every payload manifest is verified
   payloadValid: z.boolean(),
   tagFilesValid: z.boolean(),
   payloadOxumMatch: z.boolean(),
@@ -69,11 +143,41 @@ export const BagItVerifyResultSchema = z.object({
   missingFiles: z.array(z.string()),
   invalidFiles: z.array(z.object({
     path: z.string(),
+    algorithm: BagItAlgorithmSchema, // First manifest the file does not match
     expected: z.string(),
     actual: z.string()
   })),
   extraFiles: z.array(z.string()),
+  fetchPending: z.array(z.string()), // Listed in fetch.txt, not fetched yet
   errors: z.array(z.string()),
+  serialization: BagItSerializationSchema.optional(), // Set when the bag is an archive
+  archiveChecksumMatch: z.boolean().optional(), // Checksum file beside the archive, if there is one
+  profile: BagItProfileReportSchema.optional(), // When verified against a profile
+  durationMs: z.number().nonnegative()
+});
+
+export const BagItCompleteResultSchema = z.object({
+  bagPath: z.string(),
+  complete: z.boolean(),
+  fetched: z.array(z.string()),
+  alreadyPresent: z.number().int().nonnegative(),
+  failed: z.array(z.object({
+    path: z.string(),
+    url: z.string(),
+    error: z.string()
+  })),
+  bytesFetched: z.number().int().nonnegative(),
+  durationMs: z.number().nonnegative()
+});
+
+// Adding, removing or regenerating payload in an existing bag
+export const BagItUpdateResultSchema = z.object({
+  bagPath: z.string(),
+  algorithms: z.array(BagItAlgorithmSchema),
+  added: z.array(z.string()),
+  removed: z.array(z.string()),
+  changed: z.array(z.string()), // Regenerate: files whose digests differ from the old manifest
+  payloadOxum: z.string(),
   durationMs: z.number().nonnegative()
 });
 
@@ -83,6 +187,14 @@ export const BagItVerifyResultSchema = z.object({
 
 export type BagInfo = z.infer<typeof BagInfoSchema>;
 export type BagItAlgorithm = z.infer<typeof BagItAlgorithmSchema>;
+export type BagItSerialization = z.infer<typeof BagItSerializationSchema>;
+export type BagItSerializedResult = z.infer<typeof BagItSerializedResultSchema>;
 export type BagItOptions = z.infer<typeof BagItOptionsSchema>;
 export type BagItResult = z.infer<typeof BagItResultSchema>;
 export type BagItVerifyResult = z.infer<typeof BagItVerifyResultSchema>;
+export type BagItCompleteResult = z.infer<typeof BagItCompleteResultSchema>;
+export type BagItUpdateResult = z.infer<typeof BagItUpdateResultSchema>;
+export type BagItProfile = z.infer<typeof BagItProfileSchema>;
+export type BagItProfileTag = z.infer<typeof BagItProfileTagSchema>;
+export type BagItProfileRuleResult = z.infer<typeof BagItProfileRuleResultSchema>;
+export type BagItProfileReport = z.infer<typeof BagItProfileReportSchema>;
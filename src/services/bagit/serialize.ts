@@ -0,0 +1,287 @@
+/**
+ * Serialized bags (RFC 8493 section 4.2)
+ * A bag written as one tar, tar.gz or zip archive holding a single top-level
+ * directory named after the bag, with a checksum file beside the archive.
+ * Serialized bags are verified by streaming through the archive once.
+ */
+
+import * as fs from 'node:fs';
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as zlib from 'node:zlib';
+import { PassThrough, Readable, Transform, pipeline } from 'node:stream';
+import { pipeline as pipelineAsync } from 'node:stream/promises';
+import { createDigest, type Digest } from '../../core/digests.js';
+import { hashFile } from '../../core/hasher.js';
+import { listZip, openZipEntry, readTar, tarStream, zipStream, type ArchiveEntry } from './archive.js';
+import type { BagReader } from './reader.js';
+import {
+  BagItAlgorithmSchema,
+  type BagItAlgorithm,
+  type BagItSerialization,
+  type BagItSerializedResult
+} from './schemas.js';
+
+export const SERIALIZATION_EXTENSIONS: Record<BagItSerialization, string> = {
+  tar: '.tar',
+  tgz: '.tar.gz',
+  zip: '.zip'
+};
+
+/**
+ * MIME types a profile's Accept-Serialization may use for each format
+ */
+export const SERIALIZATION_MIME_TYPES: Record<BagItSerialization, string[]> = {
+  tar: ['application/tar', 'application/x-tar'],
+  tgz: ['application/gzip', 'application/x-gzip', 'application/tar+gzip', 'application/x-gtar', 'application/x-compressed-tar'],
+  zip: ['application/zip', 'application/x-zip-compressed']
+};
+
+/**
+ * A serialized bag, scanned
+ */
+export interface SerializedBag {
+  format: BagItSerialization;
+  reader: BagReader;
+  /** Checksum file found beside the archive */
+  checksumPath?: string;
+  checksumMatch?: boolean;
+}
+
+/**
+ * Serialization format from an archive name (.tar, .tar.gz, .tgz, .zip)
+ */
+export function serializationOf(filePath: string): BagItSerialization | undefined {
+  const name = filePath.toLowerCase();
+  if (name.endsWith('.tar.gz') || name.endsWith('.tgz')) return 'tgz';
+  if (name.endsWith('.tar')) return 'tar';
+  if (name.endsWith('.zip')) return 'zip';
+  return undefined;
+}
+
+/**
+ * Write a bag directory as <bag><ext> beside it, and <archive>.<algorithm>
+ * holding the archive's digest in sha256sum format
+ */
+export async function serializeBag(
+  bagPath: string,
+  format: BagItSerialization,
+  algorithm: BagItAlgorithm
+): Promise<BagItSerializedResult> {
+  const resolvedBag = path.resolve(bagPath);
+  const archivePath = `${resolvedBag}${SERIALIZATION_EXTENSIONS[format]}`;
+  const entries = await bagEntries(resolvedBag);
+
+  const digest = createDigest(algorithm);
+  const source = format === 'zip' ? zipStream(entries) : tarStream(entries);
+  const output = fs.createWriteStream(archivePath);
+  if (format === 'tgz') {
+    await pipelineAsync(source, zlib.createGzip(), digestTap(digest), output);
+  } else {
+    await pipelineAsync(source, digestTap(digest), output);
+  }
+
+  const checksum = digest.digest();
+  const checksumPath = `${archivePath}.${algorithm}`;
+  await fsp.writeFile(checksumPath, `${checksum}  ${path.basename(archivePath)}\n`, 'utf-8');
+  return { format, archivePath, checksumPath, checksum };
+}
+
+/**
+ * Scan a serialized bag in one pass: tag files are kept, payload files are only
+ * hashed (with the manifest algorithms once a manifest has been read, else with
+ * every BagIt algorithm). The checksum file beside the archive is checked too.
+ */
+export async function readSerializedBag(
+  archivePath: string,
+  options: { onProgress?: (current: number, total: number, file: string) => void } = {}
+): Promise<SerializedBag> {
+  const format = serializationOf(archivePath);
+  if (!format) {
+    throw new Error(`Not a serialized bag (.tar, .tar.gz, .tgz or .zip): ${archivePath}`);
+  }
+
+  const files = new Map<string, { size: number; digests: Map<BagItAlgorithm, string>; text?: string }>();
+  const directories = new Set<string>();
+  const manifestAlgorithms = new Set<BagItAlgorithm>();
+  let root: string | undefined;
+  let expectedPayload: number | undefined;
+  let payloadSeen = 0;
+
+  const relativePath = (entryPath: string): string => {
+    const [top, ...rest] = entryPath.replace(/^(\.\/)+/, '').split('/');
+    root ??= top;
+    if (top !== root) {
+      throw new Error(`A serialized bag holds a single top-level directory; found ${root} and ${top}`);
+    }
+    return rest.join('/');
+  };
+
+  const visit = async (entry: ArchiveEntry, data: AsyncIterable<Buffer>): Promise<void> => {
+    const relative = relativePath(entry.path);
+    const parts = relative.split('/');
+    for (let i = 1; i < parts.length; i++) directories.add(parts.slice(0, i).join('/'));
+    if (entry.type === 'directory') {
+      if (relative) directories.add(relative);
+      return;
+    }
+    if (!relative) {
+      throw new Error(`A serialized bag holds a single top-level directory; found file ${entry.path}`);
+    }
+
+    const payload = relative.startsWith('data/');
+    const algorithms = payload && manifestAlgorithms.size > 0 ? [...manifestAlgorithms] : BagItAlgorithmSchema.options;
+    const digests = algorithms.map(algorithm => [algorithm, createDigest(algorithm)] as const);
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of data) {
+      digests.forEach(([, digest]) => digest.update(chunk));
+      size += chunk.length;
+      if (!payload) chunks.push(chunk);
+    }
+
+    const text = payload ? undefined : Buffer.concat(chunks).toString('utf-8');
+    files.set(relative, { size, digests: new Map(digests.map(([algorithm, digest]) => [algorithm, digest.digest()])), text });
+
+    const manifest = /^manifest-(\w+)\.txt$/.exec(relative);
+    const algorithm = BagItAlgorithmSchema.safeParse(manifest?.[1]);
+    if (manifest && algorithm.success && text !== undefined) {
+      manifestAlgorithms.add(algorithm.data);
+      expectedPayload ??= text.split('\n').filter(line => line.trim()).length;
+    }
+    if (payload) {
+      payloadSeen++;
+      options.onProgress?.(payloadSeen, Math.max(expectedPayload ?? 0, payloadSeen), relative);
+    }
+  };
+
+  const checksumFile = await findChecksumFile(archivePath);
+  let actualChecksum: string | undefined;
+
+  if (format === 'zip') {
+    // Tag files first, so payload files are hashed with the manifest's algorithm only
+    const entries = await listZip(archivePath);
+    const isPayload = (entry: ArchiveEntry): boolean => /^[^/]+\/data\//.test(entry.path.replace(/^(\.\/)+/, ''));
+    for (const entry of [...entries.filter(e => !isPayload(e)), ...entries.filter(isPayload)]) {
+      await visit(entry, entry.type === 'file' ? await openZipEntry(archivePath, entry) : Readable.from([]));
+    }
+    if (checksumFile) {
+      actualChecksum = (await hashFile(archivePath, { algorithm: checksumFile.algorithm, fresh: true })).hash;
+    }
+  } else {
+    // The archive's own digest is taken from the same read
+    const digest = checksumFile && createDigest(checksumFile.algorithm);
+    const noop = (): void => undefined;
+    const raw = fs.createReadStream(archivePath);
+    const tap = digest ? digestTap(digest) : new PassThrough();
+    const tar = format === 'tgz' ? pipeline(raw, tap, zlib.createGunzip(), noop) : pipeline(raw, tap, noop);
+    try {
+      await readTar(tar, visit);
+    } finally {
+      raw.destroy();
+    }
+    actualChecksum = digest?.digest();
+  }
+
+  if (root === undefined) {
+    throw new Error(`Empty archive: ${archivePath}`);
+  }
+
+  const reader: BagReader = {
+    files: async () => [...files.keys()].sort(),
+    hasDirectory: async relative => directories.has(relative),
+    readText: async relative => files.get(relative)?.text,
+    size: async relative => files.get(relative)?.size,
+    async digest(relative, algorithms) {
+      const file = files.get(relative);
+      if (!file) return undefined;
+      const hashes: Partial<Record<BagItAlgorithm, string>> = {};
+      for (const algorithm of algorithms) {
+        const hash = file.digests.get(algorithm);
+        if (!hash) {
+          throw new Error(`${relative} comes before manifest-${algorithm}.txt in the archive and was not hashed with ${algorithm}`);
+        }
+        hashes[algorithm] = hash;
+      }
+      return { hashes, size: file.size };
+    }
+  };
+
+  return {
+    format,
+    reader,
+    checksumPath: checksumFile?.path,
+    checksumMatch: checksumFile && actualChecksum === checksumFile.hash
+  };
+}
+
+/**
+ * <archive>.<algorithm> beside the archive (.sha256, .sha512, .sha1, .md5), if any
+ */
+async function findChecksumFile(
+  archivePath: string
+): Promise<{ path: string; algorithm: BagItAlgorithm; hash: string } | undefined> {
+  for (const algorithm of BagItAlgorithmSchema.options) {
+    const checksumPath = `${archivePath}.${algorithm}`;
+    try {
+      const hash = (await fsp.readFile(checksumPath, 'utf-8')).trim().split(/\s+/)[0].toLowerCase();
+      return { path: checksumPath, algorithm, hash };
+    } catch {
+      // Try next algorithm
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Archive members for a bag directory: the bag's own directory, then bagit.txt,
+ * bag-info.txt, manifests and fetch.txt, other tag files, tag manifests, and data/
+ */
+async function bagEntries(bagPath: string): Promise<ArchiveEntry[]> {
+  const root = path.basename(bagPath);
+  const rank = (relative: string): number => {
+    if (relative === 'bagit.txt') return 0;
+    if (relative === 'bag-info.txt') return 1;
+    if (/^manifest-\w+\.txt$/.test(relative)) return 2;
+    if (relative === 'fetch.txt') return 3;
+    if (/^tagmanifest-\w+\.txt$/.test(relative)) return 5;
+    if (relative === 'data' || relative.startsWith('data/')) return 6;
+    return 4;
+  };
+
+  const entries: Array<{ relative: string; entry: ArchiveEntry }> = [];
+  const walk = async (dir: string, prefix: string): Promise<void> => {
+    for (const entry of await fsp.readdir(dir, { withFileTypes: true })) {
+      const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+      const source = path.join(dir, entry.name);
+      if (entry.isFile()) {
+        const stats = await fsp.stat(source);
+        entries.push({ relative, entry: { path: `${root}/${relative}`, type: 'file', size: stats.size, mtime: stats.mtime, mode: stats.mode & 0o777, source } });
+      } else if (entry.isDirectory()) {
+        const stats = await fsp.stat(source);
+        entries.push({ relative, entry: { path: `${root}/${relative}`, type: 'directory', size: 0, mtime: stats.mtime, mode: stats.mode & 0o777 } });
+        await walk(source, relative);
+      }
+    }
+  };
+  await walk(bagPath, '');
+
+  entries.sort((a, b) => rank(a.relative) - rank(b.relative) || (a.relative < b.relative ? -1 : a.relative > b.relative ? 1 : 0));
+  const rootStats = await fsp.stat(bagPath);
+  return [
+    { path: root, type: 'directory', size: 0, mtime: rootStats.mtime, mode: rootStats.mode & 0o777 },
+    ...entries.map(({ entry }) => entry)
+  ];
+}
+
+/**
+ * Pass-through stream that feeds a digest
+ */
+function digestTap(digest: Digest): Transform {
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      digest.update(chunk);
+      callback(null, chunk);
+    }
+  });
+}
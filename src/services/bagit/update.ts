@@ -0,0 +1,361 @@
+/**
+ * Updating bags in place
+ * Add payload to a bag, remove it, or regenerate its manifests without
+ * re-creating the bag: only the affected manifest lines change, then the
+ * Payload-Oxum, Bag-Size and tag manifests are recomputed.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { FETCH_FILE, formatFetchFile, readFetchFile } from './fetch.js';
+import {
+  formatBagManifest,
+  formatBagSize,
+  manifestAlgorithms,
+  parseBagManifest,
+  readBagManifests,
+  setBagInfoTags,
+  writeTagManifests,
+  type BagManifestEntry
+} from './manifest.js';
+import { parseBagInfo } from './profile.js';
+import { directoryReader, hashBagFile, listFiles } from './reader.js';
+import { serializationOf } from './serialize.js';
+import type { BagItAlgorithm, BagItUpdateResult } from './schemas.js';
+
+type ProgressCallback = (current: number, total: number, file: string) => void;
+
+/**
+ * A bag directory to update, with the algorithms of its payload and tag manifests
+ */
+interface OpenBag {
+  bagPath: string;
+  algorithms: BagItAlgorithm[];
+  tagAlgorithms: BagItAlgorithm[];
+}
+
+/**
+ * Add files or directories to a bag's payload, under data/ or options.destination
+ * (a directory in data/). Sources already under data/ are added where they are.
+ * Nothing is copied unless every new path is free.
+ */
+export async function addToBag(
+  bagPath: string,
+  sources: string[],
+  options: { destination?: string; move?: boolean; includeHiddenFiles?: boolean; onProgress?: ProgressCallback } = {}
+): Promise<BagItUpdateResult> {
+  const startTime = performance.now();
+  const bag = await openBag(bagPath);
+  const dataDir = path.join(bag.bagPath, 'data');
+  const target = toPayloadPath(options.destination ?? '');
+  const listed = await readBagManifests(directoryReader(bag.bagPath), bag.algorithms);
+
+  const additions: Array<{ source: string; path: string }> = [];
+  for (const source of sources) {
+    const resolved = path.resolve(source);
+    const stats = await fs.stat(resolved);
+    const inPayload = resolved.startsWith(dataDir + path.sep);
+    if (!inPayload && (resolved === bag.bagPath || resolved.startsWith(bag.bagPath + path.sep))) {
+      throw new Error(`Only payload (data/) can be added from inside the bag: ${resolved}`);
+    }
+
+    const base = inPayload ? toPayloadPath(path.relative(dataDir, resolved)) : `${target}/${path.basename(resolved)}`;
+    const files = stats.isDirectory()
+      ? (await listFiles(resolved))
+        .filter(file => options.includeHiddenFiles || !isHidden(file))
+        .map(file => ({ source: path.join(resolved, file), path: `${base}/${file}` }))
+      : [{ source: resolved, path: base }];
+
+    for (const file of files) {
+      if (listed.has(file.path) || additions.some(a => a.path === file.path)) {
+        throw new Error(`${file.path} is already in the bag (remove it first)`);
+      }
+      if (!inPayload && await exists(path.join(bag.bagPath, file.path))) {
+        throw new Error(`${file.path} already exists in the bag`);
+      }
+      additions.push(file);
+    }
+  }
+
+  const entries: Array<{ path: string; hashes: Partial<Record<BagItAlgorithm, string>> }> = [];
+  for (const [index, file] of additions.entries()) {
+    const destination = path.join(bag.bagPath, file.path);
+    if (file.source !== destination) {
+      await fs.mkdir(path.dirname(destination), { recursive: true });
+      if (options.move) {
+        await fs.rename(file.source, destination);
+      } else {
+        await fs.copyFile(file.source, destination);
+      }
+    }
+    entries.push({ path: file.path, hashes: (await hashBagFile(destination, bag.algorithms)).hashes });
+    options.onProgress?.(index + 1, additions.length, file.path);
+  }
+
+  for (const algorithm of bag.algorithms) {
+    await editManifest(bag.bagPath, algorithm, new Set(), entries.map(e => ({ hash: e.hashes[algorithm]!, path: e.path })));
+  }
+
+  return {
+    bagPath: bag.bagPath,
+    algorithms: bag.algorithms,
+    added: additions.map(a => a.path),
+    removed: [],
+    changed: [],
+    payloadOxum: await finishUpdate(bag, bag.tagAlgorithms),
+    durationMs: performance.now() - startTime
+  };
+}
+
+/**
+ * Remove payload files, or whole directories, from a bag; paths are relative to
+ * the bag (data/...) or to data/, or point into the bag. Files still to fetch
+ * are dropped from fetch.txt too.
+ */
+export async function removeFromBag(
+  bagPath: string,
+  paths: string[],
+  options: { onProgress?: ProgressCallback } = {}
+): Promise<BagItUpdateResult> {
+  const startTime = performance.now();
+  const bag = await openBag(bagPath);
+  const listed = [...(await readBagManifests(directoryReader(bag.bagPath), bag.algorithms)).keys()];
+
+  const removals = new Set<string>();
+  for (const target of paths) {
+    const resolved = path.resolve(target);
+    const relative = resolved.startsWith(bag.bagPath + path.sep)
+      ? toPayloadPath(path.relative(bag.bagPath, resolved))
+      : toPayloadPath(target);
+    if (relative === 'data') {
+      throw new Error('Name the payload files or directories to remove, not all of data/');
+    }
+    const matches = listed.filter(p => p === relative || p.startsWith(`${relative}/`));
+    if (matches.length === 0) {
+      throw new Error(`Not in the payload manifest: ${target}`);
+    }
+    matches.forEach(p => removals.add(p));
+  }
+
+  const removed = [...removals].sort((a, b) => a.localeCompare(b));
+  for (const [index, relative] of removed.entries()) {
+    await fs.rm(path.join(bag.bagPath, relative), { force: true });
+    await pruneEmptyDirectories(bag.bagPath, path.posix.dirname(relative));
+    options.onProgress?.(index + 1, removed.length, relative);
+  }
+
+  for (const algorithm of bag.algorithms) {
+    await editManifest(bag.bagPath, algorithm, removals, []);
+  }
+
+  const fetchEntries = await readFetchFile(bag.bagPath);
+  const keptFetches = fetchEntries.filter(e => !removals.has(e.path));
+  if (keptFetches.length === 0 && fetchEntries.length > 0) {
+    await fs.rm(path.join(bag.bagPath, FETCH_FILE));
+  } else if (keptFetches.length < fetchEntries.length) {
+    await fs.writeFile(path.join(bag.bagPath, FETCH_FILE), formatFetchFile(keptFetches), 'utf-8');
+  }
+
+  return {
+    bagPath: bag.bagPath,
+    algorithms: bag.algorithms,
+    added: [],
+    removed,
+    changed: [],
+    payloadOxum: await finishUpdate(bag, bag.tagAlgorithms),
+    durationMs: performance.now() - startTime
+  };
+}
+
+/**
+ * Rewrite a bag's manifests from the payload in data/: new files are added,
+ * vanished ones dropped and changed ones rehashed. options.algorithms replaces
+ * the bag's manifest algorithms (payload and tag manifests alike).
+ * Files listed in fetch.txt and not fetched yet keep their manifest lines.
+ */
+export async function regenerateBag(
+  bagPath: string,
+  options: { algorithms?: BagItAlgorithm[]; includeHiddenFiles?: boolean; onProgress?: ProgressCallback } = {}
+): Promise<BagItUpdateResult> {
+  const startTime = performance.now();
+  const bag = await openBag(bagPath);
+  const algorithms = options.algorithms?.length ? [...new Set(options.algorithms)] : bag.algorithms;
+  const previous = await readBagManifests(directoryReader(bag.bagPath), bag.algorithms);
+
+  const files = (await listFiles(path.join(bag.bagPath, 'data'), 'data'))
+    .filter(file => options.includeHiddenFiles || !isHidden(file));
+  const present = new Set(files);
+  const pending = (await readFetchFile(bag.bagPath)).filter(e => !present.has(e.path) && previous.has(e.path));
+  for (const entry of pending) {
+    const missing = algorithms.find(alg => !previous.get(entry.path)?.[alg]);
+    if (missing) {
+      throw new Error(`Cannot write manifest-${missing}.txt while ${entry.path} is still to be fetched (run wnb bagit complete)`);
+    }
+  }
+
+  // The old algorithms are hashed too, to tell which files changed
+  const hashAlgorithms = [...new Set([...algorithms, ...bag.algorithms])];
+  const entries = new Map<BagItAlgorithm, BagManifestEntry[]>(algorithms.map(alg => [alg, []]));
+  const added: string[] = [];
+  const changed: string[] = [];
+
+  for (const [index, file] of files.entries()) {
+    const { hashes } = await hashBagFile(path.join(bag.bagPath, file), hashAlgorithms, { fresh: true });
+    const old = previous.get(file);
+    if (!old) {
+      added.push(file);
+    } else if (bag.algorithms.some(alg => old[alg] && old[alg] !== hashes[alg])) {
+      changed.push(file);
+    }
+    algorithms.forEach(alg => entries.get(alg)!.push({ hash: hashes[alg]!, path: file }));
+    options.onProgress?.(index + 1, files.length, file);
+  }
+  for (const entry of pending) {
+    algorithms.forEach(alg => entries.get(alg)!.push({ hash: previous.get(entry.path)![alg]!, path: entry.path }));
+  }
+
+  for (const [algorithm, manifestEntries] of entries) {
+    await fs.writeFile(path.join(bag.bagPath, `manifest-${algorithm}.txt`), formatBagManifest(manifestEntries), 'utf-8');
+  }
+  for (const algorithm of bag.algorithms.filter(alg => !algorithms.includes(alg))) {
+    await fs.rm(path.join(bag.bagPath, `manifest-${algorithm}.txt`));
+  }
+
+  const kept = new Set([...files, ...pending.map(e => e.path)]);
+  return {
+    bagPath: bag.bagPath,
+    algorithms,
+    added,
+    removed: [...previous.keys()].filter(p => !kept.has(p)),
+    changed,
+    payloadOxum: await finishUpdate({ ...bag, algorithms }, algorithms),
+    durationMs: performance.now() - startTime
+  };
+}
+
+/**
+ * Check that a path is a bag directory that can be updated
+ * Payload-Oxum is recomputed after every update, so each file still to fetch
+ * needs its length in fetch.txt.
+ */
+async function openBag(bagPath: string): Promise<OpenBag> {
+  const resolvedBag = path.resolve(bagPath);
+  const stats = await fs.stat(resolvedBag);
+  if (stats.isFile() && serializationOf(resolvedBag)) {
+    throw new Error(`Extract the serialized bag before updating it: ${resolvedBag}`);
+  }
+  const names = stats.isDirectory() ? await fs.readdir(resolvedBag) : [];
+  if (!names.includes('bagit.txt')) {
+    throw new Error(`Not a bag directory (no bagit.txt): ${resolvedBag}`);
+  }
+  const algorithms = manifestAlgorithms(names);
+  if (algorithms.length === 0) {
+    throw new Error(`Not a bag (no payload manifest): ${resolvedBag}`);
+  }
+
+  for (const entry of await readFetchFile(resolvedBag)) {
+    if (entry.length === undefined && !await exists(path.join(resolvedBag, entry.path))) {
+      throw new Error(`fetch.txt gives no length for ${entry.path}, so the Payload-Oxum cannot be recomputed (run wnb bagit complete)`);
+    }
+  }
+
+  return { bagPath: resolvedBag, algorithms, tagAlgorithms: manifestAlgorithms(names, 'tagmanifest') };
+}
+
+/**
+ * Recompute Payload-Oxum (and Bag-Size, when bag-info.txt has one) from the
+ * payload manifest, then the tag manifests; returns the Payload-Oxum
+ */
+async function finishUpdate(bag: OpenBag, tagAlgorithms: BagItAlgorithm[]): Promise<string> {
+  const payload = await readBagManifests(directoryReader(bag.bagPath), bag.algorithms);
+  const fetchLengths = new Map((await readFetchFile(bag.bagPath)).map(e => [e.path, e.length]));
+
+  // Files still to fetch count with their fetch.txt length
+  let totalBytes = 0;
+  for (const relative of payload.keys()) {
+    const stats = await fs.stat(path.join(bag.bagPath, relative)).catch(() => undefined);
+    totalBytes += stats?.size ?? fetchLengths.get(relative) ?? 0;
+  }
+  const payloadOxum = `${totalBytes}.${payload.size}`;
+
+  const bagInfoPath = path.join(bag.bagPath, 'bag-info.txt');
+  const bagInfo = await fs.readFile(bagInfoPath, 'utf-8').catch(() => undefined);
+  if (bagInfo !== undefined) {
+    const hasBagSize = parseBagInfo(bagInfo).some(e => e.label.toLowerCase() === 'bag-size');
+    await fs.writeFile(bagInfoPath, setBagInfoTags(bagInfo, {
+      'Payload-Oxum': payloadOxum,
+      ...(hasBagSize && { 'Bag-Size': formatBagSize(totalBytes) })
+    }), 'utf-8');
+  }
+
+  await writeTagManifests(bag.bagPath, tagAlgorithms);
+  return payloadOxum;
+}
+
+/**
+ * Edit manifest-<algorithm>.txt line by line: lines of removed paths are
+ * dropped, new entries go in path order, and every other line stays as it was
+ */
+async function editManifest(
+  bagPath: string,
+  algorithm: BagItAlgorithm,
+  remove: Set<string>,
+  add: BagManifestEntry[]
+): Promise<void> {
+  const manifestPath = path.join(bagPath, `manifest-${algorithm}.txt`);
+  const lines = (await fs.readFile(manifestPath, 'utf-8')).split('\n')
+    .filter(line => line.trim())
+    .map(line => ({ line, path: parseBagManifest(line)[0]?.path ?? '' }))
+    .filter(e => !remove.has(e.path));
+
+  for (const entry of [...add].sort((a, b) => a.path.localeCompare(b.path))) {
+    const at = lines.findIndex(e => e.path.localeCompare(entry.path) > 0);
+    lines.splice(at < 0 ? lines.length : at, 0, { line: `${entry.hash}  ${entry.path}`, path: entry.path });
+  }
+  await fs.writeFile(manifestPath, lines.map(e => e.line + '\n').join(''), 'utf-8');
+}
+
+/**
+ * Remove directories below data/ that a removal left empty
+ */
+async function pruneEmptyDirectories(bagPath: string, relativeDir: string): Promise<void> {
+  for (let dir = relativeDir; dir.startsWith('data/'); dir = path.posix.dirname(dir)) {
+    try {
+      await fs.rmdir(path.join(bagPath, dir));
+    } catch {
+      return; // Not empty
+    }
+  }
+}
+
+/**
+ * A payload path (data/...) from a path relative to the bag or to data/
+ */
+function toPayloadPath(relativePath: string): string {
+  const normalized = path.posix.normalize(relativePath.replace(/\\/g, '/')).replace(/^(\.\/)+|\/+$/g, '');
+  const payload = normalized === '.' || normalized === '' || normalized === 'data' ? 'data'
+    : normalized.startsWith('data/') ? normalized : `data/${normalized}`;
+  if (payload.split('/').includes('..')) {
+    throw new Error(`Path is outside data/: ${relativePath}`);
+  }
+  return payload;
+}
+
+/**
+ * Whether a path has a hidden segment (hidden files are not payload)
+ */
+function isHidden(relativePath: string): boolean {
+  return relativePath.split('/').some(part => part.startsWith('.'));
+}
+
+/**
+ * Whether a path exists
+ */
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,716 @@
+/**
+ * Fixity format conversion
+ * Reads wnb manifests (JSON, NDJSON, CSV), MHL files, BagIt manifests and
+ * checksum lists into one list of records and writes them in any of those
+ * formats. Digests the target needs but the source lacks are computed from the
+ * files under a root; data the target cannot hold is reported, not lost silently.
+ */
+
+import * as fsp from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  loadManifest,
+  isManifestV2,
+  manifestAlgorithms,
+  manifestHashLength,
+  entryHashes,
+  hashForManifest,
+  parseManifestAlgorithms,
+  validateHashLength,
+  validateKeyedAlgorithms,
+  MANIFEST_ALGORITHMS,
+  DEFAULT_V2_HASH_LENGTH,
+  type AnyManifest,
+  type AnyManifestEntry,
+  type ManifestHashes
+} from '../core/manifest.js';
+import { NDJSON_FORMAT, compareManifestPaths } from '../core/manifest-stream.js';
+import { computeMerkleTree } from '../core/merkle.js';
+import { parseChecksumList, algorithmHintFromName, type ChecksumEntry } from '../core/checksum-list.js';
+import {
+  parseMhlXml,
+  mhlToXml,
+  isAscMhlXml,
+  parseAscMhlXml,
+  MHL_VERSION,
+  type MhlDocument,
+  type MhlHashEntry,
+  type AscMhlGeneration,
+  type MhlHashFormat
+} from './mhl/index.js';
+import { parseBagManifest } from './bagit/index.js';
+import type { Algorithm, Manifest, ManifestAlgorithm, ManifestEntry, ManifestV2, ManifestV2Entry } from '../schemas/index.js';
+
+/**
+ * Formats convert reads and writes
+ * md5sum, sha256sum and b3sum are checksum lists of one fixed algorithm; sfv
+ * is "<path> <hash>" with the algorithm of choice (wnb hash -f sfv).
+ */
+export type FixityFormat = 'json' | 'ndjson' | 'csv' | 'mhl' | 'bagit-manifest' | 'md5sum' | 'sha256sum' | 'b3sum' | 'sfv';
+
+export const FIXITY_FORMATS: readonly FixityFormat[] = [
+  'json', 'ndjson', 'csv', 'mhl', 'bagit-manifest', 'md5sum', 'sha256sum', 'b3sum', 'sfv'
+];
+
+/**
+ * One file of a fixity list, whatever format it came from
+ */
+export interface FixityRecord {
+  /** Path relative to the list's root, forward slashes (no data/ for BagIt) */
+  path: string;
+  size?: number;
+  mtime?: string;
+  /** When the digests were computed, if the source says */
+  hashed?: string;
+  hashes: ManifestHashes;
+  /** wnb manifest entry the record was read from (chunk maps, metadata, v2 fields) */
+  entry?: AnyManifestEntry;
+}
+
+/**
+ * A fixity list reduced to its records
+ */
+export interface FixityList {
+  records: FixityRecord[];
+  /** BLAKE3 digest length in hex characters (0 without BLAKE3 digests) */
+  hashLength: number;
+  /** Directory the paths are relative to, when the source implies one */
+  root?: string;
+  /** Source wnb manifest (header fields and history) */
+  manifest?: AnyManifest;
+  /** Source MHL document (creator info) */
+  mhl?: MhlDocument;
+}
+
+export interface ConvertOptions {
+  /** Source format (default: detected from the name and content) */
+  from?: FixityFormat;
+  /** Algorithms for json, ndjson, csv, mhl, bagit-manifest and sfv (--algorithms syntax) */
+  algorithms?: string;
+  /** Directory to read files from when the target needs digests or sizes the source lacks */
+  root?: string;
+  onProgress?: (current: number, total: number, file: string) => void;
+}
+
+export interface ConvertResult {
+  /** The converted list */
+  output: string;
+  records: number;
+  /** Files read to fill in digests, sizes or dates */
+  filesRead: number;
+  /** Data of the source the target format cannot hold */
+  warnings: string[];
+}
+
+// Checksum list formats with a fixed algorithm
+const FIXED_ALGORITHMS: Partial<Record<FixityFormat, ManifestAlgorithm>> = {
+  md5sum: 'md5',
+  sha256sum: 'sha256',
+  b3sum: 'blake3'
+};
+
+const MHL_ALGORITHMS: readonly ManifestAlgorithm[] = ['xxhash64', 'md5'];
+const ASC_MHL_ALGORITHMS: Record<MhlHashFormat, ManifestAlgorithm> = {
+  xxh64: 'xxhash64',
+  xxh3: 'xxh3',
+  xxh128: 'xxh128',
+  md5: 'md5',
+  sha1: 'sha1',
+  c4: 'c4'
+};
+const BAG_ALGORITHMS: readonly ManifestAlgorithm[] = ['sha256', 'sha512'];
+const BAG_MANIFEST_NAME = /^(tag)?manifest-([a-z0-9]+)\.txt$/;
+
+// Formats that record sizes (and need them) and modification times
+const SIZED_FORMATS: readonly FixityFormat[] = ['json', 'ndjson', 'csv', 'mhl'];
+
+// ============================================
+// READING
+// ============================================
+
+/**
+ * Read a manifest, MHL, BagIt manifest, CSV or checksum list
+ * A checksum list digest whose length fits several algorithms (SHA-256 or full
+ * BLAKE3) needs --from, a telling file name or the root to hash the file from.
+ */
+export async function readFixityList(inputPath: string, from?: FixityFormat, root?: string): Promise<FixityList> {
+  const content = await fsp.readFile(inputPath, 'utf-8');
+  const format = from ?? detectFormat(inputPath, content);
+
+  switch (format) {
+    case 'json':
+    case 'ndjson':
+      return fromManifest(await loadManifest(inputPath));
+    case 'csv':
+      return fromCsv(content);
+    case 'mhl':
+      return isAscMhlXml(content)
+        ? fromAscMhl(parseAscMhlXml(content), path.dirname(path.dirname(path.resolve(inputPath))))
+        : fromMhl(parseMhlXml(content), path.dirname(path.resolve(inputPath)));
+    case 'bagit-manifest':
+      return fromBagManifest(content, inputPath);
+    default:
+      return fromChecksumList(content, inputPath, from && FIXED_ALGORITHMS[from], root);
+  }
+}
+
+function detectFormat(inputPath: string, content: string): FixityFormat {
+  const start = content.trimStart();
+  if (BAG_MANIFEST_NAME.test(path.basename(inputPath).toLowerCase())) return 'bagit-manifest';
+  if (start.startsWith('<')) return 'mhl';
+  if (start.startsWith('{')) return start.startsWith(`{"format":"${NDJSON_FORMAT}"`) ? 'ndjson' : 'json';
+  if (/^"?path"?,/.test(start)) return 'csv';
+  return 'sfv'; // Any checksum list; the line format and algorithm come from each line
+}
+
+function fromManifest(manifest: AnyManifest): FixityList {
+  const records = (manifest.files as AnyManifestEntry[]).map(entry => ({
+    path: entry.path,
+    size: entry.size,
+    ...(entry.mtime && { mtime: entry.mtime }),
+    hashed: ('lastVerified' in entry && entry.lastVerified) || manifest.generated,
+    hashes: entryHashes(entry),
+    entry
+  }));
+  return { records, hashLength: manifestHashLength(manifest), root: manifest.root, manifest };
+}
+
+function fromCsv(content: string): FixityList {
+  const [header, ...rows] = content.split(/\r?\n/).filter(line => line.trim() !== '');
+  const columns = parseCsvLine(header ?? '');
+  const sizeIndex = columns.indexOf('size');
+  const mtimeIndex = columns.indexOf('mtime');
+  if (columns[0] !== 'path' || sizeIndex < 2) {
+    throw new Error('Not a wnb manifest CSV (expected a path,<algorithms>,size,mtime header)');
+  }
+
+  const algorithms = columns.slice(1, sizeIndex).map(column => (column === 'hash' ? 'blake3' : column) as ManifestAlgorithm);
+  for (const algorithm of algorithms) {
+    if (!MANIFEST_ALGORITHMS.includes(algorithm)) {
+      throw new Error(`Unknown CSV column: ${algorithm}`);
+    }
+  }
+
+  const records = rows.map(row => {
+    const fields = parseCsvLine(row);
+    const size = Number(fields[sizeIndex]);
+    if (!Number.isInteger(size) || size < 0) {
+      throw new Error(`Invalid size for ${fields[0]} in CSV`);
+    }
+    const hashes: ManifestHashes = {};
+    algorithms.forEach((algorithm, i) => {
+      // C4 IDs are base58, so case matters
+      if (fields[i + 1]) hashes[algorithm] = algorithm === 'c4' ? fields[i + 1] : fields[i + 1].toLowerCase();
+    });
+    const mtime = mtimeIndex >= 0 ? fields[mtimeIndex] : '';
+    return { path: fields[0], size, ...(mtime && { mtime }), hashes };
+  });
+  return { records, hashLength: blake3Length(records) };
+}
+
+function fromMhl(doc: MhlDocument, dir: string): FixityList {
+  const records = doc.hashes.map(hash => ({
+    path: hash.file,
+    size: hash.size,
+    ...(hash.lastModificationDate && { mtime: hash.lastModificationDate }),
+    ...(hash.hashDate && { hashed: hash.hashDate }),
+    hashes: {
+      ...(hash.xxhash64 && { xxhash64: hash.xxhash64.toLowerCase() }),
+      ...(hash.md5 && { md5: hash.md5.toLowerCase() })
+    }
+  }));
+  return { records, hashLength: 0, root: dir, mhl: doc };
+}
+
+/**
+ * One ASC MHL generation; its folder is the parent of ascmhl/
+ * Failed digests are skipped.
+ */
+function fromAscMhl(generation: AscMhlGeneration, dir: string): FixityList {
+  const records = generation.hashes.map(entry => {
+    const hashes: ManifestHashes = {};
+    for (const hash of entry.hashes) {
+      if (hash.action === 'failed') continue;
+      hashes[ASC_MHL_ALGORITHMS[hash.format]] = hash.value;
+    }
+    const hashed = entry.hashes.find(hash => hash.action !== 'failed')?.hashDate;
+    return {
+      path: entry.path,
+      size: entry.size,
+      ...(entry.lastModificationDate && { mtime: entry.lastModificationDate }),
+      ...(hashed && { hashed }),
+      hashes
+    };
+  });
+  return { records, hashLength: 0, root: dir };
+}
+
+function fromBagManifest(content: string, inputPath: string): FixityList {
+  const match = BAG_MANIFEST_NAME.exec(path.basename(inputPath).toLowerCase());
+  const algorithm = match?.[2] as ManifestAlgorithm | undefined;
+  if (!algorithm || !MANIFEST_ALGORITHMS.includes(algorithm) || algorithm === 'blake3') {
+    throw new Error(`Cannot tell the algorithm of ${path.basename(inputPath)} (expected manifest-<md5|sha256|sha512>.txt)`);
+  }
+
+  // Payload paths are relative to data/; tag manifest paths to the bag
+  const payload = !match![1];
+  const bagDir = path.dirname(path.resolve(inputPath));
+  const records = parseBagManifest(content).map(entry => {
+    const entryPath = decodeBagPath(entry.path);
+    return {
+      path: payload && entryPath.startsWith('data/') ? entryPath.slice('data/'.length) : entryPath,
+      hashes: { [algorithm]: entry.hash }
+    };
+  });
+  return { records, hashLength: 0, root: payload ? path.join(bagDir, 'data') : bagDir };
+}
+
+/**
+ * RFC 8493 percent-encodes CR, LF and % in manifest paths
+ */
+function decodeBagPath(value: string): string {
+  return value.replace(/%0D/gi, '\r').replace(/%0A/gi, '\n').replace(/%25/g, '%');
+}
+
+function encodeBagPath(value: string): string {
+  return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+async function fromChecksumList(
+  content: string,
+  listPath: string,
+  forced?: ManifestAlgorithm,
+  root?: string
+): Promise<FixityList> {
+  const { entries, malformed } = parseChecksumList(content, listPath);
+  if (malformed.length > 0) {
+    throw new Error(`Unreadable checksum lines in ${path.basename(listPath)}: ${malformed.slice(0, 10).join(', ')}`);
+  }
+
+  const hint = algorithmHintFromName(listPath);
+  const settled = new Map<string, ManifestAlgorithm>();
+  const records: FixityRecord[] = [];
+  for (const entry of entries) {
+    const candidates = [...new Set(entry.algorithms.map(toManifestAlgorithm))];
+    if (forced && !candidates.includes(forced)) {
+      throw new Error(`Line ${entry.line} of ${path.basename(listPath)} is not a ${forced} digest`);
+    }
+    const recordPath = entry.path.replace(/^\.\//, '');
+    const algorithm = forced ?? (candidates.length === 1 || (hint && toManifestAlgorithm(hint) === candidates[0])
+      ? candidates[0]
+      : await resolveAlgorithm(entry, recordPath, candidates, listPath, root, settled));
+    records.push({ path: recordPath, hashes: { [algorithm]: entry.hash } });
+  }
+  return { records, hashLength: blake3Length(records), root: path.dirname(path.resolve(listPath)) };
+}
+
+/**
+ * Tell which of several same-length algorithms a checksum list digest is by
+ * hashing the file under the root; the algorithm an earlier line settled is
+ * tried on its own first
+ */
+async function resolveAlgorithm(
+  entry: ChecksumEntry,
+  recordPath: string,
+  candidates: ManifestAlgorithm[],
+  listPath: string,
+  root: string | undefined,
+  settled: Map<string, ManifestAlgorithm>
+): Promise<ManifestAlgorithm> {
+  const choices = candidates.join(' or ');
+  if (!root) {
+    throw new Error(
+      `Line ${entry.line} of ${path.basename(listPath)} may be ${choices}; ` +
+      'give --from md5sum|sha256sum|b3sum, or --root to tell from the files'
+    );
+  }
+
+  const filePath = path.join(root, recordPath);
+  const key = candidates.join(',');
+  const previous = settled.get(key);
+  for (const tried of previous ? [[previous], candidates] : [candidates]) {
+    const { hashes } = await hashForManifest(filePath, tried, entry.hash.length, {}, true);
+    const match = tried.find(a => hashes[a] === entry.hash);
+    if (match) {
+      settled.set(key, match);
+      return match;
+    }
+  }
+  throw new Error(`${recordPath} matches its digest as none of ${choices}; give --from md5sum|sha256sum|b3sum`);
+}
+
+function toManifestAlgorithm(algorithm: Algorithm): ManifestAlgorithm {
+  return algorithm === 'blake3-full' ? 'blake3' : algorithm;
+}
+
+function blake3Length(records: FixityRecord[]): number {
+  const lengths = new Set(records.map(r => r.hashes.blake3?.length).filter(l => l !== undefined));
+  if (lengths.size > 1) {
+    throw new Error('The source mixes BLAKE3 digests of different lengths');
+  }
+  return [...lengths][0] ?? 0;
+}
+
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted && c === '"' && line[i + 1] === '"') {
+      field += '"';
+      i++;
+    } else if (c === '"') {
+      quoted = !quoted;
+    } else if (c === ',' && !quoted) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+// ============================================
+// TARGET ALGORITHMS
+// ============================================
+
+/**
+ * Algorithms the target will hold, and the BLAKE3 length
+ * Formats with a choice default to what the source records (all records alike).
+ */
+export function targetAlgorithms(
+  list: FixityList,
+  to: FixityFormat,
+  requested?: string
+): { algorithms: ManifestAlgorithm[]; hashLength: number } {
+  const fixed = FIXED_ALGORITHMS[to];
+  if (fixed) {
+    if (requested) {
+      throw new Error(`${to} always holds ${fixed} digests; --algorithms does not apply`);
+    }
+    return { algorithms: [fixed], hashLength: DEFAULT_V2_HASH_LENGTH };
+  }
+
+  const parsed = requested ? parseManifestAlgorithms(requested) : undefined;
+  const available = list.manifest ? manifestAlgorithms(list.manifest) : commonAlgorithms(list.records);
+  const hashLength = parsed?.hashLength ?? (list.hashLength || DEFAULT_V2_HASH_LENGTH);
+  let algorithms: ManifestAlgorithm[];
+
+  switch (to) {
+    case 'mhl':
+      algorithms = parsed?.algorithms ?? available.filter(a => MHL_ALGORITHMS.includes(a));
+      if (algorithms.length === 0) algorithms = ['xxhash64'];
+      if (algorithms.some(a => !MHL_ALGORITHMS.includes(a))) {
+        throw new Error(`mhl holds ${MHL_ALGORITHMS.join(' and ')} digests only`);
+      }
+      break;
+    case 'bagit-manifest':
+      algorithms = parsed?.algorithms ?? [available.find(a => BAG_ALGORITHMS.includes(a)) ?? 'sha256'];
+      if (algorithms.length !== 1 || !BAG_ALGORITHMS.includes(algorithms[0])) {
+        throw new Error(`bagit-manifest holds one algorithm: ${BAG_ALGORITHMS.join(' or ')}`);
+      }
+      break;
+    case 'sfv':
+      algorithms = parsed?.algorithms ?? available.slice(0, 1);
+      if (algorithms.length > 1) {
+        throw new Error('sfv holds one algorithm');
+      }
+      break;
+    default:
+      algorithms = parsed?.algorithms ?? (list.records.length > 0 ? available : ['blake3']);
+  }
+
+  if (algorithms.length === 0) {
+    throw new Error('The source records share no digest algorithm; choose one with --algorithms');
+  }
+  if (algorithms.includes('blake3')) {
+    validateHashLength(hashLength);
+  }
+  return { algorithms, hashLength };
+}
+
+/**
+ * Algorithms every record has a digest for, in the order of the first record
+ */
+function commonAlgorithms(records: FixityRecord[]): ManifestAlgorithm[] {
+  if (records.length === 0) return [];
+  return (Object.keys(records[0].hashes) as ManifestAlgorithm[])
+    .filter(algorithm => records.every(r => r.hashes[algorithm] !== undefined));
+}
+
+// ============================================
+// CONVERSION
+// ============================================
+
+/**
+ * Convert a fixity list to another format
+ * Throws when the target needs digests or sizes the source lacks and no root is
+ * given, or when a re-read file no longer matches what the source recorded.
+ */
+export async function convertFixityList(
+  inputPath: string,
+  to: FixityFormat,
+  options: ConvertOptions = {}
+): Promise<ConvertResult> {
+  const list = await readFixityList(inputPath, options.from, options.root);
+  const { algorithms, hashLength } = targetAlgorithms(list, to, options.algorithms);
+  const warnings = conversionWarnings(list, to, algorithms, hashLength);
+  const { records, filesRead } = await completeRecords(list, to, algorithms, hashLength, options);
+
+  records.sort((a, b) => compareManifestPaths(a.path, b.path));
+  for (let i = 1; i < records.length; i++) {
+    if (records[i].path === records[i - 1].path) {
+      throw new Error(`${records[i].path} is listed twice`);
+    }
+  }
+
+  const root = path.resolve(options.root ?? list.root ?? path.dirname(inputPath));
+  return {
+    output: formatFixityList({ ...list, records }, to, algorithms, hashLength, root),
+    records: records.length,
+    filesRead,
+    warnings
+  };
+}
+
+/**
+ * Source data the target cannot hold
+ */
+function conversionWarnings(list: FixityList, to: FixityFormat, algorithms: ManifestAlgorithm[], hashLength: number): string[] {
+  const warnings: string[] = [];
+  const keepsManifest = to === 'json' || to === 'ndjson';
+  const sized = SIZED_FORMATS.includes(to);
+
+  const recorded = new Set(list.records.flatMap(r => Object.keys(r.hashes) as ManifestAlgorithm[]));
+  const dropped = [...recorded].filter(a => !algorithms.includes(a));
+  if (dropped.length > 0) {
+    warnings.push(`${to} will hold ${algorithms.join(', ')}; dropping ${dropped.join(', ')} digests`);
+  }
+  if (algorithms.includes('blake3') && list.hashLength > hashLength) {
+    warnings.push(`BLAKE3 digests shortened from ${list.hashLength} to ${hashLength} characters`);
+  }
+
+  const lost: string[] = [];
+  const entries = list.records.flatMap(r => (r.entry ? [r.entry as ManifestV2Entry] : []));
+  if (!sized && list.records.some(r => r.size !== undefined)) lost.push('file sizes');
+  if (!sized && list.records.some(r => r.mtime !== undefined)) lost.push('modification times');
+  if (!keepsManifest) {
+    if (entries.some(e => e.chunks)) lost.push('chunk maps');
+    if (entries.some(e => e.metadata)) lost.push('file metadata');
+    if (entries.some(e => e.mode !== undefined || e.hardlinkGroup !== undefined || e.lastVerified !== undefined)) {
+      lost.push('modes, hardlink groups and verification dates');
+    }
+    if (list.manifest?.history?.length) lost.push('update history');
+  }
+  if (list.mhl && to !== 'mhl') lost.push('MHL creator info and hash dates');
+  if (lost.length > 0) {
+    warnings.push(`${to} cannot hold ${lost.join(', ')}; they are dropped`);
+  }
+
+  const mode = list.manifest?.hashMode;
+  if (mode && mode !== 'plain' && algorithms.includes('blake3') && !keepsManifest) {
+    warnings.push(`BLAKE3 digests are ${mode} (key ID ${list.manifest!.keyId}); ${to} cannot say so, and plain BLAKE3 tools will not match them`);
+  }
+  return warnings;
+}
+
+/**
+ * Fill in what the target needs from the files under the root
+ * Each re-hashed file is checked against one digest the source recorded.
+ */
+async function completeRecords(
+  list: FixityList,
+  to: FixityFormat,
+  algorithms: ManifestAlgorithm[],
+  hashLength: number,
+  options: ConvertOptions
+): Promise<{ records: FixityRecord[]; filesRead: number }> {
+  const keyed = list.manifest?.hashMode !== undefined && list.manifest.hashMode !== 'plain';
+  const records: FixityRecord[] = [];
+  let filesRead = 0;
+
+  for (const [index, record] of list.records.entries()) {
+    const missing = algorithms.filter(a => (record.hashes[a]?.length ?? 0) < (a === 'blake3' ? hashLength : 1));
+    const needsSize = record.size === undefined && SIZED_FORMATS.includes(to);
+    const wantsMtime = record.mtime === undefined && to === 'mhl' && options.root !== undefined;
+
+    if (missing.length === 0 && !needsSize && !wantsMtime) {
+      records.push(record);
+      continue;
+    }
+    if (!options.root) {
+      const lacking = missing.length > 0 ? `${missing.join(', ')} digest` : 'size';
+      throw new Error(`${record.path} has no ${lacking} for ${to}; give --root to read the files`);
+    }
+    if (keyed && missing.includes('blake3')) {
+      throw new Error('Cannot re-hash keyed BLAKE3 digests; convert to other algorithms');
+    }
+
+    options.onProgress?.(index + 1, list.records.length, record.path);
+    const filePath = path.join(options.root, record.path);
+    const stats = await fsp.stat(filePath);
+    if (record.size !== undefined && record.size !== stats.size) {
+      throw new Error(`${record.path} is ${stats.size} bytes, the source recorded ${record.size}`);
+    }
+
+    const completed: FixityRecord = {
+      ...record,
+      size: stats.size,
+      mtime: record.mtime ?? stats.mtime.toISOString()
+    };
+    if (missing.length > 0) {
+      const check = (Object.keys(record.hashes) as ManifestAlgorithm[]).find(a => !(keyed && a === 'blake3'));
+      const { hashes } = await hashForManifest(filePath, [...new Set([...missing, ...(check ? [check] : [])])], hashLength, {}, true);
+      if (check && !hashes[check]!.startsWith(record.hashes[check]!) && !record.hashes[check]!.startsWith(hashes[check]!)) {
+        throw new Error(`${record.path} no longer matches its recorded ${check} digest`);
+      }
+      completed.hashes = { ...record.hashes, ...Object.fromEntries(missing.map(a => [a, hashes[a]])) };
+      completed.hashed = new Date().toISOString();
+    }
+    records.push(completed);
+    filesRead++;
+  }
+
+  return { records, filesRead };
+}
+
+// ============================================
+// WRITING
+// ============================================
+
+/**
+ * Write records (complete for the target, in path order) in a format
+ * root is recorded by wnb manifests converted from other formats.
+ */
+export function formatFixityList(
+  list: FixityList,
+  to: FixityFormat,
+  algorithms: ManifestAlgorithm[],
+  hashLength: number,
+  root: string
+): string {
+  const digest = (record: FixityRecord, algorithm: ManifestAlgorithm): string =>
+    algorithm === 'blake3' ? record.hashes.blake3!.slice(0, hashLength) : record.hashes[algorithm]!;
+
+  switch (to) {
+    case 'json':
+      return JSON.stringify(toManifest(list, algorithms, hashLength, root), null, 2) + '\n';
+
+    case 'ndjson': {
+      // NDJSON manifests carry no Merkle tree
+      const { files, fileCount, totalBytes, merkle: _merkle, ...header } = toManifest(list, algorithms, hashLength, root);
+      return [
+        { format: NDJSON_FORMAT, ...header },
+        ...files,
+        { fileCount, totalBytes }
+      ].map(line => JSON.stringify(line) + '\n').join('');
+    }
+
+    case 'csv': {
+      const v1 = isV1Target(list, algorithms, hashLength);
+      return [
+        `path,${v1 ? 'hash' : algorithms.join(',')},size,mtime`,
+        ...list.records.map(r => `"${r.path.replace(/"/g, '""')}",${algorithms.map(a => digest(r, a)).join(',')},${r.size},${r.mtime ?? ''}`)
+      ].join('\n') + '\n';
+    }
+
+    case 'mhl': {
+      const now = new Date().toISOString();
+      const doc: MhlDocument = {
+        version: list.mhl?.version ?? MHL_VERSION,
+        creatorInfo: list.mhl?.creatorInfo ?? { name: 'wake-n-blake', version: '0.1.0', host: os.hostname(), startDate: now, finishDate: now },
+        hashes: list.records.map(r => {
+          const entry: MhlHashEntry = { file: r.path, size: r.size!, lastModificationDate: r.mtime ?? '', hashDate: r.hashed ?? now };
+          if (algorithms.includes('xxhash64')) entry.xxhash64 = digest(r, 'xxhash64');
+          if (algorithms.includes('md5')) entry.md5 = digest(r, 'md5');
+          return entry;
+        })
+      };
+      return mhlToXml(doc) + '\n';
+    }
+
+    case 'bagit-manifest':
+      return list.records.map(r => `${digest(r, algorithms[0])}  data/${encodeBagPath(r.path)}\n`).join('');
+
+    case 'sfv':
+      return list.records.map(r => checksumLine(digest(r, algorithms[0]), r.path, true)).join('');
+
+    default:
+      return list.records.map(r => checksumLine(digest(r, algorithms[0]), r.path)).join('');
+  }
+}
+
+/**
+ * "<hash>  <path>" (or SFV "<path> <hash>"), with coreutils escaping of
+ * backslashes and newlines in the path
+ */
+function checksumLine(hash: string, filePath: string, sfv: boolean = false): string {
+  const escaped = /[\\\n\r]/.test(filePath);
+  const name = escaped ? filePath.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/\r/g, '\\r') : filePath;
+  return `${escaped ? '\\' : ''}${sfv ? `${name} ${hash}` : `${hash}  ${name}`}\n`;
+}
+
+/**
+ * v1 (BLAKE3-16 only) unless the target or the source needs v2
+ */
+function isV1Target(list: FixityList, algorithms: ManifestAlgorithm[], hashLength: number): boolean {
+  return algorithms.length === 1 && algorithms[0] === 'blake3' && hashLength === 16
+    && !(list.manifest && isManifestV2(list.manifest));
+}
+
+/**
+ * A wnb manifest of the records, keeping the header, history and entry fields
+ * of a source manifest (the Merkle tree is recomputed)
+ */
+function toManifest(list: FixityList, algorithms: ManifestAlgorithm[], hashLength: number, root: string): AnyManifest {
+  const source = list.manifest;
+  const hashMode = source?.hashMode !== 'plain' && algorithms.includes('blake3') ? source?.hashMode : undefined;
+  validateKeyedAlgorithms(algorithms, hashMode);
+  const keyFields = hashMode
+    ? { hashMode, keyId: source!.keyId, ...(source!.context !== undefined && { context: source!.context }) }
+    : {};
+
+  const generated = source?.generated ?? new Date().toISOString();
+  const history = source?.history?.length ? { history: source.history } : {};
+  const totalBytes = list.records.reduce((sum, r) => sum + r.size!, 0);
+
+  if (isV1Target(list, algorithms, hashLength)) {
+    const files: ManifestEntry[] = list.records.map(r => ({
+      path: r.path,
+      hash: r.hashes.blake3!.slice(0, 16),
+      size: r.size!,
+      ...(r.mtime && { mtime: r.mtime }),
+      ...(r.entry?.chunks && { chunks: r.entry.chunks }),
+      ...(r.entry?.metadata && { metadata: r.entry.metadata })
+    }));
+    const manifest: Manifest = {
+      version: '1.0', generated, algorithm: 'blake3', hashLength: 16, root: source?.root ?? root,
+      fileCount: files.length, totalBytes, ...keyFields, merkle: computeMerkleTree(files), ...history, files
+    };
+    return manifest;
+  }
+
+  const files: ManifestV2Entry[] = list.records.map(r => {
+    const v2 = r.entry && 'hashes' in r.entry ? r.entry : undefined;
+    return {
+      path: r.path,
+      size: r.size!,
+      ...(r.mtime && { mtime: r.mtime }),
+      hashes: Object.fromEntries(algorithms.map(a => [a, a === 'blake3' ? r.hashes.blake3!.slice(0, hashLength) : r.hashes[a]!])),
+      ...(r.entry?.chunks && { chunks: r.entry.chunks }),
+      ...(r.entry?.metadata && { metadata: r.entry.metadata }),
+      ...(v2?.mode !== undefined && { mode: v2.mode }),
+      ...(v2?.hardlinkGroup !== undefined && { hardlinkGroup: v2.hardlinkGroup }),
+      ...(v2?.lastVerified !== undefined && { lastVerified: v2.lastVerified })
+    };
+  });
+  const manifest: ManifestV2 = {
+    version: '2.0', generated, algorithms, hashLength, root: source?.root ?? root,
+    fileCount: files.length, totalBytes, ...keyFields, merkle: computeMerkleTree(files), ...history, files
+  };
+  return manifest;
+}
@@ -0,0 +1,408 @@
+/**
+ * Rolling fixity checks
+ * A ledger records when each manifest entry was last checked and how it went.
+ * Each run verifies the stalest files within a budget (bytes, files or time),
+ * so an archive too large to re-read at once is still covered every cycle.
+ * Outcomes are appended to XMP sidecars as fixity_check custody events.
+ */
+
+import * as fsp from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { ulid } from 'ulid';
+import {
+  manifestAlgorithms,
+  manifestHashLength,
+  entryHashes,
+  hashForManifest,
+  findHashMismatches,
+  type AnyManifest,
+  type AnyManifestEntry
+} from '../core/manifest.js';
+import type { Blake3KeyOptions } from '../core/keys.js';
+import { readSidecar, sidecarExists } from './xmp/reader.js';
+import { writeSidecar } from './xmp/writer.js';
+import type { CustodyEvent } from './xmp/schema.js';
+
+const VERSION = '0.1.1';
+const LEDGER_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ledger writes during a run, so an interrupted run keeps most of its work
+const SAVE_EVERY_FILES = 100;
+
+/** Days within which every file should have been verified */
+export const DEFAULT_FIXITY_CYCLE_DAYS = 90;
+
+/**
+ * Outcome of one check
+ * - 'success': size and every recorded digest match
+ * - 'failure': the file differs from the manifest or could not be read
+ * - 'missing': the file no longer exists
+ */
+export type FixityOutcome = 'success' | 'failure' | 'missing';
+
+export interface FixityLedgerEntry {
+  /** Last check, whatever its outcome */
+  lastChecked: string;
+  outcome: FixityOutcome;
+  /** Last check that matched the manifest */
+  lastVerified?: string;
+  /** What the last failed check found */
+  detail?: string;
+}
+
+/**
+ * Per-file verification history of one manifest
+ */
+export interface FixityLedger {
+  version: 1;
+  /** Manifest the ledger checks against */
+  manifest: string;
+  files: Record<string, FixityLedgerEntry>;
+}
+
+/**
+ * Limits of one run; without any, every file due in the cycle is checked
+ * A run always checks at least one file.
+ */
+export interface FixityBudget {
+  bytes?: number;
+  files?: number;
+  durationMs?: number;
+}
+
+export interface FixityCheck {
+  path: string;
+  size: number;
+  outcome: FixityOutcome;
+  detail?: string;
+}
+
+export interface FixityFailure {
+  path: string;
+  outcome: FixityOutcome;
+  lastChecked: string;
+  detail?: string;
+}
+
+/**
+ * How much of a manifest the ledger shows verified within the cycle
+ */
+export interface FixityCoverage {
+  cycleDays: number;
+  files: number;
+  totalBytes: number;
+  /** Files whose last successful check is within the cycle */
+  verifiedFiles: number;
+  verifiedBytes: number;
+  neverChecked: number;
+  /** Files whose latest check failed or found them missing */
+  failures: FixityFailure[];
+  /** Least recent successful check among the covered files */
+  oldestVerified?: string;
+  /** Bytes to verify per day to cover every file once per cycle */
+  bytesPerDay: number;
+}
+
+export interface FixityRunOptions {
+  ledgerPath: string;
+  budget?: FixityBudget;
+  cycleDays?: number;
+  /** Append fixity_check events to existing XMP sidecars (default: true) */
+  sidecars?: boolean;
+  /** Key options for keyed / derive_key manifests */
+  keyOptions?: Blake3KeyOptions;
+  onProgress?: (current: number, total: number, file: string) => void;
+}
+
+export interface FixityRunResult {
+  checked: FixityCheck[];
+  bytesChecked: number;
+  sidecarEvents: number;
+  sidecarErrors: string[];
+  /** Budget limit that ended the run before every selected file was checked */
+  stoppedBy?: 'duration';
+  coverage: FixityCoverage;
+}
+
+// ============================================
+// BUDGET
+// ============================================
+
+const SIZE_UNITS: Record<string, number> = { k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4 };
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: DAY_MS };
+
+/**
+ * Parse --bytes ("500G"), --files ("1000") and --duration ("2h", "30m", "90s")
+ * Size suffixes are binary (K = 1024); a bare duration is in seconds.
+ */
+export function parseFixityBudget(options: { bytes?: string; files?: string; duration?: string }): FixityBudget {
+  const budget: FixityBudget = {};
+
+  if (options.bytes !== undefined) {
+    const match = /^(\d+(?:\.\d+)?)\s*([kmgt])?(?:i?b)?$/i.exec(options.bytes.trim());
+    if (!match) throw new Error(`Invalid byte budget: ${options.bytes} (expected e.g. 500M, 2T)`);
+    budget.bytes = Math.floor(parseFloat(match[1]) * (match[2] ? SIZE_UNITS[match[2].toLowerCase()] : 1));
+  }
+
+  if (options.files !== undefined) {
+    if (!/^\d+$/.test(options.files.trim())) throw new Error(`Invalid file budget: ${options.files} (expected a whole number)`);
+    budget.files = parseInt(options.files, 10);
+  }
+
+  if (options.duration !== undefined) {
+    const match = /^(\d+(?:\.\d+)?)\s*([smhd])?$/i.exec(options.duration.trim());
+    if (!match) throw new Error(`Invalid duration: ${options.duration} (expected e.g. 90s, 30m, 2h)`);
+    budget.durationMs = parseFloat(match[1]) * DURATION_UNITS[(match[2] ?? 's').toLowerCase()];
+  }
+
+  return budget;
+}
+
+// ============================================
+// LEDGER
+// ============================================
+
+/**
+ * Default ledger location: fixity-ledger.json next to the manifest
+ */
+export function defaultLedgerPath(manifestPath: string): string {
+  return path.join(path.dirname(path.resolve(manifestPath)), 'fixity-ledger.json');
+}
+
+/**
+ * Read a ledger, or start an empty one
+ */
+export async function loadFixityLedger(ledgerPath: string, manifestPath: string): Promise<FixityLedger> {
+  let content: string;
+  try {
+    content = await fsp.readFile(ledgerPath, 'utf-8');
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    return { version: LEDGER_VERSION, manifest: path.basename(manifestPath), files: {} };
+  }
+
+  const ledger = JSON.parse(content) as FixityLedger;
+  if (ledger.version !== LEDGER_VERSION) {
+    throw new Error(`Unsupported fixity ledger version ${String(ledger.version)} in ${ledgerPath}`);
+  }
+  return ledger;
+}
+
+/**
+ * Write a ledger via a temp file and rename
+ */
+export async function saveFixityLedger(ledgerPath: string, ledger: FixityLedger): Promise<void> {
+  const tempPath = `${ledgerPath}.${process.pid}.tmp`;
+  await fsp.mkdir(path.dirname(ledgerPath), { recursive: true });
+  await fsp.writeFile(tempPath, JSON.stringify(ledger, null, 2));
+  await fsp.rename(tempPath, ledgerPath);
+}
+
+// ============================================
+// SCHEDULING
+// ============================================
+
+/**
+ * Entries to check this run: never-checked first, then least recently checked
+ * Without a bytes or files budget only entries not verified within the cycle
+ * are due. The bytes budget stops at the first entry that does not fit, so a
+ * large stale file is never skipped in favour of smaller fresher ones.
+ */
+export function selectFixityBatch<T extends AnyManifestEntry>(
+  entries: T[],
+  ledger: FixityLedger,
+  budget: FixityBudget = {},
+  cycleDays: number = DEFAULT_FIXITY_CYCLE_DAYS,
+  now: Date = new Date()
+): T[] {
+  const cutoff = new Date(now.getTime() - cycleDays * DAY_MS).toISOString();
+  const lastChecked = (entry: T): string => ledger.files[entry.path]?.lastChecked ?? '';
+  let candidates = [...entries].sort((a, b) => lastChecked(a).localeCompare(lastChecked(b)) || a.path.localeCompare(b.path));
+
+  if (budget.bytes === undefined && budget.files === undefined) {
+    candidates = candidates.filter(entry => (ledger.files[entry.path]?.lastVerified ?? '') < cutoff);
+  }
+
+  const batch: T[] = [];
+  let bytes = 0;
+  for (const entry of candidates) {
+    if (budget.files !== undefined && batch.length >= budget.files && batch.length > 0) break;
+    if (budget.bytes !== undefined && bytes + entry.size > budget.bytes && batch.length > 0) break;
+    batch.push(entry);
+    bytes += entry.size;
+  }
+  return batch;
+}
+
+/**
+ * Coverage of a manifest by the ledger
+ */
+export function fixityCoverage(
+  entries: AnyManifestEntry[],
+  ledger: FixityLedger,
+  cycleDays: number = DEFAULT_FIXITY_CYCLE_DAYS,
+  now: Date = new Date()
+): FixityCoverage {
+  const cutoff = new Date(now.getTime() - cycleDays * DAY_MS).toISOString();
+  const coverage: FixityCoverage = {
+    cycleDays,
+    files: entries.length,
+    totalBytes: 0,
+    verifiedFiles: 0,
+    verifiedBytes: 0,
+    neverChecked: 0,
+    failures: [],
+    bytesPerDay: 0
+  };
+
+  for (const entry of entries) {
+    coverage.totalBytes += entry.size;
+    const record = ledger.files[entry.path];
+    if (!record) {
+      coverage.neverChecked++;
+      continue;
+    }
+    if (record.outcome !== 'success') {
+      coverage.failures.push({ path: entry.path, outcome: record.outcome, lastChecked: record.lastChecked, detail: record.detail });
+    } else if (record.lastVerified && record.lastVerified >= cutoff) {
+      coverage.verifiedFiles++;
+      coverage.verifiedBytes += entry.size;
+      if (!coverage.oldestVerified || record.lastVerified < coverage.oldestVerified) {
+        coverage.oldestVerified = record.lastVerified;
+      }
+    }
+  }
+
+  coverage.bytesPerDay = Math.ceil(coverage.totalBytes / cycleDays);
+  return coverage;
+}
+
+// ============================================
+// CHECKING
+// ============================================
+
+/**
+ * Verify a batch of the stalest manifest entries under root and record the outcomes
+ * Ledger entries of paths the manifest no longer lists are dropped.
+ */
+export async function runFixityCheck(
+  root: string,
+  manifest: AnyManifest,
+  manifestPath: string,
+  options: FixityRunOptions
+): Promise<FixityRunResult> {
+  const startTime = performance.now();
+  const cycleDays = options.cycleDays ?? DEFAULT_FIXITY_CYCLE_DAYS;
+  const budget = options.budget ?? {};
+  const entries = manifest.files as AnyManifestEntry[];
+  const ledger = await loadFixityLedger(options.ledgerPath, manifestPath);
+
+  const listed = new Set(entries.map(entry => entry.path));
+  for (const filePath of Object.keys(ledger.files)) {
+    if (!listed.has(filePath)) delete ledger.files[filePath];
+  }
+
+  const batch = selectFixityBatch(entries, ledger, budget, cycleDays);
+  const result: FixityRunResult = { checked: [], bytesChecked: 0, sidecarEvents: 0, sidecarErrors: [], coverage: fixityCoverage(entries, ledger, cycleDays) };
+
+  for (const entry of batch) {
+    if (budget.durationMs !== undefined && result.checked.length > 0 && performance.now() - startTime >= budget.durationMs) {
+      result.stoppedBy = 'duration';
+      break;
+    }
+    options.onProgress?.(result.checked.length + 1, batch.length, entry.path);
+
+    const filePath = path.join(root, entry.path);
+    const check = await checkFile(filePath, entry, manifest, options.keyOptions ?? {});
+    const now = new Date().toISOString();
+    const previous = ledger.files[entry.path];
+    ledger.files[entry.path] = {
+      lastChecked: now,
+      outcome: check.outcome,
+      ...(check.outcome === 'success' ? { lastVerified: now } : previous?.lastVerified && { lastVerified: previous.lastVerified }),
+      ...(check.detail && { detail: check.detail })
+    };
+    result.checked.push(check);
+    result.bytesChecked += entry.size;
+
+    if (options.sidecars !== false) {
+      try {
+        if (await appendFixityEvent(filePath, check, manifest, entry)) result.sidecarEvents++;
+      } catch (err) {
+        result.sidecarErrors.push(`${entry.path}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    if (result.checked.length % SAVE_EVERY_FILES === 0) {
+      await saveFixityLedger(options.ledgerPath, ledger);
+    }
+  }
+
+  await saveFixityLedger(options.ledgerPath, ledger);
+  result.coverage = fixityCoverage(entries, ledger, cycleDays);
+  return result;
+}
+
+async function checkFile(
+  filePath: string,
+  entry: AnyManifestEntry,
+  manifest: AnyManifest,
+  keyOptions: Blake3KeyOptions
+): Promise<FixityCheck> {
+  const check: FixityCheck = { path: entry.path, size: entry.size, outcome: 'success' };
+  try {
+    const stats = await fsp.stat(filePath);
+    if (stats.size !== entry.size) {
+      return { ...check, outcome: 'failure', detail: `size ${stats.size}, expected ${entry.size}` };
+    }
+    const { hashes } = await hashForManifest(filePath, manifestAlgorithms(manifest), manifestHashLength(manifest), keyOptions, true);
+    const mismatched = findHashMismatches(entryHashes(entry), hashes);
+    return mismatched.length > 0 ? { ...check, outcome: 'failure', detail: `${mismatched.join(', ')} mismatch` } : check;
+  } catch (err: unknown) {
+    const errObj = err as NodeJS.ErrnoException;
+    if (errObj.code === 'ENOENT') return { ...check, outcome: 'missing' };
+    return { ...check, outcome: 'failure', detail: errObj.message ?? String(err) };
+  }
+}
+
+/**
+ * Append a fixity_check custody event to the file's sidecar, if it has one
+ */
+async function appendFixityEvent(
+  filePath: string,
+  check: FixityCheck,
+  manifest: AnyManifest,
+  entry: AnyManifestEntry
+): Promise<boolean> {
+  if (!(await sidecarExists(filePath))) return false;
+
+  const sidecar = await readSidecar(`${filePath}.xmp`);
+  if (!sidecar.isValid) {
+    throw new Error('sidecar is invalid, event not added');
+  }
+
+  const algorithm = manifestAlgorithms(manifest)[0];
+  const now = new Date().toISOString();
+  const event: CustodyEvent = {
+    eventId: ulid(),
+    eventTimestamp: now,
+    eventAction: 'fixity_check',
+    eventOutcome: check.outcome === 'success' ? 'success' : 'failure',
+    eventHost: os.hostname(),
+    eventUser: os.userInfo().username,
+    eventTool: `wake-n-blake/${VERSION}`,
+    eventHash: entryHashes(entry)[algorithm],
+    eventHashAlgorithm: algorithm,
+    eventNotes: check.outcome === 'success' ? 'Matches manifest' : `${check.outcome === 'missing' ? 'File missing' : check.detail}`
+  };
+
+  await writeSidecar(filePath, {
+    ...sidecar.data,
+    sidecarUpdated: now,
+    custodyChain: [...sidecar.data.custodyChain, event],
+    eventCount: sidecar.data.eventCount + 1
+  });
+  return true;
+}
@@ -8,9 +8,11 @@ import * as path from 'node:path';
 import * as os from 'node:os';
 import { scanDirectory } from './scanner.js';
 import { hashFile } from '../core/hasher.js';
-import { copyWithHash } from '../core/copier.js';
+import { hashFileWithChunks } from '../core/chunk-map.js';
+import { copyWithHash, copyToMany, type CopyMethod, type ReflinkMode } from '../core/copier.js';
+import { formatMode, pickMetadata, type MetadataPreservation } from '../core/file-metadata.js';
 import { generateBlake3Id } from '../core/id-generator.js';
-import type { Manifest, ManifestEntry } from '../schemas/index.js';
+import type { Manifest, ManifestEntry, ChunkMap, PreserveAttribute } from '../schemas/index.js';
 import { detectFileType, isSidecarFile, isSkippedFile } from './file-type/detector.js';
 import { writeSidecar } from './xmp/writer.js';
 import { detectSourceDevice, getSourceType } from './device/index.js';
@@ -122,6 +124,7 @@ export interface ImportSession {
   status: ImportStatus;
   source: string;
   destination: string;
+  destinations?: string[];  // All destination roots when importing to several (first is primary)
   totalFiles: number;
   processedFiles: number;
   duplicateFiles: number;
@@ -162,6 +165,17 @@ export interface CopiedCompanion {
   contentBase64?: string;  // Full content as base64 for archival embedding
 }
 
+/** Per-destination state when importing to several destinations */
+export interface ImportDestinationState {
+  root: string;            // Destination root
+  destPath: string;        // File path under this root
+  status: 'copied' | 'validated' | 'error';
+  destHash?: string;       // Hash of this copy after validation
+  sidecarPath?: string;
+  preservation?: MetadataPreservation;
+  error?: string;
+}
+
 export interface ImportFileState {
   path: string;
   relativePath: string;
@@ -182,6 +196,10 @@ export interface ImportFileState {
   isPrimary?: boolean;  // Primary file in related group
   metadata?: Record<string, unknown>;
   copiedCompanions?: CopiedCompanion[];  // Companion sidecars copied with this file
+  chunkMap?: ChunkMap;  // Per-block BLAKE3 digests of the source (when chunkSize is set)
+  copyMethod?: CopyMethod;  // How the primary copy was made (stream, reflink, copy_file_range)
+  preservation?: MetadataPreservation;  // Source metadata and what reached the copy (preserve)
+  destinations?: ImportDestinationState[];  // Per-destination results (multi-destination imports)
 }
 
 export interface ImportOptions {
@@ -216,11 +234,16 @@ export interface ImportOptions {
   calendarExtract?: boolean;  // Extract calendar/contact data (ICS, VCF)
   allExtractors?: boolean;    // Enable all available extractors
 
+  chunkSize?: number;         // Record a BLAKE3 chunk map with this block size (bytes)
+  reflink?: ReflinkMode;      // Clone instead of streaming where possible (single destination; 'always' is refused with several)
+  preserve?: PreserveAttribute[];  // Metadata to carry over: mode, owner, xattr, acl
+
   // Integration options for external apps (e.g., abandoned-archive)
   /**
    * Custom path builder for destination files.
    * If provided, overrides default relative path preservation.
    * Receives the file state and computed hash, returns the full destination path.
+   * With several destinations the path is built under the first and mirrored under the others.
    *
    * Example (location-based archive):
    *   pathBuilder: (file, hash) => `/archive/locations/CA/loc123/data/images/${hash}${path.extname(file.path)}`
@@ -242,10 +265,13 @@ const CHECKPOINT_FILE = '.wnb-import-session.json';
 
 /**
  * Run import pipeline
+ * With several destinations each source file is read once and fanned out to every
+ * destination; each copy is validated, sidecarred and manifested independently, and a
+ * failing destination does not affect the others. The first destination holds the checkpoint.
  */
 export async function runImport(
   source: string,
-  destination: string,
+  destination: string | string[],
   options: ImportOptions = {}
 ): Promise<ImportSession> {
   const {
@@ -278,13 +304,23 @@ export async function runImport(
     model3dAnalyze: useModel3dAnalyze = false,
     calendarExtract: useCalendarExtract = false,
     allExtractors = false,
+    chunkSize,
+    reflink = 'never',
+    preserve = [],
     // Integration options
     pathBuilder,
     existingHashes
   } = options;
 
   const resolvedSource = path.resolve(source);
-  const resolvedDest = path.resolve(destination);
+  const destRoots = (Array.isArray(destination) ? destination : [destination]).map(d => path.resolve(d));
+  const resolvedDest = destRoots[0];
+  const multiDest = destRoots.length > 1;
+
+  // Several destinations are written from one streamed read, so nothing is cloned
+  if (multiDest && reflink === 'always') {
+    throw new Error('Reflink always needs a single destination: several destinations are written from one streamed read');
+  }
 
   // Check for existing session
   let session: ImportSession;
@@ -301,11 +337,16 @@ export async function runImport(
   } else {
     session = createNewSession(resolvedSource, resolvedDest, batch);
   }
+  if (multiDest) {
+    session.destinations = destRoots;
+  }
 
   try {
-    // Ensure destination exists
+    // Ensure destinations exist
     if (!dryRun) {
-      await fs.mkdir(resolvedDest, { recursive: true });
+      for (const root of destRoots) {
+        await fs.mkdir(root, { recursive: true });
+      }
     }
 
     // Stage 1: Scan
@@ -434,7 +475,14 @@ export async function runImport(
       if (file.status !== 'pending') continue;
 
       try {
-        const result = await hashFile(file.path, 'blake3-full');
+        let result: { hash: string };
+        if (chunkSize) {
+          const chunked = await hashFileWithChunks(file.path, { chunkSize, full: true });
+          file.chunkMap = chunked.chunkMap;
+          result = chunked;
+        } else {
+          result = await hashFile(file.path, 'blake3-full');
+        }
         file.hash = result.hash;  // Full 64-char BLAKE3 hash
         file.hashShort = result.hash.slice(0, 16);  // 16-char for filename
         file.status = 'hashed';
@@ -494,11 +542,44 @@ export async function runImport(
         // Ensure destination directory exists (especially important for pathBuilder)
         await fs.mkdir(path.dirname(destPath), { recursive: true });
 
-        await copyWithHash(file.path, destPath, {
-          algorithm: 'blake3',
-          verify,
-          overwrite: false
-        });
+        if (multiDest) {
+          // Read once, write to every destination (paths mirrored from the primary)
+          const result = await copyToMany(file.path, destRoots.map(root => mirrorPath(destPath, resolvedDest, root)), {
+            algorithm: 'blake3',
+            verify,
+            overwrite: false,
+            resume,
+            preserve
+          });
+          file.destinations = result.targets.map((target, i) => ({
+            root: destRoots[i],
+            destPath: target.destination,
+            status: target.error ? 'error' as const : 'copied' as const,
+            ...(target.preservation && { preservation: target.preservation }),
+            ...(target.error && { error: target.error })
+          }));
+
+          const copied = file.destinations.find(d => d.status === 'copied');
+          if (!copied) {
+            throw new Error(`All destinations failed: ${file.destinations.map(d => d.error).join('; ')}`);
+          }
+          file.destPath = copied.destPath;
+          file.preservation = copied.preservation;
+          if (file.destinations.some(d => d.status === 'error')) {
+            onFile?.(file, 'destination-failed');
+          }
+        } else {
+          const result = await copyWithHash(file.path, destPath, {
+            algorithm: 'blake3',
+            verify,
+            overwrite: false,
+            resume,
+            reflink,
+            preserve
+          });
+          file.copyMethod = result.method;
+          file.preservation = result.preservation;
+        }
 
         file.status = 'copied';
         session.processedFiles++;
@@ -512,44 +593,77 @@ export async function runImport(
           const companionPaths = companionMap.get(file.path) || [];
           if (companionPaths.length > 0) {
             file.copiedCompanions = [];
-            const destDir = path.dirname(destPath);
-            const destBase = path.basename(destPath, path.extname(destPath));
+            const destDir = path.dirname(file.destPath);
+            const destBase = path.basename(file.destPath, path.extname(file.destPath));
 
             for (const companionPath of companionPaths) {
               const companionExt = path.extname(companionPath);
               // Keep original extension, use primary file's base name
               const companionDestPath = path.join(destDir, `${destBase}${companionExt}`);
 
-              // Copy and hash the companion
-              const companionResult = await copyWithHash(companionPath, companionDestPath, {
-                algorithm: 'blake3',
-                verify,
-                overwrite: false
-              });
-
-              // Get file size for embedding decision
-              const companionStats = await fs.stat(companionDestPath);
+              // Copy and hash the companion (next to every successful copy of the primary)
+              let companionCopy: { hash: string; size: number; destPath: string };
+              if (file.destinations) {
+                const copies = file.destinations.filter(d => d.status !== 'error');
+                const result = await copyToMany(companionPath, copies.map(d => companionPathFor(companionDestPath, d.destPath)), {
+                  algorithm: 'blake3',
+                  verify,
+                  overwrite: false
+                });
+
+                // A copy missing its companion is incomplete, like a failed primary copy
+                const failed = result.targets.flatMap((target, i) => (target.error ? [{ dest: copies[i], error: target.error }] : []));
+                for (const { dest, error } of failed) {
+                  dest.status = 'error';
+                  dest.error = `Companion ${path.basename(companionPath)} not copied: ${error}`;
+                }
+                const copied = copies.find(d => d.status !== 'error');
+                if (!copied) {
+                  throw new Error(`All destinations failed: ${failed.map(f => f.error).join('; ')}`);
+                }
+                if (failed.length > 0) {
+                  if (!copies.some(d => d.destPath === file.destPath && d.status !== 'error')) {
+                    file.destPath = copied.destPath;
+                    file.preservation = copied.preservation;
+                  }
+                  onFile?.(file, 'destination-failed');
+                }
+                companionCopy = { hash: result.hash, size: result.size, destPath: companionPathFor(companionDestPath, file.destPath) };
+              } else {
+                const result = await copyWithHash(companionPath, companionDestPath, {
+                  algorithm: 'blake3',
+                  verify,
+                  overwrite: false,
+                  reflink
+                });
+                companionCopy = { hash: result.hash, size: result.size, destPath: companionDestPath };
+              }
               const extLower = companionExt.toLowerCase();
 
               // Conditionally embed content based on file type and size
               // Video proxies (LRF, LRV) and large binaries are copied but not embedded
               let contentBase64: string | undefined;
-              if (shouldEmbedContent(extLower, companionStats.size)) {
+              if (shouldEmbedContent(extLower, companionCopy.size)) {
                 const companionContent = await fs.readFile(companionPath);
                 contentBase64 = companionContent.toString('base64');
               }
 
               file.copiedCompanions.push({
                 sourcePath: companionPath,
-                destPath: companionDestPath,
+                destPath: companionCopy.destPath,
                 extension: extLower,
-                hash: companionResult.hash,
-                size: companionStats.size,
+                hash: companionCopy.hash,
+                size: companionCopy.size,
                 contentBase64,
               });
 
               onFile?.(file, 'companion-copied');
             }
+
+            // Keep every companion beside the copy the primary now points to
+            for (const companion of file.copiedCompanions) {
+              companion.destPath = companionPathFor(companion.destPath, file.destPath);
+            }
           }
         } catch {
           // Companion copying is non-fatal, continue without
@@ -575,8 +689,13 @@ export async function runImport(
       for (const file of session.files) {
         if (file.status !== 'copied' || !file.destPath) continue;
 
+        if (file.destinations) {
+          await validateDestinations(file, session, onFile);
+          continue;
+        }
+
         try {
-          const result = await hashFile(file.destPath, 'blake3-full');
+          const result = await hashFile(file.destPath, { algorithm: 'blake3-full', fresh: true });
           file.destHash = result.hash;  // Full 64-char dest hash for verification proof
           if (result.hash === file.hash) {
             file.status = 'validated';
@@ -613,12 +732,28 @@ export async function runImport(
 
           // Only rename if name is different
           if (originalName !== newName) {
+            // Every copy is renamed the same way
+            for (const dest of file.destinations ?? []) {
+              if (dest.status === 'error' || dest.destPath === file.destPath) continue;
+              const destNewPath = path.join(path.dirname(dest.destPath), newName);
+              await fs.rename(dest.destPath, destNewPath);
+              for (const companion of file.copiedCompanions ?? []) {
+                await fs.rename(
+                  companionPathFor(companion.destPath, dest.destPath),
+                  path.join(path.dirname(dest.destPath), `${file.hashShort}${companion.extension}`)
+                ).catch(() => {});
+              }
+              dest.destPath = destNewPath;
+            }
+
+            const primary = file.destinations?.find(d => d.destPath === file.destPath);
             await fs.rename(file.destPath, newPath);
+            if (primary) primary.destPath = newPath;
             file.originalName = originalName;
             file.finalName = newName;
             file.destPath = newPath;
             file.renamed = true;
-            file.relativePath = path.relative(resolvedDest, newPath);
+            file.relativePath = path.relative(primary?.root ?? resolvedDest, newPath);
             session.renamedFiles++;
             onFile?.(file, 'renamed');
 
@@ -732,6 +867,10 @@ export async function runImport(
             destHash: file.destHash,  // Hash of dest after copy
             hashMatch: file.destHash ? file.hash === file.destHash : undefined,
 
+            // Chunk map - localizes damage on later checks
+            chunkSize: file.chunkMap?.chunkSize,
+            chunkHashes: file.chunkMap?.chunks,
+
             // File classification
             fileCategory,
             detectedMimeType: file.category || 'application/octet-stream',
@@ -761,7 +900,10 @@ export async function runImport(
             importUser: operator || os.userInfo().username,
             importHost: os.hostname(),
             importPlatform: process.platform as 'darwin' | 'linux' | 'win32',
-            importMethod: 'copy',
+            importMethod: file.copyMethod && file.copyMethod !== 'stream' ? file.copyMethod : 'copy',
+
+            // Permissions and attributes, including any the copy could not take
+            ...preservationSidecarFields(file.preservation),
 
             // Batch context
             batchId: session.batchId,
@@ -1072,9 +1214,25 @@ export async function runImport(
           }
 
           // Write sidecar
-          const sidecarPath = await writeSidecar(file.destPath, sidecarData);
-          file.sidecarPath = sidecarPath;
-          session.sidecarFiles++;
+          if (file.destinations) {
+            // One sidecar per copy, each with its own location and verification proof
+            for (const dest of file.destinations) {
+              if (dest.status === 'error') continue;
+              dest.sidecarPath = await writeSidecar(dest.destPath, {
+                ...sidecarData,
+                verified: dest.status === 'validated',
+                destHash: dest.destHash,
+                hashMatch: dest.destHash ? file.hash === dest.destHash : undefined,
+                ...preservationSidecarFields(dest.preservation),
+                custodyChain: [{ ...custodyEvent, eventLocation: dest.destPath }]
+              });
+              if (dest.destPath === file.destPath) file.sidecarPath = dest.sidecarPath;
+              session.sidecarFiles++;
+            }
+          } else {
+            file.sidecarPath = await writeSidecar(file.destPath, sidecarData);
+            session.sidecarFiles++;
+          }
           onFile?.(file, 'sidecar-generated');
         } catch {
           // Sidecar generation is non-fatal
@@ -1088,29 +1246,44 @@ export async function runImport(
       session.status = 'generating-manifest';
       onProgress?.(session);
 
-      const manifestEntries: ManifestEntry[] = session.files
-        .filter(f => f.status === 'validated' || f.status === 'copied')
-        .map(f => ({
-          path: f.relativePath,
-          hash: f.hash!,
-          size: f.size
-        }));
-
-      const manifestData: Manifest = {
-        version: '1.0',
-        generated: new Date().toISOString(),
-        algorithm: 'blake3',
-        hashLength: 16,
-        root: resolvedDest,
-        fileCount: manifestEntries.length,
-        totalBytes: manifestEntries.reduce((sum, e) => sum + e.size, 0),
-        files: manifestEntries.sort((a, b) => a.path.localeCompare(b.path))
-      };
-
-      await fs.writeFile(
-        path.join(resolvedDest, 'manifest.json'),
-        JSON.stringify(manifestData, null, 2)
-      );
+      // One manifest per destination, listing the copies that landed there
+      for (const root of destRoots) {
+        const manifestEntries: ManifestEntry[] = [];
+
+        for (const f of session.files) {
+          if (f.status !== 'validated' && f.status !== 'copied') continue;
+
+          const dest = f.destinations?.find(d => d.root === root);
+          if (f.destinations && (!dest || dest.status === 'error')) continue;
+
+          // Record the metadata the copy actually carries so check can spot drift
+          const preservation = dest ? dest.preservation : f.preservation;
+
+          manifestEntries.push({
+            path: dest ? path.relative(root, dest.destPath) : f.relativePath,
+            hash: f.hash!,
+            size: f.size,
+            ...(f.chunkMap ? { chunks: f.chunkMap } : {}),
+            ...(preservation ? { metadata: pickMetadata(preservation.metadata, preservation.preserved) } : {})
+          });
+        }
+
+        const manifestData: Manifest = {
+          version: '1.0',
+          generated: new Date().toISOString(),
+          algorithm: 'blake3',
+          hashLength: 16,
+          root,
+          fileCount: manifestEntries.length,
+          totalBytes: manifestEntries.reduce((sum, e) => sum + e.size, 0),
+          files: manifestEntries.sort((a, b) => a.path.localeCompare(b.path))
+        };
+
+        await fs.writeFile(
+          path.join(root, 'manifest.json'),
+          JSON.stringify(manifestData, null, 2)
+        );
+      }
     }
 
     // Complete
@@ -1138,6 +1311,67 @@ export async function runImport(
   }
 }
 
+/**
+ * Map a path under the primary destination onto another destination root
+ */
+function mirrorPath(destPath: string, primaryRoot: string, root: string): string {
+  return root === primaryRoot ? destPath : path.join(root, path.relative(primaryRoot, destPath));
+}
+
+/**
+ * Path of a companion next to another copy of its primary file
+ */
+function companionPathFor(companionDestPath: string, primaryDestPath: string): string {
+  return path.join(path.dirname(primaryDestPath), path.basename(companionDestPath));
+}
+
+/**
+ * Re-hash every copy of a multi-destination file
+ * The file is validated when at least one copy matches; failed copies are reported per destination.
+ */
+async function validateDestinations(
+  file: ImportFileState,
+  session: ImportSession,
+  onFile?: (file: ImportFileState, action: string) => void
+): Promise<void> {
+  for (const dest of file.destinations!) {
+    if (dest.status !== 'copied') continue;
+
+    try {
+      const result = await hashFile(dest.destPath, { algorithm: 'blake3-full', fresh: true });
+      dest.destHash = result.hash;
+      if (result.hash === file.hash) {
+        dest.status = 'validated';
+      } else {
+        dest.status = 'error';
+        dest.error = `Validation failed: expected ${file.hash}, got ${result.hash}`;
+      }
+    } catch (err: unknown) {
+      dest.status = 'error';
+      dest.error = `Validation error: ${err instanceof Error ? err.message : String(err)}`;
+    }
+  }
+
+  const validated = file.destinations!.filter(d => d.status === 'validated');
+  if (validated.length === 0) {
+    file.status = 'error';
+    file.error = file.destinations!.map(d => `${d.root}: ${d.error}`).join('; ');
+    session.errorFiles++;
+    onFile?.(file, 'validation-failed');
+    return;
+  }
+
+  // Metadata and sidecars read from a validated copy
+  const primary = validated.find(d => d.destPath === file.destPath) ?? validated[0];
+  file.destPath = primary.destPath;
+  file.destHash = primary.destHash;
+  file.status = 'validated';
+  if (validated.length < file.destinations!.length) {
+    onFile?.(file, 'destination-failed');
+  }
+  onFile?.(file, 'validated');
+}
+
 /**
  * Create a new import session
  */
@@ -1162,6 +1396,25 @@ function createNewSession(source: string, destination: string, batch?: string):
   };
 }
 
+/**
+ * Sidecar fields for preserved metadata
+ */
+function preservationSidecarFields(preservation?: MetadataPreservation): Partial<XmpSidecarData> {
+  if (!preservation) return {};
+  const { metadata, failed } = preservation;
+
+  return {
+    originalMode: metadata.mode !== undefined ? formatMode(metadata.mode) : undefined,
+    originalUid: metadata.uid,
+    originalGid: metadata.gid,
+    originalXattrs: metadata.xattrs && Object.keys(metadata.xattrs).length > 0
+      ? Object.entries(metadata.xattrs).map(([name, value]) => `${name}=${value}`)
+      : undefined,
+    originalAcl: metadata.acl || undefined,
+    unpreservedMetadata: failed.length > 0 ? failed.map(f => f.attribute) : undefined
+  };
+}
+
 /**
  * Save checkpoint to disk
  */
@@ -0,0 +1,719 @@
+/**
+ * ASC MHL v2 histories
+ * A folder's history lives in <folder>/ascmhl/: numbered generation files
+ * (0001_<folder>_<date>.mhl, ...) and ascmhl_chain.xml, which records the C4 ID
+ * of every generation so any later edit to the history is detected.
+ * Folders below the root may hold their own history; the parent's generation
+ * then references the child's newest generation instead of listing its files.
+ * Spec: https://theasc.com/society/ascmhl
+ */
+
+import * as fs from 'node:fs';
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { hashStream } from '../../core/hasher.js';
+import { throttle, getReadLimiter } from '../../core/throttle.js';
+import { getBufferSize } from '../../utils/network.js';
+import { scanDirectory } from '../scanner.js';
+import { escapeXml, extractTag, parseAttributes, unescapeXml } from './xml.js';
+import type { Algorithm } from '../../schemas/index.js';
+
+const VERSION = '0.1.1';
+
+export const ASC_MHL_VERSION = '2.0';
+export const ASC_MHL_FOLDER = 'ascmhl';
+export const ASC_MHL_CHAIN_FILE = 'ascmhl_chain.xml';
+
+const MHL_NAMESPACE = 'urn:ASC:MHL:v2.0';
+const CHAIN_NAMESPACE = 'urn:ASC:MHL:DIRECTORY:v2.0';
+
+// Written into every generation's ignore list, as other ASC MHL tools do
+const DEFAULT_IGNORE_PATTERNS = ['.DS_Store', ASC_MHL_FOLDER, `${ASC_MHL_FOLDER}/`];
+
+/**
+ * Hash formats of the ASC MHL spec, in the order verification prefers them
+ */
+export type MhlHashFormat = 'xxh64' | 'xxh3' | 'xxh128' | 'md5' | 'sha1' | 'c4';
+
+export const MHL_HASH_FORMATS: readonly MhlHashFormat[] = ['xxh64', 'xxh3', 'xxh128', 'md5', 'sha1', 'c4'];
+
+/**
+ * What a generation did with a digest
+ * - 'original': first digest of the file in this format
+ * - 'verified': re-read and matched the history
+ * - 'failed': re-read and did not match (the value is what was read)
+ */
+export type MhlHashAction = 'original' | 'verified' | 'failed';
+
+export interface AscMhlHash {
+  format: MhlHashFormat;
+  value: string;
+  action: MhlHashAction;
+  hashDate: string;
+}
+
+export interface AscMhlEntry {
+  /** Path relative to the history's folder, '/' separated */
+  path: string;
+  size: number;
+  lastModificationDate?: string;
+  /** Path the file had in earlier generations (renamed or moved) */
+  previousPath?: string;
+  hashes: AscMhlHash[];
+}
+
+/**
+ * A nested history's generation, referenced from its parent's generation
+ */
+export interface AscMhlReference {
+  /** Path of the generation file relative to the parent folder */
+  path: string;
+  c4: string;
+}
+
+export interface AscMhlGeneration {
+  version: string;
+  creatorInfo: {
+    creationDate: string;
+    hostName: string;
+    tool: { name: string; version: string };
+    comment?: string;
+  };
+  process: 'in-place' | 'transfer' | 'flatten';
+  ignorePatterns: string[];
+  hashes: AscMhlEntry[];
+  references: AscMhlReference[];
+}
+
+export interface AscMhlChainEntry {
+  sequenceNumber: number;
+  /** Generation file name within ascmhl/ */
+  path: string;
+  c4: string;
+}
+
+export interface AscMhlHistory {
+  /** Folder the history describes */
+  root: string;
+  /** Generations by sequence number */
+  generations: Array<{ sequenceNumber: number; fileName: string; generation: AscMhlGeneration }>;
+  chain: AscMhlChainEntry[];
+  /** Whether ascmhl_chain.xml exists */
+  hasChain: boolean;
+}
+
+export interface MhlRename {
+  from: string;
+  to: string;
+}
+
+/**
+ * One new generation, and those added to nested histories
+ * Paths are relative to the generation's own folder.
+ */
+export interface MhlGenerationResult {
+  root: string;
+  sequenceNumber: number;
+  generationPath: string;
+  original: string[];
+  verified: string[];
+  failed: string[];
+  renamed: MhlRename[];
+  /** Files the previous generation recorded that are no longer present */
+  missing: string[];
+  children: MhlGenerationResult[];
+}
+
+export interface MhlHistoryVerifyResult {
+  root: string;
+  generations: number;
+  valid: boolean;
+  /** Chain, generation and reference problems */
+  chainErrors: string[];
+  verified: string[];
+  failed: string[];
+  /** Files the newest generation recorded that are no longer present */
+  missing: string[];
+  /** Files present that no generation records */
+  newFiles: string[];
+  children: MhlHistoryVerifyResult[];
+}
+
+export interface MhlHistoryOptions {
+  /** Format for files without a digest in the history (default: xxh64) */
+  hashFormat?: MhlHashFormat;
+  excludePatterns?: string[];
+  onProgress?: (current: number, total: number, file: string) => void;
+}
+
+// ============================================
+// HASH FORMATS
+// ============================================
+
+/**
+ * Hash a file in several MHL formats with one read
+ */
+export async function hashMhlFormats(
+  filePath: string,
+  formats: MhlHashFormat[]
+): Promise<{ hashes: Partial<Record<MhlHashFormat, string>>; size: number }> {
+  const wanted = [...new Set(formats)];
+  const stream = throttle(fs.createReadStream(filePath, { highWaterMark: getBufferSize(filePath) }), getReadLimiter());
+  const result = await hashStream(stream, wanted.map(algorithmOf));
+
+  const hashes: Partial<Record<MhlHashFormat, string>> = {};
+  for (const format of wanted) {
+    hashes[format] = result.hashes[algorithmOf(format)];
+  }
+  return { hashes, size: result.size };
+}
+
+// MHL format names are the wnb algorithm names, except xxh64
+function algorithmOf(format: MhlHashFormat): Algorithm {
+  return format === 'xxh64' ? 'xxhash64' : format;
+}
+
+async function c4OfFile(filePath: string): Promise<string> {
+  return (await hashMhlFormats(filePath, ['c4'])).hashes.c4!;
+}
+
+// ============================================
+// XML
+// ============================================
+
+/**
+ * Whether an MHL document is an ASC MHL v2 generation rather than a flat MHL
+ */
+export function isAscMhlXml(xml: string): boolean {
+  return xml.includes(`xmlns="${MHL_NAMESPACE}"`);
+}
+
+/**
+ * Convert a generation to ASC MHL v2 XML
+ */
+export function ascMhlToXml(generation: AscMhlGeneration): string {
+  const { creatorInfo } = generation;
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<hashlist version="${generation.version}" xmlns="${MHL_NAMESPACE}">`,
+    '  <creatorinfo>',
+    `    <creationdate>${creatorInfo.creationDate}</creationdate>`,
+    `    <hostname>${escapeXml(creatorInfo.hostName)}</hostname>`,
+    `    <tool version="${escapeXml(creatorInfo.tool.version)}">${escapeXml(creatorInfo.tool.name)}</tool>`
+  ];
+  if (creatorInfo.comment) {
+    lines.push(`    <comment>${escapeXml(creatorInfo.comment)}</comment>`);
+  }
+  lines.push('  </creatorinfo>');
+
+  lines.push('  <processinfo>');
+  lines.push(`    <process>${generation.process}</process>`);
+  lines.push('    <ignore>');
+  for (const pattern of generation.ignorePatterns) {
+    lines.push(`      <pattern>${escapeXml(pattern)}</pattern>`);
+  }
+  lines.push('    </ignore>');
+  lines.push('  </processinfo>');
+
+  lines.push('  <hashes>');
+  for (const entry of generation.hashes) {
+    const modified = entry.lastModificationDate ? ` lastmodificationdate="${entry.lastModificationDate}"` : '';
+    lines.push('    <hash>');
+    lines.push(`      <path size="${entry.size}"${modified}>${escapeXml(entry.path)}</path>`);
+    if (entry.previousPath !== undefined) {
+      lines.push(`      <previouspath>${escapeXml(entry.previousPath)}</previouspath>`);
+    }
+    for (const hash of entry.hashes) {
+      lines.push(`      <${hash.format} action="${hash.action}" hashdate="${hash.hashDate}">${hash.value}</${hash.format}>`);
+    }
+    lines.push('    </hash>');
+  }
+  lines.push('  </hashes>');
+
+  if (generation.references.length > 0) {
+    lines.push('  <references>');
+    for (const reference of generation.references) {
+      lines.push('    <hashlistreference>');
+      lines.push(`      <path>${escapeXml(reference.path)}</path>`);
+      lines.push(`      <c4>${reference.c4}</c4>`);
+      lines.push('    </hashlistreference>');
+    }
+    lines.push('  </references>');
+  }
+
+  lines.push('</hashlist>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse an ASC MHL v2 generation
+ * Directory hashes are not read; wnb verifies files individually.
+ */
+export function parseAscMhlXml(xml: string): AscMhlGeneration {
+  if (!isAscMhlXml(xml)) {
+    throw new Error('Not an ASC MHL v2 document');
+  }
+
+  const creatorXml = /<creatorinfo>([\s\S]*?)<\/creatorinfo>/.exec(xml)?.[1] ?? '';
+  const toolMatch = /<tool(\s[^>]*)?>([^<]*)<\/tool>/.exec(creatorXml);
+  const comment = extractTag(creatorXml, 'comment');
+  const ignoreXml = /<ignore>([\s\S]*?)<\/ignore>/.exec(xml)?.[1] ?? '';
+
+  const hashes: AscMhlEntry[] = [];
+  for (const match of xml.matchAll(/<hash>([\s\S]*?)<\/hash>/g)) {
+    const hashXml = match[1];
+    const pathMatch = /<path(\s[^>]*)?>([^<]*)<\/path>/.exec(hashXml);
+    if (!pathMatch) continue;
+    const attributes = parseAttributes(pathMatch[1] ?? '');
+    const previousPath = extractTag(hashXml, 'previouspath');
+
+    const entry: AscMhlEntry = {
+      path: unescapeXml(pathMatch[2]),
+      size: parseInt(attributes.size ?? '0', 10),
+      ...(attributes.lastmodificationdate && { lastModificationDate: attributes.lastmodificationdate }),
+      ...(previousPath !== null && { previousPath }),
+      hashes: []
+    };
+    for (const hash of hashXml.matchAll(/<(xxh64|xxh3|xxh128|md5|sha1|c4)(\s[^>]*)?>([^<]*)<\/\1>/g)) {
+      const hashAttributes = parseAttributes(hash[2] ?? '');
+      entry.hashes.push({
+        format: hash[1] as MhlHashFormat,
+        value: hash[1] === 'c4' ? hash[3].trim() : hash[3].trim().toLowerCase(),
+        action: (hashAttributes.action ?? 'original') as MhlHashAction,
+        hashDate: hashAttributes.hashdate ?? ''
+      });
+    }
+    hashes.push(entry);
+  }
+
+  const references: AscMhlReference[] = [];
+  for (const match of xml.matchAll(/<hashlistreference>([\s\S]*?)<\/hashlistreference>/g)) {
+    references.push({ path: extractTag(match[1], 'path') ?? '', c4: extractTag(match[1], 'c4') ?? '' });
+  }
+
+  return {
+    version: /<hashlist\s[^>]*version="([^"]+)"/.exec(xml)?.[1] ?? ASC_MHL_VERSION,
+    creatorInfo: {
+      creationDate: extractTag(creatorXml, 'creationdate') ?? '',
+      hostName: extractTag(creatorXml, 'hostname') ?? 'unknown',
+      tool: { name: toolMatch ? unescapeXml(toolMatch[2]) : 'unknown', version: parseAttributes(toolMatch?.[1] ?? '').version ?? 'unknown' },
+      ...(comment !== null && { comment })
+    },
+    process: (extractTag(xml, 'process') ?? 'in-place') as AscMhlGeneration['process'],
+    ignorePatterns: [...ignoreXml.matchAll(/<pattern>([^<]*)<\/pattern>/g)].map(m => unescapeXml(m[1])),
+    hashes,
+    references
+  };
+}
+
+/**
+ * Convert a chain to ascmhl_chain.xml
+ */
+export function chainToXml(chain: AscMhlChainEntry[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<ascmhldirectory xmlns="${CHAIN_NAMESPACE}">`
+  ];
+  for (const entry of chain) {
+    lines.push(`  <hashlist sequencenr="${entry.sequenceNumber}">`);
+    lines.push(`    <path>${escapeXml(entry.path)}</path>`);
+    lines.push(`    <c4>${entry.c4}</c4>`);
+    lines.push('  </hashlist>');
+  }
+  lines.push('</ascmhldirectory>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse ascmhl_chain.xml
+ */
+export function parseChainXml(xml: string): AscMhlChainEntry[] {
+  const chain: AscMhlChainEntry[] = [];
+  for (const match of xml.matchAll(/<hashlist(\s[^>]*)?>([\s\S]*?)<\/hashlist>/g)) {
+    chain.push({
+      sequenceNumber: parseInt(parseAttributes(match[1] ?? '').sequencenr ?? '0', 10),
+      path: extractTag(match[2], 'path') ?? '',
+      c4: extractTag(match[2], 'c4') ?? ''
+    });
+  }
+  return chain;
+}
+
+// ============================================
+// HISTORY
+// ============================================
+
+/**
+ * Read the history of a folder; a folder without one has no generations
+ */
+export async function loadMhlHistory(root: string): Promise<AscMhlHistory> {
+  const folder = path.join(root, ASC_MHL_FOLDER);
+  const history: AscMhlHistory = { root, generations: [], chain: [], hasChain: false };
+
+  let names: string[];
+  try {
+    names = await fsp.readdir(folder);
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return history;
+    throw err;
+  }
+
+  for (const fileName of names.filter(name => /^\d+_.*\.mhl$/.test(name)).sort()) {
+    const generation = parseAscMhlXml(await fsp.readFile(path.join(folder, fileName), 'utf-8'));
+    history.generations.push({ sequenceNumber: parseInt(fileName, 10), fileName, generation });
+  }
+  history.generations.sort((a, b) => a.sequenceNumber - b.sequenceNumber);
+
+  if (names.includes(ASC_MHL_CHAIN_FILE)) {
+    history.hasChain = true;
+    history.chain = parseChainXml(await fsp.readFile(path.join(folder, ASC_MHL_CHAIN_FILE), 'utf-8'));
+  }
+  return history;
+}
+
+interface KnownFile {
+  size: number;
+  hashes: Partial<Record<MhlHashFormat, string>>;
+}
+
+/**
+ * Fold a history into the digests each known file should have
+ * The first digest recorded in a format stays the reference; failed checks
+ * never replace it. Renames carry a file's digests to its new path.
+ */
+function knownFiles(history: AscMhlHistory): Map<string, KnownFile> {
+  const known = new Map<string, KnownFile>();
+  for (const { generation } of history.generations) {
+    for (const entry of generation.hashes) {
+      if (entry.previousPath !== undefined && known.has(entry.previousPath)) {
+        known.set(entry.path, known.get(entry.previousPath)!);
+        known.delete(entry.previousPath);
+      }
+      const record = known.get(entry.path) ?? { size: entry.size, hashes: {} };
+      record.size = entry.size;
+      for (const hash of entry.hashes) {
+        if (hash.action !== 'failed' && record.hashes[hash.format] === undefined) {
+          record.hashes[hash.format] = hash.value;
+        }
+      }
+      known.set(entry.path, record);
+    }
+  }
+  return known;
+}
+
+/**
+ * Paths the newest generation recorded; only these can go missing
+ * A file left out of a generation was deleted on purpose or already reported.
+ */
+function latestPaths(history: AscMhlHistory): Set<string> {
+  return new Set(history.generations.at(-1)?.generation.hashes.map(entry => entry.path) ?? []);
+}
+
+function preferredFormat(hashes: Partial<Record<MhlHashFormat, string>>): MhlHashFormat | undefined {
+  return MHL_HASH_FORMATS.find(format => hashes[format] !== undefined);
+}
+
+/**
+ * Check the chain against the generation files
+ */
+async function verifyChain(history: AscMhlHistory): Promise<string[]> {
+  if (history.generations.length === 0 && !history.hasChain) {
+    return [];
+  }
+  if (!history.hasChain) {
+    return [`${ASC_MHL_CHAIN_FILE} is missing`];
+  }
+
+  const errors: string[] = [];
+  const folder = path.join(history.root, ASC_MHL_FOLDER);
+  const chained = new Set<string>();
+  history.chain.forEach((entry, i) => {
+    if (entry.sequenceNumber !== i + 1) {
+      errors.push(`chain entry ${i + 1} has sequence number ${entry.sequenceNumber}`);
+    }
+    chained.add(entry.path);
+  });
+
+  for (const entry of history.chain) {
+    const generationPath = path.join(folder, entry.path);
+    try {
+      const c4 = await c4OfFile(generationPath);
+      if (c4 !== entry.c4) errors.push(`${entry.path} was modified after it was written (C4 mismatch)`);
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+      errors.push(`${entry.path} is in the chain but missing`);
+    }
+    if (parseInt(entry.path, 10) !== entry.sequenceNumber) {
+      errors.push(`${entry.path} is chained as generation ${entry.sequenceNumber}`);
+    }
+  }
+  for (const { fileName } of history.generations) {
+    if (!chained.has(fileName)) errors.push(`${fileName} is not in the chain`);
+  }
+  return errors;
+}
+
+interface HistoryTree {
+  /** Every history folder, the root first */
+  roots: string[];
+  /** Files (absolute) by the innermost history folder holding them */
+  files: Map<string, string[]>;
+}
+
+/**
+ * Find the nested histories below root and assign every file to one
+ */
+async function scanHistoryTree(root: string, excludePatterns: string[]): Promise<HistoryTree> {
+  const scan = await scanDirectory(root, { recursive: true, excludePatterns });
+  const nested = scan.directories
+    .filter(dir => path.basename(dir) === ASC_MHL_FOLDER && path.dirname(dir) !== root)
+    .map(dir => path.dirname(dir));
+  // Deepest first, so a file goes to its innermost history
+  const roots = [root, ...nested.sort()];
+  const byDepth = [...roots].sort((a, b) => b.length - a.length);
+
+  const files = new Map<string, string[]>(roots.map(r => [r, []]));
+  for (const file of scan.files) {
+    if (path.relative(root, file).split(path.sep).includes(ASC_MHL_FOLDER)) continue;
+    const owner = byDepth.find(r => r === root || file.startsWith(r + path.sep))!;
+    files.get(owner)!.push(file);
+  }
+  return { roots, files };
+}
+
+/**
+ * Histories directly below a history folder
+ */
+function childHistories(tree: HistoryTree, historyRoot: string): string[] {
+  return tree.roots.filter(candidate => {
+    if (candidate === historyRoot || !candidate.startsWith(historyRoot + path.sep)) return false;
+    return !tree.roots.some(other => other !== historyRoot && other !== candidate &&
+      other.startsWith(historyRoot + path.sep) && candidate.startsWith(other + path.sep));
+  });
+}
+
+function toPosix(relativePath: string): string {
+  return relativePath.split(path.sep).join('/');
+}
+
+function mhlDate(date: Date = new Date()): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, '+00:00');
+}
+
+function generationFileName(sequenceNumber: number, root: string, date: Date): string {
+  const stamp = date.toISOString().replace(/\.\d{3}Z$/, 'Z').replace('T', '_').replace(/:/g, '');
+  return `${String(sequenceNumber).padStart(4, '0')}_${path.basename(root)}_${stamp}.mhl`;
+}
+
+function ignorePatternsFor(history: AscMhlHistory, excludePatterns: string[]): string[] {
+  const previous = history.generations.at(-1)?.generation.ignorePatterns ?? [];
+  return [...new Set([...DEFAULT_IGNORE_PATTERNS, ...previous, ...excludePatterns])];
+}
+
+/**
+ * Add a generation to the history of root, and to every nested history below it
+ * Files the history knows are re-read and recorded as verified or failed; new
+ * files are recorded as original, or as renamed when their content matches a
+ * file that has gone missing. Missing files (recorded by the previous
+ * generation, now absent) are counted in the generation's comment, since the
+ * format has no entry for them; the next generation no longer expects them.
+ */
+export async function createMhlGeneration(root: string, options: MhlHistoryOptions = {}): Promise<MhlGenerationResult> {
+  const rootPath = path.resolve(root);
+  const hashFormat = options.hashFormat ?? 'xxh64';
+  const rootHistory = await loadMhlHistory(rootPath);
+  const ignorePatterns = ignorePatternsFor(rootHistory, options.excludePatterns ?? []);
+  const tree = await scanHistoryTree(rootPath, ignorePatterns.filter(p => !DEFAULT_IGNORE_PATTERNS.includes(p)));
+
+  const total = [...tree.files.values()].reduce((sum, files) => sum + files.length, 0);
+  let current = 0;
+
+  async function create(historyRoot: string): Promise<MhlGenerationResult> {
+    const children: MhlGenerationResult[] = [];
+    for (const child of childHistories(tree, historyRoot)) {
+      children.push(await create(child));
+    }
+
+    const history = historyRoot === rootPath ? rootHistory : await loadMhlHistory(historyRoot);
+    const known = knownFiles(history);
+    const now = new Date();
+    const sequenceNumber = (history.generations.at(-1)?.sequenceNumber ?? 0) + 1;
+    const result: MhlGenerationResult = {
+      root: historyRoot,
+      sequenceNumber,
+      generationPath: path.join(historyRoot, ASC_MHL_FOLDER, generationFileName(sequenceNumber, historyRoot, now)),
+      original: [],
+      verified: [],
+      failed: [],
+      renamed: [],
+      missing: [],
+      children
+    };
+
+    const files = tree.files.get(historyRoot)!.map(file => ({ file, relative: toPosix(path.relative(historyRoot, file)) }));
+    const present = new Set(files.map(f => f.relative));
+    const latest = latestPaths(history);
+    const missing = new Map([...known].filter(([filePath]) => latest.has(filePath) && !present.has(filePath)));
+    const entries: AscMhlEntry[] = [];
+
+    for (const { file, relative } of files) {
+      options.onProgress?.(++current, total, path.relative(rootPath, file));
+      const record = known.get(relative);
+      const checkFormats = record
+        ? [preferredFormat(record.hashes)!]
+        : [...missing.values()].map(m => preferredFormat(m.hashes)!);
+      const { hashes, size } = await hashMhlFormats(file, [hashFormat, ...checkFormats]);
+
+      // A new file whose content matches a missing one was renamed or moved
+      let reference = record;
+      let previousPath: string | undefined;
+      if (!record) {
+        for (const [missingPath, candidate] of missing) {
+          const format = preferredFormat(candidate.hashes)!;
+          if (candidate.size === size && candidate.hashes[format] === hashes[format]) {
+            reference = candidate;
+            previousPath = missingPath;
+            missing.delete(missingPath);
+            break;
+          }
+        }
+      }
+
+      const stats = await fsp.stat(file);
+      const entry: AscMhlEntry = {
+        path: relative,
+        size,
+        lastModificationDate: mhlDate(stats.mtime),
+        ...(previousPath !== undefined && { previousPath }),
+        hashes: []
+      };
+      const formats = reference
+        ? [...new Set([preferredFormat(reference.hashes)!, hashFormat])]
+        : [hashFormat];
+      for (const format of formats) {
+        const recorded = reference?.hashes[format];
+        const action: MhlHashAction = recorded === undefined ? 'original' : recorded === hashes[format] ? 'verified' : 'failed';
+        entry.hashes.push({ format, value: hashes[format]!, action, hashDate: mhlDate() });
+      }
+      entries.push(entry);
+
+      if (entry.hashes.some(h => h.action === 'failed')) {
+        result.failed.push(relative);
+      } else if (previousPath !== undefined) {
+        result.renamed.push({ from: previousPath, to: relative });
+      } else if (reference) {
+        result.verified.push(relative);
+      } else {
+        result.original.push(relative);
+      }
+    }
+    result.missing = [...missing.keys()].sort();
+
+    const references: AscMhlReference[] = [];
+    for (const child of children) {
+      references.push({ path: toPosix(path.relative(historyRoot, child.generationPath)), c4: await c4OfFile(child.generationPath) });
+    }
+
+    const generation: AscMhlGeneration = {
+      version: ASC_MHL_VERSION,
+      creatorInfo: {
+        creationDate: mhlDate(now),
+        hostName: os.hostname(),
+        tool: { name: 'wake-n-blake', version: VERSION },
+        ...(result.missing.length > 0 && { comment: `Missing since the previous generation: ${result.missing.length} files` })
+      },
+      process: 'in-place',
+      ignorePatterns,
+      hashes: entries,
+      references
+    };
+
+    await fsp.mkdir(path.dirname(result.generationPath), { recursive: true });
+    await fsp.writeFile(result.generationPath, ascMhlToXml(generation), 'utf-8');
+    const chain = [...history.chain, {
+      sequenceNumber,
+      path: path.basename(result.generationPath),
+      c4: await c4OfFile(result.generationPath)
+    }];
+    await fsp.writeFile(path.join(historyRoot, ASC_MHL_FOLDER, ASC_MHL_CHAIN_FILE), chainToXml(chain), 'utf-8');
+
+    return result;
+  }
+
+  return create(rootPath);
+}
+
+/**
+ * Verify root and every nested history: the chain of each, references between
+ * them, and every file against the digests its history recorded
+ */
+export async function verifyMhlHistory(root: string, options: MhlHistoryOptions = {}): Promise<MhlHistoryVerifyResult> {
+  const rootPath = path.resolve(root);
+  const rootHistory = await loadMhlHistory(rootPath);
+  if (rootHistory.generations.length === 0 && !rootHistory.hasChain) {
+    throw new Error(`No ASC MHL history in ${rootPath} (expected ${ASC_MHL_FOLDER}/)`);
+  }
+  const ignorePatterns = ignorePatternsFor(rootHistory, options.excludePatterns ?? []);
+  const tree = await scanHistoryTree(rootPath, ignorePatterns.filter(p => !DEFAULT_IGNORE_PATTERNS.includes(p)));
+
+  const total = [...tree.files.values()].reduce((sum, files) => sum + files.length, 0);
+  let current = 0;
+
+  async function verify(historyRoot: string): Promise<MhlHistoryVerifyResult> {
+    const history = historyRoot === rootPath ? rootHistory : await loadMhlHistory(historyRoot);
+    const known = knownFiles(history);
+    const result: MhlHistoryVerifyResult = {
+      root: historyRoot,
+      generations: history.generations.length,
+      valid: true,
+      chainErrors: await verifyChain(history),
+      verified: [],
+      failed: [],
+      missing: [],
+      newFiles: [],
+      children: []
+    };
+
+    // The newest generation must reference the current generation of each nested history
+    for (const reference of history.generations.at(-1)?.generation.references ?? []) {
+      try {
+        if (await c4OfFile(path.join(historyRoot, reference.path)) !== reference.c4) {
+          result.chainErrors.push(`${reference.path} does not match its reference (C4 mismatch)`);
+        }
+      } catch (err: unknown) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+        result.chainErrors.push(`${reference.path} is referenced but missing`);
+      }
+    }
+
+    const present = new Set<string>();
+    for (const file of tree.files.get(historyRoot)!) {
+      const relative = toPosix(path.relative(historyRoot, file));
+      present.add(relative);
+      options.onProgress?.(++current, total, path.relative(rootPath, file));
+
+      const record = known.get(relative);
+      const format = record && preferredFormat(record.hashes);
+      if (!record || !format) {
+        result.newFiles.push(relative);
+        continue;
+      }
+      const { hashes } = await hashMhlFormats(file, [format]);
+      (hashes[format] === record.hashes[format] ? result.verified : result.failed).push(relative);
+    }
+    result.missing = [...latestPaths(history)].filter(filePath => !present.has(filePath)).sort();
+
+    for (const child of childHistories(tree, historyRoot)) {
+      result.children.push(await verify(child));
+    }
+
+    result.valid = result.chainErrors.length === 0 && result.failed.length === 0 &&
+      result.missing.length === 0 && result.newFiles.length === 0 &&
+      result.children.every(child => child.valid);
+    return result;
+  }
+
+  return verify(rootPath);
+}
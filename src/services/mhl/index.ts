@@ -9,9 +9,10 @@ import * as path from 'node:path';
 import * as os from 'node:os';
 import { hashMd5, hashXxhash64 } from '../../core/hasher.js';
 import { scanDirectory } from '../scanner.js';
+import { escapeXml, extractTag } from './xml.js';
 
-// MHL version supported
-const MHL_VERSION = '2.0';
+// Version of the flat MHL format (mediahashlist.org); ASC MHL v2 histories are in history.ts
+export const MHL_VERSION = '1.1';
 
 export interface MhlHashEntry {
   file: string;
@@ -300,28 +301,4 @@ export function generateMhlFilename(sourcePath: string): string {
   return `${basename}_${timestamp}.mhl`;
 }
 
-// Helper: escape XML special characters
-function escapeXml(str: string): string {
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
-}
-
-// Helper: extract tag content
-function extractTag(xml: string, tag: string): string | null {
-  const match = xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`));
-  return match ? unescapeXml(match[1]) : null;
-}
-
-// Helper: unescape XML entities
-function unescapeXml(str: string): string {
-  return str
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&apos;/g, "'")
-    .replace(/&amp;/g, '&');
-}
+export * from './history.js';
@@ -0,0 +1,46 @@
+/**
+ * XML helpers shared by the MHL readers and writers
+ */
+
+/**
+ * Escape XML special characters
+ */
+export function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Unescape XML entities
+ */
+export function unescapeXml(str: string): string {
+  return str
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Content of the first <tag> element (attributes allowed), unescaped
+ */
+export function extractTag(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`));
+  return match ? unescapeXml(match[1]) : null;
+}
+
+/**
+ * Attributes of an element's start tag
+ */
+export function parseAttributes(startTag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of startTag.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    attributes[match[1]] = unescapeXml(match[2]);
+  }
+  return attributes;
+}
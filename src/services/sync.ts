@@ -0,0 +1,477 @@
+/**
+ * Sync service
+ * One-way mirror of a source tree onto a destination, driven by content hashes:
+ * new and modified files are copied with verification, moved files are renamed in
+ * place instead of re-copied, and deleted files follow a policy.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { hashFile } from '../core/hasher.js';
+import { copyWithHash } from '../core/copier.js';
+import { loadManifest, writeManifest, isManifestV2, type AnyManifest } from '../core/manifest.js';
+import { computeMerkleTree } from '../core/merkle.js';
+import { scanDirectory } from './scanner.js';
+import type { Manifest, ManifestEntry } from '../schemas/index.js';
+
+/**
+ * What happens to destination files that no longer exist in the source
+ * - 'report': list them, leave them in place (default)
+ * - 'delete': remove them
+ * - 'trash': move them under a trash directory
+ */
+export type DeletePolicy = 'report' | 'delete' | 'trash';
+
+/**
+ * Kind of difference between source and destination
+ * - 'new': only in the source
+ * - 'modified': in both, different content
+ * - 'moved': content already in the destination under another path (renamed there)
+ * - 'deleted': only in the destination
+ */
+export type SyncChange = 'new' | 'modified' | 'moved' | 'deleted';
+
+export interface SyncOperation {
+  change: SyncChange;
+  /** Path relative to both roots (the new path for moves) */
+  path: string;
+  /** Destination path the content is moved from */
+  from?: string;
+  hash: string;
+  size: number;
+}
+
+export interface SyncPlan {
+  source: string;
+  destination: string;
+  deletePolicy: DeletePolicy;
+  operations: SyncOperation[];
+  unchanged: number;
+  /** Bytes that have to be copied (new and modified files) */
+  bytesToCopy: number;
+  /** Files that could not be read while taking the inventory */
+  errors: Array<{ path: string; error: string }>;
+}
+
+export interface SyncResult {
+  plan: SyncPlan;
+  completed: SyncOperation[];
+  failed: Array<{ operation: SyncOperation; error: string }>;
+  bytesCopied: number;
+  durationMs: number;
+  sourceManifest?: string;
+  destinationManifest?: string;
+  /** Batch directory deleted files were moved to (trash policy) */
+  trashDir?: string;
+}
+
+export interface SyncOptions {
+  deletePolicy?: DeletePolicy;
+  /** Trash root for the 'trash' policy; each run gets a timestamped subdirectory */
+  trashDir?: string;
+  /** Manifest paths (default: <root>/manifest.json) */
+  sourceManifest?: string;
+  destinationManifest?: string;
+  /** Hash every file instead of trusting manifest entries with unchanged size and mtime */
+  rehash?: boolean;
+  excludePatterns?: string[];
+  onProgress?: (phase: 'scanning-source' | 'scanning-destination' | 'syncing', current: number, total: number, file: string) => void;
+}
+
+const MANIFEST_FILENAME = 'manifest.json';
+
+// One side of the sync: relative path → manifest entry for what is on disk now
+type Inventory = Map<string, ManifestEntry>;
+
+interface SyncRoots {
+  source: string;
+  destination: string;
+  sourceManifest: string;
+  destinationManifest: string;
+}
+
+interface SyncState {
+  roots: SyncRoots;
+  sourceFiles: Inventory;
+  destFiles: Inventory;
+  plan: SyncPlan;
+}
+
+/**
+ * Compare source and destination and work out what a sync would do
+ * Nothing is changed on disk.
+ */
+export async function planSync(
+  source: string,
+  destination: string,
+  options: SyncOptions = {}
+): Promise<SyncPlan> {
+  return (await prepareSync(source, destination, options)).plan;
+}
+
+/**
+ * Mirror source onto destination
+ * Order: moves (renames inside the destination), then copies, then deletions, so
+ * content that only changed path is never transferred again. Each operation fails
+ * on its own; the manifests describe what is on disk afterwards and are replaced
+ * atomically (written to a temporary file and renamed).
+ */
+export async function runSync(
+  source: string,
+  destination: string,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  const startTime = performance.now();
+  const { deletePolicy = 'report', onProgress } = options;
+
+  if (deletePolicy === 'trash' && !options.trashDir) {
+    throw new Error('The trash policy needs a trash directory');
+  }
+
+  const { roots, sourceFiles, destFiles, plan } = await prepareSync(source, destination, options);
+
+  const result: SyncResult = {
+    plan,
+    completed: [],
+    failed: [],
+    bytesCopied: 0,
+    durationMs: 0
+  };
+
+  const trashDir = deletePolicy === 'trash'
+    ? path.join(path.resolve(options.trashDir!), batchName(new Date()))
+    : undefined;
+
+  const ordered = [
+    ...plan.operations.filter(op => op.change === 'moved'),
+    ...plan.operations.filter(op => op.change === 'new' || op.change === 'modified'),
+    ...plan.operations.filter(op => op.change === 'deleted' && deletePolicy !== 'report')
+  ];
+
+  let done = 0;
+  for (const operation of ordered) {
+    onProgress?.('syncing', ++done, ordered.length, operation.path);
+
+    try {
+      switch (operation.change) {
+        case 'moved':
+          await moveWithin(roots.destination, operation.from!, operation.path);
+          destFiles.set(operation.path, { ...destFiles.get(operation.from!)!, path: operation.path });
+          destFiles.delete(operation.from!);
+          break;
+
+        case 'new':
+        case 'modified': {
+          const target = path.join(roots.destination, operation.path);
+          const copy = await copyWithHash(path.join(roots.source, operation.path), target, {
+            algorithm: 'blake3',
+            verify: true,
+            overwrite: operation.change === 'modified'
+          });
+          const { metadata: _metadata, ...entry } = sourceFiles.get(operation.path)!;
+          destFiles.set(operation.path, { ...entry, hash: copy.hash, size: copy.size });
+          result.bytesCopied += copy.size;
+          break;
+        }
+
+        case 'deleted':
+          if (trashDir) {
+            await moveToTrash(path.join(roots.destination, operation.path), path.join(trashDir, operation.path));
+          } else {
+            await fs.unlink(path.join(roots.destination, operation.path));
+          }
+          destFiles.delete(operation.path);
+          await pruneEmptyDirs(roots.destination, path.dirname(path.join(roots.destination, operation.path)));
+          break;
+      }
+
+      result.completed.push(operation);
+    } catch (err) {
+      result.failed.push({ operation, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  // Manifests describe both trees as they are now
+  await writeManifest(roots.destinationManifest, buildManifest(roots.destination, destFiles));
+  result.destinationManifest = roots.destinationManifest;
+  await writeManifest(roots.sourceManifest, buildManifest(roots.source, sourceFiles));
+  result.sourceManifest = roots.sourceManifest;
+
+  return {
+    ...result,
+    durationMs: performance.now() - startTime,
+    ...(trashDir && result.completed.some(op => op.change === 'deleted') && { trashDir })
+  };
+}
+
+/**
+ * Parse a deletion policy from --delete / --trash
+ */
+export function resolveDeletePolicy(options: { delete?: boolean; trash?: string }): DeletePolicy {
+  if (options.delete && options.trash) {
+    throw new Error('--delete and --trash cannot be combined');
+  }
+  if (options.trash) return 'trash';
+  return options.delete ? 'delete' : 'report';
+}
+
+/**
+ * Inventory both sides and build the plan
+ */
+async function prepareSync(source: string, destination: string, options: SyncOptions): Promise<SyncState> {
+  const { deletePolicy = 'report', onProgress } = options;
+  const roots = resolveRoots(source, destination, options);
+
+  const sourceStats = await fs.stat(roots.source);
+  if (!sourceStats.isDirectory()) {
+    throw new Error(`Source must be a directory: ${roots.source}`);
+  }
+
+  const errors: SyncPlan['errors'] = [];
+  const sourceSide = await takeInventory(roots.source, roots.sourceManifest, options, errors,
+    (current, total, file) => onProgress?.('scanning-source', current, total, file));
+  const dest = await takeInventory(roots.destination, roots.destinationManifest, options, errors,
+    (current, total, file) => onProgress?.('scanning-destination', current, total, file));
+
+  return {
+    roots,
+    sourceFiles: sourceSide.files,
+    destFiles: dest.files,
+    plan: buildPlan(roots.source, roots.destination, sourceSide.files, dest.files, sourceSide.unreadable, deletePolicy, errors)
+  };
+}
+
+function resolveRoots(source: string, destination: string, options: SyncOptions): SyncRoots {
+  const resolvedSource = path.resolve(source);
+  const resolvedDest = path.resolve(destination);
+
+  if (isWithin(resolvedSource, resolvedDest) || isWithin(resolvedDest, resolvedSource)) {
+    throw new Error('Source and destination must not contain each other');
+  }
+
+  return {
+    source: resolvedSource,
+    destination: resolvedDest,
+    sourceManifest: path.resolve(options.sourceManifest ?? path.join(resolvedSource, MANIFEST_FILENAME)),
+    destinationManifest: path.resolve(options.destinationManifest ?? path.join(resolvedDest, MANIFEST_FILENAME))
+  };
+}
+
+function isWithin(parent: string, child: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Hash every file in a tree
+ * Entries of an existing plain manifest are reused when size and mtime still match,
+ * so a tree that was synced before is not read again. Paths that could not be read
+ * are returned as unreadable so they are never mistaken for deletions.
+ */
+async function takeInventory(
+  root: string,
+  manifestPath: string,
+  options: SyncOptions,
+  errors: SyncPlan['errors'],
+  onProgress: (current: number, total: number, file: string) => void
+): Promise<{ files: Inventory; unreadable: string[] }> {
+  const inventory: Inventory = new Map();
+  const unreadable: string[] = [];
+
+  // A destination that does not exist yet is simply empty
+  if (!await fs.stat(root).then(stats => stats.isDirectory(), () => false)) {
+    return { files: inventory, unreadable };
+  }
+
+  const known = options.rehash ? new Map<string, ManifestEntry>() : await loadManifestEntries(manifestPath);
+  const trashRoot = options.trashDir ? path.resolve(options.trashDir) : null;
+
+  const scan = await scanDirectory(root, { excludePatterns: options.excludePatterns });
+  for (const error of scan.errors) {
+    errors.push(error);
+    unreadable.push(path.relative(root, error.path));
+  }
+  const files = scan.files.filter(file => file !== manifestPath && !(trashRoot && isWithin(trashRoot, file)));
+
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    const relativePath = path.relative(root, file);
+    onProgress(i + 1, files.length, relativePath);
+
+    try {
+      const stats = await fs.stat(file);
+      const mtime = stats.mtime.toISOString();
+      const entry = known.get(relativePath);
+
+      if (entry && entry.size === stats.size && entry.mtime === mtime) {
+        inventory.set(relativePath, entry);
+        continue;
+      }
+
+      const result = await hashFile(file, { algorithm: 'blake3' });
+      inventory.set(relativePath, { path: relativePath, hash: result.hash, size: stats.size, mtime });
+    } catch (err) {
+      errors.push({ path: file, error: err instanceof Error ? err.message : String(err) });
+      unreadable.push(relativePath);
+    }
+  }
+
+  return { files: inventory, unreadable };
+}
+
+/**
+ * Manifest entries by path, or none if there is no usable manifest
+ * Keyed manifests are refused: their digests cannot be compared and sync would
+ * replace them with plain ones.
+ */
+async function loadManifestEntries(manifestPath: string): Promise<Map<string, ManifestEntry>> {
+  let manifest: AnyManifest;
+  try {
+    manifest = await loadManifest(manifestPath);
+  } catch {
+    return new Map();
+  }
+
+  // Sync rewrites the manifest as v1, which would drop v2 algorithms and extras
+  if (isManifestV2(manifest)) {
+    throw new Error(`Manifest ${manifestPath} is v2; sync maintains v1 manifests`);
+  }
+
+  if ((manifest.hashMode ?? 'plain') !== 'plain') {
+    throw new Error(`Manifest ${manifestPath} uses ${manifest.hashMode} hashes; sync needs plain BLAKE3 manifests`);
+  }
+
+  return new Map(manifest.files.map(entry => [entry.path, entry]));
+}
+
+function buildPlan(
+  source: string,
+  destination: string,
+  sourceFiles: Inventory,
+  destFiles: Inventory,
+  unreadableSource: string[],
+  deletePolicy: DeletePolicy,
+  errors: SyncPlan['errors']
+): SyncPlan {
+  const operations: SyncOperation[] = [];
+  let unchanged = 0;
+
+  // Destination-only files are the candidates for moves; each can be used once.
+  // Files whose source counterpart could not be read are left alone.
+  const orphansByHash = new Map<string, string[]>();
+  for (const [relativePath, entry] of [...destFiles].sort(([a], [b]) => a.localeCompare(b))) {
+    if (sourceFiles.has(relativePath)) continue;
+    if (unreadableSource.some(p => p === '' || isWithin(p, relativePath))) continue;
+    const paths = orphansByHash.get(entry.hash) ?? [];
+    paths.push(relativePath);
+    orphansByHash.set(entry.hash, paths);
+  }
+
+  const sourcePaths = [...sourceFiles.keys()].sort((a, b) => a.localeCompare(b));
+  for (const relativePath of sourcePaths) {
+    const entry = sourceFiles.get(relativePath)!;
+    const existing = destFiles.get(relativePath);
+
+    if (existing) {
+      if (existing.hash === entry.hash) {
+        unchanged++;
+      } else {
+        operations.push({ change: 'modified', path: relativePath, hash: entry.hash, size: entry.size });
+      }
+      continue;
+    }
+
+    const from = orphansByHash.get(entry.hash)?.shift();
+    operations.push(from
+      ? { change: 'moved', path: relativePath, from, hash: entry.hash, size: entry.size }
+      : { change: 'new', path: relativePath, hash: entry.hash, size: entry.size });
+  }
+
+  for (const paths of orphansByHash.values()) {
+    for (const relativePath of paths) {
+      const entry = destFiles.get(relativePath)!;
+      operations.push({ change: 'deleted', path: relativePath, hash: entry.hash, size: entry.size });
+    }
+  }
+
+  return {
+    source,
+    destination,
+    deletePolicy,
+    operations,
+    unchanged,
+    bytesToCopy: operations
+      .filter(op => op.change === 'new' || op.change === 'modified')
+      .reduce((sum, op) => sum + op.size, 0),
+    errors
+  };
+}
+
+/**
+ * Rename a file inside the destination tree
+ */
+async function moveWithin(root: string, from: string, to: string): Promise<void> {
+  const target = path.join(root, to);
+  try {
+    await fs.access(target);
+    throw new Error(`Destination already exists: ${target}`);
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+  }
+
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.rename(path.join(root, from), target);
+  await pruneEmptyDirs(root, path.dirname(path.join(root, from)));
+}
+
+/**
+ * Move a deleted file into the trash, copying across filesystems
+ */
+async function moveToTrash(file: string, trashPath: string): Promise<void> {
+  await fs.mkdir(path.dirname(trashPath), { recursive: true });
+  try {
+    await fs.rename(file, trashPath);
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err;
+    const copy = await copyWithHash(file, trashPath, { verify: true });
+    if (!copy.verified) {
+      throw new Error(`Could not verify trash copy of ${file}`);
+    }
+    await fs.unlink(file);
+  }
+}
+
+/**
+ * Remove directories emptied by a sync, walking up to (not including) the root
+ */
+async function pruneEmptyDirs(root: string, dir: string): Promise<void> {
+  let current = dir;
+  while (current !== root && isWithin(root, current)) {
+    try {
+      await fs.rmdir(current);
+    } catch {
+      return; // Not empty (or already gone)
+    }
+    current = path.dirname(current);
+  }
+}
+
+function buildManifest(root: string, inventory: Inventory): Manifest {
+  const files = [...inventory.values()].sort((a, b) => a.path.localeCompare(b.path));
+  return {
+    version: '1.0',
+    generated: new Date().toISOString(),
+    algorithm: 'blake3',
+    hashLength: 16,
+    root,
+    fileCount: files.length,
+    totalBytes: files.reduce((sum, f) => sum + f.size, 0),
+    merkle: computeMerkleTree(files),
+    files
+  };
+}
+
+// Trash batches sort by time: 2025-01-31T12-00-00
+function batchName(date: Date): string {
+  return date.toISOString().slice(0, 19).replace(/:/g, '-');
+}
@@ -9,6 +9,8 @@ import * as os from 'node:os';
 import { fileURLToPath } from 'node:url';
 import { isNetworkPath } from '../utils/network.js';
 import { LOCAL_BUFFER_SIZE, NETWORK_BUFFER_SIZE, NETWORK_CONCURRENCY } from '../core/constants.js';
+import { getHashCache, getHashCacheForLookup, getFileIdentity, type FileIdentity } from '../core/hash-cache.js';
+import { getReadLimiter, type SharedRateLimit } from '../core/throttle.js';
 import type { Algorithm } from '../schemas/index.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -19,6 +21,8 @@ interface HashTask {
   filePath: string;
   algorithm: Algorithm;
   bufferSize: number;
+  /** Read limit shared by every worker (and the main thread) */
+  readLimit?: SharedRateLimit;
 }
 
 interface HashResult {
@@ -97,16 +101,58 @@ export class WorkerPool {
 
   /**
    * Hash a single file using the worker pool
+   * Cache lookups happen on the main thread so hits never reach a worker.
+   * With fresh (verification) the cache is only consulted in trust mode.
    */
-  async hashFile(filePath: string, algorithm: Algorithm = 'blake3'): Promise<HashResult> {
+  async hashFile(
+    filePath: string,
+    algorithm: Algorithm = 'blake3',
+    options: { fresh?: boolean } = {}
+  ): Promise<HashResult> {
+    const cache = getHashCache();
+    let identity: FileIdentity | null = null;
+
+    if (cache) {
+      try {
+        identity = await getFileIdentity(filePath);
+      } catch {
+        // Let the worker report the error
+      }
+
+      const lookupCache = getHashCacheForLookup(options.fresh);
+      if (lookupCache && identity) {
+        await lookupCache.load();
+        const cached = lookupCache.getByIdentity(identity, algorithm);
+        if (cached) {
+          return { id: ++this.taskIdCounter, filePath, hash: cached, size: identity.size };
+        }
+      }
+    }
+
+    const result = await this.dispatch(filePath, algorithm);
+
+    if (cache && identity) {
+      await cache.set(filePath, algorithm, result.hash, identity);
+    }
+
+    return result;
+  }
+
+  /**
+   * Queue a hash task for the next available worker
+   */
+  private dispatch(filePath: string, algorithm: Algorithm): Promise<HashResult> {
     const isNetwork = isNetworkPath(filePath);
     const bufferSize = isNetwork ? NETWORK_BUFFER_SIZE : LOCAL_BUFFER_SIZE;
 
+    const readLimit = getReadLimiter()?.share();
+
     const task: HashTask = {
       id: ++this.taskIdCounter,
       filePath,
       algorithm,
-      bufferSize
+      bufferSize,
+      ...(readLimit && { readLimit })
     };
 
     return new Promise((resolve, reject) => {
@@ -107,7 +107,13 @@ export function parseSidecarContent(content: string): ParseResult {
   const sourceTimezone = extractValue(content, 'SourceTimezone');
   const importTimezone = extractValue(content, 'ImportTimezone');
   const importOSVersion = extractValue(content, 'ImportOSVersion');
-  const importMethod = extractValue(content, 'ImportMethod') as 'copy' | 'move' | 'hardlink' | 'symlink' | undefined;
+  const originalMode = extractValue(content, 'OriginalMode');
+  const originalUid = extractValue(content, 'OriginalUID');
+  const originalGid = extractValue(content, 'OriginalGID');
+  const originalXattrs = parseStringArray(content, 'OriginalXattrs');
+  const originalAcl = extractValue(content, 'OriginalACL');
+  const unpreservedMetadata = parseStringArray(content, 'UnpreservedMetadata');
+  const importMethod = extractValue(content, 'ImportMethod') as XmpSidecarData['importMethod'];
 
   // Parse source device
   const sourceDevice = parseSourceDevice(content);
@@ -168,6 +174,10 @@ export function parseSidecarContent(content: string): ParseResult {
   const importWarnings = parseStringArray(content, 'ImportWarnings');
   const importErrors = parseStringArray(content, 'ImportErrors');
 
+  // Parse chunk map
+  const chunkSize = extractValue(content, 'ChunkSize');
+  const chunkHashes = parseStringArray(content, 'ChunkHashes', 'Seq');
+
   const data: XmpSidecarData = {
     schemaVersion,
     sidecarCreated,
@@ -195,6 +205,12 @@ export function parseSidecarContent(content: string): ParseResult {
     originalAtime,
     sourceTimezone,
     importTimezone,
+    originalMode,
+    originalUid: originalUid ? parseInt(originalUid, 10) : undefined,
+    originalGid: originalGid ? parseInt(originalGid, 10) : undefined,
+    originalXattrs: originalXattrs.length > 0 ? originalXattrs : undefined,
+    originalAcl,
+    unpreservedMetadata: unpreservedMetadata.length > 0 ? unpreservedMetadata : undefined,
     importTimestamp,
     sessionId,
     toolVersion,
@@ -243,6 +259,8 @@ export function parseSidecarContent(content: string): ParseResult {
     eventCount,
     importWarnings: importWarnings.length > 0 ? importWarnings : undefined,
     importErrors: importErrors.length > 0 ? importErrors : undefined,
+    chunkSize: chunkSize ? parseInt(chunkSize, 10) : undefined,
+    chunkHashes: chunkHashes.length > 0 ? chunkHashes : undefined,
   };
 
   return {
@@ -575,10 +593,10 @@ function extractValueFromContent(content: string, tagName: string): string | und
 }
 
 /**
- * Parse string array from XMP bag
+ * Parse string array from XMP bag (or seq for ordered lists)
  */
-function parseStringArray(content: string, tagName: string): string[] {
-  const bagMatch = content.match(new RegExp(`<wnb:${tagName}>[\\s\\S]*?<rdf:Bag>([\\s\\S]*?)</rdf:Bag>`));
+function parseStringArray(content: string, tagName: string, container: 'Bag' | 'Seq' = 'Bag'): string[] {
+  const bagMatch = content.match(new RegExp(`<wnb:${tagName}>[\\s\\S]*?<rdf:${container}>([\\s\\S]*?)</rdf:${container}>`));
   if (!bagMatch) return [];
 
   const items: string[] = [];
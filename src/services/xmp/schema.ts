@@ -388,6 +388,10 @@ export interface XmpSidecarData {
   destHash?: string;  // Hash of destination file after copy
   hashMatch?: boolean;  // True if source === dest
 
+  // Chunk map (one 16-char BLAKE3 digest per block, localizes damage)
+  chunkSize?: number;  // Block size in bytes
+  chunkHashes?: string[];  // Ordered per-block digests
+
   // File classification
   fileCategory: FileCategory;
   fileSubcategory?: string;
@@ -415,6 +419,14 @@ export interface XmpSidecarData {
   sourceTimezone?: string;
   importTimezone?: string;
 
+  // Permissions and attributes (import --preserve)
+  originalMode?: string;  // Octal permission bits, e.g. 0644
+  originalUid?: number;
+  originalGid?: number;
+  originalXattrs?: string[];  // user.* attributes as name=base64
+  originalAcl?: string;  // getfacl text
+  unpreservedMetadata?: string[];  // Attributes that could not be applied to the copy
+
   // Import context
   importTimestamp: string;
   sessionId: string;
@@ -423,7 +435,7 @@ export interface XmpSidecarData {
   importHost: string;
   importPlatform: 'darwin' | 'linux' | 'win32';
   importOSVersion?: string;
-  importMethod?: 'copy' | 'move' | 'hardlink' | 'symlink';
+  importMethod?: 'copy' | 'move' | 'hardlink' | 'symlink' | 'reflink' | 'copy_file_range';
 
   // Batch context
   batchId?: string;
@@ -57,6 +57,20 @@ export function generateXmpContent(data: XmpSidecarData): string {
     if (data.hashMatch !== undefined) lines.push(`      <wnb:HashMatch>${data.hashMatch}</wnb:HashMatch>`);
   }
 
+  // Chunk map
+  if (data.chunkSize && data.chunkHashes?.length) {
+    lines.push('');
+    lines.push('      <!-- Chunk Map -->');
+    lines.push(`      <wnb:ChunkSize>${data.chunkSize}</wnb:ChunkSize>`);
+    lines.push('      <wnb:ChunkHashes>');
+    lines.push('        <rdf:Seq>');
+    for (const chunkHash of data.chunkHashes) {
+      lines.push(`          <rdf:li>${escapeXml(chunkHash)}</rdf:li>`);
+    }
+    lines.push('        </rdf:Seq>');
+    lines.push('      </wnb:ChunkHashes>');
+  }
+
   // File classification
   lines.push('');
   lines.push('      <!-- File Classification -->');
@@ -114,6 +128,34 @@ export function generateXmpContent(data: XmpSidecarData): string {
   if (data.sourceTimezone) lines.push(`      <wnb:SourceTimezone>${escapeXml(data.sourceTimezone)}</wnb:SourceTimezone>`);
   if (data.importTimezone) lines.push(`      <wnb:ImportTimezone>${escapeXml(data.importTimezone)}</wnb:ImportTimezone>`);
 
+  // Permissions and attributes
+  if (data.originalMode || data.originalUid !== undefined || data.originalXattrs || data.originalAcl || data.unpreservedMetadata) {
+    lines.push('');
+    lines.push('      <!-- Permissions and Attributes -->');
+    if (data.originalMode) lines.push(`      <wnb:OriginalMode>${escapeXml(data.originalMode)}</wnb:OriginalMode>`);
+    if (data.originalUid !== undefined) lines.push(`      <wnb:OriginalUID>${data.originalUid}</wnb:OriginalUID>`);
+    if (data.originalGid !== undefined) lines.push(`      <wnb:OriginalGID>${data.originalGid}</wnb:OriginalGID>`);
+    if (data.originalXattrs?.length) {
+      lines.push('      <wnb:OriginalXattrs>');
+      lines.push('        <rdf:Bag>');
+      for (const xattr of data.originalXattrs) {
+        lines.push(`          <rdf:li>${escapeXml(xattr)}</rdf:li>`);
+      }
+      lines.push('        </rdf:Bag>');
+      lines.push('      </wnb:OriginalXattrs>');
+    }
+    if (data.originalAcl) lines.push(`      <wnb:OriginalACL>${escapeXml(data.originalAcl)}</wnb:OriginalACL>`);
+    if (data.unpreservedMetadata?.length) {
+      lines.push('      <wnb:UnpreservedMetadata>');
+      lines.push('        <rdf:Bag>');
+      for (const attribute of data.unpreservedMetadata) {
+        lines.push(`          <rdf:li>${escapeXml(attribute)}</rdf:li>`);
+      }
+      lines.push('        </rdf:Bag>');
+      lines.push('      </wnb:UnpreservedMetadata>');
+    }
+  }
+
   // Import context
   lines.push('');
   lines.push('      <!-- Import Context -->');
@@ -26,11 +26,13 @@ const DEFAULT_PATTERNS = [
   '.DS_Store',
   'Thumbs.db',
   '*.partial',
+  '*.partial.json',
   '*.tmp',
   '*.swp',
   '*~',
   'node_modules/',
-  '.wnbignore'
+  '.wnbignore',
+  '.wnb/'
 ];
 
 /**
@@ -6,13 +6,16 @@
 import { parentPort } from 'node:worker_threads';
 import * as fs from 'node:fs';
 import { createHash as blake3Hash } from 'blake3';
-import { createHash as cryptoHash } from 'node:crypto';
+import { RateLimiter, throttle, type SharedRateLimit } from '../core/throttle.js';
+import { createDigest } from '../core/digests.js';
+import type { Algorithm } from '../schemas/index.js';
 
 interface HashTask {
   id: number;
   filePath: string;
-  algorithm: 'blake3' | 'blake3-full' | 'sha256' | 'sha512';
+  algorithm: Algorithm;
   bufferSize: number;
+  readLimit?: SharedRateLimit;
 }
 
 interface HashResult {
@@ -47,20 +50,24 @@ if (parentPort) {
 }
 
 async function hashFile(task: HashTask): Promise<HashResult> {
-  const { id, filePath, algorithm, bufferSize } = task;
+  const { id, filePath, algorithm, bufferSize, readLimit } = task;
 
   // Create appropriate hasher
   let hasher: Hasher;
   if (algorithm === 'blake3' || algorithm === 'blake3-full') {
     hasher = blake3Hash() as unknown as Hasher;
-  } else if (algorithm === 'sha256') {
-    hasher = cryptoHash('sha256') as unknown as Hasher;
   } else {
-    hasher = cryptoHash('sha512') as unknown as Hasher;
+    // Digests return hex (or a C4 ID) - adapt to the hex interface
+    const digest = createDigest(algorithm);
+    hasher = {
+      update: (data: Buffer) => digest.update(data),
+      digest: () => digest.digest()
+    };
   }
 
-  // Read and hash file
-  const stream = fs.createReadStream(filePath, { highWaterMark: bufferSize });
+  // Read and hash file (paced by the pool's shared read limit)
+  const limiter = readLimit ? RateLimiter.fromShared(readLimit) : null;
+  const stream = throttle(fs.createReadStream(filePath, { highWaterMark: bufferSize }), limiter);
   let size = 0;
 
   for await (const chunk of stream) {
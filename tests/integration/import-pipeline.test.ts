@@ -203,6 +203,32 @@ describe('Import Pipeline', () => {
       );
       expect(sidecarContent).toContain('Wedding 2024');
     });
+
+    it('should record preserved metadata in sidecars and the manifest', async () => {
+      const source = path.join(sourceDir, 'photo.jpg');
+      await fs.writeFile(source, 'fake jpeg');
+      await fs.chmod(source, 0o640);
+
+      const session = await runImport(sourceDir, destDir, {
+        sidecar: true,
+        manifest: true,
+        preserve: ['mode', 'xattr']
+      });
+
+      const file = session.files[0];
+      expect((await fs.stat(path.join(destDir, 'photo.jpg'))).mode & 0o7777).toBe(0o640);
+      expect(file.preservation?.preserved).toContain('mode');
+
+      const sidecarContent = await fs.readFile(path.join(destDir, 'photo.jpg.xmp'), 'utf-8');
+      expect(sidecarContent).toContain('<wnb:OriginalMode>0640</wnb:OriginalMode>');
+      // xattrs need getfattr/setfattr; when missing the sidecar says so
+      if (file.preservation?.failed.some(f => f.attribute === 'xattr')) {
+        expect(sidecarContent).toMatch(/<wnb:UnpreservedMetadata>[\s\S]*<rdf:li>xattr<\/rdf:li>/);
+      }
+
+      const manifest = JSON.parse(await fs.readFile(path.join(destDir, 'manifest.json'), 'utf-8'));
+      expect(manifest.files[0].metadata.mode).toBe(0o640);
+    });
   });
 
   describe('BLAKE3-16 Rename', () => {
@@ -433,4 +459,79 @@ describe('Import Pipeline', () => {
       expect(session.processedFiles).toBe(0);
     });
   });
+
+  describe('Multiple Destinations', () => {
+    it('should copy, validate and manifest every destination', async () => {
+      const destDir2 = path.join(tempDir, 'dest2');
+      await fs.writeFile(path.join(sourceDir, 'clip.mov'), 'clip data');
+
+      const session = await runImport(sourceDir, [destDir, destDir2], {
+        manifest: true,
+        sidecar: true
+      });
+
+      expect(session.status).toBe('completed');
+      expect(session.destinations).toEqual([destDir, destDir2]);
+      expect(session.files[0].status).toBe('validated');
+      expect(session.files[0].destinations?.map(d => d.status)).toEqual(['validated', 'validated']);
+      expect(session.sidecarFiles).toBe(2);
+
+      for (const dir of [destDir, destDir2]) {
+        expect(await fs.readFile(path.join(dir, 'clip.mov'), 'utf-8')).toBe('clip data');
+        const manifest = JSON.parse(await fs.readFile(path.join(dir, 'manifest.json'), 'utf-8'));
+        expect(manifest.root).toBe(dir);
+        expect(manifest.files).toHaveLength(1);
+      }
+    });
+
+    it('should keep importing to healthy destinations when one fails', async () => {
+      // An existing file blocks the copy on the first destination only
+      const blocked = path.join(tempDir, 'blocked');
+      await fs.mkdir(blocked, { recursive: true });
+      await fs.writeFile(path.join(blocked, 'clip.mov'), 'already here');
+      await fs.writeFile(path.join(sourceDir, 'clip.mov'), 'clip data');
+
+      const actions: string[] = [];
+      const session = await runImport(sourceDir, [blocked, destDir], {
+        onFile: (_file, action) => actions.push(action)
+      });
+
+      const file = session.files[0];
+      expect(session.errorFiles).toBe(0);
+      expect(file.destinations?.map(d => d.status)).toEqual(['error', 'validated']);
+      expect(file.destPath).toBe(path.join(destDir, 'clip.mov'));
+      expect(actions).toContain('destination-failed');
+      expect(await fs.readFile(path.join(blocked, 'clip.mov'), 'utf-8')).toBe('already here');
+      expect(await fs.readFile(path.join(destDir, 'clip.mov'), 'utf-8')).toBe('clip data');
+    });
+
+    it('should record a destination whose companion copy failed', async () => {
+      const destDir2 = path.join(tempDir, 'dest2');
+      await fs.mkdir(destDir2, { recursive: true });
+      await fs.writeFile(path.join(destDir2, 'DJI_0001.SRT'), 'telemetry from another flight');
+      await fs.writeFile(path.join(sourceDir, 'DJI_0001.MP4'), 'clip data');
+      await fs.writeFile(path.join(sourceDir, 'DJI_0001.SRT'), 'telemetry');
+
+      const actions: string[] = [];
+      const session = await runImport(sourceDir, [destDir, destDir2], {
+        onFile: (_file, action) => actions.push(action)
+      });
+
+      const file = session.files.find(f => f.relativePath === 'DJI_0001.MP4')!;
+      expect(file.status).toBe('validated');
+      expect(file.destinations?.map(d => d.status)).toEqual(['validated', 'error']);
+      expect(file.destinations?.[1].error).toMatch(/^Companion DJI_0001\.SRT not copied: Destination already exists/);
+      expect(file.copiedCompanions?.map(c => c.destPath)).toEqual([path.join(destDir, 'DJI_0001.SRT')]);
+      expect(actions).toContain('destination-failed');
+      expect(await fs.readFile(path.join(destDir2, 'DJI_0001.SRT'), 'utf-8')).toBe('telemetry from another flight');
+    });
+
+    it('should refuse reflink always rather than stream without saying so', async () => {
+      await fs.writeFile(path.join(sourceDir, 'clip.mov'), 'clip data');
+
+      await expect(runImport(sourceDir, [destDir, path.join(tempDir, 'dest2')], { reflink: 'always' }))
+        .rejects.toThrow('Reflink always needs a single destination');
+      await expect(fs.access(path.join(destDir, 'clip.mov'))).rejects.toThrow();
+    });
+  });
 });
@@ -0,0 +1,161 @@
+/**
+ * BagIt Profile Tests
+ * Tests for profile loading, creation checks and the per-rule verify report
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  createBag,
+  verifyBag,
+  loadBagItProfile,
+  parseBagItProfile,
+  parseBagInfo,
+  missingBagInfoTags,
+  validateBagProfile
+} from '../../src/services/bagit/index.js';
+
+const PROFILE_ID = 'https://example.org/bagit-profiles/delivery.json';
+
+const profileJson = {
+  'BagIt-Profile-Info': {
+    'BagIt-Profile-Identifier': PROFILE_ID,
+    'BagIt-Profile-Version': '1.4',
+    'Source-Organization': 'Example Archive'
+  },
+  'Bag-Info': {
+    'Source-Organization': { required: true, values: ['Studio A', 'Studio B'] },
+    'Contact-Email': { required: true, repeatable: false },
+    'External-Description': { required: false }
+  },
+  'Manifests-Required': ['sha512'],
+  'Manifests-Allowed': ['sha256', 'sha512'],
+  'Allow-Fetch.txt': false,
+  'Serialization': 'optional',
+  'Accept-BagIt-Version': ['1.0'],
+  'Payload-Files-Required': ['data/reels']
+};
+
+describe('BagIt Profiles', () => {
+  let tempDir: string;
+  let source: string;
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `wnb-bagit-profile-test-${Date.now()}`);
+    source = path.join(tempDir, 'source');
+    await fs.mkdir(path.join(source, 'reels'), { recursive: true });
+    await fs.writeFile(path.join(source, 'reels', 'R1.mov'), 'reel one');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load a profile and apply the spec defaults', async () => {
+    const file = path.join(tempDir, 'profile.json');
+    await fs.writeFile(file, JSON.stringify(profileJson));
+
+    const profile = await loadBagItProfile(file);
+    expect(profile['Bag-Info']['Contact-Email']).toMatchObject({ required: true, repeatable: false });
+    expect(profile['Bag-Info']['External-Description'].repeatable).toBe(true);
+    expect(profile['Fetch.txt-Required']).toBe(false);
+    expect(profile['Tag-Manifests-Required']).toEqual([]);
+
+    expect(() => parseBagItProfile({ 'Bag-Info': {} }, 'p.json')).toThrow('p.json is not a BagIt profile: BagIt-Profile-Info');
+    expect(() => parseBagItProfile({ ...profileJson, 'Serialization': 'sometimes' })).toThrow('Serialization');
+  });
+
+  it('should parse repeated and continued bag-info elements', () => {
+    expect(parseBagInfo('Contact-Email: a@example.org\nContact-Email: b@example.org\nExternal-Description: two\n  lines\n')).toEqual([
+      { label: 'Contact-Email', value: 'a@example.org' },
+      { label: 'Contact-Email', value: 'b@example.org' },
+      { label: 'External-Description', value: 'two lines' }
+    ]);
+  });
+
+  it('should list the required tags a new bag lacks', () => {
+    const profile = parseBagItProfile(profileJson);
+    expect(missingBagInfoTags(profile)).toEqual(['Source-Organization', 'Contact-Email']);
+    expect(missingBagInfoTags(profile, { 'contact-email': 'a@example.org' })).toEqual(['Source-Organization']);
+  });
+
+  it('should refuse to create a bag that would not meet the profile, before moving files', async () => {
+    const profile = parseBagItProfile(profileJson);
+
+    await expect(createBag(source, { profile, bagInfo: { 'Contact-Email': 'a@example.org' } }))
+      .rejects.toThrow(`Bag would not meet profile ${PROFILE_ID}: Bag-Info: Source-Organization: required, missing`);
+    await expect(createBag(source, { profile, bagInfo: { 'Source-Organization': 'Studio C', 'Contact-Email': 'a@example.org' } }))
+      .rejects.toThrow('"Studio C" is not one of: Studio A, Studio B');
+    await expect(createBag(source, {
+      profile,
+      algorithm: 'sha256',
+      bagInfo: { 'Source-Organization': 'Studio A', 'Contact-Email': 'a@example.org' }
+    })).rejects.toThrow('Manifests-Required: sha512: manifest-sha512.txt missing');
+    await expect(createBag(source, {
+      profile,
+      outputPath: path.join(tempDir, 'bag'),
+      fetchPatterns: ['*.mov'],
+      bagInfo: { 'Source-Organization': 'Studio A', 'Contact-Email': 'a@example.org' }
+    })).rejects.toThrow('Allow-Fetch.txt: fetch.txt is not allowed');
+
+    // Nothing was moved into data/
+    expect(await fs.readdir(source)).toEqual(['reels']);
+  });
+
+  it('should create a conforming bag and pass every rule', async () => {
+    const profile = parseBagItProfile(profileJson);
+    const created = await createBag(source, {
+      profile,
+      bagInfo: { 'Source-Organization': 'Studio A', 'Contact-Email': 'a@example.org' }
+    });
+    expect(created.algorithm).toBe('sha512');
+
+    const bagInfo = await fs.readFile(path.join(source, 'bag-info.txt'), 'utf-8');
+    expect(bagInfo).toContain(`BagIt-Profile-Identifier: ${PROFILE_ID}`);
+
+    const result = await verifyBag(source, { profile });
+    expect(result.valid).toBe(true);
+    expect(result.profile?.valid).toBe(true);
+    expect(result.profile?.identifier).toBe(PROFILE_ID);
+    expect(result.profile?.rules.map(r => r.rule)).toEqual([
+      'BagIt-Profile-Identifier',
+      'Accept-BagIt-Version',
+      'Bag-Info: Source-Organization',
+      'Bag-Info: Contact-Email',
+      'Bag-Info: External-Description',
+      'Manifests-Required: sha512',
+      'Manifests-Allowed',
+      'Allow-Fetch.txt',
+      'Serialization',
+      'Payload-Files-Required: data/reels'
+    ]);
+  });
+
+  it('should report each rule a bag breaks', async () => {
+    await createBag(source, { bagInfo: { 'Source-Organization': 'Studio C' } });
+    await fs.appendFile(path.join(source, 'bag-info.txt'), 'Contact-Email: a@example.org\nContact-Email: b@example.org\n');
+    await fs.writeFile(path.join(source, 'manifest-md5.txt'), '');
+
+    const report = await validateBagProfile(source, parseBagItProfile({
+      ...profileJson,
+      'Serialization': 'required',
+      'Tag-Files-Required': ['docs/README.txt'],
+      'Tag-Files-Allowed': ['docs/*'],
+      'Payload-Files-Allowed': ['data/reels/*.mxf']
+    }));
+    const failed = Object.fromEntries(report.rules.filter(r => !r.passed).map(r => [r.rule, r.message]));
+
+    expect(report.valid).toBe(false);
+    expect(failed).toEqual({
+      'Bag-Info: Source-Organization': '"Studio C" is not one of: Studio A, Studio B',
+      'Bag-Info: Contact-Email': 'appears 2 times, not repeatable',
+      'Manifests-Required: sha512': 'manifest-sha512.txt missing',
+      'Manifests-Allowed': 'md5 not allowed (allowed: sha256, sha512)',
+      'Serialization': 'a serialized bag is required',
+      'Tag-Files-Required: docs/README.txt': 'missing',
+      'Payload-Files-Allowed': 'not allowed: data/reels/R1.mov'
+    });
+  });
+});
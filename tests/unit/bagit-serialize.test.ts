@@ -0,0 +1,165 @@
+/**
+ * Serialized BagIt Tests
+ * Tests for tar, tar.gz and zip bags, and verifying them without extracting
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import * as zlib from 'node:zlib';
+import { Readable } from 'node:stream';
+import { createBag, verifyBag, completeBag, parseBagItProfile, validateBagProfile } from '../../src/services/bagit/index.js';
+import { listZip, openZipEntry, readTar, tarStream } from '../../src/services/bagit/archive.js';
+
+const LONG_DIR = `reel ${'x'.repeat(110)}`;
+
+async function tarPaths(archive: string, gzip = false): Promise<string[]> {
+  const bytes = await fs.readFile(archive);
+  const paths: string[] = [];
+  await readTar(Readable.from([gzip ? zlib.gunzipSync(bytes) : bytes]), async entry => {
+    paths.push(entry.type === 'directory' ? `${entry.path}/` : entry.path);
+  });
+  return paths;
+}
+
+describe('Serialized BagIt bags', () => {
+  let tempDir: string;
+  let source: string;
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `wnb-bagit-serialize-test-${Date.now()}`);
+    source = path.join(tempDir, 'source');
+    await fs.mkdir(path.join(source, LONG_DIR), { recursive: true });
+    await fs.writeFile(path.join(source, 'notes.txt'), 'notes for the colorist');
+    await fs.writeFile(path.join(source, LONG_DIR, 'Äpfel.mov'), Buffer.alloc(70000, 7));
+    await fs.writeFile(path.join(source, 'empty.txt'), '');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it.each([
+    ['tar', '.tar'],
+    ['tgz', '.tar.gz'],
+    ['zip', '.zip']
+  ] as const)('should write and verify a %s bag with a checksum file', async (format, extension) => {
+    const bag = path.join(tempDir, 'delivery');
+    const created = await createBag(source, { outputPath: bag, serialize: format });
+
+    const archivePath = `${bag}${extension}`;
+    expect(created.serialized).toMatchObject({ format, archivePath, checksumPath: `${archivePath}.sha256` });
+    const checksumLine = await fs.readFile(`${archivePath}.sha256`, 'utf-8');
+    expect(checksumLine).toBe(`${created.serialized?.checksum}  delivery${extension}\n`);
+
+    const result = await verifyBag(archivePath);
+    expect(result).toMatchObject({
+      valid: true,
+      complete: true,
+      serialization: format,
+      archiveChecksumMatch: true,
+      verifiedFiles: 3,
+      extraFiles: [],
+      errors: []
+    });
+  });
+
+  it('should hold a single top-level directory with the tag files first', async () => {
+    const bag = path.join(tempDir, 'delivery');
+    await createBag(source, { outputPath: bag, serialize: 'tgz' });
+
+    expect(await tarPaths(`${bag}.tar.gz`, true)).toEqual([
+      'delivery/',
+      'delivery/bagit.txt',
+      'delivery/bag-info.txt',
+      'delivery/manifest-sha256.txt',
+      'delivery/tagmanifest-sha256.txt',
+      'delivery/data/',
+      'delivery/data/empty.txt',
+      'delivery/data/notes.txt',
+      `delivery/data/${LONG_DIR}/`,
+      `delivery/data/${LONG_DIR}/Äpfel.mov`
+    ]);
+  });
+
+  it('should write zip entries that read back unchanged', async () => {
+    const bag = path.join(tempDir, 'delivery');
+    await createBag(source, { outputPath: bag, serialize: 'zip' });
+
+    const entries = await listZip(`${bag}.zip`);
+    const movie = entries.find(e => e.path.endsWith('Äpfel.mov'));
+    expect(movie).toMatchObject({ path: `delivery/data/${LONG_DIR}/Äpfel.mov`, size: 70000, method: 8 });
+    expect(movie && movie.compressedSize).toBeLessThan(70000);
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await openZipEntry(`${bag}.zip`, movie!)) chunks.push(chunk as Buffer);
+    expect(Buffer.concat(chunks).equals(Buffer.alloc(70000, 7))).toBe(true);
+  });
+
+  it('should report damaged payload and a checksum file that does not match', async () => {
+    const bag = path.join(tempDir, 'delivery');
+    await createBag(source, { outputPath: bag, serialize: 'tar' });
+
+    const archive = await fs.readFile(`${bag}.tar`);
+    const at = archive.indexOf('for the colorist');
+    archive.write('FOR', at);
+    await fs.writeFile(`${bag}.tar`, archive);
+
+    const result = await verifyBag(`${bag}.tar`);
+    expect(result.valid).toBe(false);
+    expect(result.archiveChecksumMatch).toBe(false);
+    expect(result.errors).toContain('Archive checksum mismatch: delivery.tar.sha256');
+    expect(result.invalidFiles.map(f => f.path)).toEqual(['data/notes.txt']);
+  });
+
+  it('should verify an archive without a checksum file', async () => {
+    const bag = path.join(tempDir, 'delivery');
+    await createBag(source, { outputPath: bag, serialize: 'zip' });
+    await fs.rm(`${bag}.zip.sha256`);
+
+    const result = await verifyBag(`${bag}.zip`);
+    expect(result.valid).toBe(true);
+    expect(result.archiveChecksumMatch).toBeUndefined();
+  });
+
+  it('should reject archives with more than one top-level directory', async () => {
+    const archive = path.join(tempDir, 'two.tar');
+    const chunks: Buffer[] = [];
+    for await (const chunk of tarStream([
+      { path: 'one/bagit.txt', type: 'file', size: 0 },
+      { path: 'two/bagit.txt', type: 'file', size: 0 }
+    ])) chunks.push(chunk);
+    await fs.writeFile(archive, Buffer.concat(chunks));
+
+    await expect(verifyBag(archive)).rejects.toThrow('single top-level directory; found one and two');
+  });
+
+  it('should not complete a serialized bag in place', async () => {
+    const bag = path.join(tempDir, 'delivery');
+    await createBag(source, { outputPath: bag, serialize: 'zip' });
+    await expect(completeBag(`${bag}.zip`)).rejects.toThrow('Extract the serialized bag');
+  });
+
+  it('should apply the profile serialization rules', async () => {
+    const profile = parseBagItProfile({
+      'BagIt-Profile-Info': { 'BagIt-Profile-Identifier': 'https://example.org/zip-only.json' },
+      'Serialization': 'required',
+      'Accept-Serialization': ['application/zip']
+    });
+    await expect(createBag(source, { outputPath: path.join(tempDir, 'dir'), profile }))
+      .rejects.toThrow('Serialization: a serialized bag is required');
+    await expect(createBag(source, { outputPath: path.join(tempDir, 'tar'), profile, serialize: 'tar' }))
+      .rejects.toThrow('Accept-Serialization: tar (application/tar) not accepted: application/zip');
+
+    const bag = path.join(tempDir, 'delivery');
+    await createBag(source, { outputPath: bag, profile, serialize: 'zip' });
+    const result = await verifyBag(`${bag}.zip`, { profile });
+    expect(result.profile?.valid).toBe(true);
+    expect(result.profile?.rules.filter(r => r.rule.includes('Serialization'))).toEqual([
+      { rule: 'Serialization', passed: true, message: 'zip archive' },
+      { rule: 'Accept-Serialization', passed: true, message: 'zip accepted' }
+    ]);
+    expect((await validateBagProfile(bag, profile)).rules.find(r => r.rule === 'Serialization')?.passed).toBe(false);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * BagIt Update Tests
+ * Tests for bags with several manifests, and adding, removing and
+ * regenerating payload in place
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { createHash } from 'node:crypto';
+import {
+  createBag,
+  verifyBag,
+  addToBag,
+  removeFromBag,
+  regenerateBag,
+  parseBagItProfile,
+  setBagInfoTags
+} from '../../src/services/bagit/index.js';
+
+describe('BagIt updates', () => {
+  let tempDir: string;
+  let bag: string;
+
+  const read = (name: string): Promise<string> => fs.readFile(path.join(bag, name), 'utf-8');
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `wnb-bagit-update-test-${Date.now()}`);
+    bag = path.join(tempDir, 'bag');
+    await fs.mkdir(path.join(bag, 'reels'), { recursive: true });
+    await fs.writeFile(path.join(bag, 'notes.txt'), 'notes');
+    await fs.writeFile(path.join(bag, 'reels', 'R1.mov'), 'reel one');
+    await fs.writeFile(path.join(bag, 'reels', 'R2.mov'), 'reel two');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('several manifests', () => {
+    it('should write and verify one manifest and tag manifest per algorithm', async () => {
+      const created = await createBag(bag, { algorithms: ['sha256', 'sha512', 'md5'] });
+      expect(created.algorithm).toBe('sha256');
+      expect(created.tagFiles).toEqual([
+        'bagit.txt',
+        'bag-info.txt',
+        'manifest-sha256.txt',
+        'manifest-sha512.txt',
+        'manifest-md5.txt',
+        'tagmanifest-sha256.txt',
+        'tagmanifest-sha512.txt',
+        'tagmanifest-md5.txt'
+      ]);
+      expect(await read('manifest-md5.txt')).toContain(`${createHash('md5').update('notes').digest('hex')}  data/notes.txt\n`);
+      expect(await read('tagmanifest-md5.txt')).toContain('  manifest-sha512.txt');
+
+      const result = await verifyBag(bag);
+      expect(result).toMatchObject({ valid: true, algorithm: 'sha256', algorithms: ['sha256', 'sha512', 'md5'], verifiedFiles: 3 });
+    });
+
+    it('should check every manifest, not only the first', async () => {
+      await createBag(bag, { algorithms: ['sha256', 'md5'] });
+      const md5 = await read('manifest-md5.txt');
+      const line = md5.split('\n').find(l => l.endsWith('data/notes.txt'))!;
+      await fs.writeFile(path.join(bag, 'manifest-md5.txt'), md5.replace(line, `${'0'.repeat(32)}  data/notes.txt`));
+
+      let result = await verifyBag(bag);
+      expect(result.valid).toBe(false);
+      expect(result.invalidFiles).toEqual([
+        { path: 'data/notes.txt', algorithm: 'md5', expected: '0'.repeat(32), actual: line.split('  ')[0] }
+      ]);
+      expect(result.errors).toContain('Tag file hash mismatch: manifest-md5.txt');
+
+      await fs.writeFile(path.join(bag, 'manifest-md5.txt'), md5.replace(`${line}\n`, ''));
+      result = await verifyBag(bag);
+      expect(result.errors).toContain('data/notes.txt is not listed in manifest-md5.txt');
+    });
+
+    it('should verify a serialized bag with several manifests', async () => {
+      const created = await createBag(bag, { algorithms: ['sha512', 'sha1'], serialize: 'tgz' });
+      expect(created.serialized?.checksumPath).toBe(`${bag}.tar.gz.sha512`);
+
+      const result = await verifyBag(`${bag}.tar.gz`);
+      expect(result).toMatchObject({ valid: true, algorithms: ['sha512', 'sha1'], archiveChecksumMatch: true });
+    });
+
+    it('should write every manifest a profile requires', async () => {
+      const profile = parseBagItProfile({
+        'BagIt-Profile-Info': { 'BagIt-Profile-Identifier': 'https://example.org/two.json' },
+        'Manifests-Required': ['sha512', 'md5'],
+        'Tag-Manifests-Required': ['md5']
+      });
+      const created = await createBag(bag, { profile });
+      expect(created.algorithms).toEqual(['sha512', 'md5']);
+      expect((await verifyBag(bag, { profile })).profile?.valid).toBe(true);
+    });
+  });
+
+  describe('add, remove and regenerate', () => {
+    let extra: string;
+
+    beforeEach(async () => {
+      extra = path.join(tempDir, 'extra');
+      await fs.mkdir(path.join(extra, 'sound'), { recursive: true });
+      await fs.writeFile(path.join(extra, 'sound', 'S1.wav'), 'sound one');
+      await fs.writeFile(path.join(extra, 'sound', '.DS_Store'), 'finder');
+      await fs.writeFile(path.join(extra, 'LUT.cube'), 'lut');
+      await createBag(bag, { algorithms: ['sha256', 'md5'] });
+    });
+
+    it('should add files and directories, leaving the other manifest lines as they were', async () => {
+      const before = (await read('manifest-sha256.txt')).trim().split('\n');
+
+      const result = await addToBag(bag, [path.join(extra, 'sound'), path.join(extra, 'LUT.cube')], { destination: 'reels' });
+      expect(result).toMatchObject({
+        algorithms: ['sha256', 'md5'],
+        added: ['data/reels/sound/S1.wav', 'data/reels/LUT.cube'],
+        payloadOxum: '33.5'
+      });
+
+      const after = (await read('manifest-sha256.txt')).trim().split('\n');
+      expect(after.filter(line => !before.includes(line)).map(line => line.split('  ')[1])).toEqual([
+        'data/reels/LUT.cube',
+        'data/reels/sound/S1.wav'
+      ]);
+      expect(after.filter(line => before.includes(line))).toEqual(before);
+      expect(await read('bag-info.txt')).toContain('Payload-Oxum: 33.5\n');
+      expect(await fs.readFile(path.join(extra, 'LUT.cube'), 'utf-8')).toBe('lut');
+
+      expect(await verifyBag(bag)).toMatchObject({ valid: true, verifiedFiles: 5, extraFiles: [] });
+    });
+
+    it('should refuse to add over payload already in the bag', async () => {
+      await expect(addToBag(bag, [path.join(extra, 'LUT.cube')])).resolves.toBeDefined();
+      await expect(addToBag(bag, [path.join(extra, 'LUT.cube')])).rejects.toThrow('data/LUT.cube is already in the bag');
+      await expect(addToBag(bag, [path.join(bag, 'bag-info.txt')])).rejects.toThrow('Only payload (data/) can be added');
+    });
+
+    it('should add extra files already under data/ where they are, and move sources', async () => {
+      await fs.writeFile(path.join(bag, 'data', 'late.txt'), 'late');
+      expect((await verifyBag(bag)).extraFiles).toEqual(['data/late.txt']);
+
+      await addToBag(bag, [path.join(bag, 'data', 'late.txt')]);
+      await addToBag(bag, [path.join(extra, 'LUT.cube')], { move: true });
+
+      await expect(fs.access(path.join(extra, 'LUT.cube'))).rejects.toThrow();
+      expect(await verifyBag(bag)).toMatchObject({ valid: true, verifiedFiles: 5, extraFiles: [] });
+    });
+
+    it('should remove files and directories and prune empty directories', async () => {
+      const result = await removeFromBag(bag, ['reels', 'data/notes.txt']);
+      expect(result.removed).toEqual(['data/notes.txt', 'data/reels/R1.mov', 'data/reels/R2.mov']);
+      expect(result.payloadOxum).toBe('0.0');
+      expect(await fs.readdir(path.join(bag, 'data'))).toEqual([]);
+      expect(await read('manifest-md5.txt')).toBe('');
+
+      expect((await verifyBag(bag)).valid).toBe(true);
+      await expect(removeFromBag(bag, ['missing.mov'])).rejects.toThrow('Not in the payload manifest: missing.mov');
+    });
+
+    it('should regenerate manifests after payload changed on disk', async () => {
+      await fs.writeFile(path.join(bag, 'data', 'reels', 'R1.mov'), 'reel one, recut');
+      await fs.rm(path.join(bag, 'data', 'notes.txt'));
+      await fs.writeFile(path.join(bag, 'data', 'reels', 'R3.mov'), 'reel three');
+      expect((await verifyBag(bag)).valid).toBe(false);
+
+      const result = await regenerateBag(bag);
+      expect(result).toMatchObject({
+        added: ['data/reels/R3.mov'],
+        removed: ['data/notes.txt'],
+        changed: ['data/reels/R1.mov'],
+        payloadOxum: '33.3'
+      });
+      expect(await verifyBag(bag)).toMatchObject({ valid: true, algorithms: ['sha256', 'md5'] });
+    });
+
+    it('should regenerate with other algorithms and drop the old manifests', async () => {
+      const result = await regenerateBag(bag, { algorithms: ['sha512', 'sha1'] });
+      expect(result).toMatchObject({ algorithms: ['sha512', 'sha1'], added: [], removed: [], changed: [] });
+
+      const names = (await fs.readdir(bag)).filter(name => name.includes('manifest')).sort();
+      expect(names).toEqual(['manifest-sha1.txt', 'manifest-sha512.txt', 'tagmanifest-sha1.txt', 'tagmanifest-sha512.txt']);
+      expect(await verifyBag(bag)).toMatchObject({ valid: true, algorithms: ['sha512', 'sha1'] });
+    });
+
+    it('should keep files still to fetch in a holey bag', async () => {
+      const holey = path.join(tempDir, 'holey');
+      await createBag(extra, { outputPath: holey, fetchPatterns: ['*.wav'], inPlace: false });
+
+      await regenerateBag(holey);
+      expect((await verifyBag(holey)).fetchPending).toEqual(['data/sound/S1.wav']);
+
+      await removeFromBag(holey, ['data/sound/S1.wav']);
+      await expect(fs.access(path.join(holey, 'fetch.txt'))).rejects.toThrow();
+      expect(await verifyBag(holey)).toMatchObject({ valid: true, complete: true, totalFiles: 1 });
+    });
+  });
+
+  it('should set bag-info elements in place', () => {
+    const content = 'Source-Organization: Studio A\nPayload-Oxum: 1.1\nExternal-Description: two\n  lines\nBag-Size: 1 B\n';
+    expect(setBagInfoTags(content, { 'Payload-Oxum': '20.2', 'External-Description': 'one line', 'Bag-Count': '1' })).toBe(
+      'Source-Organization: Studio A\nPayload-Oxum: 20.2\nExternal-Description: one line\nBag-Size: 1 B\nBag-Count: 1\n'
+    );
+  });
+});
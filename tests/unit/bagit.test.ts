@@ -6,7 +6,11 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import * as os from 'node:os';
-import { createBag, verifyBag } from '../../src/services/bagit/index.js';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createBag, verifyBag, completeBag, parseFetchFile, formatFetchFile } from '../../src/services/bagit/index.js';
+import { configureHashCache } from '../../src/core/hash-cache.js';
+import { hashFile } from '../../src/core/hasher.js';
 
 describe('BagIt Service', () => {
   let tempDir: string;
@@ -172,6 +176,30 @@ describe('BagIt Service', () => {
       expect(result.invalidFiles).toHaveLength(1);
     });
 
+    it('should re-read payload files the hash cache has seen', async () => {
+      const mtime = new Date('2024-01-01T00:00:00Z');
+      await fs.writeFile(path.join(tempDir, 'a.txt'), 'first file');
+      await fs.writeFile(path.join(tempDir, 'b.txt'), 'second file');
+      await createBag(tempDir);
+      const second = path.join(tempDir, 'data', 'b.txt');
+      await fs.utimes(second, mtime, mtime);
+
+      configureHashCache({ mode: 'on', dir: path.join(tempDir, '.cache') });
+      try {
+        await hashFile(second, 'sha256');
+
+        // Same size and mtime, different bytes
+        await fs.writeFile(second, 'SECOND FILE');
+        await fs.utimes(second, mtime, mtime);
+
+        const result = await verifyBag(tempDir);
+        expect(result.valid).toBe(false);
+        expect(result.invalidFiles.map(f => f.path)).toEqual(['data/b.txt']);
+      } finally {
+        configureHashCache({ mode: 'off' });
+      }
+    });
+
     it('should detect extra files in data directory', async () => {
       await fs.writeFile(path.join(tempDir, 'test.txt'), 'test content');
       await createBag(tempDir);
@@ -196,4 +224,110 @@ describe('BagIt Service', () => {
       expect(result.errors).toContain('Missing bagit.txt');
     });
   });
+
+  describe('holey bags', () => {
+    let source: string;
+    let bag: string;
+
+    beforeEach(async () => {
+      source = path.join(tempDir, 'source');
+      bag = path.join(tempDir, 'bag');
+      await fs.mkdir(path.join(source, 'clips'), { recursive: true });
+      await fs.writeFile(path.join(source, 'notes.txt'), 'notes');
+      await fs.writeFile(path.join(source, 'clips', 'A001.mov'), 'clip one');
+      await fs.writeFile(path.join(source, 'clips', 'A002 take 2.mov'), 'clip two');
+    });
+
+    it('should parse and format fetch.txt', () => {
+      const entries = parseFetchFile('https://example.org/a.mov 12 data/a b.mov\nfile:///x/y - data/y\n');
+      expect(entries).toEqual([
+        { url: 'https://example.org/a.mov', length: 12, path: 'data/a b.mov' },
+        { url: 'file:///x/y', path: 'data/y' }
+      ]);
+      expect(formatFetchFile(entries)).toBe('https://example.org/a.mov 12 data/a b.mov\nfile:///x/y - data/y\n');
+      expect(() => parseFetchFile('no-length data/x')).toThrow('Invalid fetch.txt line 1');
+    });
+
+    it('should list fetched files in fetch.txt and report the bag incomplete', async () => {
+      const result = await createBag(source, { outputPath: bag, fetchPatterns: ['*.mov'] });
+      expect(result.fileCount).toBe(3);
+      expect(result.fetchFiles).toBe(2);
+      expect(result.payloadOxum).toBe('21.3');
+      expect(result.tagFiles).toContain('fetch.txt');
+
+      const fetchTxt = await fs.readFile(path.join(bag, 'fetch.txt'), 'utf-8');
+      expect(parseFetchFile(fetchTxt).map(e => [e.path, e.length])).toEqual([
+        ['data/clips/A001.mov', 8],
+        ['data/clips/A002 take 2.mov', 8]
+      ]);
+      expect(await fs.readdir(path.join(bag, 'data'))).toEqual(['clips', 'notes.txt']);
+      expect(await fs.readFile(path.join(bag, 'tagmanifest-sha256.txt'), 'utf-8')).toContain('  fetch.txt');
+
+      const verify = await verifyBag(bag);
+      expect(verify).toMatchObject({ valid: false, complete: false, payloadValid: true, missingFiles: [], errors: [] });
+      expect(verify.fetchPending).toEqual(['data/clips/A001.mov', 'data/clips/A002 take 2.mov']);
+    });
+
+    it('should require an output bag for fetched files', async () => {
+      await expect(createBag(source, { fetchPatterns: ['*.mov'] })).rejects.toThrow('needs an output bag');
+    });
+
+    it('should complete a bag from file: URLs and mark it complete', async () => {
+      await createBag(source, { outputPath: bag, fetchPatterns: ['clips/*'] });
+
+      const result = await completeBag(bag);
+      expect(result).toMatchObject({ complete: true, alreadyPresent: 0, failed: [], bytesFetched: 16 });
+      expect(result.fetched).toHaveLength(2);
+
+      await expect(fs.access(path.join(bag, 'fetch.txt'))).rejects.toThrow();
+      expect(await fs.readFile(path.join(bag, 'tagmanifest-sha256.txt'), 'utf-8')).not.toContain('fetch.txt');
+      expect(await verifyBag(bag)).toMatchObject({ valid: true, complete: true, verifiedFiles: 3, fetchPending: [] });
+    });
+
+    it('should fetch over HTTP and keep fetch.txt when a download does not verify', async () => {
+      const served = new Map([
+        ['/clips/A001.mov', 'clip one'],
+        ['/clips/A002%20take%202.mov', 'clip 2!!']
+      ]);
+      const server = http.createServer((req, res) => {
+        const body = served.get(req.url ?? '');
+        res.writeHead(body === undefined ? 404 : 200).end(body);
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+
+      try {
+        await createBag(source, { outputPath: bag, fetchPatterns: ['*.mov'], fetchUrl: `http://127.0.0.1:${port}/` });
+
+        const first = await completeBag(bag);
+        expect(first.complete).toBe(false);
+        expect(first.fetched).toEqual(['data/clips/A001.mov']);
+        expect(first.failed).toHaveLength(1);
+        expect(first.failed[0]).toMatchObject({ path: 'data/clips/A002 take 2.mov', url: `http://127.0.0.1:${port}/clips/A002%20take%202.mov` });
+        expect(first.failed[0].error).toContain('sha256 mismatch');
+        await expect(fs.access(path.join(bag, 'data', 'clips', 'A002 take 2.mov.part'))).rejects.toThrow();
+        await fs.access(path.join(bag, 'fetch.txt'));
+
+        served.set('/clips/A002%20take%202.mov', 'clip two');
+        const second = await completeBag(bag);
+        expect(second).toMatchObject({ complete: true, alreadyPresent: 1, fetched: ['data/clips/A002 take 2.mov'] });
+        expect((await verifyBag(bag)).valid).toBe(true);
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    it('should reject fetch.txt entries that are not in the manifest', async () => {
+      await createBag(source, { outputPath: bag, fetchPatterns: ['A001.mov'] });
+      await fs.appendFile(path.join(bag, 'fetch.txt'), 'file:///etc/hosts - data/hosts\n');
+
+      const verify = await verifyBag(bag);
+      expect(verify.errors).toContain('fetch.txt lists data/hosts, which is not in the payload manifest');
+
+      const result = await completeBag(bag);
+      expect(result.failed).toEqual([{ path: 'data/hosts', url: 'file:///etc/hosts', error: 'not in the payload manifest' }]);
+      expect(result.fetched).toEqual(['data/clips/A001.mov']);
+      expect(result.complete).toBe(false);
+    });
+  });
 });
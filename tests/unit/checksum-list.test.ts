@@ -0,0 +1,161 @@
+/**
+ * Checksum List Tests
+ * Tests for parsing and verifying GNU, b3sum, BSD-tag and SFV checksum files
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  parseChecksumLine,
+  parseChecksumList,
+  verifyChecksumEntry,
+  algorithmHintFromName
+} from '../../src/core/checksum-list.js';
+import { hashFile } from '../../src/core/hasher.js';
+import type { Algorithm } from '../../src/schemas/index.js';
+
+const SHA256 = 'a'.repeat(64);
+const BLAKE3 = 'b'.repeat(16);
+
+describe('Checksum List', () => {
+  let tempDir: string;
+  let testFile: string;
+
+  const hash = async (filePath: string, algorithm: Algorithm): Promise<string> =>
+    (await hashFile(filePath, algorithm)).hash;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wnb-checksum-list-test-'));
+    testFile = path.join(tempDir, 'data.txt');
+    await fs.writeFile(testFile, 'checksum list test content');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseChecksumLine', () => {
+    it('should parse GNU coreutils lines', () => {
+      expect(parseChecksumLine(`${SHA256}  dir/file.txt`)).toMatchObject({
+        path: 'dir/file.txt',
+        hash: SHA256,
+        format: 'gnu',
+        algorithms: ['sha256', 'blake3-full']
+      });
+    });
+
+    it('should parse binary-mode lines', () => {
+      expect(parseChecksumLine(`${'c'.repeat(32)} *image.iso`)).toMatchObject({
+        path: 'image.iso',
+        algorithms: ['md5', 'xxh128']
+      });
+    });
+
+    it('should parse BSD tag lines', () => {
+      expect(parseChecksumLine(`BLAKE3 (file name.txt) = ${BLAKE3}`)).toMatchObject({
+        path: 'file name.txt',
+        format: 'bsd',
+        algorithms: ['blake3']
+      });
+      expect(parseChecksumLine(`SHA256 (a.txt) = ${SHA256}`)?.algorithms).toEqual(['sha256']);
+    });
+
+    it('should parse SFV-style lines', () => {
+      expect(parseChecksumLine(`file.txt ${BLAKE3}`)).toMatchObject({
+        path: 'file.txt',
+        format: 'sfv',
+        algorithms: ['blake3', 'xxhash64', 'xxh3']
+      });
+    });
+
+    it('should parse CRC32 SFV, SHA-1 and xxhsum lines', () => {
+      expect(parseChecksumLine('Track 01.flac CBF43926')).toMatchObject({
+        path: 'Track 01.flac',
+        hash: 'cbf43926',
+        format: 'sfv',
+        algorithms: ['crc32']
+      });
+      expect(parseChecksumLine(`SHA1 (a.txt) = ${'d'.repeat(40)}`)?.algorithms).toEqual(['sha1']);
+      expect(parseChecksumLine(`XXH128 (a.txt) = ${'e'.repeat(32)}`)?.algorithms).toEqual(['xxh128']);
+      expect(parseChecksumLine(`${'e'.repeat(32)}  a.txt`, 1, 'xxh128')?.algorithms).toEqual(['xxh128', 'md5']);
+    });
+
+    it('should unescape coreutils escaped filenames', () => {
+      expect(parseChecksumLine(`\\${SHA256}  line\\nbreak\\\\x`)?.path).toBe('line\nbreak\\x');
+    });
+
+    it('should reject unsupported lines', () => {
+      expect(parseChecksumLine('not a checksum')).toBeNull();
+      expect(parseChecksumLine(`WHIRLPOOL (a.txt) = ${'d'.repeat(128)}`)).toBeNull();
+    });
+
+    it('should order ambiguous candidates by hint', () => {
+      expect(parseChecksumLine(`${SHA256}  a`, 1, 'blake3-full')?.algorithms).toEqual(['blake3-full', 'sha256']);
+    });
+  });
+
+  describe('parseChecksumList', () => {
+    it('should skip comments and count malformed lines', () => {
+      const list = parseChecksumList([
+        '; generated by wnb',
+        `${SHA256}  a.txt`,
+        '',
+        'garbage',
+        `BLAKE3 (b.txt) = ${BLAKE3}`
+      ].join('\n'));
+
+      expect(list.entries.map(e => e.path)).toEqual(['a.txt', 'b.txt']);
+      expect(list.malformed).toEqual([4]);
+    });
+
+    it('should take an algorithm hint from the list name', () => {
+      expect(algorithmHintFromName('/x/SHA256SUMS')).toBe('sha256');
+      expect(algorithmHintFromName('photos.b3')).toBe('blake3-full');
+      expect(algorithmHintFromName('files.md5')).toBe('md5');
+      expect(algorithmHintFromName('A001.xxh128')).toBe('xxh128');
+      expect(algorithmHintFromName('release.sfv')).toBe('crc32');
+      expect(algorithmHintFromName('checksums.txt')).toBeNull();
+    });
+  });
+
+  describe('verifyChecksumEntry', () => {
+    it('should report OK for a matching file', async () => {
+      const { hash: expected } = await hashFile(testFile, 'sha256');
+      const entry = parseChecksumLine(`${expected}  data.txt`)!;
+
+      const result = await verifyChecksumEntry(entry, hash, tempDir);
+
+      expect(result.status).toBe('ok');
+      expect(result.algorithm).toBe('sha256');
+    });
+
+    it('should fall back to the next candidate for ambiguous lengths', async () => {
+      const { hash: expected } = await hashFile(testFile, 'blake3-full');
+      const entry = parseChecksumLine(`${expected}  data.txt`)!;
+
+      const result = await verifyChecksumEntry(entry, hash, tempDir);
+
+      expect(result.status).toBe('ok');
+      expect(result.algorithm).toBe('blake3-full');
+    });
+
+    it('should report FAILED for a mismatch', async () => {
+      const entry = parseChecksumLine(`${SHA256}  data.txt`)!;
+
+      const result = await verifyChecksumEntry(entry, hash, tempDir);
+
+      expect(result.status).toBe('failed');
+      expect(result.actual).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('should report missing files', async () => {
+      const entry = parseChecksumLine(`${SHA256}  nope.txt`)!;
+
+      const result = await verifyChecksumEntry(entry, hash, tempDir);
+
+      expect(result.status).toBe('missing');
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Chunk Map Tests
+ * Tests for per-block BLAKE3 digests and damage localization
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  hashFileWithChunks,
+  locateDamage,
+  chunkIndicesForRanges,
+  mergeRanges,
+  parseByteRange,
+  validateChunkSize
+} from '../../src/core/chunk-map.js';
+import { hashBlake3 } from '../../src/core/hasher.js';
+
+const MiB = 1024 * 1024;
+
+describe('Chunk Map', () => {
+  let tempDir: string;
+  let testFile: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wnb-chunk-map-test-'));
+    testFile = path.join(tempDir, 'data.bin');
+
+    // 3.5 MiB of deterministic, non-repeating content
+    const buffer = Buffer.alloc(3.5 * MiB);
+    for (let i = 0; i < buffer.length; i++) {
+      buffer[i] = (i * 31 + (i >> 10)) & 0xff;
+    }
+    await fs.writeFile(testFile, buffer);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function corruptByte(offset: number): Promise<void> {
+    const fd = await fs.open(testFile, 'r+');
+    try {
+      const byte = Buffer.alloc(1);
+      await fd.read(byte, 0, 1, offset);
+      byte[0] ^= 0xff;
+      await fd.write(byte, 0, 1, offset);
+    } finally {
+      await fd.close();
+    }
+  }
+
+  describe('hashFileWithChunks', () => {
+    it('should produce one digest per block including a partial last block', async () => {
+      const result = await hashFileWithChunks(testFile, { chunkSize: MiB });
+
+      expect(result.chunkMap.chunkSize).toBe(MiB);
+      expect(result.chunkMap.chunks).toHaveLength(4);
+      result.chunkMap.chunks.forEach(c => expect(c).toMatch(/^[a-f0-9]{16}$/));
+    });
+
+    it('should match the regular BLAKE3 file hash', async () => {
+      const chunked = await hashFileWithChunks(testFile, { chunkSize: MiB, full: true });
+      const plain = await hashBlake3(testFile, { full: true, forceWasm: true });
+
+      expect(chunked.hash).toBe(plain);
+    });
+
+    it('should reject chunk sizes outside 1-64 MiB', () => {
+      expect(() => validateChunkSize(1024)).toThrow();
+      expect(() => validateChunkSize(128 * MiB)).toThrow();
+      expect(() => validateChunkSize(16 * MiB)).not.toThrow();
+    });
+  });
+
+  describe('locateDamage', () => {
+    it('should report an intact file', async () => {
+      const { chunkMap, size } = await hashFileWithChunks(testFile, { chunkSize: MiB });
+
+      const result = await locateDamage(testFile, chunkMap, size);
+
+      expect(result.intact).toBe(true);
+      expect(result.damaged).toEqual([]);
+      expect(result.checkedChunks).toBe(4);
+    });
+
+    it('should localize a flipped byte to its chunk', async () => {
+      const { chunkMap, size } = await hashFileWithChunks(testFile, { chunkSize: MiB });
+      await corruptByte(2 * MiB + 123);
+
+      const result = await locateDamage(testFile, chunkMap, size);
+
+      expect(result.intact).toBe(false);
+      expect(result.damagedChunks).toEqual([2]);
+      expect(result.damaged).toEqual([{ start: 2 * MiB, end: 3 * MiB }]);
+    });
+
+    it('should merge adjacent damaged chunks', async () => {
+      const { chunkMap, size } = await hashFileWithChunks(testFile, { chunkSize: MiB });
+      await corruptByte(10);
+      await corruptByte(MiB + 10);
+
+      const result = await locateDamage(testFile, chunkMap, size);
+
+      expect(result.damagedChunks).toEqual([0, 1]);
+      expect(result.damaged).toEqual([{ start: 0, end: 2 * MiB }]);
+    });
+
+    it('should report truncation from the cut point to the recorded size', async () => {
+      const { chunkMap, size } = await hashFileWithChunks(testFile, { chunkSize: MiB });
+      await fs.truncate(testFile, 2 * MiB);
+
+      const result = await locateDamage(testFile, chunkMap, size);
+
+      expect(result.damaged).toEqual([{ start: 2 * MiB, end: size }]);
+    });
+
+    it('should report appended bytes', async () => {
+      const { chunkMap, size } = await hashFileWithChunks(testFile, { chunkSize: MiB });
+      await fs.appendFile(testFile, Buffer.from('extra'));
+
+      const result = await locateDamage(testFile, chunkMap, size);
+
+      expect(result.damaged).toEqual([{ start: size, end: size + 5 }]);
+    });
+
+    it('should only read chunks overlapping the requested ranges', async () => {
+      const { chunkMap, size } = await hashFileWithChunks(testFile, { chunkSize: MiB });
+      await corruptByte(3 * MiB + 1);
+
+      const partial = await locateDamage(testFile, chunkMap, size, {
+        ranges: [{ start: 0, end: MiB }]
+      });
+
+      expect(partial.intact).toBe(true);
+      expect(partial.checkedChunks).toBe(1);
+      expect(partial.bytesRead).toBe(MiB);
+    });
+  });
+
+  describe('range helpers', () => {
+    it('should map byte ranges to chunk indices', () => {
+      expect(chunkIndicesForRanges(MiB, 4, [{ start: MiB - 1, end: MiB + 1 }])).toEqual([0, 1]);
+      expect(chunkIndicesForRanges(MiB, 4, [{ start: 0, end: 100 * MiB }])).toEqual([0, 1, 2, 3]);
+    });
+
+    it('should merge overlapping ranges', () => {
+      expect(mergeRanges([
+        { start: 10, end: 20 },
+        { start: 0, end: 5 },
+        { start: 15, end: 30 }
+      ])).toEqual([{ start: 0, end: 5 }, { start: 10, end: 30 }]);
+    });
+
+    it('should parse byte ranges with unit suffixes', () => {
+      expect(parseByteRange('0-1024')).toEqual({ start: 0, end: 1024 });
+      expect(parseByteRange('512M-1G')).toEqual({ start: 512 * MiB, end: 1024 * MiB });
+      expect(() => parseByteRange('10-5')).toThrow();
+      expect(() => parseByteRange('abc')).toThrow();
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Convert Service Tests
+ * Tests for reading and writing fixity lists across formats
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { convertFixityList, readFixityList, targetAlgorithms } from '../../src/services/convert.js';
+import { hashForManifest, writeManifest } from '../../src/core/manifest.js';
+import { computeMerkleTree } from '../../src/core/merkle.js';
+import type { Manifest, ManifestEntry } from '../../src/schemas/index.js';
+
+describe('Convert Service', () => {
+  let tempDir: string;
+  let dataDir: string;
+  let manifestPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wnb-convert-test-'));
+    dataDir = path.join(tempDir, 'data');
+    await fs.mkdir(path.join(dataDir, 'sub'), { recursive: true });
+    await fs.writeFile(path.join(dataDir, 'a.txt'), 'alpha');
+    await fs.writeFile(path.join(dataDir, 'sub', 'b.txt'), 'bravo');
+
+    const files: ManifestEntry[] = [];
+    for (const file of ['a.txt', 'sub/b.txt']) {
+      const { hashes, size } = await hashForManifest(path.join(dataDir, file), ['blake3'], 16);
+      files.push({ path: file, hash: hashes.blake3!, size, mtime: '2024-01-01T00:00:00.000Z' });
+    }
+    const manifest: Manifest = {
+      version: '1.0',
+      generated: '2024-01-01T00:00:00.000Z',
+      algorithm: 'blake3',
+      hashLength: 16,
+      root: dataDir,
+      fileCount: files.length,
+      totalBytes: 10,
+      merkle: computeMerkleTree(files),
+      files
+    };
+    manifestPath = path.join(tempDir, 'manifest.json');
+    await writeManifest(manifestPath, manifest);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should need a root for digests the source lacks', async () => {
+    await expect(convertFixityList(manifestPath, 'md5sum')).rejects.toThrow('give --root');
+
+    const result = await convertFixityList(manifestPath, 'md5sum', { root: dataDir });
+    expect(result.output).toBe(
+      '2c1743a391305fbf367df8e4f069f9f9  a.txt\n' +
+      'fd9ab41e47a9ef4f6477a8a000bf404f  sub/b.txt\n'
+    );
+    expect(result.filesRead).toBe(2);
+    expect(result.warnings).toContain('md5sum will hold md5; dropping blake3 digests');
+    expect(result.warnings).toContain('md5sum cannot hold file sizes, modification times; they are dropped');
+  });
+
+  it('should refuse to re-hash a file that no longer matches the source', async () => {
+    await fs.writeFile(path.join(dataDir, 'a.txt'), 'ALPHA');
+    await expect(convertFixityList(manifestPath, 'sha256sum', { root: dataDir })).rejects.toThrow('no longer matches');
+  });
+
+  it('should turn a checksum list into a v2 manifest with sizes from the root', async () => {
+    const listPath = path.join(tempDir, 'files.md5');
+    await fs.writeFile(listPath, (await convertFixityList(manifestPath, 'md5sum', { root: dataDir })).output);
+
+    await expect(convertFixityList(listPath, 'json')).rejects.toThrow('has no size');
+    const manifest = JSON.parse((await convertFixityList(listPath, 'json', { root: dataDir })).output);
+    expect(manifest.version).toBe('2.0');
+    expect(manifest.algorithms).toEqual(['md5']);
+    expect(manifest.files[0]).toMatchObject({ path: 'a.txt', size: 5, hashes: { md5: '2c1743a391305fbf367df8e4f069f9f9' } });
+    expect(manifest.merkle.root).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it('should tell SHA-256 from full BLAKE3 digests in a list whose name gives no hint', async () => {
+    const b3Path = path.join(tempDir, 'sums.txt');
+    const sha256Path = path.join(tempDir, 'other-sums.txt');
+    await fs.writeFile(b3Path, (await convertFixityList(manifestPath, 'b3sum', { root: dataDir })).output);
+    await fs.writeFile(sha256Path, (await convertFixityList(manifestPath, 'sha256sum', { root: dataDir })).output);
+
+    await expect(convertFixityList(b3Path, 'json')).rejects.toThrow('may be sha256 or blake3; give --from md5sum|sha256sum|b3sum');
+
+    const manifest = JSON.parse((await convertFixityList(b3Path, 'json', { root: dataDir })).output);
+    expect(manifest.algorithms).toEqual(['blake3']);
+    expect(manifest.files[0].hashes.blake3).toHaveLength(64);
+    expect((await convertFixityList(b3Path, 'b3sum', { root: dataDir })).output).toBe(await fs.readFile(b3Path, 'utf-8'));
+    expect((await readFixityList(sha256Path, undefined, dataDir)).records[0].hashes).toHaveProperty('sha256');
+    expect((await readFixityList(b3Path, 'b3sum')).records[0].hashes).toHaveProperty('blake3');
+
+    await fs.writeFile(path.join(dataDir, 'a.txt'), 'ALPHA');
+    await expect(readFixityList(b3Path, undefined, dataDir)).rejects.toThrow('a.txt matches its digest as none of sha256 or blake3');
+  });
+
+  it('should round-trip a manifest through NDJSON and CSV', async () => {
+    const ndjsonPath = path.join(tempDir, 'manifest.ndjson');
+    const csvPath = path.join(tempDir, 'manifest.csv');
+    await fs.writeFile(ndjsonPath, (await convertFixityList(manifestPath, 'ndjson')).output);
+    await fs.writeFile(csvPath, (await convertFixityList(ndjsonPath, 'csv')).output);
+
+    const result = await convertFixityList(csvPath, 'json');
+    const original = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+    const converted = JSON.parse(result.output);
+    expect(result.warnings).toEqual([]);
+    expect(converted.version).toBe('1.0');
+    expect(converted.files).toEqual(original.files);
+    expect(converted.merkle).toEqual(original.merkle);
+  });
+
+  it('should read MHL and warn about what a manifest cannot hold', async () => {
+    const mhlPath = path.join(tempDir, 'data.mhl');
+    await fs.writeFile(mhlPath, (await convertFixityList(manifestPath, 'mhl', { root: dataDir })).output);
+
+    const list = await readFixityList(mhlPath);
+    expect(list.records.map(r => Object.keys(r.hashes))).toEqual([['xxhash64'], ['xxhash64']]);
+
+    const result = await convertFixityList(mhlPath, 'json');
+    expect(JSON.parse(result.output).algorithms).toEqual(['xxhash64']);
+    expect(result.warnings).toEqual(['json cannot hold MHL creator info and hash dates; they are dropped']);
+  });
+
+  it('should keep BagIt payload paths relative to data/', async () => {
+    const bagManifest = path.join(tempDir, 'manifest-sha256.txt');
+    await fs.writeFile(bagManifest, (await convertFixityList(manifestPath, 'bagit-manifest', { root: dataDir })).output);
+    expect(await fs.readFile(bagManifest, 'utf-8')).toMatch(/^[a-f0-9]{64} {2}data\/a\.txt\n/);
+
+    const list = await readFixityList(bagManifest);
+    expect(list.records.map(r => r.path)).toEqual(['a.txt', 'sub/b.txt']);
+    expect(list.root).toBe(dataDir);
+  });
+
+  it('should choose target algorithms from the source or the request', async () => {
+    const list = await readFixityList(manifestPath);
+    expect(targetAlgorithms(list, 'json')).toEqual({ algorithms: ['blake3'], hashLength: 16 });
+    expect(targetAlgorithms(list, 'json', 'blake3-full,sha256')).toEqual({ algorithms: ['blake3', 'sha256'], hashLength: 64 });
+    expect(targetAlgorithms(list, 'mhl')).toEqual({ algorithms: ['xxhash64'], hashLength: 16 });
+    expect(() => targetAlgorithms(list, 'md5sum', 'sha256')).toThrow('does not apply');
+    expect(() => targetAlgorithms(list, 'bagit-manifest', 'md5')).toThrow('one algorithm');
+  });
+});
@@ -5,9 +5,18 @@
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fs from 'node:fs/promises';
+import { writeFileSync } from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
-import { copyWithHash, copyBatch, moveWithHash } from '../../src/core/copier.js';
+import { Readable } from 'node:stream';
+import {
+  copyWithHash,
+  copyStreamWithHash,
+  copyToMany,
+  copyBatch,
+  moveWithHash,
+  parseReflinkMode
+} from '../../src/core/copier.js';
 import { hashFile } from '../../src/core/hasher.js';
 
 describe('Copier', () => {
@@ -95,6 +104,17 @@ describe('Copier', () => {
         .rejects.toThrow('Destination already exists');
     });
 
+    it('should not replace a destination that appears during the copy', async () => {
+      const sourceFile = path.join(sourceDir, 'source.txt');
+      const destFile = path.join(destDir, 'racing.txt');
+      await fs.writeFile(sourceFile, 'Source');
+
+      await expect(copyWithHash(sourceFile, destFile, {
+        onProgress: () => writeFileSync(destFile, 'Written meanwhile')
+      })).rejects.toThrow('Destination already exists');
+      expect(await fs.readFile(destFile, 'utf-8')).toBe('Written meanwhile');
+    });
+
     it('should overwrite when overwrite is true', async () => {
       const sourceFile = path.join(sourceDir, 'source.txt');
       const destFile = path.join(destDir, 'existing.txt');
@@ -140,6 +160,17 @@ describe('Copier', () => {
       expect(sha512Result.algorithm).toBe('sha512');
     });
 
+    it('should hash xxhash64 copies with xxHash64', async () => {
+      const sourceFile = path.join(sourceDir, 'xxh.txt');
+      const destFile = path.join(destDir, 'xxh.txt');
+      await fs.writeFile(sourceFile, 'Algorithm test');
+
+      const result = await copyWithHash(sourceFile, destFile, { algorithm: 'xxhash64' });
+
+      expect(result.hash).toBe((await hashFile(sourceFile, 'xxhash64')).hash);
+      expect(result.hash).not.toBe((await hashFile(sourceFile, 'blake3')).hash);
+    });
+
     it('should report progress via callback', async () => {
       const sourceFile = path.join(sourceDir, 'progress.txt');
       const destFile = path.join(destDir, 'progress.txt');
@@ -182,6 +213,149 @@ describe('Copier', () => {
     });
   });
 
+  describe('Resumable copies', () => {
+    const data = Buffer.from(Array.from({ length: 1024 * 1024 }, (_, i) => (i * 31) % 251));
+
+    // Copy until about 256KB have gone through, then fail without retrying
+    const interruptedCopy = async (sourceFile: string, destFile: string): Promise<void> => {
+      await expect(copyWithHash(sourceFile, destFile, {
+        retries: 1,
+        onProgress: (bytes) => {
+          if (bytes >= 256 * 1024) throw new Error('link down');
+        }
+      })).rejects.toThrow('link down');
+    };
+
+    it('should leave a .partial file and no destination after an interruption', async () => {
+      const sourceFile = path.join(sourceDir, 'big.bin');
+      const destFile = path.join(destDir, 'big.bin');
+      await fs.writeFile(sourceFile, data);
+
+      await interruptedCopy(sourceFile, destFile);
+
+      await expect(fs.access(destFile)).rejects.toThrow();
+      expect((await fs.stat(`${destFile}.partial`)).size).toBeGreaterThan(0);
+    });
+
+    it('should resume from the partial with one verified digest', async () => {
+      const sourceFile = path.join(sourceDir, 'big.bin');
+      const destFile = path.join(destDir, 'big.bin');
+      await fs.writeFile(sourceFile, data);
+      await interruptedCopy(sourceFile, destFile);
+      const partialSize = (await fs.stat(`${destFile}.partial`)).size;
+
+      const result = await copyWithHash(sourceFile, destFile, { resume: true });
+
+      expect(result.resumedBytes).toBe(partialSize);
+      expect(result.verified).toBe(true);
+      expect(result.hash).toBe((await hashFile(sourceFile, 'blake3')).hash);
+      expect((await fs.readFile(destFile)).equals(data)).toBe(true);
+      await expect(fs.access(`${destFile}.partial`)).rejects.toThrow();
+      await expect(fs.access(`${destFile}.partial.json`)).rejects.toThrow();
+    });
+
+    it('should only reuse the prefix that matches the source', async () => {
+      const sourceFile = path.join(sourceDir, 'big.bin');
+      const destFile = path.join(destDir, 'big.bin');
+      await fs.writeFile(sourceFile, data);
+      await interruptedCopy(sourceFile, destFile);
+
+      // Corrupt the partial inside its second 64KB block
+      const partial = await fs.open(`${destFile}.partial`, 'r+');
+      await partial.write(Buffer.from([0xff, 0xff]), 0, 2, 70000);
+      await partial.close();
+
+      const result = await copyWithHash(sourceFile, destFile, { resume: true });
+
+      expect(result.resumedBytes).toBe(64 * 1024);
+      expect((await fs.readFile(destFile)).equals(data)).toBe(true);
+    });
+
+    it('should start over without resume or when the source changed', async () => {
+      const sourceFile = path.join(sourceDir, 'big.bin');
+      const destFile = path.join(destDir, 'big.bin');
+      await fs.writeFile(sourceFile, data);
+      await interruptedCopy(sourceFile, destFile);
+
+      const fresh = await copyWithHash(sourceFile, destFile);
+      expect(fresh.resumedBytes).toBeUndefined();
+
+      await fs.rm(destFile);
+      await interruptedCopy(sourceFile, destFile);
+      await fs.utimes(sourceFile, new Date(), new Date(Date.now() + 60000));
+
+      const changed = await copyWithHash(sourceFile, destFile, { resume: true });
+      expect(changed.resumedBytes).toBeUndefined();
+      expect((await fs.readFile(destFile)).equals(data)).toBe(true);
+    });
+  });
+
+  describe('Reflink', () => {
+    it('should parse reflink modes like cp', () => {
+      expect(parseReflinkMode(undefined)).toBe('never');
+      expect(parseReflinkMode(true)).toBe('always');
+      expect(parseReflinkMode('auto')).toBe('auto');
+      expect(() => parseReflinkMode('sometimes')).toThrow('Invalid reflink mode');
+    });
+
+    it('should stream by default', async () => {
+      const sourceFile = path.join(sourceDir, 'a.bin');
+      await fs.writeFile(sourceFile, 'stream me');
+
+      const result = await copyWithHash(sourceFile, path.join(destDir, 'a.bin'));
+
+      expect(result.method).toBe('stream');
+    });
+
+    it('should copy at the filesystem level with auto and still hash', async () => {
+      const sourceFile = path.join(sourceDir, 'a.bin');
+      const destFile = path.join(destDir, 'a.bin');
+      await fs.writeFile(sourceFile, 'clone me');
+
+      const result = await copyWithHash(sourceFile, destFile, { reflink: 'auto' });
+
+      // Same temp filesystem: a clone where supported, otherwise an in-kernel copy
+      expect(['reflink', 'copy_file_range']).toContain(result.method);
+      expect(result.verified).toBe(true);
+      expect(result.hash).toBe((await hashFile(sourceFile, 'blake3')).hash);
+      expect(await fs.readFile(destFile, 'utf-8')).toBe('clone me');
+    });
+
+    it('should clone or fail with always', async () => {
+      const sourceFile = path.join(sourceDir, 'a.bin');
+      await fs.writeFile(sourceFile, 'clone or bust');
+
+      const outcome = await copyWithHash(sourceFile, path.join(destDir, 'a.bin'), { reflink: 'always' })
+        .then(r => r.method, (err: Error) => err.message);
+
+      expect(outcome).toMatch(/^reflink$|Reflink not supported/);
+    });
+  });
+
+  describe('Metadata preservation', () => {
+    it('should carry mode bits and ownership when asked', async () => {
+      const sourceFile = path.join(sourceDir, 'script.sh');
+      const destFile = path.join(destDir, 'script.sh');
+      await fs.writeFile(sourceFile, '#!/bin/sh\n');
+      await fs.chmod(sourceFile, 0o750);
+
+      const result = await copyWithHash(sourceFile, destFile, { preserve: ['mode', 'owner'] });
+
+      expect((await fs.stat(destFile)).mode & 0o7777).toBe(0o750);
+      expect(result.preservation?.metadata.mode).toBe(0o750);
+      expect(result.preservation?.preserved).toContain('mode');
+    });
+
+    it('should not record metadata unless asked', async () => {
+      const sourceFile = path.join(sourceDir, 'plain.txt');
+      await fs.writeFile(sourceFile, 'plain');
+
+      const result = await copyWithHash(sourceFile, path.join(destDir, 'plain.txt'));
+
+      expect(result.preservation).toBeUndefined();
+    });
+  });
+
   describe('copyBatch', () => {
     it('should copy multiple files', async () => {
       const files = [
@@ -237,6 +411,149 @@ describe('Copier', () => {
     });
   });
 
+  describe('copyToMany', () => {
+    it('should write and verify every destination from one read', async () => {
+      const sourceFile = path.join(sourceDir, 'card.bin');
+      await fs.writeFile(sourceFile, Buffer.alloc(200000, 7));
+      const targets = [path.join(tempDir, 'a', 'card.bin'), path.join(tempDir, 'b', 'card.bin')];
+
+      const result = await copyToMany(sourceFile, targets);
+
+      expect(result.size).toBe(200000);
+      expect(result.hash).toBe((await hashFile(sourceFile, 'blake3')).hash);
+      expect(result.targets).toEqual(targets.map(destination => ({ destination, verified: true })));
+      for (const target of targets) {
+        expect((await fs.stat(target)).size).toBe(200000);
+      }
+    });
+
+    it('should isolate a failing destination', async () => {
+      const sourceFile = path.join(sourceDir, 'card.bin');
+      await fs.writeFile(sourceFile, 'offload me');
+      const blocker = path.join(tempDir, 'blocker');
+      await fs.writeFile(blocker, 'a file, not a directory');
+      const good = path.join(tempDir, 'good', 'card.bin');
+
+      const result = await copyToMany(sourceFile, [path.join(blocker, 'card.bin'), good]);
+
+      expect(result.targets[0].error).toBeDefined();
+      expect(result.targets[0].verified).toBe(false);
+      expect(result.targets[1]).toEqual({ destination: good, verified: true });
+      expect(await fs.readFile(good, 'utf-8')).toBe('offload me');
+    });
+
+    it('should not touch existing destinations without overwrite', async () => {
+      const sourceFile = path.join(sourceDir, 'card.bin');
+      await fs.writeFile(sourceFile, 'new');
+      const existing = path.join(tempDir, 'existing.bin');
+      await fs.writeFile(existing, 'old');
+
+      const result = await copyToMany(sourceFile, [existing]);
+
+      expect(result.targets[0].error).toMatch(/already exists/);
+      expect(await fs.readFile(existing, 'utf-8')).toBe('old');
+    });
+
+    it('should leave nothing under the final names when a copy fails partway', async () => {
+      const sourceFile = path.join(sourceDir, 'card.bin');
+      const data = Buffer.from(Array.from({ length: 1024 * 1024 }, (_, i) => (i * 31) % 251));
+      await fs.writeFile(sourceFile, data);
+      const fresh = path.join(tempDir, 'a', 'card.bin');
+      const existing = path.join(tempDir, 'b', 'card.bin');
+      await fs.mkdir(path.dirname(existing), { recursive: true });
+      await fs.writeFile(existing, 'old good copy');
+
+      await expect(copyToMany(sourceFile, [fresh, existing], {
+        overwrite: true,
+        onProgress: (bytes) => {
+          if (bytes >= 256 * 1024) throw new Error('card pulled');
+        }
+      })).rejects.toThrow('card pulled');
+
+      await expect(fs.access(fresh)).rejects.toThrow();
+      expect(await fs.readFile(existing, 'utf-8')).toBe('old good copy');
+
+      // A second run without overwrite is not blocked by the first
+      const retry = await copyToMany(sourceFile, [fresh]);
+      expect(retry.targets).toEqual([{ destination: fresh, verified: true }]);
+      expect((await fs.readFile(fresh)).equals(data)).toBe(true);
+      await expect(fs.access(`${fresh}.partial`)).rejects.toThrow();
+    });
+
+    it('should resume every destination from its own partial', async () => {
+      const sourceFile = path.join(sourceDir, 'card.bin');
+      const data = Buffer.from(Array.from({ length: 1024 * 1024 }, (_, i) => (i * 31) % 251));
+      await fs.writeFile(sourceFile, data);
+      const targets = [path.join(tempDir, 'a', 'card.bin'), path.join(tempDir, 'b', 'card.bin')];
+
+      // The drives drop out at different points
+      for (const [target, cutoff] of [[targets[0], 256 * 1024], [targets[1], 512 * 1024]] as const) {
+        await expect(copyToMany(sourceFile, [target], {
+          onProgress: (bytes) => {
+            if (bytes >= cutoff) throw new Error('card pulled');
+          }
+        })).rejects.toThrow('card pulled');
+      }
+      const partialSizes = await Promise.all(targets.map(async t => (await fs.stat(`${t}.partial`)).size));
+      expect(partialSizes[1]).toBeGreaterThan(partialSizes[0]);
+
+      const result = await copyToMany(sourceFile, targets, { resume: true });
+
+      expect(result.hash).toBe((await hashFile(sourceFile, 'blake3')).hash);
+      expect(result.targets).toEqual(targets.map((destination, i) => ({ destination, verified: true, resumedBytes: partialSizes[i] })));
+      for (const target of targets) {
+        expect((await fs.readFile(target)).equals(data)).toBe(true);
+        await expect(fs.access(`${target}.partial.json`)).rejects.toThrow();
+      }
+    });
+  });
+
+  describe('copyStreamWithHash', () => {
+    it('should copy a stream and verify the result', async () => {
+      const destFile = path.join(destDir, 'stream.txt');
+
+      const result = await copyStreamWithHash(Readable.from([Buffer.from('From a pipe')]), destFile);
+
+      expect(result.source).toBe('-');
+      expect(result.size).toBe(11);
+      expect(result.verified).toBe(true);
+      expect(await fs.readFile(destFile, 'utf-8')).toBe('From a pipe');
+      expect(result.hash).toBe((await hashFile(destFile, 'blake3')).hash);
+    });
+
+    it('should refuse to overwrite without the overwrite option', async () => {
+      const destFile = path.join(destDir, 'exists.txt');
+      await fs.mkdir(destDir, { recursive: true });
+      await fs.writeFile(destFile, 'keep');
+
+      await expect(copyStreamWithHash(Readable.from([Buffer.from('new')]), destFile)).rejects.toThrow(/already exists/);
+      expect(await fs.readFile(destFile, 'utf-8')).toBe('keep');
+    });
+
+    it('should keep the existing file when an overwriting stream fails', async () => {
+      const destFile = path.join(destDir, 'exists.txt');
+      await fs.mkdir(destDir, { recursive: true });
+      await fs.writeFile(destFile, 'keep');
+
+      // The pipe breaks after the first chunk
+      let reads = 0;
+      const broken = new Readable({
+        read() {
+          if (reads++ === 0) this.push(Buffer.from('half of the '));
+          else this.destroy(Object.assign(new Error('write EPIPE'), { code: 'EPIPE' }));
+        }
+      });
+
+      await expect(copyStreamWithHash(broken, destFile, { overwrite: true })).rejects.toThrow('EPIPE');
+      expect(await fs.readFile(destFile, 'utf-8')).toBe('keep');
+      await expect(fs.access(`${destFile}.partial`)).rejects.toThrow();
+
+      await copyStreamWithHash(Readable.from([Buffer.from('replaced')]), destFile, { overwrite: true });
+      expect(await fs.readFile(destFile, 'utf-8')).toBe('replaced');
+      await expect(fs.access(`${destFile}.partial`)).rejects.toThrow();
+    });
+  });
+
   describe('moveWithHash', () => {
     it('should move file (copy + delete source)', async () => {
       const sourceFile = path.join(sourceDir, 'move.txt');
@@ -0,0 +1,55 @@
+/**
+ * Digest Tests
+ * Tests for the xxHash, SHA-1, CRC32 and C4 digests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createDigest, c4Id, type DigestAlgorithm } from '../../src/core/digests.js';
+import { detectAlgorithms, detectAlgorithm, isValidHash } from '../../src/schemas/index.js';
+
+function digestOf(algorithm: DigestAlgorithm, ...chunks: string[]): string {
+  const digest = createDigest(algorithm);
+  chunks.forEach(chunk => digest.update(Buffer.from(chunk)));
+  return digest.digest();
+}
+
+describe('Digests', () => {
+  it('should compute the check values of "123456789"', () => {
+    expect(digestOf('crc32', '123456789')).toBe('cbf43926');
+    expect(digestOf('sha1', '123456789')).toBe('f7c3bc1d808e04732adf679965ccc34ca7ae3441');
+    expect(digestOf('xxhash64', '123456789')).toBe('8cb841db40e6ae83');
+    expect(digestOf('xxh3', '123456789')).toBe('72dcb18b67a17dff');
+    expect(digestOf('xxh128', '123456789')).toBe('33119477ede5dcd5e9716427681d5860');
+  });
+
+  it('should compute the digests of empty input', () => {
+    expect(digestOf('crc32')).toBe('00000000');
+    expect(digestOf('xxh3')).toBe('2d06800538d394c2');
+    expect(digestOf('xxh128')).toBe('99aa06d3014798d86001c324468d497f');
+    expect(digestOf('c4')).toBe(
+      'c459dsjfscH38cYeXXYogktxf4Cd9ibshE3BHUo6a58hBXmRQdZrAkZzsWcbWtDg5oQstpDuni4Hirj75GEmTc1sFT'
+    );
+  });
+
+  it('should not depend on how the input is split', () => {
+    for (const algorithm of ['crc32', 'sha1', 'xxh3', 'xxh128', 'c4'] as const) {
+      expect(digestOf(algorithm, '1234', '', '56789')).toBe(digestOf(algorithm, '123456789'));
+    }
+  });
+
+  it('should pad C4 IDs of small digests to 90 characters', () => {
+    const id = c4Id(Buffer.alloc(64));
+    expect(id).toBe(`c4${'1'.repeat(88)}`);
+    expect(isValidHash(id, 'c4')).toBe(true);
+  });
+
+  it('should list every algorithm a digest length could come from', () => {
+    expect(detectAlgorithms('cbf43926')).toEqual(['crc32']);
+    expect(detectAlgorithms('72dcb18b67a17dff')).toEqual(['blake3', 'xxhash64', 'xxh3']);
+    expect(detectAlgorithms('33119477ede5dcd5e9716427681d5860')).toEqual(['md5', 'xxh128']);
+    expect(detectAlgorithms('f7c3bc1d808e04732adf679965ccc34ca7ae3441')).toEqual(['sha1']);
+    expect(detectAlgorithms(digestOf('c4', 'x'))).toEqual(['c4']);
+    expect(detectAlgorithms('not a digest')).toEqual([]);
+    expect(detectAlgorithm('f7c3bc1d808e04732adf679965ccc34ca7ae3441')).toBe('sha1');
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * File Metadata Tests
+ * Tests for preserving and comparing mode, ownership, xattrs and ACLs
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  parsePreserveList,
+  readFileMetadata,
+  preserveFileMetadata,
+  findMetadataDrift,
+  metadataAttributes,
+  pickMetadata,
+  formatMode
+} from '../../src/core/file-metadata.js';
+
+describe('File Metadata', () => {
+  let tempDir: string;
+  let source: string;
+  let destination: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wnb-file-metadata-test-'));
+    source = path.join(tempDir, 'source.txt');
+    destination = path.join(tempDir, 'copy.txt');
+    await fs.writeFile(source, 'metadata test');
+    await fs.writeFile(destination, 'metadata test');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parsePreserveList', () => {
+    it('should parse a comma-separated list in canonical order', () => {
+      expect(parsePreserveList('acl,mode')).toEqual(['mode', 'acl']);
+    });
+
+    it('should treat a bare flag or all as every attribute', () => {
+      expect(parsePreserveList(true)).toEqual(['mode', 'owner', 'xattr', 'acl']);
+      expect(parsePreserveList('all')).toEqual(['mode', 'owner', 'xattr', 'acl']);
+      expect(parsePreserveList(undefined)).toEqual([]);
+    });
+
+    it('should reject unknown attributes', () => {
+      expect(() => parsePreserveList('mode,color')).toThrow('Invalid preserve attribute: color');
+    });
+  });
+
+  describe('readFileMetadata', () => {
+    it('should read mode and ownership from stat', async () => {
+      await fs.chmod(source, 0o604);
+      const stats = await fs.stat(source);
+
+      const { metadata, failed } = await readFileMetadata(source, ['mode', 'owner']);
+
+      expect(failed).toEqual([]);
+      expect(metadata).toEqual({ mode: 0o604, uid: stats.uid, gid: stats.gid });
+    });
+  });
+
+  describe('preserveFileMetadata', () => {
+    it('should apply the mode to the copy', async () => {
+      await fs.chmod(source, 0o600);
+
+      const result = await preserveFileMetadata(source, destination, ['mode']);
+
+      expect(result.preserved).toEqual(['mode']);
+      expect((await fs.stat(destination)).mode & 0o7777).toBe(0o600);
+    });
+
+    it('should account for every requested attribute', async () => {
+      const result = await preserveFileMetadata(source, destination, ['mode', 'owner', 'xattr', 'acl']);
+
+      // Whatever the platform supports is preserved, the rest is reported with a reason
+      const accounted = [...result.preserved, ...result.failed.map(f => f.attribute)].sort();
+      expect(accounted).toEqual(['acl', 'mode', 'owner', 'xattr']);
+      result.failed.forEach(f => expect(f.error).toBeTruthy());
+    });
+  });
+
+  describe('findMetadataDrift', () => {
+    const recorded = { mode: 0o644, uid: 1000, gid: 1000, xattrs: { 'user.tag': 'YQ==' }, acl: '' };
+
+    it('should report no drift for identical metadata', () => {
+      expect(findMetadataDrift(recorded, { ...recorded, xattrs: { 'user.tag': 'YQ==' } })).toEqual([]);
+    });
+
+    it('should name each drifted attribute', () => {
+      expect(findMetadataDrift(recorded, { ...recorded, mode: 0o600, gid: 0 })).toEqual(['mode', 'owner']);
+      expect(findMetadataDrift(recorded, { ...recorded, xattrs: {} })).toEqual(['xattr']);
+      expect(findMetadataDrift(recorded, { ...recorded, acl: 'user:bob:r--' })).toEqual(['acl']);
+    });
+
+    it('should only compare recorded attributes', () => {
+      expect(findMetadataDrift({ mode: 0o644 }, { mode: 0o644, uid: 0, gid: 0 })).toEqual([]);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should pick and list attributes', () => {
+      const metadata = { mode: 0o755, uid: 0, gid: 0, acl: '' };
+      expect(metadataAttributes(metadata)).toEqual(['mode', 'owner', 'acl']);
+      expect(pickMetadata(metadata, ['mode'])).toEqual({ mode: 0o755 });
+    });
+
+    it('should format modes as octal', () => {
+      expect(formatMode(0o644)).toBe('0644');
+      expect(formatMode(0o4755)).toBe('4755');
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Fixity Service Tests
+ * Tests for rolling fixity checks, the verification ledger and coverage
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  runFixityCheck,
+  selectFixityBatch,
+  fixityCoverage,
+  parseFixityBudget,
+  loadFixityLedger,
+  type FixityLedger
+} from '../../src/services/fixity.js';
+import { hashForManifest } from '../../src/core/manifest.js';
+import { computeMerkleTree } from '../../src/core/merkle.js';
+import { writeSidecar } from '../../src/services/xmp/writer.js';
+import { readSidecar } from '../../src/services/xmp/reader.js';
+import { SCHEMA_VERSION } from '../../src/services/xmp/schema.js';
+import type { Manifest, ManifestEntry } from '../../src/schemas/index.js';
+
+describe('Fixity Service', () => {
+  let tempDir: string;
+  let manifest: Manifest;
+  let manifestPath: string;
+  let ledgerPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wnb-fixity-test-'));
+    await fs.writeFile(path.join(tempDir, 'a.txt'), 'alpha');
+    await fs.writeFile(path.join(tempDir, 'b.txt'), 'bravo!');
+    await fs.writeFile(path.join(tempDir, 'c.txt'), 'charlie');
+
+    const files: ManifestEntry[] = [];
+    for (const file of ['a.txt', 'b.txt', 'c.txt']) {
+      const { hashes, size } = await hashForManifest(path.join(tempDir, file), ['blake3'], 16);
+      files.push({ path: file, hash: hashes.blake3!, size, mtime: '2024-01-01T00:00:00.000Z' });
+    }
+    manifest = {
+      version: '1.0',
+      generated: '2024-01-01T00:00:00.000Z',
+      algorithm: 'blake3',
+      hashLength: 16,
+      root: tempDir,
+      fileCount: files.length,
+      totalBytes: 18,
+      merkle: computeMerkleTree(files),
+      files
+    };
+    manifestPath = path.join(tempDir, 'manifest.json');
+    ledgerPath = path.join(tempDir, 'fixity-ledger.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  function ledgerWith(files: FixityLedger['files']): FixityLedger {
+    return { version: 1, manifest: 'manifest.json', files };
+  }
+
+  it('should parse byte, file and duration budgets', () => {
+    expect(parseFixityBudget({ bytes: '500G', files: '100', duration: '30m' })).toEqual({
+      bytes: 500 * 1024 ** 3,
+      files: 100,
+      durationMs: 30 * 60 * 1000
+    });
+    expect(parseFixityBudget({ duration: '90' })).toEqual({ durationMs: 90000 });
+    expect(() => parseFixityBudget({ bytes: 'lots' })).toThrow('Invalid byte budget');
+    expect(() => parseFixityBudget({ files: '1.5' })).toThrow('Invalid file budget');
+    expect(() => parseFixityBudget({ duration: '2 weeks' })).toThrow('Invalid duration');
+  });
+
+  it('should select never-checked files first, then the least recently checked', () => {
+    const ledger = ledgerWith({
+      'a.txt': { lastChecked: '2026-01-02T00:00:00.000Z', outcome: 'success', lastVerified: '2026-01-02T00:00:00.000Z' },
+      'c.txt': { lastChecked: '2026-01-01T00:00:00.000Z', outcome: 'success', lastVerified: '2026-01-01T00:00:00.000Z' }
+    });
+    const order = selectFixityBatch(manifest.files, ledger, { files: 3 }).map(e => e.path);
+    expect(order).toEqual(['b.txt', 'c.txt', 'a.txt']);
+  });
+
+  it('should stop a byte budget at the first file that does not fit, but take at least one', () => {
+    const ledger = ledgerWith({});
+    expect(selectFixityBatch(manifest.files, ledger, { bytes: 12 }).map(e => e.path)).toEqual(['a.txt', 'b.txt']);
+    expect(selectFixityBatch(manifest.files, ledger, { bytes: 10 }).map(e => e.path)).toEqual(['a.txt']);
+    expect(selectFixityBatch(manifest.files, ledger, { bytes: 1 }).map(e => e.path)).toEqual(['a.txt']);
+  });
+
+  it('should only select files due in the cycle without a budget', () => {
+    const now = new Date('2026-06-01T00:00:00.000Z');
+    const ledger = ledgerWith({
+      'a.txt': { lastChecked: '2026-05-01T00:00:00.000Z', outcome: 'success', lastVerified: '2026-05-01T00:00:00.000Z' },
+      'b.txt': { lastChecked: '2026-01-01T00:00:00.000Z', outcome: 'success', lastVerified: '2026-01-01T00:00:00.000Z' }
+    });
+    expect(selectFixityBatch(manifest.files, ledger, {}, 90, now).map(e => e.path)).toEqual(['c.txt', 'b.txt']);
+  });
+
+  it('should report coverage within the cycle', () => {
+    const now = new Date('2026-06-01T00:00:00.000Z');
+    const ledger = ledgerWith({
+      'a.txt': { lastChecked: '2026-05-01T00:00:00.000Z', outcome: 'success', lastVerified: '2026-05-01T00:00:00.000Z' },
+      'b.txt': { lastChecked: '2026-05-02T00:00:00.000Z', outcome: 'failure', lastVerified: '2026-04-01T00:00:00.000Z', detail: 'blake3 mismatch' }
+    });
+    const coverage = fixityCoverage(manifest.files, ledger, 90, now);
+    expect(coverage).toMatchObject({
+      files: 3,
+      totalBytes: 18,
+      verifiedFiles: 1,
+      verifiedBytes: 5,
+      neverChecked: 1,
+      oldestVerified: '2026-05-01T00:00:00.000Z',
+      bytesPerDay: 1
+    });
+    expect(coverage.failures).toEqual([
+      { path: 'b.txt', outcome: 'failure', lastChecked: '2026-05-02T00:00:00.000Z', detail: 'blake3 mismatch' }
+    ]);
+  });
+
+  it('should record outcomes in the ledger and cover the archive across runs', async () => {
+    const first = await runFixityCheck(tempDir, manifest, manifestPath, { ledgerPath, budget: { files: 2 } });
+    expect(first.checked.map(c => c.path)).toEqual(['a.txt', 'b.txt']);
+    expect(first.coverage.verifiedFiles).toBe(2);
+
+    await fs.writeFile(path.join(tempDir, 'c.txt'), 'CHARLIE');
+    const second = await runFixityCheck(tempDir, manifest, manifestPath, { ledgerPath, budget: { files: 2 } });
+    expect(second.checked.map(c => [c.path, c.outcome])).toEqual([['c.txt', 'failure'], ['a.txt', 'success']]);
+    expect(second.coverage.failures.map(f => f.path)).toEqual(['c.txt']);
+
+    await fs.rm(path.join(tempDir, 'b.txt'));
+    const third = await runFixityCheck(tempDir, manifest, manifestPath, { ledgerPath, budget: { files: 1 } });
+    expect(third.checked).toEqual([{ path: 'b.txt', size: 6, outcome: 'missing' }]);
+
+    const ledger = await loadFixityLedger(ledgerPath, manifestPath);
+    expect(ledger.files['c.txt']).toMatchObject({ outcome: 'failure', detail: 'blake3 mismatch' });
+    expect(ledger.files['b.txt'].outcome).toBe('missing');
+    expect(ledger.files['b.txt'].lastVerified! < ledger.files['b.txt'].lastChecked).toBe(true);
+  });
+
+  it('should drop ledger entries of files the manifest no longer lists', async () => {
+    await runFixityCheck(tempDir, manifest, manifestPath, { ledgerPath });
+    manifest.files = manifest.files.filter(e => e.path !== 'b.txt');
+    await runFixityCheck(tempDir, manifest, manifestPath, { ledgerPath, budget: { files: 1 } });
+
+    const ledger = await loadFixityLedger(ledgerPath, manifestPath);
+    expect(Object.keys(ledger.files).sort()).toEqual(['a.txt', 'c.txt']);
+  });
+
+  it('should append fixity_check events to existing sidecars', async () => {
+    const filePath = path.join(tempDir, 'a.txt');
+    const now = new Date().toISOString();
+    await writeSidecar(filePath, {
+      schemaVersion: SCHEMA_VERSION,
+      sidecarCreated: now,
+      sidecarUpdated: now,
+      contentHash: manifest.files[0].hash,
+      hashAlgorithm: 'blake3',
+      fileSize: 5,
+      verified: true,
+      fileCategory: 'document',
+      detectedMimeType: 'text/plain',
+      declaredExtension: '.txt',
+      sourcePath: filePath,
+      sourceFilename: 'a.txt',
+      sourceHost: 'testhost',
+      sourceType: 'local_disk',
+      originalMtime: now,
+      importTimestamp: now,
+      sessionId: 'test-session',
+      toolVersion: '0.1.0',
+      importUser: 'testuser',
+      importHost: 'testhost',
+      importPlatform: 'linux',
+      custodyChain: [],
+      firstSeen: now,
+      eventCount: 0
+    });
+
+    const result = await runFixityCheck(tempDir, manifest, manifestPath, { ledgerPath });
+    expect(result.sidecarEvents).toBe(1);
+    expect(result.sidecarErrors).toEqual([]);
+
+    const sidecar = await readSidecar(`${filePath}.xmp`);
+    expect(sidecar.data.eventCount).toBe(1);
+    expect(sidecar.data.custodyChain[0]).toMatchObject({ eventAction: 'fixity_check', eventOutcome: 'success', eventHash: manifest.files[0].hash });
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Hash Cache Tests
+ * Tests for the persistent hash cache and its hasher integration
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  HashCache,
+  configureHashCache,
+  getHashCache,
+  flushHashCache
+} from '../../src/core/hash-cache.js';
+import { hashFile, verifyFile } from '../../src/core/hasher.js';
+import { fastHash } from '../../src/core/fast-hasher.js';
+import { loadConfig, resetConfigCache } from '../../src/core/config.js';
+
+const FIXED_MTIME = new Date('2024-01-01T00:00:00Z');
+
+describe('HashCache', () => {
+  let tempDir: string;
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wnb-hash-cache-test-'));
+    cacheDir = path.join(tempDir, '.wnb');
+  });
+
+  afterEach(async () => {
+    configureHashCache({ mode: 'off' });
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Replace file content without changing size or mtime
+   * Simulates silent corruption that the cache key cannot see
+   */
+  async function rewriteInPlace(filePath: string, content: string): Promise<void> {
+    await fs.writeFile(filePath, content);
+    await fs.utimes(filePath, FIXED_MTIME, FIXED_MTIME);
+  }
+
+  describe('get/set', () => {
+    it('should return cached hash for unchanged file', async () => {
+      const file = path.join(tempDir, 'a.txt');
+      await fs.writeFile(file, 'hello');
+
+      const cache = new HashCache(cacheDir);
+      await cache.set(file, 'blake3', 'abcdef0123456789');
+
+      expect(await cache.get(file, 'blake3')).toBe('abcdef0123456789');
+      expect(await cache.get(file, 'sha256')).toBeNull();
+    });
+
+    it('should invalidate when size changes', async () => {
+      const file = path.join(tempDir, 'a.txt');
+      await fs.writeFile(file, 'hello');
+
+      const cache = new HashCache(cacheDir);
+      await cache.set(file, 'blake3', 'abcdef0123456789');
+      await fs.writeFile(file, 'hello world');
+
+      expect(await cache.get(file, 'blake3')).toBeNull();
+      const stats = await cache.stats();
+      expect(stats.invalidations).toBe(1);
+      expect(stats.entries).toBe(0);
+    });
+
+    it('should invalidate when mtime changes', async () => {
+      const file = path.join(tempDir, 'a.txt');
+      await fs.writeFile(file, 'hello');
+      await fs.utimes(file, FIXED_MTIME, FIXED_MTIME);
+
+      const cache = new HashCache(cacheDir);
+      await cache.set(file, 'blake3', 'abcdef0123456789');
+      await fs.utimes(file, new Date(), new Date());
+
+      expect(await cache.get(file, 'blake3')).toBeNull();
+    });
+
+    it('should persist entries across instances', async () => {
+      const file = path.join(tempDir, 'a.txt');
+      await fs.writeFile(file, 'hello');
+
+      const cache = new HashCache(cacheDir);
+      await cache.set(file, 'blake3', 'abcdef0123456789');
+      await cache.save();
+
+      const reloaded = new HashCache(cacheDir);
+      expect(await reloaded.get(file, 'blake3')).toBe('abcdef0123456789');
+    });
+
+    it('should keep entries another process saved meanwhile', async () => {
+      const a = path.join(tempDir, 'a.txt');
+      const b = path.join(tempDir, 'b.txt');
+      await fs.writeFile(a, 'alpha');
+      await fs.writeFile(b, 'bravo');
+
+      const first = new HashCache(cacheDir);
+      const second = new HashCache(cacheDir);
+      await first.load();
+      await second.load();
+      await first.set(a, 'blake3', '1111111111111111');
+      await second.set(b, 'blake3', '2222222222222222');
+      await first.save();
+      await second.save();
+
+      const reloaded = new HashCache(cacheDir);
+      expect(await reloaded.get(a, 'blake3')).toBe('1111111111111111');
+      expect(await reloaded.get(b, 'blake3')).toBe('2222222222222222');
+    });
+
+    it('should not bring back entries removed before saving', async () => {
+      const [a, b, c] = ['a.txt', 'b.txt', 'c.txt'].map(name => path.join(tempDir, name));
+      for (const file of [a, b, c]) await fs.writeFile(file, 'content');
+      const earlier = new HashCache(cacheDir);
+      await earlier.set(a, 'blake3', '1111111111111111');
+      await earlier.set(b, 'blake3', '2222222222222222');
+      await earlier.save();
+
+      const pruned = new HashCache(cacheDir);
+      await pruned.load();
+      await fs.writeFile(b, 'changed content');
+      const other = new HashCache(cacheDir);
+      await other.set(c, 'blake3', '3333333333333333');
+      await other.save();
+      expect((await pruned.prune()).removed).toBe(1);
+      await pruned.save();
+
+      const reloaded = new HashCache(cacheDir);
+      expect(await reloaded.get(a, 'blake3')).toBe('1111111111111111');
+      expect(await reloaded.get(b, 'blake3')).toBeNull();
+      expect(await reloaded.get(c, 'blake3')).toBe('3333333333333333');
+
+      reloaded.clear();
+      await reloaded.save();
+      expect((await new HashCache(cacheDir).stats()).entries).toBe(0);
+    });
+  });
+
+  describe('prune', () => {
+    it('should remove entries for deleted and changed files', async () => {
+      const kept = path.join(tempDir, 'kept.txt');
+      const deleted = path.join(tempDir, 'deleted.txt');
+      const changed = path.join(tempDir, 'changed.txt');
+      await fs.writeFile(kept, 'kept');
+      await fs.writeFile(deleted, 'deleted');
+      await fs.writeFile(changed, 'changed');
+
+      const cache = new HashCache(cacheDir);
+      await cache.set(kept, 'blake3', '1111111111111111');
+      await cache.set(deleted, 'blake3', '2222222222222222');
+      await cache.set(changed, 'blake3', '3333333333333333');
+
+      await fs.rm(deleted);
+      await fs.writeFile(changed, 'changed content');
+
+      const result = await cache.prune();
+      expect(result.removed).toBe(2);
+      expect(result.kept).toBe(1);
+    });
+  });
+
+  describe('configuration', () => {
+    afterEach(() => {
+      delete process.env.WNB_HASH_CACHE;
+      resetConfigCache();
+    });
+
+    it('should accept only off, on and trust from WNB_HASH_CACHE', async () => {
+      process.env.WNB_HASH_CACHE = 'trust';
+      resetConfigCache();
+      expect((await loadConfig()).hashCache).toBe('trust');
+
+      process.env.WNB_HASH_CACHE = 'sometimes';
+      resetConfigCache();
+      expect((await loadConfig()).hashCache).toBe('on');
+    });
+  });
+
+  describe('hasher integration', () => {
+    it('should not use the cache when mode is off', async () => {
+      const file = path.join(tempDir, 'a.txt');
+      await fs.writeFile(file, 'hello');
+
+      await hashFile(file, 'blake3');
+
+      expect(getHashCache()).toBeNull();
+    });
+
+    it('should serve hashFile from the cache in on mode', async () => {
+      configureHashCache({ mode: 'on', dir: cacheDir });
+      const file = path.join(tempDir, 'a.txt');
+      await rewriteInPlace(file, 'aaaaa');
+
+      const first = await hashFile(file, 'blake3');
+      await rewriteInPlace(file, 'bbbbb');
+      const second = await hashFile(file, 'blake3');
+
+      expect(second.hash).toBe(first.hash);
+    });
+
+    it('should re-read files when verifying in on mode', async () => {
+      configureHashCache({ mode: 'on', dir: cacheDir });
+      const file = path.join(tempDir, 'a.txt');
+      await rewriteInPlace(file, 'aaaaa');
+
+      const original = await hashFile(file, 'blake3');
+      await rewriteInPlace(file, 'bbbbb');
+      const result = await verifyFile(file, original.hash, 'blake3');
+
+      expect(result.match).toBe(false);
+    });
+
+    it('should trust cached hashes when verifying in trust mode', async () => {
+      configureHashCache({ mode: 'trust', dir: cacheDir });
+      const file = path.join(tempDir, 'a.txt');
+      await rewriteInPlace(file, 'aaaaa');
+
+      const original = await hashFile(file, 'blake3');
+      await rewriteInPlace(file, 'bbbbb');
+      const result = await verifyFile(file, original.hash, 'blake3');
+
+      expect(result.match).toBe(true);
+    });
+
+    it('should keep separate entries per algorithm', async () => {
+      configureHashCache({ mode: 'on', dir: cacheDir });
+      const file = path.join(tempDir, 'a.txt');
+      await fs.writeFile(file, 'hello');
+
+      const blake3 = await hashFile(file, 'blake3');
+      const sha256 = await hashFile(file, 'sha256');
+
+      expect(blake3.hash).toHaveLength(16);
+      expect(sha256.hash).toHaveLength(64);
+      expect((await getHashCache()!.stats()).entries).toBe(2);
+    });
+
+    it('should share full-file entries between fastHash and hashFile', async () => {
+      configureHashCache({ mode: 'on', dir: cacheDir });
+      const file = path.join(tempDir, 'a.txt');
+      await fs.writeFile(file, 'hello');
+
+      const fast = await fastHash(file);
+      const full = await hashFile(file, 'blake3');
+
+      expect(fast.sampled).toBe(false);
+      expect(full.hash).toBe(fast.hash);
+      expect((await getHashCache()!.stats()).hits).toBe(1);
+    });
+
+    it('should write the cache file on flush', async () => {
+      configureHashCache({ mode: 'on', dir: cacheDir });
+      const file = path.join(tempDir, 'a.txt');
+      await fs.writeFile(file, 'hello');
+
+      await hashFile(file, 'blake3');
+      await flushHashCache();
+
+      const content = JSON.parse(await fs.readFile(path.join(cacheDir, 'hash-cache.json'), 'utf-8'));
+      expect(content.version).toBe(1);
+      expect(Object.keys(content.entries)).toHaveLength(1);
+    });
+
+    it('should serve the first lookup of a new process from the cache file', async () => {
+      const file = path.join(tempDir, 'a.txt');
+      await fs.writeFile(file, 'hello');
+      const earlier = new HashCache(cacheDir);
+      await earlier.set(file, 'blake3', 'abcdef0123456789');
+      await earlier.save();
+
+      configureHashCache({ mode: 'on', dir: cacheDir });
+      const first = await hashFile(file, 'blake3');
+      const fast = await fastHash(file);
+
+      expect(first.hash).toBe('abcdef0123456789');
+      expect(fast.hash).toBe('abcdef0123456789');
+      expect((await getHashCache()!.stats()).hits).toBe(2);
+    });
+  });
+});
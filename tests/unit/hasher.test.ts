@@ -7,6 +7,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import * as os from 'node:os';
+import { Readable } from 'node:stream';
 import {
   hashFile,
   hashBlake3,
@@ -14,6 +15,8 @@ import {
   hashSha512,
   hashBuffer,
   hashString,
+  hashStream,
+  hashFileAll,
   verifyFile
 } from '../../src/core/hasher.js';
 
@@ -75,6 +78,17 @@ describe('Hasher', () => {
       expect(result.algorithm).toBe('sha512');
     });
 
+    it('should hash a file with xxh3, xxh128, sha1, crc32 and c4', async () => {
+      const testFile = path.join(tempDir, 'check.txt');
+      await fs.writeFile(testFile, '123456789');
+
+      expect((await hashFile(testFile, 'xxh3')).hash).toBe('72dcb18b67a17dff');
+      expect((await hashFile(testFile, 'xxh128')).hash).toBe('33119477ede5dcd5e9716427681d5860');
+      expect((await hashFile(testFile, 'sha1')).hash).toBe('f7c3bc1d808e04732adf679965ccc34ca7ae3441');
+      expect((await hashFile(testFile, 'crc32')).hash).toBe('cbf43926');
+      expect((await hashFile(testFile, 'c4')).hash).toMatch(/^c4[1-9A-HJ-NP-Za-km-z]{88}$/);
+    });
+
     it('should produce consistent hash for same content', async () => {
       const testFile = path.join(tempDir, 'test.txt');
       await fs.writeFile(testFile, 'Consistent Content');
@@ -229,6 +243,54 @@ describe('Hasher', () => {
     });
   });
 
+  describe('hashStream', () => {
+    it('should compute several digests in one pass', async () => {
+      const testFile = path.join(tempDir, 'stream.txt');
+      await fs.writeFile(testFile, 'Stream me');
+
+      const result = await hashStream(Readable.from([Buffer.from('Stream '), Buffer.from('me')]), ['blake3', 'sha256']);
+
+      expect(result.size).toBe(9);
+      expect(result.hashes.blake3).toBe((await hashFile(testFile, 'blake3')).hash);
+      expect(result.hashes.sha256).toBe((await hashFile(testFile, 'sha256')).hash);
+      expect(result.hashes.md5).toBeUndefined();
+    });
+
+    it('should match hashFileAll for every algorithm', async () => {
+      const testFile = path.join(tempDir, 'all.txt');
+      await fs.writeFile(testFile, 'All algorithms');
+
+      const all = await hashFileAll(testFile);
+      const { hashes } = await hashStream(Readable.from([Buffer.from('All algorithms')]), [
+        'blake3', 'blake3-full', 'sha256', 'sha512', 'md5', 'xxhash64', 'xxh3', 'xxh128', 'sha1', 'crc32', 'c4'
+      ]);
+
+      expect(hashes).toEqual({
+        blake3: all.blake3,
+        'blake3-full': all['blake3-full'],
+        sha256: all.sha256,
+        sha512: all.sha512,
+        md5: all.md5,
+        xxhash64: all.xxhash64,
+        xxh3: all.xxh3,
+        xxh128: all.xxh128,
+        sha1: all.sha1,
+        crc32: all.crc32,
+        c4: all.c4
+      });
+    });
+
+    it('should report byte progress without a known total', async () => {
+      const progress: number[] = [];
+
+      await hashStream(Readable.from([Buffer.alloc(10), Buffer.alloc(5)]), ['blake3'], {
+        onProgress: (bytes) => progress.push(bytes)
+      });
+
+      expect(progress).toEqual([10, 15]);
+    });
+  });
+
   describe('verifyFile', () => {
     it('should return match=true for matching hash', async () => {
       const testFile = path.join(tempDir, 'test.txt');
@@ -268,6 +330,26 @@ describe('Hasher', () => {
       const crossVerify = await verifyFile(testFile, blake3Result.hash, 'sha256');
       expect(crossVerify.match).toBe(false);
     });
+
+    it('should tell same-length digests apart without an algorithm', async () => {
+      const testFile = path.join(tempDir, 'test.txt');
+      await fs.writeFile(testFile, '123456789');
+
+      expect(await verifyFile(testFile, '72dcb18b67a17dff')).toMatchObject({ match: true, algorithm: 'xxh3' });
+      expect(await verifyFile(testFile, '8CB841DB40E6AE83')).toMatchObject({ match: true, algorithm: 'xxhash64' });
+      expect(await verifyFile(testFile, '33119477ede5dcd5e9716427681d5860')).toMatchObject({ match: true, algorithm: 'xxh128' });
+      expect(await verifyFile(testFile, 'cbf43926')).toMatchObject({ match: true, algorithm: 'crc32' });
+
+      const c4 = (await hashFile(testFile, 'c4')).hash;
+      expect(await verifyFile(testFile, c4)).toMatchObject({ match: true, algorithm: 'c4' });
+      await fs.writeFile(testFile, '12345678');
+      expect(await verifyFile(testFile, c4)).toMatchObject({ match: false, algorithm: 'c4' });
+
+      // No candidate matches: the most likely algorithm is reported
+      await fs.writeFile(testFile, '123456789');
+      const mismatch = await verifyFile(testFile, '0000000000000000');
+      expect(mismatch).toMatchObject({ match: false, algorithm: 'blake3', actual: (await hashFile(testFile, 'blake3')).hash });
+    });
   });
 
   describe('Large File Handling', () => {
@@ -0,0 +1,169 @@
+/**
+ * Keyed BLAKE3 Tests
+ * Tests for keyed hashing (MAC), derive_key contexts and key IDs
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  parseKey,
+  loadKeyFile,
+  resolveHashKey,
+  resolveKeyOptions,
+  resolveRecordedKeyOptions,
+  computeKeyId,
+  getBlake3Mode,
+  HASH_KEY_ENV,
+  HASH_KEY_FILE_ENV
+} from '../../src/core/keys.js';
+import { hashFile, hashBuffer, verifyFile } from '../../src/core/hasher.js';
+import { hashFileWithChunks } from '../../src/core/chunk-map.js';
+import { generateBlake3IdFrom } from '../../src/core/id-generator.js';
+
+const KEY_HEX = '000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f';
+const KEY = Buffer.from(KEY_HEX, 'hex');
+const OTHER_KEY = Buffer.alloc(32, 7);
+
+describe('Keyed BLAKE3', () => {
+  let tempDir: string;
+  let testFile: string;
+  const savedEnv = { key: process.env[HASH_KEY_ENV], keyFile: process.env[HASH_KEY_FILE_ENV] };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wnb-keys-test-'));
+    testFile = path.join(tempDir, 'data.txt');
+    await fs.writeFile(testFile, 'keyed hashing test content');
+    delete process.env[HASH_KEY_ENV];
+    delete process.env[HASH_KEY_FILE_ENV];
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+    if (savedEnv.key === undefined) delete process.env[HASH_KEY_ENV];
+    else process.env[HASH_KEY_ENV] = savedEnv.key;
+    if (savedEnv.keyFile === undefined) delete process.env[HASH_KEY_FILE_ENV];
+    else process.env[HASH_KEY_FILE_ENV] = savedEnv.keyFile;
+  });
+
+  describe('parseKey', () => {
+    it('should accept 64 hex characters', () => {
+      expect(parseKey(`${KEY_HEX}\n`)).toEqual(KEY);
+    });
+
+    it('should accept 32 raw bytes', () => {
+      expect(parseKey(KEY)).toEqual(KEY);
+    });
+
+    it('should reject keys of the wrong length', () => {
+      expect(() => parseKey('abcd')).toThrow();
+      expect(() => parseKey(Buffer.alloc(16))).toThrow();
+    });
+  });
+
+  describe('key resolution', () => {
+    it('should load a key file', async () => {
+      const keyFile = path.join(tempDir, 'key.bin');
+      await fs.writeFile(keyFile, KEY);
+
+      expect(await loadKeyFile(keyFile)).toEqual(KEY);
+    });
+
+    it('should fall back to the environment', async () => {
+      expect(await resolveHashKey()).toBeNull();
+
+      process.env[HASH_KEY_ENV] = KEY_HEX;
+      expect(await resolveHashKey()).toEqual(KEY);
+    });
+
+    it('should require a key in keyed mode', async () => {
+      await expect(resolveKeyOptions({ keyed: true })).rejects.toThrow(/No key found/);
+    });
+
+    it('should reject a key whose ID does not match', async () => {
+      process.env[HASH_KEY_ENV] = OTHER_KEY.toString('hex');
+
+      await expect(resolveRecordedKeyOptions({ keyId: computeKeyId(KEY) })).rejects.toThrow(/Wrong key/);
+    });
+
+    it('should take the context from recorded digests', async () => {
+      process.env[HASH_KEY_ENV] = KEY_HEX;
+
+      const options = await resolveRecordedKeyOptions({ keyId: computeKeyId(KEY), context: 'proj' });
+      expect(options).toEqual({ key: KEY, context: 'proj' });
+    });
+  });
+
+  describe('computeKeyId', () => {
+    it('should be stable and not reveal the key', () => {
+      const id = computeKeyId(KEY);
+
+      expect(id).toMatch(/^[a-f0-9]{16}$/);
+      expect(computeKeyId(KEY)).toBe(id);
+      expect(computeKeyId(OTHER_KEY)).not.toBe(id);
+      expect(KEY_HEX).not.toContain(id);
+    });
+  });
+
+  describe('hashing', () => {
+    it('should report the mode for key options', () => {
+      expect(getBlake3Mode()).toBe('plain');
+      expect(getBlake3Mode({ key: KEY })).toBe('keyed');
+      expect(getBlake3Mode({ context: 'proj' })).toBe('derive-key');
+    });
+
+    it('should produce digests that differ from plain and between keys', () => {
+      const data = Buffer.from('hello');
+      const plain = hashBuffer(data);
+      const keyed = hashBuffer(data, false, { key: KEY });
+
+      expect(keyed).not.toBe(plain);
+      expect(hashBuffer(data, false, { key: OTHER_KEY })).not.toBe(keyed);
+    });
+
+    it('should produce different digests per context', () => {
+      const data = Buffer.from('hello');
+
+      expect(hashBuffer(data, false, { context: 'a' })).not.toBe(hashBuffer(data, false, { context: 'b' }));
+      expect(hashBuffer(data, false, { key: KEY, context: 'a' })).not.toBe(hashBuffer(data, false, { key: KEY }));
+    });
+
+    it('should hash files the same as buffers', async () => {
+      const content = await fs.readFile(testFile);
+      const result = await hashFile(testFile, { algorithm: 'blake3-full', key: KEY, context: 'proj' });
+
+      expect(result.hash).toBe(hashBuffer(content, true, { key: KEY, context: 'proj' }));
+    });
+
+    it('should key chunk maps with the file hash', async () => {
+      const chunked = await hashFileWithChunks(testFile, { chunkSize: 1024 * 1024, key: KEY });
+      const plain = await hashFileWithChunks(testFile, { chunkSize: 1024 * 1024 });
+
+      expect(chunked.hash).toBe((await hashFile(testFile, { algorithm: 'blake3', key: KEY })).hash);
+      expect(chunked.chunkMap.chunks).not.toEqual(plain.chunkMap.chunks);
+    });
+
+    it('should verify keyed digests', async () => {
+      const { hash } = await hashFile(testFile, { algorithm: 'blake3', key: KEY });
+
+      expect((await verifyFile(testFile, hash, undefined, { key: KEY })).match).toBe(true);
+      expect((await verifyFile(testFile, hash)).match).toBe(false);
+    });
+
+    it('should reject keys for non-BLAKE3 algorithms', async () => {
+      await expect(hashFile(testFile, { algorithm: 'sha256', key: KEY })).rejects.toThrow();
+    });
+  });
+
+  describe('generateBlake3IdFrom', () => {
+    it('should give unrelated IDs for the same input in different contexts', () => {
+      const a = generateBlake3IdFrom('A001C003', { context: 'project-a' });
+      const b = generateBlake3IdFrom('A001C003', { context: 'project-b' });
+
+      expect(a).not.toBe(b);
+      expect(generateBlake3IdFrom('A001C003', { context: 'project-a' })).toBe(a);
+      expect(a).not.toBe(generateBlake3IdFrom('A001C003'));
+    });
+  });
+});
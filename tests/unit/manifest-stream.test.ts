@@ -0,0 +1,146 @@
+/**
+ * Manifest Stream Tests
+ * Tests for NDJSON manifests: path order, incremental writing and streamed reading
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  ManifestStreamWriter,
+  compareManifestPaths,
+  isStreamedManifest,
+  readManifestStream
+} from '../../src/core/manifest-stream.js';
+import { loadManifest, openManifestSource, writeManifest, type AnyManifestEntry, type ManifestHeader } from '../../src/core/manifest.js';
+
+describe('Manifest streams', () => {
+  let tempDir: string;
+  let manifestPath: string;
+  const header: ManifestHeader = {
+    version: '1.0',
+    generated: '2024-01-01T00:00:00.000Z',
+    algorithm: 'blake3',
+    hashLength: 16,
+    root: '/archive'
+  };
+
+  function entry(p: string, size: number = 3): AnyManifestEntry {
+    return { path: p, hash: 'a'.repeat(16), size };
+  }
+
+  async function collect(entries: AsyncIterable<AnyManifestEntry>): Promise<string[]> {
+    const paths: string[] = [];
+    for await (const e of entries) paths.push(e.path);
+    return paths;
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wnb-manifest-stream-test-'));
+    manifestPath = path.join(tempDir, 'manifest.ndjson');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should order paths segment by segment', () => {
+    const paths = ['a.b', 'a/z', 'b', 'a/b/c', 'A'];
+    expect(paths.sort(compareManifestPaths)).toEqual(['A', 'a/b/c', 'a/z', 'a.b', 'b']);
+  });
+
+  it('should write a header, one line per entry and a summary', async () => {
+    const writer = await ManifestStreamWriter.open(manifestPath, header);
+    await writer.write(entry('a/x'));
+    await writer.write(entry('b', 5));
+    expect(await writer.close()).toEqual({ fileCount: 2, totalBytes: 8 });
+
+    const lines = (await fs.readFile(manifestPath, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toMatchObject({ format: 'ndjson', version: '1.0' });
+    expect(lines[3]).toEqual({ fileCount: 2, totalBytes: 8 });
+    expect(await fs.readdir(tempDir)).toEqual(['manifest.ndjson']);
+  });
+
+  it('should refuse entries out of path order', async () => {
+    const writer = await ManifestStreamWriter.open(manifestPath, header);
+    await writer.write(entry('b'));
+    await expect(writer.write(entry('a'))).rejects.toThrow('out of order');
+    await writer.abort();
+    expect(await fs.readdir(tempDir)).toEqual([]);
+  });
+
+  it('should reject, not crash, when the temp file cannot be written', async () => {
+    // A directory where the temp file should go makes the asynchronous open fail
+    await fs.mkdir(`${manifestPath}.${process.pid}.tmp`);
+    const writer = await ManifestStreamWriter.open(manifestPath, header);
+
+    await expect(writer.close()).rejects.toThrow('EISDIR');
+    await expect(writer.write(entry('a'))).rejects.toThrow('EISDIR');
+    await expect(fs.access(manifestPath)).rejects.toThrow();
+  });
+
+  it('should read entries back as a stream', async () => {
+    const writer = await ManifestStreamWriter.open(manifestPath, header);
+    for (const p of ['a/b', 'a.b', 'c']) await writer.write(entry(p));
+    await writer.close();
+
+    const source = await readManifestStream(manifestPath);
+    expect(source.header).toEqual(header);
+    expect(source.manifest).toBeUndefined();
+    expect(await collect(source.entries)).toEqual(['a/b', 'a.b', 'c']);
+  });
+
+  it('should detect truncated manifests', async () => {
+    const writer = await ManifestStreamWriter.open(manifestPath, header);
+    await writer.write(entry('a'));
+    await writer.close();
+    const lines = (await fs.readFile(manifestPath, 'utf-8')).trim().split('\n');
+    await fs.writeFile(manifestPath, lines.slice(0, -1).join('\n') + '\n');
+
+    await expect(collect((await readManifestStream(manifestPath)).entries)).rejects.toThrow('truncated');
+  });
+
+  it('should detect a summary that does not match the entries', async () => {
+    await fs.writeFile(manifestPath, [
+      JSON.stringify({ format: 'ndjson', ...header }),
+      JSON.stringify(entry('a')),
+      JSON.stringify({ fileCount: 2, totalBytes: 6 })
+    ].join('\n') + '\n');
+
+    await expect(collect((await readManifestStream(manifestPath)).entries)).rejects.toThrow('summary does not match');
+  });
+
+  it('should tell NDJSON from JSON manifests', async () => {
+    const jsonPath = path.join(tempDir, 'manifest.json');
+    await writeManifest(jsonPath, { ...header, fileCount: 0, totalBytes: 0, files: [] });
+    const writer = await ManifestStreamWriter.open(manifestPath, header);
+    await writer.close();
+
+    expect(await isStreamedManifest(manifestPath)).toBe(true);
+    expect(await isStreamedManifest(jsonPath)).toBe(false);
+  });
+
+  it('should load NDJSON manifests whole through loadManifest', async () => {
+    const writer = await ManifestStreamWriter.open(manifestPath, header);
+    await writer.write(entry('a', 2));
+    await writer.write(entry('b', 4));
+    await writer.close();
+
+    const manifest = await loadManifest(manifestPath);
+    expect(manifest.fileCount).toBe(2);
+    expect(manifest.totalBytes).toBe(6);
+    expect(manifest.files.map(f => f.path)).toEqual(['a', 'b']);
+  });
+
+  it('should give JSON manifests as a source in path order', async () => {
+    const jsonPath = path.join(tempDir, 'manifest.json');
+    const files = [entry('a.b'), entry('a/c')] as Array<{ path: string; hash: string; size: number }>;
+    await writeManifest(jsonPath, { ...header, fileCount: 2, totalBytes: 6, files });
+
+    const source = await openManifestSource(jsonPath);
+    expect(source.manifest).toBeDefined();
+    expect(await collect(source.entries)).toEqual(['a/c', 'a.b']);
+  });
+});
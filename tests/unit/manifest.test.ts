@@ -0,0 +1,250 @@
+/**
+ * Manifest Tests
+ * Tests for v1/v2 manifest reading, multi-algorithm hashing and upgrades
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import * as crypto from 'node:crypto';
+import {
+  loadManifest,
+  writeManifest,
+  entryHashes,
+  primaryHash,
+  parseManifestAlgorithms,
+  validateHashLength,
+  validateKeyedAlgorithms,
+  hashForManifest,
+  findHashMismatches,
+  assignHardlinkGroups,
+  findCommonAlgorithm,
+  upgradeManifest,
+  entryMatchesStats,
+  manifestHistoryEvent,
+  parseSampleSize,
+  selectVerificationSample
+} from '../../src/core/manifest.js';
+import { hashBuffer } from '../../src/core/hasher.js';
+import type { Manifest, ManifestV2, ManifestV2Entry } from '../../src/schemas/index.js';
+
+describe('Manifest', () => {
+  let tempDir: string;
+  const content = Buffer.from('manifest v2 content');
+
+  function v1Manifest(files: Manifest['files']): Manifest {
+    return {
+      version: '1.0',
+      generated: new Date().toISOString(),
+      algorithm: 'blake3',
+      hashLength: 16,
+      root: tempDir,
+      fileCount: files.length,
+      totalBytes: files.reduce((sum, f) => sum + f.size, 0),
+      files
+    };
+  }
+
+  function v2Manifest(algorithms: ManifestV2['algorithms'], hashLength: number, files: ManifestV2Entry[]): ManifestV2 {
+    return {
+      version: '2.0',
+      generated: new Date().toISOString(),
+      algorithms,
+      hashLength,
+      root: tempDir,
+      fileCount: files.length,
+      totalBytes: 0,
+      files
+    };
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wnb-manifest-test-'));
+    await fs.writeFile(path.join(tempDir, 'a.txt'), content);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseManifestAlgorithms', () => {
+    it('should keep order and drop duplicates', () => {
+      expect(parseManifestAlgorithms('sha256, blake3,sha256')).toEqual({ algorithms: ['sha256', 'blake3'] });
+    });
+
+    it('should map blake3-full to full-length BLAKE3', () => {
+      expect(parseManifestAlgorithms('blake3-full,md5')).toEqual({ algorithms: ['blake3', 'md5'], hashLength: 64 });
+    });
+
+    it('should reject unknown algorithms', () => {
+      expect(() => parseManifestAlgorithms('whirlpool')).toThrow('Invalid manifest algorithm');
+      expect(() => parseManifestAlgorithms(',')).toThrow('No algorithms');
+    });
+  });
+
+  it('should validate hash lengths', () => {
+    expect(() => validateHashLength(16)).not.toThrow();
+    expect(() => validateHashLength(64)).not.toThrow();
+    expect(() => validateHashLength(8)).toThrow('Invalid hash length');
+    expect(() => validateHashLength(33)).toThrow('Invalid hash length');
+    expect(() => validateHashLength(NaN)).toThrow('Invalid hash length');
+  });
+
+  it('should only allow blake3 in keyed manifests', () => {
+    expect(() => validateKeyedAlgorithms(['blake3', 'sha256'])).not.toThrow();
+    expect(() => validateKeyedAlgorithms(['blake3'], 'keyed')).not.toThrow();
+    expect(() => validateKeyedAlgorithms(['blake3', 'md5'], 'keyed')).toThrow('can only record blake3');
+  });
+
+  describe('hashForManifest', () => {
+    it('should hash with every algorithm in one pass', async () => {
+      const { hashes, size } = await hashForManifest(path.join(tempDir, 'a.txt'), ['blake3', 'sha256', 'md5'], 64);
+
+      expect(size).toBe(content.length);
+      expect(hashes.blake3).toBe(hashBuffer(content, true));
+      expect(hashes.sha256).toBe(crypto.createHash('sha256').update(content).digest('hex'));
+      expect(hashes.md5).toBe(crypto.createHash('md5').update(content).digest('hex'));
+    });
+
+    it('should truncate BLAKE3 to the hash length', async () => {
+      const single = await hashForManifest(path.join(tempDir, 'a.txt'), ['blake3'], 32);
+      const multi = await hashForManifest(path.join(tempDir, 'a.txt'), ['sha512', 'blake3'], 32);
+
+      expect(single.hashes.blake3).toBe(hashBuffer(content, true).slice(0, 32));
+      expect(multi.hashes.blake3).toBe(single.hashes.blake3);
+    });
+  });
+
+  it('should read digests from both versions', () => {
+    const v1 = v1Manifest([{ path: 'a.txt', hash: 'aaaaaaaaaaaaaaaa', size: 1 }]);
+    const v2 = v2Manifest(['sha256', 'blake3'], 64, [{ path: 'a.txt', size: 1, hashes: { sha256: 'bb', blake3: 'cc' } }]);
+
+    expect(entryHashes(v1.files[0])).toEqual({ blake3: 'aaaaaaaaaaaaaaaa' });
+    expect(primaryHash(v1, v1.files[0])).toBe('aaaaaaaaaaaaaaaa');
+    expect(primaryHash(v2, v2.files[0])).toBe('bb');
+  });
+
+  it('should report every mismatching algorithm', () => {
+    expect(findHashMismatches({ blake3: 'aa', md5: 'bb' }, { blake3: 'aa', md5: 'cc', sha256: 'dd' })).toEqual(['md5']);
+  });
+
+  it('should group hardlinked entries', async () => {
+    await fs.link(path.join(tempDir, 'a.txt'), path.join(tempDir, 'b.txt'));
+    await fs.writeFile(path.join(tempDir, 'c.txt'), 'separate');
+
+    const entries: ManifestV2Entry[] = ['a.txt', 'b.txt', 'c.txt'].map(p => ({ path: p, size: 0, hashes: {} }));
+    const inodes = new Map<string, string>();
+    for (const entry of entries) {
+      const stats = await fs.stat(path.join(tempDir, entry.path));
+      if (stats.nlink > 1) inodes.set(entry.path, `${stats.dev}:${stats.ino}`);
+    }
+    assignHardlinkGroups(entries, inodes);
+
+    expect(entries.map(e => e.hardlinkGroup)).toEqual([1, 1, undefined]);
+  });
+
+  describe('findCommonAlgorithm', () => {
+    it('should compare BLAKE3 on the shorter length', () => {
+      const v1 = v1Manifest([]);
+      const v2 = v2Manifest(['blake3', 'sha256'], 64, []);
+      expect(findCommonAlgorithm(v2, v1)).toEqual({ algorithm: 'blake3', hashLength: 16 });
+    });
+
+    it('should prefer the first manifest order', () => {
+      const a = v2Manifest(['md5', 'sha256'], 64, []);
+      const b = v2Manifest(['sha256', 'md5'], 64, []);
+      expect(findCommonAlgorithm(a, b)).toEqual({ algorithm: 'md5' });
+    });
+
+    it('should fail without a shared algorithm', () => {
+      expect(() => findCommonAlgorithm(v1Manifest([]), v2Manifest(['sha256'], 64, []))).toThrow('no algorithm in common');
+    });
+  });
+
+  describe('update helpers', () => {
+    const mtime = new Date('2024-01-01T00:00:00.000Z');
+
+    it('should match entries on size and mtime only when both are recorded', () => {
+      const entry = { path: 'a', hash: 'a'.repeat(16), size: 5, mtime: mtime.toISOString() };
+      expect(entryMatchesStats(entry, { size: 5, mtime })).toBe(true);
+      expect(entryMatchesStats(entry, { size: 6, mtime })).toBe(false);
+      expect(entryMatchesStats(entry, { size: 5, mtime: new Date(0) })).toBe(false);
+      expect(entryMatchesStats({ path: 'a', hash: 'a'.repeat(16), size: 5 }, { size: 5, mtime })).toBe(false);
+    });
+
+    it('should keep the previous digests in history events', () => {
+      const event = manifestHistoryEvent({ path: 'a', size: 5, hashes: { blake3: 'b'.repeat(64), md5: 'c'.repeat(32) } }, 'removed', mtime.toISOString());
+      expect(event).toEqual({ path: 'a', change: 'removed', recorded: mtime.toISOString(), size: 5, hashes: { blake3: 'b'.repeat(64), md5: 'c'.repeat(32) } });
+    });
+
+    it('should parse sample sizes as counts or percentages', () => {
+      expect(parseSampleSize('50', 20)).toBe(20);
+      expect(parseSampleSize('5', 20)).toBe(5);
+      expect(parseSampleSize('10%', 200)).toBe(20);
+      expect(parseSampleSize('1%', 10)).toBe(1);
+      expect(parseSampleSize('0%', 10)).toBe(0);
+      expect(() => parseSampleSize('150%', 10)).toThrow('more than 100%');
+      expect(() => parseSampleSize('1.5', 10)).toThrow('whole number');
+      expect(() => parseSampleSize('all', 10)).toThrow('Invalid sample size');
+    });
+
+    it('should sample the least recently verified entries first', () => {
+      const entry = (p: string, lastVerified?: string): ManifestV2Entry => ({ path: p, size: 1, hashes: { blake3: 'a'.repeat(64) }, ...(lastVerified && { lastVerified }) });
+      const entries = [
+        entry('recent', '2024-06-01T00:00:00.000Z'),
+        entry('old', '2023-01-01T00:00:00.000Z'),
+        entry('never')
+      ];
+      expect(selectVerificationSample(entries, 2).map(e => e.path)).toEqual(['never', 'old']);
+      expect(selectVerificationSample(entries, 5)).toHaveLength(3);
+    });
+  });
+
+  describe('upgradeManifest', () => {
+    it('should carry v1 digests over without reading files', async () => {
+      const v1 = v1Manifest([{ path: 'gone.txt', hash: 'aaaaaaaaaaaaaaaa', size: 3, mtime: new Date().toISOString() }]);
+      const { manifest, rehashed, failed } = await upgradeManifest(v1);
+
+      expect(rehashed).toBe(false);
+      expect(failed).toEqual([]);
+      expect(manifest.version).toBe('2.0');
+      expect(manifest.algorithms).toEqual(['blake3']);
+      expect(manifest.hashLength).toBe(16);
+      expect(manifest.files[0].hashes).toEqual({ blake3: 'aaaaaaaaaaaaaaaa' });
+    });
+
+    it('should re-hash with new algorithms after checking the v1 digest', async () => {
+      const v1 = v1Manifest([{ path: 'a.txt', hash: hashBuffer(content), size: content.length }]);
+      const { manifest, rehashed, failed } = await upgradeManifest(v1, { algorithms: ['sha256'], hashLength: 64 });
+
+      expect(rehashed).toBe(true);
+      expect(failed).toEqual([]);
+      expect(manifest.files[0].hashes).toEqual({ sha256: crypto.createHash('sha256').update(content).digest('hex') });
+      expect(manifest.files[0].lastVerified).toBeDefined();
+      expect(manifest.files[0].mode).toBeDefined();
+    });
+
+    it('should refuse files that no longer match', async () => {
+      const v1 = v1Manifest([
+        { path: 'a.txt', hash: 'aaaaaaaaaaaaaaaa', size: content.length },
+        { path: 'missing.txt', hash: 'bbbbbbbbbbbbbbbb', size: 1 }
+      ]);
+      const { failed } = await upgradeManifest(v1, { hashLength: 64 });
+
+      expect(failed).toEqual([
+        { path: 'a.txt', error: 'content no longer matches the manifest' },
+        { path: 'missing.txt', error: 'missing' }
+      ]);
+    });
+  });
+
+  it('should write and load manifests of both versions', async () => {
+    const manifestPath = path.join(tempDir, 'out', 'manifest.json');
+    await writeManifest(manifestPath, v2Manifest(['md5'], 64, []));
+    expect((await loadManifest(manifestPath)).version).toBe('2.0');
+
+    await fs.writeFile(manifestPath, JSON.stringify({ version: '3.0', files: [] }));
+    await expect(loadManifest(manifestPath)).rejects.toThrow('Unsupported manifest version 3.0');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Merkle Tests
+ * Tests for manifest Merkle roots, directory subtrees and inclusion proofs
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeMerkleTree,
+  createMerkleProof,
+  merkleProofRoot,
+  verifyMerkleProof,
+  identicalSubtrees
+} from '../../src/core/merkle.js';
+import type { Manifest, ManifestEntry } from '../../src/schemas/index.js';
+
+function entry(path: string, hash: string = 'a'.repeat(16), size: number = 10): ManifestEntry {
+  return { path, hash, size, mtime: '2024-01-01T00:00:00.000Z' };
+}
+
+function manifestOf(files: ManifestEntry[]): Manifest {
+  return {
+    version: '1.0',
+    generated: '2024-01-01T00:00:00.000Z',
+    algorithm: 'blake3',
+    root: '/archive',
+    fileCount: files.length,
+    totalBytes: files.reduce((sum, f) => sum + f.size, 0),
+    merkle: computeMerkleTree(files),
+    files
+  };
+}
+
+const files = [
+  entry('a.txt', '1'.repeat(16)),
+  entry('docs/b.txt', '2'.repeat(16)),
+  entry('docs/c.txt', '3'.repeat(16)),
+  entry('docs/d.txt', '4'.repeat(16)),
+  entry('media/raw/e.mov', '5'.repeat(16), 1000)
+];
+
+describe('Merkle', () => {
+  describe('computeMerkleTree', () => {
+    it('should not depend on entry order', () => {
+      const tree = computeMerkleTree(files);
+      expect(computeMerkleTree([...files].reverse())).toEqual(tree);
+      expect(tree.root).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('should record a root for every directory', () => {
+      expect(Object.keys(computeMerkleTree(files).directories)).toEqual(['docs', 'media', 'media/raw']);
+    });
+
+    it('should ignore mtime but not size or hashes', () => {
+      const root = computeMerkleTree(files).root;
+      expect(computeMerkleTree(files.map(f => ({ ...f, mtime: '2025-01-01T00:00:00.000Z' }))).root).toBe(root);
+      expect(computeMerkleTree([...files.slice(1), entry('a.txt', '1'.repeat(16), 11)]).root).not.toBe(root);
+      expect(computeMerkleTree([...files.slice(1), entry('a.txt', '9'.repeat(16))]).root).not.toBe(root);
+    });
+
+    it('should only change the roots above a changed file', () => {
+      const before = computeMerkleTree(files);
+      const after = computeMerkleTree([...files.slice(0, 3), entry('docs/d.txt', '0'.repeat(16)), files[4]]);
+
+      expect(after.directories.media).toBe(before.directories.media);
+      expect(after.directories.docs).not.toBe(before.directories.docs);
+      expect(after.root).not.toBe(before.root);
+    });
+
+    it('should give an empty manifest a root', () => {
+      expect(computeMerkleTree([]).root).toMatch(/^[a-f0-9]{64}$/);
+    });
+  });
+
+  describe('inclusion proofs', () => {
+    it('should prove every entry against the root', () => {
+      const manifest = manifestOf(files);
+      for (const file of files) {
+        const proof = createMerkleProof(manifest, file.path);
+        expect(proof.root).toBe(manifest.merkle!.root);
+        expect(verifyMerkleProof(proof, manifest.merkle!.root)).toBe(true);
+      }
+    });
+
+    it('should prove the unpaired entry of an odd-sized directory', () => {
+      const manifest = manifestOf(files);
+      const proof = createMerkleProof(manifest, 'docs/d.txt');
+
+      expect(proof.levels).toHaveLength(2);
+      expect(merkleProofRoot(proof)).toBe(manifest.merkle!.root);
+    });
+
+    it('should reject a proof for tampered entry data', () => {
+      const manifest = manifestOf(files);
+      const proof = createMerkleProof(manifest, 'docs/b.txt');
+
+      expect(verifyMerkleProof({ ...proof, entry: { ...proof.entry, size: 11 } }, manifest.merkle!.root)).toBe(false);
+      expect(verifyMerkleProof({ ...proof, entry: { ...proof.entry, path: 'docs/x.txt' } }, manifest.merkle!.root)).toBe(false);
+      expect(verifyMerkleProof({ ...proof, levels: proof.levels.slice(1) }, manifest.merkle!.root)).toBe(false);
+    });
+
+    it('should reject a proof against a different root', () => {
+      const manifest = manifestOf(files);
+      const proof = createMerkleProof(manifest, 'a.txt');
+      expect(verifyMerkleProof(proof, computeMerkleTree(files.slice(1)).root)).toBe(false);
+    });
+
+    it('should refuse paths not in the manifest', () => {
+      expect(() => createMerkleProof(manifestOf(files), 'missing.txt')).toThrow('is not in the manifest');
+    });
+
+    it('should refuse manifests whose stored root does not match', () => {
+      const manifest = manifestOf(files);
+      manifest.files[0] = entry('a.txt', 'f'.repeat(16));
+      expect(() => createMerkleProof(manifest, 'a.txt')).toThrow('does not match its entries');
+    });
+  });
+
+  describe('identicalSubtrees', () => {
+    it('should return the top when the roots match', () => {
+      expect(identicalSubtrees(computeMerkleTree(files), computeMerkleTree(files))).toEqual(['']);
+    });
+
+    it('should return the top-most identical directories', () => {
+      const changed = computeMerkleTree([entry('a.txt', '0'.repeat(16)), ...files.slice(1)]);
+      expect(identicalSubtrees(computeMerkleTree(files), changed)).toEqual(['docs', 'media']);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * ASC MHL History Tests
+ * Tests for ASC MHL v2 generations, the chain file and nested histories
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import * as crypto from 'node:crypto';
+import {
+  createMhlGeneration,
+  verifyMhlHistory,
+  loadMhlHistory,
+  hashMhlFormats,
+  ascMhlToXml,
+  parseAscMhlXml,
+  ASC_MHL_FOLDER,
+  ASC_MHL_CHAIN_FILE
+} from '../../src/services/mhl/index.js';
+import { convertFixityList } from '../../src/services/convert.js';
+import { c4Id } from '../../src/core/digests.js';
+
+describe('ASC MHL History', () => {
+  let tempDir: string;
+  let root: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wnb-mhl-history-test-'));
+    root = path.join(tempDir, 'A002R2EC');
+    await fs.mkdir(path.join(root, 'Clips'), { recursive: true });
+    await fs.mkdir(path.join(root, 'Sound'), { recursive: true });
+    await fs.writeFile(path.join(root, 'Clips', 'A002C006.mov'), 'clip six');
+    await fs.writeFile(path.join(root, 'Clips', 'A002C007.mov'), 'clip seven');
+    await fs.writeFile(path.join(root, 'Sound', 'take1.wav'), 'sound');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should compute the spec hash formats', async () => {
+    expect(c4Id(crypto.createHash('sha512').digest())).toBe(
+      'c459dsjfscH38cYeXXYogktxf4Cd9ibshE3BHUo6a58hBXmRQdZrAkZzsWcbWtDg5oQstpDuni4Hirj75GEmTc1sFT'
+    );
+
+    const empty = path.join(tempDir, 'empty');
+    await fs.writeFile(empty, '');
+    const { hashes } = await hashMhlFormats(empty, ['xxh64', 'xxh3', 'xxh128', 'sha1']);
+    expect(hashes).toEqual({
+      xxh64: 'ef46db3751d8e999',
+      xxh3: '2d06800538d394c2',
+      xxh128: '99aa06d3014798d86001c324468d497f',
+      sha1: 'da39a3ee5e6b4b0d3255bfef95601890afd80709'
+    });
+  });
+
+  it('should write numbered generations and a chain', async () => {
+    const first = await createMhlGeneration(root);
+    expect(first.sequenceNumber).toBe(1);
+    expect(path.basename(first.generationPath)).toMatch(/^0001_A002R2EC_\d{4}-\d{2}-\d{2}_\d{6}Z\.mhl$/);
+    expect(first.original).toEqual(['Clips/A002C006.mov', 'Clips/A002C007.mov', 'Sound/take1.wav']);
+
+    const second = await createMhlGeneration(root);
+    expect(second.sequenceNumber).toBe(2);
+    expect(second.verified).toHaveLength(3);
+
+    const history = await loadMhlHistory(root);
+    expect(history.chain.map(c => c.sequenceNumber)).toEqual([1, 2]);
+    expect(history.generations[1].generation.hashes[0].hashes[0]).toMatchObject({ format: 'xxh64', action: 'verified' });
+
+    const result = await verifyMhlHistory(root);
+    expect(result).toMatchObject({ valid: true, generations: 2, chainErrors: [], failed: [], missing: [], newFiles: [] });
+  });
+
+  it('should round-trip a generation through XML', async () => {
+    const { generationPath } = await createMhlGeneration(root, { hashFormat: 'c4' });
+    const xml = await fs.readFile(generationPath, 'utf-8');
+    expect(xml).toContain('<hashlist version="2.0" xmlns="urn:ASC:MHL:v2.0">');
+    expect(ascMhlToXml(parseAscMhlXml(xml))).toBe(xml);
+  });
+
+  it('should record renamed and missing files', async () => {
+    await createMhlGeneration(root);
+    await fs.rename(path.join(root, 'Clips', 'A002C006.mov'), path.join(root, 'Clips', 'renamed.mov'));
+    await fs.rm(path.join(root, 'Clips', 'A002C007.mov'));
+
+    const result = await createMhlGeneration(root, { hashFormat: 'md5' });
+    expect(result.renamed).toEqual([{ from: 'Clips/A002C006.mov', to: 'Clips/renamed.mov' }]);
+    expect(result.missing).toEqual(['Clips/A002C007.mov']);
+    expect(result.verified).toEqual(['Sound/take1.wav']);
+
+    const generation = (await loadMhlHistory(root)).generations[1].generation;
+    const renamed = generation.hashes.find(h => h.path === 'Clips/renamed.mov')!;
+    expect(renamed.previousPath).toBe('Clips/A002C006.mov');
+    expect(renamed.hashes.map(h => [h.format, h.action])).toEqual([['xxh64', 'verified'], ['md5', 'original']]);
+    expect(generation.creatorInfo.comment).toContain('1 files');
+
+    // The deletion was recorded; the next generation no longer expects the file
+    expect((await createMhlGeneration(root)).missing).toEqual([]);
+    expect((await verifyMhlHistory(root)).valid).toBe(true);
+  });
+
+  it('should report changed, missing and new files on verify', async () => {
+    await createMhlGeneration(root);
+    await fs.writeFile(path.join(root, 'Clips', 'A002C006.mov'), 'clip 6!!');
+    await fs.rm(path.join(root, 'Sound', 'take1.wav'));
+    await fs.writeFile(path.join(root, 'Clips', 'extra.mov'), 'extra');
+
+    const result = await verifyMhlHistory(root);
+    expect(result.valid).toBe(false);
+    expect(result.failed).toEqual(['Clips/A002C006.mov']);
+    expect(result.missing).toEqual(['Sound/take1.wav']);
+    expect(result.newFiles).toEqual(['Clips/extra.mov']);
+
+    const next = await createMhlGeneration(root);
+    expect(next.failed).toEqual(['Clips/A002C006.mov']);
+    const entry = (await loadMhlHistory(root)).generations[1].generation.hashes.find(h => h.path === 'Clips/A002C006.mov')!;
+    expect(entry.hashes[0].action).toBe('failed');
+  });
+
+  it('should detect a modified, removed or unchained generation', async () => {
+    const { generationPath } = await createMhlGeneration(root);
+    await createMhlGeneration(root);
+
+    const xml = await fs.readFile(generationPath, 'utf-8');
+    await fs.writeFile(generationPath, xml.replace('<hostname>', '<hostname>x'));
+    expect((await verifyMhlHistory(root)).chainErrors).toEqual([
+      `${path.basename(generationPath)} was modified after it was written (C4 mismatch)`
+    ]);
+
+    await fs.writeFile(generationPath, xml);
+    const chainPath = path.join(root, ASC_MHL_FOLDER, ASC_MHL_CHAIN_FILE);
+    const chain = await fs.readFile(chainPath, 'utf-8');
+    await fs.writeFile(chainPath, chain.replace(/ {2}<hashlist sequencenr="2">[\s\S]*?<\/hashlist>\n/, ''));
+    const result = await verifyMhlHistory(root);
+    expect(result.valid).toBe(false);
+    expect(result.chainErrors[0]).toMatch(/^0002_.*is not in the chain$/);
+  });
+
+  it('should keep nested histories and reference them from the parent', async () => {
+    const sound = path.join(root, 'Sound');
+    await createMhlGeneration(sound);
+
+    const result = await createMhlGeneration(root);
+    expect(result.original).toEqual(['Clips/A002C006.mov', 'Clips/A002C007.mov']);
+    expect(result.children).toHaveLength(1);
+    expect(result.children[0]).toMatchObject({ root: sound, sequenceNumber: 2, verified: ['take1.wav'] });
+
+    const parent = (await loadMhlHistory(root)).generations[0].generation;
+    expect(parent.references).toHaveLength(1);
+    expect(parent.references[0].path).toBe(`Sound/${ASC_MHL_FOLDER}/${path.basename(result.children[0].generationPath)}`);
+
+    await fs.writeFile(path.join(sound, 'take1.wav'), 'noise');
+    const verify = await verifyMhlHistory(root);
+    expect(verify.valid).toBe(false);
+    expect(verify.failed).toEqual([]);
+    expect(verify.children[0].failed).toEqual(['take1.wav']);
+
+    // A later child generation the parent does not reference breaks the reference
+    await fs.writeFile(path.join(sound, 'take1.wav'), 'sound');
+    await createMhlGeneration(sound);
+    expect((await verifyMhlHistory(root)).chainErrors).toEqual([]);
+    const generation = result.children[0].generationPath;
+    await fs.appendFile(generation, '\n');
+    expect((await verifyMhlHistory(root)).chainErrors).toEqual([
+      `Sound/${ASC_MHL_FOLDER}/${path.basename(generation)} does not match its reference (C4 mismatch)`
+    ]);
+  });
+
+  it('should convert a generation to a manifest', async () => {
+    const { generationPath } = await createMhlGeneration(root, { hashFormat: 'md5' });
+    const manifest = JSON.parse((await convertFixityList(generationPath, 'json')).output);
+    expect(manifest.root).toBe(root);
+    expect(manifest.algorithms).toEqual(['md5']);
+    expect(manifest.files.map((f: { path: string }) => f.path)).toEqual(['Clips/A002C006.mov', 'Clips/A002C007.mov', 'Sound/take1.wav']);
+  });
+});
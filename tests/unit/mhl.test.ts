@@ -35,7 +35,7 @@ describe('MHL Service', () => {
 
       const doc = await generateMhl(tempDir);
 
-      expect(doc.version).toBe('2.0');
+      expect(doc.version).toBe('1.1');
       expect(doc.creatorInfo.name).toBe('wake-n-blake');
       expect(doc.hashes).toHaveLength(2);
       expect(doc.hashes[0].file).toBeDefined();
@@ -92,7 +92,7 @@ describe('MHL Service', () => {
       const xml = mhlToXml(doc);
 
       expect(xml).toContain('<?xml version="1.0"');
-      expect(xml).toContain('<hashlist version="2.0">');
+      expect(xml).toContain('<hashlist version="1.1">');
       expect(xml).toContain('<creatorinfo>');
       expect(xml).toContain('<hash>');
       expect(xml).toContain('</hashlist>');
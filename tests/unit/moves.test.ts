@@ -0,0 +1,74 @@
+/**
+ * Move Detection Tests
+ * Tests for matching removed and added paths by content
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectMoves, type HashedPath } from '../../src/core/moves.js';
+
+function file(path: string, hash: string, size: number = 10): HashedPath {
+  return { path, hash, size };
+}
+
+describe('detectMoves', () => {
+  it('should tell renames in place from moves to another directory', () => {
+    const result = detectMoves(
+      [file('docs/a.txt', 'aa'), file('docs/b.txt', 'bb')],
+      [file('docs/a-final.txt', 'aa'), file('archive/b.txt', 'bb')]
+    );
+
+    expect(result.renamed).toEqual([{ from: 'docs/a.txt', to: 'docs/a-final.txt', hash: 'aa' }]);
+    expect(result.moved).toEqual([{ from: 'docs/b.txt', to: 'archive/b.txt', hash: 'bb' }]);
+    expect(result.removed).toEqual([]);
+    expect(result.added).toEqual([]);
+  });
+
+  it('should leave unmatched paths as removed and added', () => {
+    const result = detectMoves([file('old.txt', 'aa')], [file('new.txt', 'bb')]);
+    expect(result.removed).toEqual(['old.txt']);
+    expect(result.added).toEqual(['new.txt']);
+  });
+
+  it('should report extra paths with the same content as copies', () => {
+    const result = detectMoves(
+      [file('a/x.mov', 'aa')],
+      [file('b/x.mov', 'aa'), file('c/x.mov', 'aa'), file('backup/k.txt', 'kk')],
+      [file('k.txt', 'kk')]
+    );
+
+    expect(result.moved).toEqual([{ from: 'a/x.mov', to: 'b/x.mov', hash: 'aa' }]);
+    expect(result.copied).toEqual([
+      { from: 'a/x.mov', to: 'c/x.mov', hash: 'aa' },
+      { from: 'k.txt', to: 'backup/k.txt', hash: 'kk' }
+    ]);
+  });
+
+  it('should pair files that keep their name first', () => {
+    const result = detectMoves(
+      [file('a/one.wav', 'ss'), file('a/two.wav', 'ss')],
+      [file('b/a.wav', 'ss'), file('b/two.wav', 'ss')]
+    );
+
+    expect(result.moved).toContainEqual({ from: 'a/two.wav', to: 'b/two.wav', hash: 'ss' });
+    expect(result.moved).toContainEqual({ from: 'a/one.wav', to: 'b/a.wav', hash: 'ss' });
+  });
+
+  it('should never match empty files', () => {
+    const result = detectMoves([file('a/.keep', 'e0', 0)], [file('b/.keep', 'e0', 0)]);
+    expect(result.moved).toEqual([]);
+    expect(result.removed).toEqual(['a/.keep']);
+    expect(result.added).toEqual(['b/.keep']);
+  });
+
+  it('should hint at directories that moved wholesale', () => {
+    const result = detectMoves(
+      [file('2024/shoot/a.mov', '01'), file('2024/shoot/b.mov', '02'), file('2024/shoot/raw/c.mov', '03')],
+      [file('archive/shoot/a.mov', '01'), file('archive/shoot/b.mov', '02'), file('archive/shoot/raw/c.mov', '03')],
+      [file('2024/shoot/notes.txt', 'nn')]
+    );
+
+    expect(result.movedDirectories).toEqual([
+      { from: '2024/shoot', to: 'archive/shoot', files: 3, similarity: 0.75 }
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Signing Tests
+ * Tests for Ed25519 key pairs, detached signatures and trust checks
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  generateSigningKeyPair,
+  loadPrivateKey,
+  loadPublicKey,
+  resolveTrustedKeys,
+  signingKeyId,
+  signFile,
+  readSignature,
+  verifyFileSignature,
+  findSignableFiles
+} from '../../src/core/signing.js';
+import { resetConfigCache } from '../../src/core/config.js';
+
+describe('Signing', () => {
+  let tempDir: string;
+  let manifest: string;
+  let keyBase: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wnb-signing-test-'));
+    manifest = path.join(tempDir, 'manifest.json');
+    keyBase = path.join(tempDir, 'keys', 'studio');
+    await fs.writeFile(manifest, JSON.stringify({ version: '1.0', files: [] }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should generate a key pair with a private key readable only by the owner', async () => {
+    const pair = await generateSigningKeyPair(keyBase);
+
+    expect(pair.keyId).toMatch(/^[a-f0-9]{16}$/);
+    expect((await fs.stat(pair.privateKeyPath)).mode & 0o777).toBe(0o600);
+    expect(signingKeyId(await loadPublicKey(pair.publicKeyPath))).toBe(pair.keyId);
+    expect(signingKeyId(await loadPrivateKey(pair.privateKeyPath))).toBe(pair.keyId);
+  });
+
+  it('should not overwrite existing keys without force', async () => {
+    await generateSigningKeyPair(keyBase);
+    await expect(generateSigningKeyPair(keyBase)).rejects.toThrow('EEXIST');
+    await expect(generateSigningKeyPair(keyBase, true)).resolves.toBeDefined();
+  });
+
+  it('should write a detached signature next to the file', async () => {
+    const pair = await generateSigningKeyPair(keyBase);
+    const { signaturePath } = await signFile(manifest, await loadPrivateKey(pair.privateKeyPath));
+
+    expect(signaturePath).toBe(`${manifest}.sig`);
+    const signature = await readSignature(signaturePath);
+    expect(signature.keyId).toBe(pair.keyId);
+    expect(signature.file).toBe('manifest.json');
+  });
+
+  describe('verifyFileSignature', () => {
+    it('should accept a signature from a trusted key', async () => {
+      const pair = await generateSigningKeyPair(keyBase);
+      await signFile(manifest, await loadPrivateKey(pair.privateKeyPath));
+
+      const result = await verifyFileSignature(manifest, [await loadPublicKey(pair.publicKeyPath)]);
+      expect(result.status).toBe('valid');
+      expect(result.keyId).toBe(pair.keyId);
+    });
+
+    it('should detect a file edited after signing', async () => {
+      const pair = await generateSigningKeyPair(keyBase);
+      await signFile(manifest, await loadPrivateKey(pair.privateKeyPath));
+      await fs.writeFile(manifest, JSON.stringify({ version: '1.0', files: [{ path: 'x' }] }));
+
+      const result = await verifyFileSignature(manifest, [await loadPublicKey(pair.publicKeyPath)]);
+      expect(result.status).toBe('invalid');
+      expect(result.reason).toBe('file changed after signing');
+    });
+
+    it('should detect an edited signature', async () => {
+      const pair = await generateSigningKeyPair(keyBase);
+      const { signaturePath, signature } = await signFile(manifest, await loadPrivateKey(pair.privateKeyPath));
+      await fs.writeFile(signaturePath, JSON.stringify({ ...signature, signed: new Date(0).toISOString() }));
+
+      const result = await verifyFileSignature(manifest, [await loadPublicKey(pair.publicKeyPath)]);
+      expect(result.status).toBe('invalid');
+      expect(result.reason).toBe('signature does not verify');
+    });
+
+    it('should report intact signatures from unknown keys as untrusted', async () => {
+      const signer = await generateSigningKeyPair(keyBase);
+      const other = await generateSigningKeyPair(path.join(tempDir, 'keys', 'other'));
+      await signFile(manifest, await loadPrivateKey(signer.privateKeyPath));
+
+      const result = await verifyFileSignature(manifest, [await loadPublicKey(other.publicKeyPath)]);
+      expect(result.status).toBe('untrusted');
+    });
+
+    it('should report unsigned files', async () => {
+      expect((await verifyFileSignature(manifest, [])).status).toBe('unsigned');
+    });
+
+    it('should reject files that are not signatures', async () => {
+      await fs.writeFile(`${manifest}.sig`, 'not json');
+      const result = await verifyFileSignature(manifest, []);
+      expect(result.status).toBe('invalid');
+      expect(result.reason).toContain('not a wnb signature file');
+    });
+  });
+
+  it('should read trusted keys from the environment', async () => {
+    const a = await generateSigningKeyPair(keyBase);
+    const b = await generateSigningKeyPair(path.join(tempDir, 'keys', 'other'));
+    process.env.WNB_TRUSTED_KEYS = [a.publicKeyPath, b.publicKeyPath].join(path.delimiter);
+    resetConfigCache();
+
+    try {
+      const keys = await resolveTrustedKeys();
+      expect(keys.map(signingKeyId)).toEqual([a.keyId, b.keyId]);
+    } finally {
+      delete process.env.WNB_TRUSTED_KEYS;
+      resetConfigCache();
+    }
+  });
+
+  describe('findSignableFiles', () => {
+    it('should pick the tag manifests of a bag', async () => {
+      const bag = path.join(tempDir, 'bag');
+      await fs.mkdir(bag);
+      for (const name of ['bagit.txt', 'manifest-sha256.txt', 'tagmanifest-sha512.txt', 'tagmanifest-sha256.txt']) {
+        await fs.writeFile(path.join(bag, name), '');
+      }
+
+      expect(await findSignableFiles(bag)).toEqual([
+        path.join(bag, 'tagmanifest-sha256.txt'),
+        path.join(bag, 'tagmanifest-sha512.txt')
+      ]);
+    });
+
+    it('should pick manifest.json of a directory and files as given', async () => {
+      expect(await findSignableFiles(tempDir)).toEqual([manifest]);
+      expect(await findSignableFiles(manifest)).toEqual([manifest]);
+    });
+
+    it('should refuse directories with nothing to sign', async () => {
+      const empty = path.join(tempDir, 'empty');
+      await fs.mkdir(empty);
+      await expect(findSignableFiles(empty)).rejects.toThrow('Nothing to sign');
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Sync Tests
+ * Tests for one-way mirroring: planning, copies, moves, deletion policies and manifests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { planSync, runSync, resolveDeletePolicy } from '../../src/services/sync.js';
+import type { Manifest } from '../../src/schemas/index.js';
+
+describe('Sync', () => {
+  let tempDir: string;
+  let source: string;
+  let dest: string;
+
+  async function write(root: string, relativePath: string, content: string): Promise<void> {
+    const file = path.join(root, relativePath);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, content);
+  }
+
+  async function exists(file: string): Promise<boolean> {
+    return fs.access(file).then(() => true, () => false);
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wnb-sync-test-'));
+    source = path.join(tempDir, 'source');
+    dest = path.join(tempDir, 'dest');
+
+    // Source is the desired state; dest is an older replica
+    await write(source, 'same.txt', 'unchanged');
+    await write(source, 'changed.txt', 'version 2');
+    await write(source, 'added.txt', 'brand new');
+    await write(source, 'renamed/clip.mov', 'moved content');
+
+    await write(dest, 'same.txt', 'unchanged');
+    await write(dest, 'changed.txt', 'version 1');
+    await write(dest, 'old/clip.mov', 'moved content');
+    await write(dest, 'gone/removed.txt', 'no longer in source');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should classify new, modified, moved and deleted files', async () => {
+    const plan = await planSync(source, dest);
+
+    const byChange = (change: string) => plan.operations.filter(op => op.change === change).map(op => op.path);
+    expect(byChange('new')).toEqual(['added.txt']);
+    expect(byChange('modified')).toEqual(['changed.txt']);
+    expect(byChange('moved')).toEqual(['renamed/clip.mov']);
+    expect(plan.operations.find(op => op.change === 'moved')?.from).toBe('old/clip.mov');
+    expect(byChange('deleted')).toEqual(['gone/removed.txt']);
+    expect(plan.unchanged).toBe(1);
+    expect(plan.bytesToCopy).toBe('version 2'.length + 'brand new'.length);
+  });
+
+  it('should not change anything when planning', async () => {
+    await planSync(source, dest);
+
+    expect(await exists(path.join(dest, 'added.txt'))).toBe(false);
+    expect(await exists(path.join(dest, 'manifest.json'))).toBe(false);
+    expect(await fs.readFile(path.join(dest, 'changed.txt'), 'utf-8')).toBe('version 1');
+  });
+
+  it('should copy changes and rename moved files in place', async () => {
+    const movedInode = (await fs.stat(path.join(dest, 'old/clip.mov'))).ino;
+
+    const result = await runSync(source, dest);
+
+    expect(result.failed).toEqual([]);
+    expect(await fs.readFile(path.join(dest, 'added.txt'), 'utf-8')).toBe('brand new');
+    expect(await fs.readFile(path.join(dest, 'changed.txt'), 'utf-8')).toBe('version 2');
+    expect((await fs.stat(path.join(dest, 'renamed/clip.mov'))).ino).toBe(movedInode);
+    expect(await exists(path.join(dest, 'old'))).toBe(false);
+    expect(result.bytesCopied).toBe('version 2'.length + 'brand new'.length);
+  });
+
+  it('should only report deletions by default', async () => {
+    await runSync(source, dest);
+    expect(await exists(path.join(dest, 'gone/removed.txt'))).toBe(true);
+  });
+
+  it('should delete files and prune emptied directories with the delete policy', async () => {
+    const result = await runSync(source, dest, { deletePolicy: 'delete' });
+
+    expect(result.completed.some(op => op.change === 'deleted')).toBe(true);
+    expect(await exists(path.join(dest, 'gone'))).toBe(false);
+  });
+
+  it('should move deleted files into a timestamped trash directory', async () => {
+    const trash = path.join(tempDir, 'trash');
+    const result = await runSync(source, dest, { deletePolicy: 'trash', trashDir: trash });
+
+    expect(result.trashDir).toBeDefined();
+    expect(path.dirname(result.trashDir!)).toBe(trash);
+    expect(await fs.readFile(path.join(result.trashDir!, 'gone/removed.txt'), 'utf-8')).toBe('no longer in source');
+    expect(await exists(path.join(dest, 'gone/removed.txt'))).toBe(false);
+  });
+
+  it('should write manifests for both sides', async () => {
+    await runSync(source, dest, { deletePolicy: 'delete' });
+
+    const sourceManifest = JSON.parse(await fs.readFile(path.join(source, 'manifest.json'), 'utf-8')) as Manifest;
+    const destManifest = JSON.parse(await fs.readFile(path.join(dest, 'manifest.json'), 'utf-8')) as Manifest;
+
+    const paths = ['added.txt', 'changed.txt', 'renamed/clip.mov', 'same.txt'];
+    expect(sourceManifest.files.map(f => f.path)).toEqual(paths);
+    expect(destManifest.files.map(f => f.path)).toEqual(paths);
+    expect(destManifest.files.map(f => f.hash)).toEqual(sourceManifest.files.map(f => f.hash));
+    expect(destManifest.root).toBe(dest);
+  });
+
+  it('should find nothing to do after a sync', async () => {
+    await runSync(source, dest, { deletePolicy: 'delete' });
+    const plan = await planSync(source, dest);
+
+    expect(plan.operations).toEqual([]);
+    expect(plan.unchanged).toBe(4);
+  });
+
+  it('should sync into a destination that does not exist yet', async () => {
+    const fresh = path.join(tempDir, 'fresh');
+    const result = await runSync(source, fresh);
+
+    expect(result.plan.operations.every(op => op.change === 'new')).toBe(true);
+    expect(await fs.readFile(path.join(fresh, 'renamed/clip.mov'), 'utf-8')).toBe('moved content');
+  });
+
+  it('should refuse nested source and destination', async () => {
+    await expect(planSync(source, path.join(source, 'inner'))).rejects.toThrow('must not contain each other');
+  });
+
+  it('should refuse v2 manifests', async () => {
+    await fs.writeFile(path.join(dest, 'manifest.json'), JSON.stringify({ version: '2.0', algorithms: ['sha256'], files: [] }));
+    await expect(planSync(source, dest)).rejects.toThrow('sync maintains v1 manifests');
+  });
+
+  it('should resolve the delete policy from options', () => {
+    expect(resolveDeletePolicy({})).toBe('report');
+    expect(resolveDeletePolicy({ delete: true })).toBe('delete');
+    expect(resolveDeletePolicy({ trash: '/tmp/trash' })).toBe('trash');
+    expect(() => resolveDeletePolicy({ delete: true, trash: '/tmp/trash' })).toThrow('cannot be combined');
+  });
+});
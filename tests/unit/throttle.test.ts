@@ -0,0 +1,142 @@
+/**
+ * Throttle Tests
+ * Tests for rate parsing, the shared rate limiter and throttled copies
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  RateLimiter,
+  parseRate,
+  formatRate,
+  throttle,
+  configureRateLimits,
+  getCopyLimiter,
+  getReadLimiter
+} from '../../src/core/throttle.js';
+import { copyWithHash } from '../../src/core/copier.js';
+
+describe('Throttle', () => {
+  afterEach(() => {
+    configureRateLimits({ copy: 0, read: 0 });
+  });
+
+  describe('parseRate', () => {
+    it('should parse binary suffixes', () => {
+      expect(parseRate('512')).toBe(512);
+      expect(parseRate('500K')).toBe(500 * 1024);
+      expect(parseRate('50M')).toBe(50 * 1024 * 1024);
+      expect(parseRate('1.5g')).toBe(1.5 * 1024 ** 3);
+    });
+
+    it('should accept unit and per-second forms', () => {
+      expect(parseRate('50MB/s')).toBe(50 * 1024 * 1024);
+      expect(parseRate('50MiB')).toBe(50 * 1024 * 1024);
+      expect(parseRate(' 10k/s ')).toBe(10 * 1024);
+    });
+
+    it('should treat zero as unlimited', () => {
+      expect(parseRate('0')).toBe(0);
+    });
+
+    it('should reject invalid rates', () => {
+      expect(() => parseRate('fast')).toThrow('Invalid rate');
+      expect(() => parseRate('-5M')).toThrow('Invalid rate');
+      expect(() => parseRate('0.1')).toThrow('at least 1 byte');
+    });
+  });
+
+  it('should format rates', () => {
+    expect(formatRate(512)).toBe('512 B/s');
+    expect(formatRate(50 * 1024 * 1024)).toBe('50.0 MB/s');
+  });
+
+  describe('RateLimiter', () => {
+    it('should reject non-positive rates', () => {
+      expect(() => new RateLimiter(0)).toThrow('Invalid rate limit');
+    });
+
+    it('should pace consumers to the configured rate', async () => {
+      const limiter = new RateLimiter(100 * 1024);
+      const start = performance.now();
+
+      // 4 x 10KB at 100KB/s: the first is immediate, the last starts after ~300ms
+      for (let i = 0; i < 4; i++) {
+        await limiter.consume(10 * 1024);
+      }
+
+      const elapsed = performance.now() - start;
+      expect(elapsed).toBeGreaterThanOrEqual(250);
+      expect(elapsed).toBeLessThan(1500);
+    });
+
+    it('should share one budget between concurrent consumers', async () => {
+      const limiter = new RateLimiter(100 * 1024);
+      const other = RateLimiter.fromShared(limiter.share());
+      const start = performance.now();
+
+      await Promise.all([
+        limiter.consume(10 * 1024).then(() => limiter.consume(10 * 1024)),
+        other.consume(10 * 1024).then(() => other.consume(10 * 1024))
+      ]);
+
+      expect(performance.now() - start).toBeGreaterThanOrEqual(250);
+    });
+  });
+
+  it('should pass chunks through throttle unchanged', async () => {
+    async function* chunks(): AsyncGenerator<Buffer> {
+      yield Buffer.from('a');
+      yield Buffer.from('bc');
+    }
+
+    const received: string[] = [];
+    for await (const chunk of throttle(chunks(), new RateLimiter(1024 * 1024))) {
+      received.push(chunk.toString());
+    }
+    expect(received).toEqual(['a', 'bc']);
+  });
+
+  it('should configure and clear the shared limiters', () => {
+    configureRateLimits({ copy: 1024 });
+    expect(getCopyLimiter()?.bytesPerSecond).toBe(1024);
+    expect(getReadLimiter()).toBeNull();
+
+    configureRateLimits({ read: 2048 });
+    expect(getCopyLimiter()?.bytesPerSecond).toBe(1024);
+    expect(getReadLimiter()?.bytesPerSecond).toBe(2048);
+
+    configureRateLimits({ copy: 0 });
+    expect(getCopyLimiter()).toBeNull();
+  });
+
+  describe('throttled copy', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wnb-throttle-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should limit copy and verification reads', async () => {
+      const source = path.join(tempDir, 'source.bin');
+      const destination = path.join(tempDir, 'copy.bin');
+      const data = Buffer.alloc(64 * 1024, 7);
+      await fs.writeFile(source, data);
+
+      configureRateLimits({ copy: 128 * 1024 });
+      const start = performance.now();
+      const result = await copyWithHash(source, destination);
+
+      // 64KB copied + 64KB verified at 128KB/s
+      expect(performance.now() - start).toBeGreaterThanOrEqual(400);
+      expect(result.verified).toBe(true);
+      expect((await fs.readFile(destination)).equals(data)).toBe(true);
+    });
+  });
+});
@@ -158,6 +158,18 @@ describe('XMP Reader', () => {
       expect(result.data.photo?.iso).toBe(800);
     });
 
+    it('should round-trip the chunk map in order', () => {
+      const data = createMinimalSidecarData();
+      data.chunkSize = 16 * 1024 * 1024;
+      data.chunkHashes = ['1111111111111111', '2222222222222222', '3333333333333333'];
+      const content = generateXmpContent(data);
+
+      const result = parseSidecarContent(content);
+
+      expect(result.data.chunkSize).toBe(16 * 1024 * 1024);
+      expect(result.data.chunkHashes).toEqual(data.chunkHashes);
+    });
+
     it('should handle missing optional fields', () => {
       const data = createMinimalSidecarData();
       // No photo, video, audio, or document metadata